@@ -6,22 +6,32 @@
  */
 import 'react-native-gesture-handler';
 import 'react-native-screens';
-import React, { useState, useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { View, ActivityIndicator, StatusBar, useColorScheme as useDeviceColorScheme } from 'react-native';
+import { View, ActivityIndicator, StatusBar, Alert, useColorScheme as useDeviceColorScheme } from 'react-native';
 import AppNavigator from './src/navigation/AppNavigator';
 import { getAuthStatusWithRole } from './src/services/auth';
 import { RootStackParamList } from './src/navigation/types';
+import { createLinking } from './src/navigation/linking';
 import { AuthProvider } from './src/context/AuthContext';
 import { ChatProvider } from './src/context/ChatContext';
 import { UploadQueueProvider } from './src/context/UploadQueueContext';
+import { NetworkProvider } from './src/context/NetworkContext';
+import { OutboxProvider } from './src/context/OutboxContext';
+import { WatchlistProvider } from './src/context/WatchlistContext';
+import { CompareProvider } from './src/context/CompareContext';
+import { AppLockProvider } from './src/context/AppLockContext';
 import { ToastProvider } from './src/components/ui/ToastManager';
 import { ThemeProvider, useTheme } from './src/theme/ThemeContext';
 import { ApolloProvider } from '@apollo/client/react';
 import { client } from './src/services/graphql';
 import { AnalyticsService } from './src/services/AnalyticsService';
+import { sessionManager } from './src/services/SessionManager';
+import { MockBackend } from './src/services/mock/MockBackend';
+import { EnvironmentService } from './src/services/EnvironmentService';
+import { SESSION_REVOKED_MESSAGE } from './src/services/ApiClient';
 
 function App() {
   const [initialRoute, setInitialRoute] = useState<keyof RootStackParamList | null>(null);
@@ -29,6 +39,9 @@ function App() {
   useEffect(() => {
     const checkAuthStatus = async () => {
       try {
+        // Must resolve before any request so it reaches the right backend
+        await Promise.all([EnvironmentService.init(), MockBackend.init()]);
+
         // Initialize analytics
         await AnalyticsService.initialize();
         AnalyticsService.track('APP_OPEN');
@@ -72,25 +85,51 @@ function App() {
     <SafeAreaProvider>
 
       <ThemeProvider>
-        <ToastProvider>
-          <AuthProvider>
-            <UploadQueueProvider>
-              <ChatProvider>
-                <ApolloProvider client={client}>
-                  <AppContent initialRoute={initialRoute} />
-                </ApolloProvider>
-              </ChatProvider>
-            </UploadQueueProvider>
-          </AuthProvider>
-        </ToastProvider>
+        <NetworkProvider>
+          <ToastProvider>
+            <OutboxProvider>
+              <AuthProvider>
+                <WatchlistProvider>
+                  <CompareProvider>
+                    <UploadQueueProvider>
+                      <ChatProvider>
+                        <ApolloProvider client={client}>
+                          <AppContent initialRoute={initialRoute} />
+                        </ApolloProvider>
+                      </ChatProvider>
+                    </UploadQueueProvider>
+                  </CompareProvider>
+                </WatchlistProvider>
+              </AuthProvider>
+            </OutboxProvider>
+          </ToastProvider>
+        </NetworkProvider>
       </ThemeProvider>
 
     </SafeAreaProvider>
   );
 }
 
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+const resetToLogin = () => {
+  if (navigationRef.isReady()) {
+    navigationRef.reset({ index: 0, routes: [{ name: 'Login' }] });
+  }
+};
+
 const AppContent = ({ initialRoute }: { initialRoute: keyof RootStackParamList }) => {
   const { theme, isDark } = useTheme();
+  const linking = useMemo(() => createLinking(initialRoute), [initialRoute]);
+
+  // Signed out remotely (device removed from another session)
+  useEffect(() => {
+    return sessionManager.addListener(event => {
+      if (event.type === 'ended' && event.reason === 'REVOKED') {
+        Alert.alert('Signed Out', SESSION_REVOKED_MESSAGE, [{ text: 'OK', onPress: resetToLogin }]);
+      }
+    });
+  }, []);
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
@@ -100,8 +139,10 @@ const AppContent = ({ initialRoute }: { initialRoute: keyof RootStackParamList }
         translucent={false}
         hidden={false}
       />
-      <NavigationContainer>
-        <AppNavigator initialRouteName={initialRoute} />
+      <NavigationContainer ref={navigationRef} linking={linking}>
+        <AppLockProvider onSignOut={resetToLogin}>
+          <AppNavigator initialRouteName={initialRoute} />
+        </AppLockProvider>
       </NavigationContainer>
     </GestureHandlerRootView>
   );
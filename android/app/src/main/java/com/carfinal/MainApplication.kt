@@ -1,6 +1,8 @@
 package com.carfinal
 
 import android.app.Application
+import com.carfinal.photoquality.PhotoQualityPackage
+import com.carfinal.upload.BackgroundUploadPackage
 import com.facebook.react.PackageList
 import com.facebook.react.ReactApplication
 import com.facebook.react.ReactHost
@@ -18,6 +20,8 @@ class MainApplication : Application(), ReactApplication {
             PackageList(this).packages.apply {
               // Packages that cannot be autolinked yet can be added manually here, for example:
               // add(MyReactNativePackage())
+              add(BackgroundUploadPackage())
+              add(PhotoQualityPackage())
             }
 
         override fun getJSMainModuleName(): String = "index"
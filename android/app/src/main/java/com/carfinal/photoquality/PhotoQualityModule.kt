@@ -0,0 +1,108 @@
+package com.carfinal.photoquality
+
+import android.graphics.Bitmap
+import android.graphics.BitmapFactory
+import android.graphics.Color
+import android.net.Uri
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.WritableMap
+import java.io.FileInputStream
+import java.io.InputStream
+import java.util.concurrent.Executors
+import kotlin.math.max
+import kotlin.math.roundToInt
+
+/**
+ * Decodes a small grayscale sample of a photo for the quality checks.
+ *
+ * JS side: src/services/PhotoQualityService.ts
+ */
+class PhotoQualityModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+  // One photo at a time keeps decoding off the JS thread without piling up bitmaps
+  private val executor = Executors.newSingleThreadExecutor()
+
+  override fun getName(): String = NAME
+
+  @ReactMethod
+  fun sampleLuminance(uri: String, maxSide: Double, promise: Promise) {
+    executor.execute {
+      try {
+        promise.resolve(sample(uri, maxSide.toInt()))
+      } catch (e: Exception) {
+        promise.reject("E_PHOTO_QUALITY", e.message ?: "Could not read photo", e)
+      }
+    }
+  }
+
+  private fun sample(uri: String, maxSide: Int): WritableMap {
+    val bounds = BitmapFactory.Options().apply { inJustDecodeBounds = true }
+    open(uri).use { BitmapFactory.decodeStream(it, null, bounds) }
+    if (bounds.outWidth <= 0 || bounds.outHeight <= 0) {
+      throw IllegalArgumentException("Not an image: $uri")
+    }
+
+    // Let the decoder skip most pixels, then scale the rest down exactly
+    var inSampleSize = 1
+    while (max(bounds.outWidth, bounds.outHeight) / (inSampleSize * 2) >= maxSide) {
+      inSampleSize *= 2
+    }
+    val decoded = open(uri).use {
+      BitmapFactory.decodeStream(it, null, BitmapFactory.Options().apply { this.inSampleSize = inSampleSize })
+    } ?: throw IllegalArgumentException("Could not decode $uri")
+
+    val scale = maxSide.toFloat() / max(decoded.width, decoded.height)
+    val bitmap = if (scale < 1f) {
+      Bitmap.createScaledBitmap(
+          decoded,
+          max(1, (decoded.width * scale).roundToInt()),
+          max(1, (decoded.height * scale).roundToInt()),
+          true)
+    } else {
+      decoded
+    }
+
+    val width = bitmap.width
+    val height = bitmap.height
+    val colors = IntArray(width * height)
+    bitmap.getPixels(colors, 0, width, 0, 0, width, height)
+    if (bitmap !== decoded) bitmap.recycle()
+    decoded.recycle()
+
+    // Rec. 601 luma
+    val pixels = Arguments.createArray()
+    for (color in colors) {
+      pixels.pushInt((299 * Color.red(color) + 587 * Color.green(color) + 114 * Color.blue(color)) / 1000)
+    }
+
+    return Arguments.createMap().apply {
+      putInt("width", bounds.outWidth)
+      putInt("height", bounds.outHeight)
+      putInt("sampleWidth", width)
+      putInt("sampleHeight", height)
+      putArray("pixels", pixels)
+    }
+  }
+
+  private fun open(uri: String): InputStream =
+      if (uri.startsWith("content://")) {
+        reactApplicationContext.contentResolver.openInputStream(Uri.parse(uri))
+            ?: throw IllegalArgumentException("Could not open $uri")
+      } else {
+        FileInputStream(uri.removePrefix("file://"))
+      }
+
+  override fun invalidate() {
+    executor.shutdown()
+    super.invalidate()
+  }
+
+  companion object {
+    const val NAME = "PhotoQuality"
+  }
+}
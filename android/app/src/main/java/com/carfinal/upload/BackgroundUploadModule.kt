@@ -0,0 +1,49 @@
+package com.carfinal.upload
+
+import android.util.Log
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+
+/**
+ * JS side: src/services/BackgroundUploadService.ts
+ */
+class BackgroundUploadModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = NAME
+
+  /**
+   * Resolves false when the system refuses a foreground service, e.g.
+   * ForegroundServiceStartNotAllowedException while the app is in the
+   * background on Android 12+. Uploads then carry on in the app's process.
+   */
+  @ReactMethod
+  fun start(promise: Promise) {
+    try {
+      UploadForegroundService.start(reactApplicationContext)
+      promise.resolve(true)
+    } catch (e: IllegalStateException) {
+      Log.w(NAME, "Could not start the upload service", e)
+      promise.resolve(false)
+    } catch (e: SecurityException) {
+      Log.w(NAME, "Could not start the upload service", e)
+      promise.resolve(false)
+    }
+  }
+
+  @ReactMethod
+  fun updateProgress(title: String, progress: Double) {
+    UploadForegroundService.updateProgress(reactApplicationContext, title, progress.toInt())
+  }
+
+  @ReactMethod
+  fun stop() {
+    UploadForegroundService.stop(reactApplicationContext)
+  }
+
+  companion object {
+    const val NAME = "BackgroundUpload"
+  }
+}
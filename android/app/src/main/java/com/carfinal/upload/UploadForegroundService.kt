@@ -0,0 +1,109 @@
+package com.carfinal.upload
+
+import android.app.Notification
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.Intent
+import android.content.pm.ServiceInfo
+import android.os.Build
+import android.util.Log
+import androidx.core.app.NotificationCompat
+import androidx.core.app.ServiceCompat
+import com.facebook.react.HeadlessJsTaskService
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.jstasks.HeadlessJsTaskConfig
+
+/**
+ * Foreground service that keeps the process alive while media uploads run,
+ * showing their progress in a notification. It runs the upload queue as a
+ * headless JS task, so after the app is killed the system restarts it and
+ * the persisted queue resumes without the UI.
+ */
+class UploadForegroundService : HeadlessJsTaskService() {
+
+  override fun onStartCommand(intent: Intent?, flags: Int, startId: Int): Int {
+    try {
+      ServiceCompat.startForeground(
+          this,
+          NOTIFICATION_ID,
+          buildNotification(this, DEFAULT_TITLE, 0),
+          if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+            ServiceInfo.FOREGROUND_SERVICE_TYPE_DATA_SYNC
+          } else {
+            0
+          })
+    } catch (e: IllegalStateException) {
+      // Not allowed to go foreground right now (Android 12+ background start limits);
+      // the queue stays saved and resumes the next time the app runs
+      Log.w(TAG, "Could not enter the foreground", e)
+      stopSelf()
+      return START_NOT_STICKY
+    }
+    super.onStartCommand(intent, flags, startId)
+    // Restarted after the process is killed; the task reloads the saved queue
+    return START_STICKY
+  }
+
+  override fun getTaskConfig(intent: Intent?): HeadlessJsTaskConfig =
+      HeadlessJsTaskConfig(TASK_NAME, Arguments.createMap(), 0, true)
+
+  override fun onHeadlessJsTaskFinish(taskId: Int) {
+    super.onHeadlessJsTaskFinish(taskId)
+    ServiceCompat.stopForeground(this, ServiceCompat.STOP_FOREGROUND_REMOVE)
+    stopSelf()
+  }
+
+  companion object {
+    // Must match BACKGROUND_UPLOAD_TASK in BackgroundUploadService.ts
+    const val TASK_NAME = "CarWorldBackgroundUpload"
+    private const val TAG = "UploadForegroundService"
+    private const val CHANNEL_ID = "car_media_uploads"
+    private const val NOTIFICATION_ID = 4201
+    private const val DEFAULT_TITLE = "Uploading car photos"
+
+    fun start(context: Context) {
+      val intent = Intent(context, UploadForegroundService::class.java)
+      if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+        context.startForegroundService(intent)
+      } else {
+        context.startService(intent)
+      }
+    }
+
+    fun stop(context: Context) {
+      context.stopService(Intent(context, UploadForegroundService::class.java))
+    }
+
+    fun updateProgress(context: Context, title: String, progress: Int) {
+      val manager = context.getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+      manager.notify(NOTIFICATION_ID, buildNotification(context, title, progress))
+    }
+
+    private fun buildNotification(context: Context, title: String, progress: Int): Notification {
+      val manager = context.getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+      if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O &&
+          manager.getNotificationChannel(CHANNEL_ID) == null) {
+        manager.createNotificationChannel(
+            NotificationChannel(CHANNEL_ID, "Media uploads", NotificationManager.IMPORTANCE_LOW))
+      }
+
+      val launchIntent = context.packageManager.getLaunchIntentForPackage(context.packageName)
+      val contentIntent =
+          launchIntent?.let {
+            PendingIntent.getActivity(context, 0, it, PendingIntent.FLAG_IMMUTABLE)
+          }
+
+      return NotificationCompat.Builder(context, CHANNEL_ID)
+          .setSmallIcon(android.R.drawable.stat_sys_upload)
+          .setContentTitle(title)
+          .setContentText("$progress%")
+          .setProgress(100, progress, progress == 0)
+          .setOnlyAlertOnce(true)
+          .setOngoing(true)
+          .setContentIntent(contentIntent)
+          .build()
+    }
+  }
+}
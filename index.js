@@ -6,9 +6,14 @@ import { AppRegistry } from 'react-native';
 import { enableScreens, enableFreeze } from 'react-native-screens';
 import App from './App';
 import { name as appName } from './app.json';
+import { BACKGROUND_UPLOAD_TASK } from './src/services/BackgroundUploadService';
+import { UploadQueueService } from './src/services/UploadQueueService';
 
 // Optimize navigation performance and animations
 enableScreens(true);
 enableFreeze(true);
 
 AppRegistry.registerComponent(appName, () => App);
+
+// Run by the Android upload foreground service, with or without the UI
+AppRegistry.registerHeadlessTask(BACKGROUND_UPLOAD_TASK, () => () => UploadQueueService.runUntilIdle());
@@ -0,0 +1,95 @@
+#import <React/RCTBridgeModule.h>
+#import <React/RCTEventEmitter.h>
+#import <UIKit/UIKit.h>
+
+/**
+ * Keeps media uploads running for a while after the app is backgrounded.
+ * iOS grants limited time; on expiry JS is told to pause so the resumable
+ * upload continues from the last confirmed chunk on return.
+ *
+ * JS side: src/services/BackgroundUploadService.ts
+ */
+@interface BackgroundUpload : RCTEventEmitter <RCTBridgeModule>
+@end
+
+@implementation BackgroundUpload {
+  UIBackgroundTaskIdentifier _taskId;
+  BOOL _hasListeners;
+}
+
+RCT_EXPORT_MODULE();
+
+- (instancetype)init
+{
+  if (self = [super init]) {
+    _taskId = UIBackgroundTaskInvalid;
+  }
+  return self;
+}
+
++ (BOOL)requiresMainQueueSetup
+{
+  return NO;
+}
+
+- (dispatch_queue_t)methodQueue
+{
+  return dispatch_get_main_queue();
+}
+
+- (NSArray<NSString *> *)supportedEvents
+{
+  return @[ @"BackgroundUploadExpired" ];
+}
+
+- (void)startObserving
+{
+  _hasListeners = YES;
+}
+
+- (void)stopObserving
+{
+  _hasListeners = NO;
+}
+
+- (void)endBackgroundTask
+{
+  if (_taskId != UIBackgroundTaskInvalid) {
+    [[UIApplication sharedApplication] endBackgroundTask:_taskId];
+    _taskId = UIBackgroundTaskInvalid;
+  }
+}
+
+RCT_EXPORT_METHOD(start:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+{
+  if (_taskId != UIBackgroundTaskInvalid) {
+    resolve(@YES);
+    return;
+  }
+  __weak BackgroundUpload *weakSelf = self;
+  _taskId = [[UIApplication sharedApplication] beginBackgroundTaskWithName:@"CarWorldBackgroundUpload"
+                                                         expirationHandler:^{
+    BackgroundUpload *strongSelf = weakSelf;
+    if (!strongSelf) {
+      return;
+    }
+    if (strongSelf->_hasListeners) {
+      [strongSelf sendEventWithName:@"BackgroundUploadExpired" body:nil];
+    }
+    [strongSelf endBackgroundTask];
+  }];
+  resolve(@(_taskId != UIBackgroundTaskInvalid));
+}
+
+// Progress is shown in the app only; iOS has no ongoing progress notifications
+RCT_EXPORT_METHOD(updateProgress:(NSString *)title progress:(double)progress)
+{
+}
+
+RCT_EXPORT_METHOD(stop)
+{
+  [self endBackgroundTask];
+}
+
+@end
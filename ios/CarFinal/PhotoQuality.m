@@ -0,0 +1,87 @@
+#import <React/RCTBridgeModule.h>
+#import <ImageIO/ImageIO.h>
+#import <UIKit/UIKit.h>
+
+/**
+ * Decodes a small grayscale sample of a photo for the quality checks.
+ *
+ * JS side: src/services/PhotoQualityService.ts
+ */
+@interface PhotoQuality : NSObject <RCTBridgeModule>
+@end
+
+@implementation PhotoQuality
+
+RCT_EXPORT_MODULE();
+
++ (BOOL)requiresMainQueueSetup
+{
+  return NO;
+}
+
+- (dispatch_queue_t)methodQueue
+{
+  // One photo at a time, off the main queue
+  return dispatch_queue_create("com.carworld.photoquality", DISPATCH_QUEUE_SERIAL);
+}
+
+RCT_EXPORT_METHOD(sampleLuminance:(NSString *)uri
+                  maxSide:(double)maxSide
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  NSURL *url = [uri hasPrefix:@"file://"] ? [NSURL URLWithString:uri] : [NSURL fileURLWithPath:uri];
+  CGImageSourceRef source = CGImageSourceCreateWithURL((__bridge CFURLRef)url, NULL);
+  if (!source) {
+    reject(@"E_PHOTO_QUALITY", [NSString stringWithFormat:@"Could not open %@", uri], nil);
+    return;
+  }
+
+  NSDictionary *properties = (__bridge_transfer NSDictionary *)CGImageSourceCopyPropertiesAtIndex(source, 0, NULL);
+  NSNumber *originalWidth = properties[(NSString *)kCGImagePropertyPixelWidth] ?: @0;
+  NSNumber *originalHeight = properties[(NSString *)kCGImagePropertyPixelHeight] ?: @0;
+
+  // ImageIO decodes straight to the small size, without the full bitmap in memory
+  NSDictionary *options = @{
+    (NSString *)kCGImageSourceCreateThumbnailFromImageAlways : @YES,
+    (NSString *)kCGImageSourceCreateThumbnailWithTransform : @YES,
+    (NSString *)kCGImageSourceThumbnailMaxPixelSize : @(maxSide),
+  };
+  CGImageRef image = CGImageSourceCreateThumbnailAtIndex(source, 0, (__bridge CFDictionaryRef)options);
+  CFRelease(source);
+  if (!image) {
+    reject(@"E_PHOTO_QUALITY", [NSString stringWithFormat:@"Could not decode %@", uri], nil);
+    return;
+  }
+
+  size_t width = CGImageGetWidth(image);
+  size_t height = CGImageGetHeight(image);
+  NSMutableData *gray = [NSMutableData dataWithLength:width * height];
+  CGColorSpaceRef colorSpace = CGColorSpaceCreateDeviceGray();
+  CGContextRef context = CGBitmapContextCreate(gray.mutableBytes, width, height, 8, width, colorSpace, kCGImageAlphaNone);
+  CGColorSpaceRelease(colorSpace);
+  if (!context) {
+    CGImageRelease(image);
+    reject(@"E_PHOTO_QUALITY", @"Could not create bitmap context", nil);
+    return;
+  }
+  CGContextDrawImage(context, CGRectMake(0, 0, width, height), image);
+  CGContextRelease(context);
+  CGImageRelease(image);
+
+  const uint8_t *bytes = gray.bytes;
+  NSMutableArray<NSNumber *> *pixels = [NSMutableArray arrayWithCapacity:width * height];
+  for (size_t i = 0; i < width * height; i++) {
+    [pixels addObject:@(bytes[i])];
+  }
+
+  resolve(@{
+    @"width" : originalWidth,
+    @"height" : originalHeight,
+    @"sampleWidth" : @(width),
+    @"sampleHeight" : @(height),
+    @"pixels" : pixels,
+  });
+}
+
+@end
@@ -1,9 +1,10 @@
 import React, { ComponentType, useEffect } from 'react';
 import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { useAuth } from '../../context/AuthContext';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../navigation/types';
+import { rememberPendingRoute } from '../../navigation/linking';
 
 type NavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -21,18 +22,26 @@ export function withAuthProtection<P extends object>(
   return function ProtectedComponent(props: P) {
     const { isAuthenticated, user, isLoading } = useAuth();
     const navigation = useNavigation<NavigationProp>();
+    const route = useRoute();
 
     useEffect(() => {
       if (!isLoading) {
         if (!isAuthenticated) {
-          // Not authenticated, redirect to login
-          navigation.replace(redirectTo);
+          // Not authenticated: come back here after login if a link opened this screen
+          rememberPendingRoute({ name: route.name as keyof RootStackParamList, params: route.params });
+          const { routes, index } = navigation.getState();
+          if (routes[index - 1]?.name === redirectTo) {
+            navigation.goBack();
+          } else {
+            navigation.replace(redirectTo);
+          }
         } else if (requireEmailVerification && user && !user.emailVerified) {
           // Authenticated but email not verified, redirect to email verification
+          rememberPendingRoute({ name: route.name as keyof RootStackParamList, params: route.params });
           navigation.replace('EmailVerificationScreen', { email: user.email });
         }
       }
-    }, [isAuthenticated, user, isLoading, navigation, requireEmailVerification, redirectTo]);
+    }, [isAuthenticated, user, isLoading, navigation, route, requireEmailVerification, redirectTo]);
 
     if (isLoading) {
       return (
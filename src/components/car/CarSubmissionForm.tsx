@@ -32,8 +32,12 @@ import {
     hp,
 } from '../../utils/responsiveEnhanced';
 import apiClient from '../../services/ApiClient';
+import { CAR_BRANDS, CAR_COLORS } from '../../utils/carCatalog';
 import { carApi } from '../../services/CarApi';
+import { describeError, showErrorAlert } from '../../services/ErrorCatalog';
 import { useUploadQueue } from '../../context/UploadQueueContext';
+import { PhotoQualityService, PhotoQualityReport, PhotoToCheck } from '../../services/PhotoQualityService';
+import { PHOTO_QUALITY_MESSAGES } from '../../utils/photoQuality';
 
 // Brand logo imports
 const BRAND_LOGOS: Record<string, any> = {
@@ -70,45 +74,27 @@ const BRAND_LOGOS: Record<string, any> = {
     tataev: require('../../../assets/brand/tataev.png'),
 };
 
-// Car brands with logos
-const CAR_BRANDS = [
-    { id: 'maruti', name: 'Maruti Suzuki' },
-    { id: 'hyundai', name: 'Hyundai' },
-    { id: 'tata', name: 'Tata' },
-    { id: 'mahindra', name: 'Mahindra' },
-    { id: 'honda', name: 'Honda' },
-    { id: 'toyota', name: 'Toyota' },
-    { id: 'kia', name: 'Kia' },
-    { id: 'mg', name: 'MG' },
-    { id: 'skoda', name: 'Skoda' },
-    { id: 'volkswagen', name: 'Volkswagen' },
-    { id: 'nissan', name: 'Nissan' },
-    { id: 'jeep', name: 'Jeep' },
-    { id: 'jaguar', name: 'Jaguar' },
-    { id: 'volvo', name: 'Volvo' },
-    { id: 'mitsubishi', name: 'Mitsubishi' },
-    { id: 'chevrolet', name: 'Chevrolet' },
-    { id: 'landrover', name: 'Land Rover' },
-    { id: 'renault', name: 'Renault' },
-    { id: 'bmw', name: 'BMW' },
-    { id: 'audi', name: 'Audi' },
-    { id: 'citroen', name: 'Citroën' },
-    { id: 'datsun', name: 'Datsun' },
-    { id: 'fiat', name: 'Fiat' },
-    { id: 'force', name: 'Force' },
-    { id: 'ford', name: 'Ford' },
-    { id: 'lexus', name: 'Lexus' },
-    { id: 'mercedes', name: 'Mercedes' },
-    { id: 'mini', name: 'Mini' },
-    { id: 'ferrari', name: 'Ferrari' },
-    { id: 'tataev', name: 'Tata EV' },
-];
-
 const POPULAR_BRANDS = ['maruti', 'hyundai', 'tata', 'mahindra', 'honda', 'toyota'];
 const PREMIUM_BRANDS = ['bmw', 'audi', 'mercedes', 'jaguar', 'landrover', 'volvo'];
 const TOTAL_STEPS = 4;
 const ADD_CAR_DRAFT_KEY = 'car_submission_draft';
 
+// Create-car DTO field -> form field, for highlighting server-side validation errors
+const SUBMISSION_FIELD_ALIASES: Record<string, string> = {
+    make: 'brand',
+    year: 'registrationYear',
+    numberOfOwners: 'ownerNumber',
+    imageUrl: 'images',
+};
+
+// Which wizard step each form field lives on
+const FIELD_STEPS: Record<string, number> = {
+    brand: 1, model: 1, variant: 1, color: 1,
+    registrationYear: 2, fuelType: 2, transmission: 2, ownerNumber: 2, mileage: 2, vin: 2,
+    usage: 3, accidentHistory: 3, repaintedParts: 3, engineIssues: 3, floodDamage: 3, insuranceClaims: 3,
+    price: 4, images: 4, description: 4,
+};
+
 const FUEL_TYPES = [
     { id: 'petrol', name: 'Petrol', icon: 'water-outline' },
     { id: 'diesel', name: 'Diesel', icon: 'flash-outline' },
@@ -129,17 +115,6 @@ const OWNER_OPTIONS = [
     { id: '4', label: '4+ Owners', sublabel: 'Multiple owners' },
 ];
 
-const COLORS = [
-    { id: 'white', name: 'White', hex: '#FFFFFF' },
-    { id: 'black', name: 'Black', hex: '#1A1A1A' },
-    { id: 'silver', name: 'Silver', hex: '#C0C0C0' },
-    { id: 'grey', name: 'Grey', hex: '#808080' },
-    { id: 'red', name: 'Red', hex: '#DC2626' },
-    { id: 'blue', name: 'Blue', hex: '#2563EB' },
-    { id: 'brown', name: 'Brown', hex: '#92400E' },
-    { id: 'green', name: 'Green', hex: '#059669' },
-];
-
 interface FormData {
     brand: string;
     model: string;
@@ -197,6 +172,11 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
     const [showSuggestions, setShowSuggestions] = useState(false);
     const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([]);
     const [selectedVideo, setSelectedVideo] = useState<VideoAsset | null>(null);
+    // Quality check results, keyed by the selected image's uri
+    const [photoReports, setPhotoReports] = useState<Record<string, PhotoQualityReport>>({});
+    // Checks still running; picks can overlap, so a count rather than a flag
+    const [photoChecksRunning, setPhotoChecksRunning] = useState(0);
+    const isCheckingPhotos = photoChecksRunning > 0;
     const [brandSearch, setBrandSearch] = useState('');
     const [showAllBrands, setShowAllBrands] = useState(false);
 
@@ -320,8 +300,11 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
 
             // Compress each selected image
             const compressedImages: SelectedImage[] = [];
+            // The originals, for the quality checks
+            const originals: PhotoToCheck[] = [];
             for (const asset of result.assets) {
                 if (!asset.uri) continue;
+                originals.push({ uri: asset.uri, width: asset.width, height: asset.height });
 
                 try {
                     // Compress using ImageResizer
@@ -366,12 +349,32 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
                 setSelectedImages(prev => [...prev, ...compressedImages]);
             }
 
+            // Warnings show up on the thumbnails once the checks finish
+            checkPhotoQuality(compressedImages.slice(0, 8 - currentCount), originals);
+
         } catch (error: any) {
             console.error('handlePickImages error:', error);
             Alert.alert('Error', 'Failed to pick images');
         }
     };
 
+    const checkPhotoQuality = async (images: SelectedImage[], originals: PhotoToCheck[]) => {
+        setPhotoChecksRunning(count => count + 1);
+        try {
+            const reports = await PhotoQualityService.checkAll(originals.slice(0, images.length));
+            setPhotoReports(prev => ({
+                ...prev,
+                ...Object.fromEntries(images.map((img, i) => [img.uri, reports[i]])),
+            }));
+        } finally {
+            setPhotoChecksRunning(count => count - 1);
+        }
+    };
+
+    // Per photo, in display order; duplicates depend on which photos are still selected
+    const photoIssues = PhotoQualityService.issuesForSet(selectedImages.map(img => photoReports[img.uri]));
+    const flaggedPhotoCount = photoIssues.filter(issues => issues.length > 0).length;
+
     const requestStoragePermission = async () => {
         if (Platform.OS === 'android') {
             try {
@@ -578,12 +581,35 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
         }
     };
 
-    const handleSubmit = async () => {
+    const handleSubmit = () => {
         if (!formData.price || selectedImages.length === 0) {
             Alert.alert('Missing Details', 'Please add a price and at least one photo.');
             return;
         }
 
+        // The warning below needs every photo's result
+        if (isCheckingPhotos) {
+            Alert.alert('Checking Photos', 'Your photos are still being checked. Try again in a moment.');
+            return;
+        }
+
+        // Last chance to swap weak photos before they are queued for upload
+        if (flaggedPhotoCount > 0) {
+            Alert.alert(
+                'Check Your Photos',
+                `${flaggedPhotoCount} photo${flaggedPhotoCount === 1 ? '' : 's'} may put buyers off (blurry, badly lit, low resolution or repeated). Submit anyway?`,
+                [
+                    { text: 'Review Photos', style: 'cancel' },
+                    { text: 'Submit Anyway', onPress: submitListing },
+                ]
+            );
+            return;
+        }
+
+        submitListing();
+    };
+
+    const submitListing = async () => {
         setLoading(true);
         try {
             // 1. Prepare Data with Processing status (no images/video yet)
@@ -623,7 +649,7 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
             const createdCar = await carApi.createVehicle(carData);
 
             // 3. Queue background upload using the upload queue context
-            const queued = await addToQueue(createdCar.id, selectedImages, selectedVideo);
+            const queued = await addToQueue(createdCar.id, selectedImages, selectedVideo, `${createdCar.make} ${createdCar.model}`);
             if (!queued) {
                 console.warn('Failed to queue upload, but car was created');
             }
@@ -639,7 +665,20 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
             );
         } catch (error: any) {
             console.error('Submission error:', error);
-            Alert.alert('Error', error.message || 'Failed to submit. Please try again.');
+            const options = { fallbackMessage: 'Failed to submit. Please try again.', fieldAliases: SUBMISSION_FIELD_ALIASES };
+            const { fieldErrors } = describeError(error, options);
+
+            // Highlight rejected fields and go back to the first step that has one
+            const flagged = Object.keys(fieldErrors).filter(field => FIELD_STEPS[field]);
+            if (flagged.length > 0) {
+                setErrors(Object.fromEntries(flagged.map(field => [field, true])));
+                setCurrentStep(Math.min(...flagged.map(field => FIELD_STEPS[field])));
+            }
+
+            showErrorAlert(error, {
+                onRetry: submitListing,
+                onRelogin: () => navigation.reset({ index: 0, routes: [{ name: 'Login' }] }),
+            }, options);
         } finally {
             setLoading(false);
         }
@@ -824,7 +863,7 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
                     <View style={styles.inputSection}>
                         <Text style={[styles.inputLabel, { color: colors.text }]}>Color *</Text>
                         <View style={styles.colorGrid}>
-                            {COLORS.map(color => (
+                            {CAR_COLORS.map(color => (
                                 <TouchableOpacity
                                     key={color.id}
                                     style={[
@@ -1078,6 +1117,14 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
                         {selectedImages.map((img, index) => (
                             <TouchableOpacity key={index} onPress={() => handleSetBanner(index)} style={[styles.imageWrapper, index === 0 && { borderColor: colors.primary, borderWidth: 3 }]}>
                                 <Image source={{ uri: img.uri }} style={styles.imageThumbnail} />
+                                {photoIssues[index].length > 0 && (
+                                    <View style={styles.qualityBadge}>
+                                        <Ionicons name="warning" size={10} color="#FFF" />
+                                        <Text style={styles.qualityText} numberOfLines={1}>
+                                            {PHOTO_QUALITY_MESSAGES[photoIssues[index][0]]}
+                                        </Text>
+                                    </View>
+                                )}
                                 {index === 0 && (
                                     <View style={[styles.bannerBadge, { backgroundColor: colors.primary }]}>
                                         <Text style={styles.bannerText}>Banner</Text>
@@ -1091,6 +1138,14 @@ const CarSubmissionForm: React.FC<Props> = ({ navigation, isDealer = false, onCa
 
                     </View>
 
+                    {isCheckingPhotos ? (
+                        <Text style={[styles.qualityHint, { color: colors.textSecondary }]}>Checking photo quality...</Text>
+                    ) : flaggedPhotoCount > 0 && (
+                        <Text style={[styles.qualityHint, { color: '#F59E0B' }]}>
+                            {flaggedPhotoCount} photo{flaggedPhotoCount === 1 ? '' : 's'} may look poor to buyers. Consider replacing {flaggedPhotoCount === 1 ? 'it' : 'them'}.
+                        </Text>
+                    )}
+
                     {/* Video Upload Section */}
                     <View style={styles.inputSection}>
                         <Text style={[styles.inputLabel, { color: colors.text }]}>Car Video (Optional)</Text>
@@ -1250,6 +1305,9 @@ const styles = StyleSheet.create({
     bannerBadge: { position: 'absolute', bottom: 0, left: 0, right: 0, paddingVertical: 2, alignItems: 'center' },
     bannerText: { fontSize: 10, fontWeight: 'bold', color: '#111827' },
     removeImageButton: { position: 'absolute', top: 2, right: 2, backgroundColor: 'white', borderRadius: 10 },
+    qualityBadge: { position: 'absolute', top: 2, left: 2, right: 26, flexDirection: 'row', alignItems: 'center', gap: 2, paddingHorizontal: 4, paddingVertical: 2, borderRadius: 6, backgroundColor: 'rgba(245,158,11,0.9)' },
+    qualityText: { flexShrink: 1, fontSize: 9, fontWeight: '600', color: '#FFF' },
+    qualityHint: { fontSize: getResponsiveTypography('xs'), marginTop: scaleSize(8) },
     textArea: { borderWidth: 1, borderRadius: getResponsiveBorderRadius('lg'), paddingHorizontal: getResponsiveSpacing('md'), paddingVertical: getResponsiveSpacing('sm'), fontSize: getResponsiveTypography('md'), minHeight: scaleSize(100) },
     bottomBar: { paddingHorizontal: getResponsiveSpacing('lg'), paddingVertical: getResponsiveSpacing('md'), borderTopWidth: 1 },
     continueButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: getResponsiveSpacing('md'), borderRadius: getResponsiveBorderRadius('lg'), gap: scaleSize(8) },
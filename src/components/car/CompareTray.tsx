@@ -0,0 +1,157 @@
+import React from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+    Image,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../theme';
+import { useCompare } from '../../context/CompareContext';
+import { RootStackParamList } from '../../navigation/types';
+import { MAX_COMPARE_VEHICLES } from '../../utils/vehicleComparison';
+
+interface Props {
+    // Lift the tray above a screen's own sticky footer
+    bottomOffset?: number;
+}
+
+/**
+ * Floating bar listing the cars picked for comparison. Renders nothing while
+ * the tray is empty, so screens can mount it unconditionally.
+ */
+const CompareTray: React.FC<Props> = ({ bottomOffset = 16 }) => {
+    const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+    const { theme } = useTheme();
+    const { colors } = theme;
+    const { vehicles, remove, clear } = useCompare();
+
+    if (vehicles.length === 0) return null;
+
+    const canCompare = vehicles.length >= 2;
+
+    return (
+        <View style={[styles.container, { bottom: bottomOffset, backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <View style={styles.slots}>
+                {Array.from({ length: MAX_COMPARE_VEHICLES }, (_, index) => {
+                    const vehicle = vehicles[index];
+                    if (!vehicle) {
+                        return <View key={`empty-${index}`} style={[styles.slot, styles.emptySlot, { borderColor: colors.border }]} />;
+                    }
+                    return (
+                        <View key={vehicle.id} style={styles.slot}>
+                            {vehicle.images[0] ? (
+                                <Image source={{ uri: vehicle.images[0] }} style={styles.thumbnail} />
+                            ) : (
+                                <View style={[styles.thumbnail, styles.placeholder, { backgroundColor: colors.border }]}>
+                                    <Ionicons name="car-sport" size={18} color={colors.textSecondary} />
+                                </View>
+                            )}
+                            <TouchableOpacity
+                                style={styles.removeButton}
+                                onPress={() => remove(vehicle.id)}
+                                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                            >
+                                <Ionicons name="close-circle" size={18} color={colors.error} />
+                            </TouchableOpacity>
+                        </View>
+                    );
+                })}
+            </View>
+
+            <View style={styles.actions}>
+                <TouchableOpacity onPress={clear} style={styles.clearButton}>
+                    <Text style={[styles.clearText, { color: colors.textSecondary }]}>Clear</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.compareButton, { backgroundColor: colors.primary }, !canCompare && styles.disabled]}
+                    disabled={!canCompare}
+                    onPress={() => navigation.navigate('CompareVehicles')}
+                >
+                    <Text style={styles.compareText}>
+                        {canCompare ? `Compare (${vehicles.length})` : 'Add 1 more'}
+                    </Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        left: 12,
+        right: 12,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        padding: 10,
+        borderRadius: 14,
+        borderWidth: 1,
+        elevation: 6,
+        shadowColor: '#000',
+        shadowOpacity: 0.15,
+        shadowRadius: 8,
+        shadowOffset: { width: 0, height: 2 },
+    },
+    slots: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    slot: {
+        width: 44,
+        height: 44,
+    },
+    emptySlot: {
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderRadius: 8,
+    },
+    thumbnail: {
+        width: 44,
+        height: 44,
+        borderRadius: 8,
+    },
+    placeholder: {
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    removeButton: {
+        position: 'absolute',
+        top: -6,
+        right: -6,
+        backgroundColor: '#FFFFFF',
+        borderRadius: 9,
+    },
+    actions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    clearButton: {
+        paddingHorizontal: 6,
+        paddingVertical: 8,
+    },
+    clearText: {
+        fontSize: 13,
+        fontWeight: '500',
+    },
+    compareButton: {
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 10,
+    },
+    disabled: {
+        opacity: 0.5,
+    },
+    compareText: {
+        fontSize: 14,
+        fontWeight: '700',
+        color: '#111827',
+    },
+});
+
+export default CompareTray;
@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+    Image,
+    FlatList,
+    ActivityIndicator,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../theme';
+import { TileMap } from '../map/TileMap';
+import { useCarPins } from '../../hooks/useCarPins';
+import EnvironmentService from '../../services/EnvironmentService';
+import type { VehicleSearchFilters } from '../../services/CarApi';
+import type { CarPin } from '../../services/vehicleSearch';
+import { formatIndianNumber } from '../../utils/formatting';
+import type { MapCluster, MapPoint } from '../../utils/mapTiles';
+
+interface Props {
+    filters: VehicleSearchFilters;
+    onCarPress: (carId: string) => void;
+    onDealerPress: (dealerId: string) => void;
+}
+
+// One pin per dealer (their showroom); private sellers are grouped by city
+const groupKeyOf = (pin: CarPin) => (pin.ownerId ? `dealer:${pin.ownerId}` : `city:${pin.city ?? ''}`);
+
+/**
+ * Search results on a map. Pins cluster as you zoom out; tapping a dealer's
+ * pin lists the matching cars at that showroom.
+ */
+const SearchResultsMap: React.FC<Props> = ({ filters, onCarPress, onDealerPress }) => {
+    const { theme } = useTheme();
+    const { colors } = theme;
+    const { pins, isLoading, error } = useCarPins(filters);
+    const [selected, setSelected] = useState<MapCluster | null>(null);
+    const mapTiles = EnvironmentService.getMapTiles();
+
+    const pinsById = useMemo(() => new Map(pins.map(pin => [pin.id, pin])), [pins]);
+    const points = useMemo<MapPoint[]>(
+        () => pins.map(pin => ({
+            id: pin.id,
+            latitude: pin.latitude,
+            longitude: pin.longitude,
+            groupKey: groupKeyOf(pin),
+        })),
+        [pins],
+    );
+
+    const selectedPins = selected?.points
+        .map(point => pinsById.get(point.id))
+        .filter((pin): pin is CarPin => !!pin) ?? [];
+    const first = selectedPins[0];
+    const isDealerGroup = !!selected?.groupKey && !!first?.ownerId;
+    const sheetTitle = isDealerGroup
+        ? first.ownerName || 'Dealer'
+        : selected?.groupKey ? first?.city || 'Private sellers' : `${selectedPins.length} cars here`;
+
+    const renderPin = ({ item }: { item: CarPin }) => (
+        <TouchableOpacity style={styles.carRow} onPress={() => onCarPress(item.id)}>
+            {item.thumbnailUrl ? (
+                <Image source={{ uri: item.thumbnailUrl }} style={styles.thumbnail} />
+            ) : (
+                <View style={[styles.thumbnail, styles.placeholder, { backgroundColor: colors.border }]}>
+                    <Ionicons name="car-sport" size={18} color={colors.textSecondary} />
+                </View>
+            )}
+            <View style={styles.carInfo}>
+                <Text style={[styles.carTitle, { color: colors.text }]} numberOfLines={1}>{item.title}</Text>
+                <Text style={[styles.carPrice, { color: colors.text }]}>₹{formatIndianNumber(item.price)}</Text>
+                {!isDealerGroup && item.ownerName && (
+                    <Text style={[styles.carMeta, { color: colors.textSecondary }]} numberOfLines={1}>{item.ownerName}</Text>
+                )}
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
+    );
+
+    return (
+        <View style={styles.container}>
+            <TileMap
+                points={points}
+                tileUrlTemplate={mapTiles?.url ?? null}
+                attribution={mapTiles?.attribution}
+                selectedGroupKey={selected?.groupKey}
+                onSelect={setSelected}
+            />
+
+            {isLoading && (
+                <View style={[styles.status, { backgroundColor: colors.surface }]}>
+                    <ActivityIndicator size="small" color={colors.primary} />
+                </View>
+            )}
+            {!isLoading && (error || points.length === 0) && (
+                <View style={[styles.status, { backgroundColor: colors.surface }]}>
+                    <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+                        {error ? 'Could not load the map results' : 'No cars with a location match this search'}
+                    </Text>
+                </View>
+            )}
+
+            {selected && selectedPins.length > 0 && (
+                <View style={[styles.sheet, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                    <View style={styles.sheetHeader}>
+                        <View style={styles.sheetTitleRow}>
+                            {isDealerGroup && first.verifiedDealer && (
+                                <Ionicons name="shield-checkmark" size={16} color={colors.success} />
+                            )}
+                            <Text style={[styles.sheetTitle, { color: colors.text }]} numberOfLines={1}>{sheetTitle}</Text>
+                        </View>
+                        <TouchableOpacity onPress={() => setSelected(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                            <Ionicons name="close" size={20} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={[styles.sheetSubtitle, { color: colors.textSecondary }]}>
+                        {selectedPins.length} {selectedPins.length === 1 ? 'matching car' : 'matching cars'}
+                        {isDealerGroup && first.city ? ` · ${first.city}` : ''}
+                    </Text>
+
+                    <FlatList
+                        data={selectedPins}
+                        renderItem={renderPin}
+                        keyExtractor={item => item.id}
+                        style={styles.carList}
+                    />
+
+                    {isDealerGroup && first.ownerId && (
+                        <TouchableOpacity
+                            style={[styles.dealerButton, { borderColor: colors.primary }]}
+                            onPress={() => onDealerPress(first.ownerId as string)}
+                        >
+                            <Text style={[styles.dealerButtonText, { color: colors.text }]}>View dealer profile</Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    status: {
+        position: 'absolute',
+        top: 12,
+        left: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 16,
+        elevation: 3,
+    },
+    statusText: {
+        fontSize: 13,
+    },
+    sheet: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        maxHeight: '50%',
+        paddingHorizontal: 16,
+        paddingTop: 14,
+        paddingBottom: 20,
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        borderWidth: 1,
+        elevation: 8,
+        shadowColor: '#000',
+        shadowOpacity: 0.15,
+        shadowRadius: 8,
+        shadowOffset: { width: 0, height: -2 },
+    },
+    sheetHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    sheetTitleRow: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    sheetTitle: {
+        flexShrink: 1,
+        fontSize: 17,
+        fontWeight: '700',
+    },
+    sheetSubtitle: {
+        marginTop: 2,
+        marginBottom: 8,
+        fontSize: 13,
+    },
+    carList: {
+        flexGrow: 0,
+    },
+    carRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+        gap: 12,
+    },
+    thumbnail: {
+        width: 56,
+        height: 42,
+        borderRadius: 6,
+    },
+    placeholder: {
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    carInfo: {
+        flex: 1,
+    },
+    carTitle: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    carPrice: {
+        marginTop: 2,
+        fontSize: 14,
+    },
+    carMeta: {
+        marginTop: 2,
+        fontSize: 12,
+    },
+    dealerButton: {
+        marginTop: 10,
+        paddingVertical: 10,
+        borderRadius: 10,
+        borderWidth: 1,
+        alignItems: 'center',
+    },
+    dealerButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+});
+
+export default SearchResultsMap;
@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../theme';
+import type { SearchSuggestion, SuggestionKind } from '../../utils/searchSuggestions';
+
+interface Props {
+    suggestions: SearchSuggestion[];
+    highlightedIndex: number;
+    onSelect: (suggestion: SearchSuggestion) => void;
+    // Shown on recent searches only
+    onRemove?: (suggestion: SearchSuggestion) => void;
+}
+
+const KIND_ICONS: Record<SuggestionKind, string> = {
+    recent: 'time-outline',
+    popular: 'trending-up',
+    brand: 'car-sport-outline',
+    model: 'car-outline',
+    city: 'location-outline',
+};
+
+const KIND_LABELS: Partial<Record<SuggestionKind, string>> = {
+    brand: 'Brand',
+    model: 'Model',
+    city: 'City',
+};
+
+/**
+ * Autocomplete list under a search bar. Renders nothing without suggestions.
+ */
+const SearchSuggestions: React.FC<Props> = ({ suggestions, highlightedIndex, onSelect, onRemove }) => {
+    const { theme } = useTheme();
+    const { colors } = theme;
+
+    if (suggestions.length === 0) return null;
+
+    return (
+        <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.border }]} accessibilityRole="menu">
+            {suggestions.map((suggestion, index) => {
+                const highlighted = index === highlightedIndex;
+                return (
+                    <TouchableOpacity
+                        key={suggestion.key}
+                        style={[styles.row, highlighted && { backgroundColor: colors.border }]}
+                        onPress={() => onSelect(suggestion)}
+                        accessibilityRole="menuitem"
+                        accessibilityState={{ selected: highlighted }}
+                    >
+                        <Ionicons name={KIND_ICONS[suggestion.kind]} size={18} color={colors.textSecondary} />
+                        <Text style={[styles.label, { color: colors.text }]} numberOfLines={1}>
+                            {suggestion.label}
+                        </Text>
+                        {KIND_LABELS[suggestion.kind] && (
+                            <Text style={[styles.kind, { color: colors.textSecondary }]}>{KIND_LABELS[suggestion.kind]}</Text>
+                        )}
+                        {suggestion.kind === 'recent' && onRemove && (
+                            <TouchableOpacity
+                                onPress={() => onRemove(suggestion)}
+                                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                accessibilityLabel={`Remove ${suggestion.label} from recent searches`}
+                            >
+                                <Ionicons name="close" size={16} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        )}
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        marginTop: 8,
+        borderWidth: 1,
+        borderRadius: 12,
+        overflow: 'hidden',
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+    },
+    label: {
+        flex: 1,
+        fontSize: 15,
+    },
+    kind: {
+        fontSize: 12,
+    },
+});
+
+export default SearchSuggestions;
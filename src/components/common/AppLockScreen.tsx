@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Platform,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../theme';
+
+interface Props {
+    onBiometricUnlock: () => Promise<boolean>;
+    onPasswordUnlock: (password: string) => Promise<void>;
+    onSignOut: () => Promise<void>;
+}
+
+const AppLockScreen: React.FC<Props> = ({ onBiometricUnlock, onPasswordUnlock, onSignOut }) => {
+    const { theme } = useTheme();
+    const { colors } = theme;
+    const [showPassword, setShowPassword] = useState(false);
+    const [password, setPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Prompt immediately; cancelling the system sheet falls back to the password form
+    useEffect(() => {
+        onBiometricUnlock().then(success => {
+            if (!success) setShowPassword(true);
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const handleBiometric = async () => {
+        setError(null);
+        const success = await onBiometricUnlock();
+        if (!success) {
+            setError('Couldn\'t verify it\'s you. Try again or use your password.');
+        }
+    };
+
+    const handlePassword = async () => {
+        if (!password) return;
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await onPasswordUnlock(password);
+            setPassword('');
+        } catch (err: any) {
+            setError(err?.message || 'Incorrect password');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <KeyboardAvoidingView
+            style={[styles.container, { backgroundColor: colors.background }]}
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+            <Ionicons name="lock-closed" size={56} color={colors.primary} />
+            <Text style={[styles.title, { color: colors.text }]}>CarWorld is locked</Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+                Unlock to view your listings, inquiries and customer details.
+            </Text>
+
+            <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+                onPress={handleBiometric}
+            >
+                <Ionicons name="finger-print" size={20} color={colors.onPrimary} />
+                <Text style={[styles.primaryButtonText, { color: colors.onPrimary }]}>Unlock</Text>
+            </TouchableOpacity>
+
+            {showPassword ? (
+                <View style={styles.passwordForm}>
+                    <TextInput
+                        style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+                        placeholder="Account password"
+                        placeholderTextColor={colors.textSecondary}
+                        secureTextEntry
+                        autoCapitalize="none"
+                        value={password}
+                        onChangeText={setPassword}
+                        onSubmitEditing={handlePassword}
+                        editable={!isSubmitting}
+                    />
+                    <TouchableOpacity
+                        style={[styles.secondaryButton, { borderColor: colors.border }]}
+                        onPress={handlePassword}
+                        disabled={isSubmitting || !password}
+                    >
+                        {isSubmitting ? (
+                            <ActivityIndicator color={colors.primary} />
+                        ) : (
+                            <Text style={[styles.secondaryButtonText, { color: colors.text }]}>
+                                Unlock with password
+                            </Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <TouchableOpacity onPress={() => setShowPassword(true)}>
+                    <Text style={[styles.link, { color: colors.primary }]}>Use password instead</Text>
+                </TouchableOpacity>
+            )}
+
+            {error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+            <TouchableOpacity style={styles.signOut} onPress={onSignOut}>
+                <Text style={[styles.link, { color: colors.textSecondary }]}>Sign out</Text>
+            </TouchableOpacity>
+        </KeyboardAvoidingView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingHorizontal: 32,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: '700',
+        marginTop: 16,
+    },
+    subtitle: {
+        fontSize: 14,
+        textAlign: 'center',
+        lineHeight: 20,
+        marginTop: 8,
+        marginBottom: 32,
+    },
+    primaryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        alignSelf: 'stretch',
+        paddingVertical: 14,
+        borderRadius: 12,
+        marginBottom: 16,
+    },
+    primaryButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    passwordForm: {
+        alignSelf: 'stretch',
+    },
+    input: {
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+        fontSize: 16,
+        marginBottom: 12,
+    },
+    secondaryButton: {
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingVertical: 12,
+        alignItems: 'center',
+    },
+    secondaryButtonText: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    link: {
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    error: {
+        fontSize: 13,
+        textAlign: 'center',
+        marginTop: 12,
+    },
+    signOut: {
+        marginTop: 32,
+    },
+});
+
+export default AppLockScreen;
@@ -0,0 +1,178 @@
+import React from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    ScrollView,
+    TouchableOpacity,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../theme';
+import { OutboxMutation, ConflictResolution } from '../../services/MutationOutbox';
+
+interface Props {
+    visible: boolean;
+    conflicts: OutboxMutation[];
+    onResolve: (mutationId: string, resolution: ConflictResolution) => void;
+    onDiscardVehicle: (vehicleId: string) => void;
+    onClose: () => void;
+}
+
+const describeMutation = (mutation: OutboxMutation): string => {
+    switch (mutation.type) {
+        case 'UPDATE_STATUS':
+            return `Status change to "${mutation.payload.status}"`;
+        case 'DELETE_VEHICLE':
+            return 'Delete listing';
+        default:
+            return 'Listing edit';
+    }
+};
+
+const describeConflict = (mutation: OutboxMutation): string => {
+    switch (mutation.conflictReason) {
+        case 'NOT_FOUND':
+            return 'This car no longer exists on the server. It may have been deleted from another device.';
+        case 'CONFLICT':
+            return 'This listing was changed somewhere else while you were offline.';
+        default:
+            return mutation.errorMessage || 'The server rejected this change.';
+    }
+};
+
+const SyncConflictModal: React.FC<Props> = ({
+    visible,
+    conflicts,
+    onResolve,
+    onDiscardVehicle,
+    onClose,
+}) => {
+    const { theme } = useTheme();
+    const { colors } = theme;
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View style={styles.backdrop}>
+                <View style={[styles.sheet, { backgroundColor: colors.surface }]}>
+                    <View style={styles.header}>
+                        <Ionicons name="sync-circle-outline" size={24} color={colors.warning} />
+                        <Text style={[styles.title, { color: colors.text }]}>
+                            Some offline changes couldn't be saved
+                        </Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <Ionicons name="close" size={22} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.list}>
+                        {conflicts.map(conflict => (
+                            <View key={conflict.id} style={[styles.item, { borderColor: colors.border }]}>
+                                <Text style={[styles.itemTitle, { color: colors.text }]}>
+                                    {describeMutation(conflict)} · Car #{conflict.vehicleId}
+                                </Text>
+                                <Text style={[styles.itemMessage, { color: colors.textSecondary }]}>
+                                    {describeConflict(conflict)}
+                                </Text>
+
+                                <View style={styles.actions}>
+                                    {conflict.conflictReason === 'NOT_FOUND' ? (
+                                        <TouchableOpacity
+                                            style={[styles.action, { backgroundColor: colors.error }]}
+                                            onPress={() => onDiscardVehicle(conflict.vehicleId)}
+                                        >
+                                            <Text style={[styles.actionText, { color: colors.onError }]}>
+                                                Discard all changes for this car
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ) : (
+                                        <>
+                                            <TouchableOpacity
+                                                style={[styles.action, { borderColor: colors.border, borderWidth: 1 }]}
+                                                onPress={() => onResolve(conflict.id, 'discard')}
+                                            >
+                                                <Text style={[styles.actionText, { color: colors.text }]}>
+                                                    Discard mine
+                                                </Text>
+                                            </TouchableOpacity>
+                                            <TouchableOpacity
+                                                style={[styles.action, { backgroundColor: colors.primary }]}
+                                                onPress={() => onResolve(conflict.id, 'retry')}
+                                            >
+                                                <Text style={[styles.actionText, { color: colors.onPrimary }]}>
+                                                    {conflict.conflictReason === 'CONFLICT' ? 'Keep mine' : 'Try again'}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        </>
+                                    )}
+                                </View>
+                            </View>
+                        ))}
+                    </ScrollView>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    backdrop: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    sheet: {
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        paddingHorizontal: 16,
+        paddingTop: 16,
+        paddingBottom: 32,
+        maxHeight: '70%',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    title: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '600',
+        marginHorizontal: 8,
+    },
+    list: {
+        flexGrow: 0,
+    },
+    item: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        marginBottom: 12,
+    },
+    itemTitle: {
+        fontSize: 14,
+        fontWeight: '600',
+        marginBottom: 4,
+    },
+    itemMessage: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    actions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 8,
+        marginTop: 12,
+    },
+    action: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 8,
+    },
+    actionText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+});
+
+export default SyncConflictModal;
@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../theme';
+import type { Coordinates } from '../../utils/geo';
+import {
+  TILE_SIZE,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  MapCluster,
+  MapPoint,
+  clusterPoints,
+  fitBounds,
+  project,
+  tileUrl,
+  unproject,
+} from '../../utils/mapTiles';
+
+interface TileMapProps {
+  points: MapPoint[];
+  // `{z}/{x}/{y}` template; null draws offline placeholder tiles (development)
+  tileUrlTemplate: string | null;
+  attribution?: string;
+  selectedGroupKey?: string;
+  // A single-group pin, or a mixed cluster that can't be split any further
+  onSelect: (cluster: MapCluster) => void;
+}
+
+interface Viewport {
+  center: Coordinates;
+  zoom: number;
+}
+
+const PIN_SIZE = 36;
+const DEFAULT_VIEWPORT: Viewport = { center: { latitude: 20.5937, longitude: 78.9629 }, zoom: 4 };
+
+/**
+ * Minimal slippy map: raster tiles, drag to pan, +/- to zoom, and clustered
+ * pins. Refits to the points whenever they change (a new search).
+ */
+export const TileMap: React.FC<TileMapProps> = ({
+  points,
+  tileUrlTemplate,
+  attribution,
+  selectedGroupKey,
+  onSelect,
+}) => {
+  const { theme } = useTheme();
+  const colors = theme.colors;
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+
+  // PanResponder is created once; it reads the current viewport through a ref
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const fitToPoints = () => {
+    const fitted = fitBounds(points, size.width, size.height);
+    if (fitted) setViewport(fitted);
+  };
+
+  useEffect(() => {
+    fitToPoints();
+    // Only refit for new results or a new layout, not on every pan
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [points, size.width, size.height]);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Let taps through to the pins; claim the gesture once it's a drag
+      onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) + Math.abs(gesture.dy) > 4,
+      onPanResponderGrant: () => {
+        const { center, zoom } = viewportRef.current;
+        dragStart.current = project(center, zoom);
+      },
+      onPanResponderMove: (_, gesture) => {
+        if (!dragStart.current) return;
+        const { zoom } = viewportRef.current;
+        const center = unproject({ x: dragStart.current.x - gesture.dx, y: dragStart.current.y - gesture.dy }, zoom);
+        setViewport({ center, zoom });
+      },
+      onPanResponderRelease: () => {
+        dragStart.current = null;
+      },
+      onPanResponderTerminate: () => {
+        dragStart.current = null;
+      },
+    }),
+  ).current;
+
+  const zoomTo = (zoom: number, center = viewport.center) => {
+    setViewport({ center, zoom: Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM) });
+  };
+
+  const clusters = useMemo(() => clusterPoints(points, viewport.zoom), [points, viewport.zoom]);
+
+  const centerPx = project(viewport.center, viewport.zoom);
+  const left = centerPx.x - size.width / 2;
+  const top = centerPx.y - size.height / 2;
+  const tileCount = Math.pow(2, viewport.zoom);
+
+  const tiles: { key: string; x: number; y: number }[] = [];
+  if (size.width > 0) {
+    for (let x = Math.floor(left / TILE_SIZE); x <= Math.floor((left + size.width) / TILE_SIZE); x++) {
+      for (let y = Math.max(Math.floor(top / TILE_SIZE), 0); y <= Math.min(Math.floor((top + size.height) / TILE_SIZE), tileCount - 1); y++) {
+        tiles.push({ key: `${viewport.zoom}/${x}/${y}`, x, y });
+      }
+    }
+  }
+
+  const handleClusterPress = (cluster: MapCluster) => {
+    if (!cluster.groupKey && viewport.zoom < MAX_ZOOM) {
+      zoomTo(viewport.zoom + 2, cluster.center);
+      return;
+    }
+    onSelect(cluster);
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.border }]}
+      onLayout={(event: LayoutChangeEvent) => setSize(event.nativeEvent.layout)}
+      {...panResponder.panHandlers}
+    >
+      {tiles.map(tile => {
+        const position = { left: tile.x * TILE_SIZE - left, top: tile.y * TILE_SIZE - top };
+        return tileUrlTemplate ? (
+          <Image
+            key={tile.key}
+            source={{ uri: tileUrl(tileUrlTemplate, viewport.zoom, tile.x, tile.y) }}
+            style={[styles.tile, position]}
+          />
+        ) : (
+          <View key={tile.key} style={[styles.tile, styles.offlineTile, position]}>
+            <Text style={styles.offlineTileLabel}>{tile.key}</Text>
+          </View>
+        );
+      })}
+
+      {clusters.map(cluster => {
+        const point = project(cluster.center, viewport.zoom);
+        const x = point.x - left;
+        const y = point.y - top;
+        if (x < -PIN_SIZE || y < -PIN_SIZE || x > size.width + PIN_SIZE || y > size.height + PIN_SIZE) return null;
+
+        const isGroup = !!cluster.groupKey;
+        const isSelected = isGroup && cluster.groupKey === selectedGroupKey;
+        return (
+          <TouchableOpacity
+            key={cluster.key}
+            activeOpacity={0.8}
+            onPress={() => handleClusterPress(cluster)}
+            style={[
+              styles.pin,
+              { left: x - PIN_SIZE / 2, top: y - PIN_SIZE / 2, borderColor: colors.surface },
+              { backgroundColor: isGroup ? colors.primary : colors.text },
+              isSelected && styles.selectedPin,
+            ]}
+          >
+            {isGroup && cluster.points.length === 1 ? (
+              <Ionicons name="car-sport" size={16} color="#111827" />
+            ) : (
+              <Text style={[styles.pinText, { color: isGroup ? '#111827' : colors.surface }]}>
+                {cluster.points.length}
+              </Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      <View style={styles.controls}>
+        <TouchableOpacity
+          style={[styles.controlButton, { backgroundColor: colors.surface }]}
+          onPress={() => zoomTo(viewport.zoom + 1)}
+        >
+          <Ionicons name="add" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.controlButton, { backgroundColor: colors.surface }]}
+          onPress={() => zoomTo(viewport.zoom - 1)}
+        >
+          <Ionicons name="remove" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.controlButton, { backgroundColor: colors.surface }]}
+          onPress={fitToPoints}
+        >
+          <Ionicons name="scan-outline" size={18} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.attribution, { color: colors.textSecondary }]}>
+        {tileUrlTemplate ? attribution : 'Offline tiles'}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  tile: {
+    position: 'absolute',
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+  },
+  offlineTile: {
+    backgroundColor: '#EEF2F0',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#C9D3CE',
+    padding: 4,
+  },
+  offlineTileLabel: {
+    fontSize: 10,
+    color: '#9AA8A1',
+  },
+  pin: {
+    position: 'absolute',
+    width: PIN_SIZE,
+    height: PIN_SIZE,
+    borderRadius: PIN_SIZE / 2,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOpacity: 0.25,
+    shadowRadius: 3,
+    shadowOffset: { width: 0, height: 1 },
+  },
+  selectedPin: {
+    transform: [{ scale: 1.25 }],
+  },
+  pinText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  controls: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    gap: 8,
+  },
+  controlButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOpacity: 0.15,
+    shadowRadius: 3,
+    shadowOffset: { width: 0, height: 1 },
+  },
+  attribution: {
+    position: 'absolute',
+    left: 8,
+    bottom: 4,
+    fontSize: 10,
+  },
+});
+
+export default TileMap;
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Switch, Alert, TouchableOpacity, TextInput } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { Card } from '../ui/Card';
+import { useTheme } from '../../theme/ThemeContext';
+import { apiClient } from '../../services/ApiClient';
+import {
+  EnvironmentService,
+  EnvironmentName,
+  ENVIRONMENT_NAMES,
+  normalizeBaseUrl,
+} from '../../services/EnvironmentService';
+import {
+  MockBackend,
+  MockBackendSettings,
+  MOCK_BACKEND_AVAILABLE,
+  MOCK_PASSWORD,
+} from '../../services/mock/MockBackend';
+
+interface Props {
+  onSignedOut: () => void;
+}
+
+const ENVIRONMENT_LABELS: Record<EnvironmentName, string> = {
+  dev: 'Dev',
+  staging: 'Staging',
+  prod: 'Prod',
+  custom: 'Custom',
+};
+
+/**
+ * Settings > Developer: pick the server environment, or the in-process mock backend
+ */
+const DeveloperSection: React.FC<Props> = ({ onSignedOut }) => {
+  const { theme } = useTheme();
+  const styles = getStyles(theme.colors);
+  const [settings, setSettings] = useState<MockBackendSettings>(MockBackend.getSettings());
+
+  const [environment, setEnvironment] = useState(EnvironmentService.getCurrent());
+  const [selectedName, setSelectedName] = useState<EnvironmentName>(environment.name);
+  const [customUrl, setCustomUrl] = useState(environment.name === 'custom' ? environment.apiBaseUrl : '');
+
+  useEffect(() => MockBackend.addListener(setSettings), []);
+  useEffect(() => EnvironmentService.addListener(setEnvironment), []);
+
+  const selectionChanged = selectedName !== environment.name ||
+    (selectedName === 'custom' && customUrl.trim() !== environment.apiBaseUrl);
+
+  const applyEnvironment = () => {
+    let baseUrl: string | undefined;
+    if (selectedName === 'custom') {
+      try {
+        baseUrl = normalizeBaseUrl(customUrl);
+      } catch (error: any) {
+        Alert.alert('Invalid Address', error.message);
+        return;
+      }
+    }
+
+    const target = selectedName === 'custom' ? baseUrl : EnvironmentService.getPreset(selectedName).apiBaseUrl;
+    Alert.alert(
+      'Switch Environment',
+      `Connect to ${target}? You will be signed out.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          onPress: async () => {
+            // Sign out against the backend that issued the current tokens
+            await apiClient.logout();
+            await EnvironmentService.setEnvironment(selectedName, baseUrl);
+            onSignedOut();
+          },
+        },
+      ],
+    );
+  };
+
+  const toggleMockBackend = (enabled: boolean) => {
+    Alert.alert(
+      enabled ? 'Use Mock Backend' : 'Use Real Server',
+      'You will be signed out. Tokens from one backend are not valid on the other.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          onPress: async () => {
+            // Sign out against the backend that issued the current tokens
+            await apiClient.logout();
+            await MockBackend.setEnabled(enabled);
+            onSignedOut();
+          },
+        },
+      ],
+    );
+  };
+
+  const resetDemoData = () => {
+    Alert.alert('Reset Demo Data', 'Discard all changes made against the mock backend?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Reset',
+        style: 'destructive',
+        onPress: () => MockBackend.reset(),
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Developer</Text>
+      <Card style={styles.card}>
+        <View style={styles.row}>
+          <View style={styles.left}>
+            <Ionicons name="server" size={24} color={theme.colors.primary} />
+            <Text style={styles.label}>Environment</Text>
+          </View>
+        </View>
+        <View style={styles.options}>
+          {ENVIRONMENT_NAMES.map(name => {
+            const selected = name === selectedName;
+            return (
+              <TouchableOpacity
+                key={name}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setSelectedName(name)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {ENVIRONMENT_LABELS[name]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {selectedName === 'custom' && (
+          <TextInput
+            style={styles.input}
+            value={customUrl}
+            onChangeText={setCustomUrl}
+            placeholder="http://192.168.1.20:9000"
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+        )}
+        <Text style={styles.hint}>Connected to {environment.apiBaseUrl}</Text>
+        {selectionChanged && (
+          <TouchableOpacity style={styles.applyButton} onPress={applyEnvironment}>
+            <Text style={styles.applyText}>Apply</Text>
+          </TouchableOpacity>
+        )}
+      </Card>
+
+      {/* Release builds ship without the mock backend */}
+      {MOCK_BACKEND_AVAILABLE && (
+        <Card style={styles.card}>
+          <View style={styles.row}>
+            <View style={styles.left}>
+              <Ionicons name="construct" size={24} color={theme.colors.primary} />
+              <Text style={styles.label}>Mock Backend</Text>
+            </View>
+            <Switch
+              value={settings.enabled}
+              onValueChange={toggleMockBackend}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+          {settings.enabled && (
+            <Text style={styles.hint}>
+              Seed {settings.seed} · Sign in as dealer@carworld.dev, buyer@carworld.dev or
+              admin@carworld.dev with password "{MOCK_PASSWORD}"
+            </Text>
+          )}
+        </Card>
+      )}
+
+      {settings.enabled && (
+        <Card style={styles.card} onPress={resetDemoData}>
+          <View style={styles.row}>
+            <View style={styles.left}>
+              <Ionicons name="refresh" size={24} color={theme.colors.primary} />
+              <Text style={styles.label}>Reset Demo Data</Text>
+            </View>
+          </View>
+        </Card>
+      )}
+    </View>
+  );
+};
+
+const getStyles = (colors: any) => StyleSheet.create({
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+  },
+  left: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text,
+    marginLeft: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  input: {
+    marginHorizontal: 20,
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    fontSize: 14,
+    color: colors.text,
+  },
+  applyButton: {
+    alignSelf: 'flex-end',
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  applyText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
+
+export default DeveloperSection;
@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { Card } from '../ui/Card';
+import { useTheme } from '../../theme/ThemeContext';
+import { apiClient, ActiveSession } from '../../services/ApiClient';
+import { formatTimeAgo } from '../../utils/formatting';
+
+const describeDevice = (session: ActiveSession): string => {
+  const name = [session.deviceBrand, session.deviceModel].filter(Boolean).join(' ');
+  return name || 'Unknown device';
+};
+
+const describeDetails = (session: ActiveSession): string => {
+  const os = [session.os, session.osVersion].filter(Boolean).join(' ');
+  const location = [session.city, session.country].filter(Boolean).join(', ');
+  const lastActive = session.current
+    ? 'Active now'
+    : `Last active ${formatTimeAgo(new Date(session.lastActiveAt).getTime())}`;
+  return [os, location, lastActive].filter(Boolean).join(' · ');
+};
+
+interface Props {
+  onSignedOut: () => void;
+}
+
+/**
+ * Settings > Devices: every active session for the account, with remote sign-out
+ */
+const DevicesSection: React.FC<Props> = ({ onSignedOut }) => {
+  const { theme } = useTheme();
+  const styles = getStyles(theme.colors);
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await apiClient.getActiveSessions();
+      // Current device first, then most recently active
+      setSessions(
+        [...result].sort((a, b) =>
+          Number(b.current) - Number(a.current) ||
+          new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime(),
+        ),
+      );
+    } catch (err: any) {
+      setError(err?.message || 'Could not load your devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const signOutSession = (session: ActiveSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      session.current
+        ? 'Sign out of CarWorld on this device?'
+        : `Sign out ${describeDevice(session)}? It will need to log in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            if (session.current) {
+              await apiClient.logout();
+              onSignedOut();
+              return;
+            }
+
+            setBusyId(session.id);
+            try {
+              await apiClient.revokeSession(session.id);
+              setSessions(prev => prev.filter(s => s.id !== session.id));
+            } catch (err: any) {
+              Alert.alert('Error', err?.message || 'Could not sign out that device');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const signOutOthers = () => {
+    Alert.alert(
+      'Sign Out Everywhere Else',
+      'All other devices will be signed out. This device stays signed in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out Others',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId('others');
+            try {
+              await apiClient.revokeOtherSessions();
+              setSessions(prev => prev.filter(s => s.current));
+            } catch (err: any) {
+              Alert.alert('Error', err?.message || 'Could not sign out other devices');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const hasOtherSessions = sessions.some(s => !s.current);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Devices</Text>
+
+      {isLoading ? (
+        <ActivityIndicator color={theme.colors.primary} style={styles.loader} />
+      ) : error ? (
+        <Card style={styles.card} onPress={loadSessions}>
+          <View style={styles.row}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Ionicons name="refresh" size={20} color={theme.colors.primary} />
+          </View>
+        </Card>
+      ) : (
+        <>
+          {sessions.map(session => (
+            <Card key={session.id} style={styles.card}>
+              <View style={styles.row}>
+                <Ionicons name="phone-portrait-outline" size={24} color={theme.colors.primary} />
+                <View style={styles.info}>
+                  <View style={styles.titleRow}>
+                    <Text style={styles.deviceName}>{describeDevice(session)}</Text>
+                    {session.current && <Text style={styles.currentBadge}>This device</Text>}
+                  </View>
+                  <Text style={styles.details}>{describeDetails(session)}</Text>
+                </View>
+                {busyId === session.id ? (
+                  <ActivityIndicator color={theme.colors.error} />
+                ) : (
+                  <TouchableOpacity onPress={() => signOutSession(session)}>
+                    <Text style={styles.signOutText}>Sign out</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </Card>
+          ))}
+
+          {hasOtherSessions && (
+            <TouchableOpacity
+              style={styles.signOutOthers}
+              onPress={signOutOthers}
+              disabled={busyId === 'others'}
+            >
+              {busyId === 'others' ? (
+                <ActivityIndicator color={theme.colors.error} />
+              ) : (
+                <Text style={styles.signOutOthersText}>Sign out everywhere else</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const getStyles = (colors: any) => StyleSheet.create({
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 16,
+  },
+  loader: {
+    paddingVertical: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+  },
+  info: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  currentBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 8,
+  },
+  details: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  signOutText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  signOutOthers: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  signOutOthersText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.error,
+  },
+});
+
+export default DevicesSection;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, Text, StyleSheet, Switch } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { Card } from '../ui/Card';
+import { Theme, useTheme } from '../../theme/ThemeContext';
+import { useMediaPolicy } from '../../hooks/useMediaPolicy';
+import type { MediaPolicySettings } from '../../services/MediaPolicyService';
+
+const OPTIONS: Array<{ key: keyof MediaPolicySettings; icon: string; label: string; description: string }> = [
+  {
+    key: 'dataSaver',
+    icon: 'cellular-outline',
+    label: 'Data Saver',
+    description: 'Load smaller photos and don\'t autoplay videos',
+  },
+  {
+    key: 'videoUploadsOnWifiOnly',
+    icon: 'videocam-outline',
+    label: 'Upload Videos on Wi-Fi Only',
+    description: 'Photos still upload on mobile data',
+  },
+  {
+    key: 'adaptiveCompression',
+    icon: 'speedometer-outline',
+    label: 'Match Upload Quality to Connection',
+    description: 'Compress photos and videos more on slower networks',
+  },
+];
+
+/**
+ * Settings > Data & Media: connection-aware media policies
+ */
+const MediaSection: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = getStyles(theme.colors);
+  const { settings, updateSettings } = useMediaPolicy();
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Data & Media</Text>
+      <Card style={styles.card}>
+        {OPTIONS.map(option => (
+          <View key={option.key} style={styles.row}>
+            <Ionicons name={option.icon} size={24} color={theme.colors.primary} />
+            <View style={styles.info}>
+              <Text style={styles.label}>{option.label}</Text>
+              <Text style={styles.description}>{option.description}</Text>
+            </View>
+            <Switch
+              value={settings[option.key]}
+              onValueChange={value => updateSettings({ [option.key]: value })}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        ))}
+      </Card>
+    </View>
+  );
+};
+
+const getStyles = (colors: Theme['colors']) => StyleSheet.create({
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+  },
+  info: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default MediaSection;
@@ -0,0 +1,133 @@
+import React, { memo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder, LayoutChangeEvent, ViewStyle } from 'react-native';
+import { useTheme } from '../../theme';
+
+export interface StepSliderProps {
+  steps: number[];
+  value: number;
+  onChange: (value: number) => void;
+  formatLabel?: (value: number) => string;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+const THUMB_SIZE = 24;
+
+/**
+ * Slider that snaps to a fixed set of values (e.g. 5, 10, 25, 50 km).
+ * Drag the thumb or tap anywhere on the track; `onChange` only fires when the
+ * selected step changes.
+ */
+export const StepSlider: React.FC<StepSliderProps> = memo(({
+  steps,
+  value,
+  onChange,
+  formatLabel = String,
+  style,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const colors = theme.colors;
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // PanResponder is created once; read the latest props through a ref
+  const latest = useRef({ steps, value, onChange, trackWidth });
+  latest.current = { steps, value, onChange, trackWidth };
+
+  const selectAt = (x: number) => {
+    const { steps: currentSteps, value: currentValue, onChange: notify, trackWidth: width } = latest.current;
+    if (width <= 0 || currentSteps.length < 2) return;
+    const ratio = Math.min(Math.max(x / width, 0), 1);
+    const next = currentSteps[Math.round(ratio * (currentSteps.length - 1))];
+    if (next !== currentValue) notify(next);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the gesture when inside a ScrollView
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: event => selectAt(event.nativeEvent.locationX),
+      onPanResponderMove: event => selectAt(event.nativeEvent.locationX),
+    }),
+  ).current;
+
+  const index = Math.max(steps.indexOf(value), 0);
+  const position = steps.length > 1 ? (index / (steps.length - 1)) * trackWidth : 0;
+
+  return (
+    <View style={style} testID={testID}>
+      <View
+        style={styles.touchArea}
+        onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+        {...panResponder.panHandlers}
+      >
+        <View pointerEvents="none" style={[styles.track, { backgroundColor: colors.border }]}>
+          <View style={[styles.fill, { width: position, backgroundColor: colors.primary }]} />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[
+            styles.thumb,
+            { left: position - THUMB_SIZE / 2, backgroundColor: colors.primary, borderColor: colors.surface },
+          ]}
+        />
+      </View>
+      <View style={styles.labels} pointerEvents="none">
+        {steps.map(step => (
+          <Text
+            key={step}
+            style={[
+              styles.label,
+              { color: step === value ? colors.text : colors.textSecondary },
+              step === value && styles.activeLabel,
+            ]}
+          >
+            {formatLabel(step)}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  touchArea: {
+    height: THUMB_SIZE + 12,
+    justifyContent: 'center',
+    marginHorizontal: THUMB_SIZE / 2,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 3,
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 3,
+    shadowOffset: { width: 0, height: 1 },
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 12,
+  },
+  activeLabel: {
+    fontWeight: '700',
+  },
+});
+
+export default StepSlider;
@@ -6,6 +6,7 @@ export { Button } from './Button';
 export { Card } from './Card';
 export { Input, ModernInput } from './InputModern';
 export { BottomNavigation } from './BottomNavigation';
+export { StepSlider } from './StepSlider';
 
 // Toast System
 export { default as Toast } from './Toast';
@@ -31,6 +32,7 @@ export {
 export type { ButtonProps } from './Button';
 export type { CardProps } from './Card';
 export type { ModernInputProps } from './InputModern';
+export type { StepSliderProps } from './StepSlider';
 
 // Re-export design tokens for easy access
 export { 
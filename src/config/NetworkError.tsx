@@ -7,9 +7,12 @@ import {
   Dimensions,
   ActivityIndicator,
   Modal,
+  StyleProp,
+  ViewStyle,
 } from 'react-native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
-import { useNetwork } from '../context/NetworkContext';
+import { useCacheStatus, useNetwork } from '../context/NetworkContext';
+import { formatTimeAgo } from '../utils/formatting';
 
 
 const { width, height } = Dimensions.get('window');
@@ -21,7 +24,7 @@ interface NetworkErrorProps {
   title?: string;
   message?: string;
   showRetryButton?: boolean;
-  style?: any;
+  style?: StyleProp<ViewStyle>;
 }
 
 import { useTheme } from '../theme/ThemeContext';
@@ -337,6 +340,59 @@ export const NetworkStatusIndicator: React.FC<{ visible?: boolean }> = ({ visibl
   );
 };
 
+// Banner shown while a screen is rendering stale data from the response cache
+interface CachedDataBannerProps {
+  // Cache keys of the requests behind this screen
+  matchKey: (key: string) => boolean;
+  onRefresh?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export const CachedDataBanner: React.FC<CachedDataBannerProps> = ({ matchKey, onRefresh, style }) => {
+  const { isOffline } = useNetwork();
+  const cacheStatus = useCacheStatus(matchKey);
+
+  const styles = StyleSheet.create({
+    banner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: '#FFF8E1',
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: '#FFE082',
+    },
+    text: {
+      flex: 1,
+      fontSize: 12,
+      color: '#8D6E00',
+      marginLeft: 8,
+    },
+    action: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: '#8D6E00',
+    },
+  });
+
+  if (!cacheStatus.isShowingCachedData || !cacheStatus.cachedAt) return null;
+
+  return (
+    <View style={[styles.banner, style]}>
+      <Ionicons name="time-outline" size={16} color="#8D6E00" />
+      <Text style={styles.text}>
+        Showing cached results from {formatTimeAgo(cacheStatus.cachedAt)}
+        {isOffline ? ' · offline' : ''}
+      </Text>
+      {onRefresh && !isOffline && (
+        <TouchableOpacity onPress={onRefresh}>
+          <Text style={styles.action}>Refresh</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
 export default NetworkError;
 
 
@@ -10,6 +10,9 @@ import {
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../theme';
 import { Vehicle } from '../services/CarApi';
+import { formatDistance } from '../utils/geo';
+import { getImageUrl } from '../utils/mediaUrls';
+import { useMediaPolicy } from '../hooks/useMediaPolicy';
 import {
   scaleSize,
   getResponsiveSpacing,
@@ -25,6 +28,8 @@ interface VehicleCardProps {
   onCoList?: () => void;
   onBookmark?: () => void;
   isBookmarked?: boolean;
+  onCompare?: () => void;
+  isCompared?: boolean;
 }
 
 export const VehicleCard: React.FC<VehicleCardProps> = ({
@@ -34,10 +39,13 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
   onCoList,
   onBookmark,
   isBookmarked = false,
+  onCompare,
+  isCompared = false,
 }) => {
   const { theme, isDark } = useTheme();
   const { colors } = theme;
   const [imageError, setImageError] = useState(false);
+  const { dataSaver } = useMediaPolicy();
 
   const formatPrice = (price: number) => {
     return price.toLocaleString('en-IN', {
@@ -98,7 +106,7 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
       <View style={styles.imageContainer}>
         {!imageError && vehicle.images && vehicle.images.length > 0 ? (
           <Image
-            source={{ uri: vehicle.images[0] }}
+            source={{ uri: getImageUrl(vehicle.images[0], 'thumbnail', dataSaver) }}
             style={styles.image}
             resizeMode="cover"
             onError={() => setImageError(true)}
@@ -130,9 +138,9 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
               onPress={onBookmark}
             >
               <Ionicons
-                name={isBookmarked ? 'bookmark' : 'bookmark-outline'}
+                name={isBookmarked ? 'heart' : 'heart-outline'}
                 size={22}
-                color={isBookmarked ? colors.primary : '#FFFFFF'}
+                color={isBookmarked ? colors.error : '#FFFFFF'}
               />
             </TouchableOpacity>
           )}
@@ -193,6 +201,7 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
             <Ionicons name="location-outline" size={16} color={colors.textSecondary} />
             <Text style={[styles.locationText, { color: colors.textSecondary }]} numberOfLines={1}>
               {vehicle.location}
+              {vehicle.distanceKm !== undefined && ` · ${formatDistance(vehicle.distanceKm)} away`}
             </Text>
           </View>
 
@@ -218,6 +227,18 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
             <Ionicons name="arrow-forward" size={16} color="#111827" />
           </TouchableOpacity>
 
+          {onCompare && (
+            <TouchableOpacity
+              style={[
+                styles.iconButton,
+                { backgroundColor: isCompared ? colors.primary : isDark ? '#374151' : '#F3F4F6' }
+              ]}
+              onPress={onCompare}
+            >
+              <Ionicons name="git-compare-outline" size={20} color={isCompared ? '#111827' : colors.text} />
+            </TouchableOpacity>
+          )}
+
           {showCoListButton && onCoList && (
             <TouchableOpacity
               style={[
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, ComponentType } from 'react';
 import { View, StyleSheet } from 'react-native';
 import { useNetwork, useNetworkRefresh } from '../context/NetworkContext';
 import NetworkError, { NetworkStatusIndicator } from './NetworkError';
+import { describeError } from '../services/ErrorCatalog';
 
 export interface NetworkHandlingProps {
   isLoading?: boolean;
@@ -11,6 +12,8 @@ export interface NetworkHandlingProps {
   showNetworkStatusIndicator?: boolean;
   networkErrorMode?: 'overlay' | 'inline' | 'banner';
   customNetworkErrorComponent?: React.ComponentType<any>;
+  /** Last failed request, shown with the catalogue's wording while online */
+  error?: unknown;
 }
 
 interface WithNetworkHandlingOptions {
@@ -42,6 +45,7 @@ const withNetworkHandling = <P extends object>(
       showNetworkStatusIndicator = showStatusIndicator,
       networkErrorMode = errorMode,
       customNetworkErrorComponent: CustomNetworkError,
+      error,
       ...restProps 
     } = props;
 
@@ -115,6 +119,8 @@ const withNetworkHandling = <P extends object>(
       }
     };
 
+    const requestError = error && !isOffline && !isRefreshing ? describeError(error) : null;
+
     return (
       <View style={styles.container}>
         {/* Network Status Indicator */}
@@ -197,6 +203,20 @@ const withNetworkHandling = <P extends object>(
               )}
             </View>
           )}
+
+          {/* Request Error (offline is already covered above) */}
+          {requestError && (
+            <View style={styles.inlineErrorContainer}>
+              <NetworkError
+                visible
+                onRetry={handleRetry}
+                mode={networkErrorMode === 'overlay' ? 'inline' : networkErrorMode}
+                title={requestError.title}
+                message={requestError.message}
+                showRetryButton={requestError.action === 'retry' && !!onRefresh}
+              />
+            </View>
+          )}
         </View>
       </View>
     );
@@ -0,0 +1,179 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus, StyleSheet, View } from 'react-native';
+import {
+  AppLockService,
+  AppLockSettings,
+  AppLockTimeout,
+} from '../services/AppLockService';
+import { sessionManager } from '../services/SessionManager';
+import { apiClient } from '../services/ApiClient';
+import AppLockScreen from '../components/common/AppLockScreen';
+
+interface AppLockContextValue {
+  isLocked: boolean;
+  isEnabled: boolean;
+  timeoutMinutes: AppLockTimeout;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setTimeoutMinutes: (minutes: AppLockTimeout) => Promise<void>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  unlockWithPassword: (password: string) => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextValue | undefined>(undefined);
+
+interface AppLockProviderProps {
+  children: React.ReactNode;
+  onSignOut?: () => void;
+}
+
+export const AppLockProvider: React.FC<AppLockProviderProps> = ({ children, onSignOut }) => {
+  const [settings, setSettings] = useState<AppLockSettings>({ enabled: false, timeoutMinutes: 5 });
+  const [isReady, setIsReady] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  // Until the first unlock nothing behind the lock is rendered at all
+  const [hasUnlocked, setHasUnlocked] = useState(false);
+  const settingsRef = useRef(settings);
+  const backgroundedAt = useRef<number | null>(null);
+
+  settingsRef.current = settings;
+
+  const lock = useCallback(() => setIsLocked(true), []);
+
+  const unlock = useCallback(() => {
+    setIsLocked(false);
+    setHasUnlocked(true);
+  }, []);
+
+  // Cold start: lock straight away if enabled and someone is signed in
+  useEffect(() => {
+    const init = async () => {
+      try {
+        const loaded = await AppLockService.getSettings();
+        setSettings(loaded);
+        if (loaded.enabled && (await sessionManager.hasSession())) {
+          lock();
+        } else {
+          setHasUnlocked(true);
+        }
+      } catch (error) {
+        console.warn('[AppLock] Failed to load settings:', error);
+        setHasUnlocked(true);
+      } finally {
+        setIsReady(true);
+      }
+    };
+
+    init();
+  }, [lock]);
+
+  // Resume: lock again once the app has been in the background past the timeout
+  useEffect(() => {
+    const handleAppStateChange = async (nextState: AppStateStatus) => {
+      if (nextState === 'background') {
+        backgroundedAt.current = Date.now();
+        return;
+      }
+
+      if (nextState !== 'active') return;
+
+      const { enabled, timeoutMinutes } = settingsRef.current;
+      const shouldLock = enabled && AppLockService.shouldLock(backgroundedAt.current, timeoutMinutes);
+      backgroundedAt.current = null;
+
+      if (shouldLock && (await sessionManager.hasSession())) {
+        lock();
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [lock]);
+
+  // Nothing to protect once the session is gone
+  useEffect(() => {
+    return sessionManager.addListener(event => {
+      if (event.type === 'ended') {
+        unlock();
+      }
+    });
+  }, [unlock]);
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    if (enabled) {
+      await AppLockService.enable();
+    } else {
+      await AppLockService.disable();
+    }
+    setSettings(prev => ({ ...prev, enabled }));
+  }, []);
+
+  const setTimeoutMinutes = useCallback(async (minutes: AppLockTimeout) => {
+    await AppLockService.setTimeout(minutes);
+    setSettings(prev => ({ ...prev, timeoutMinutes: minutes }));
+  }, []);
+
+  const unlockWithBiometrics = useCallback(async () => {
+    const success = await AppLockService.authenticate();
+    if (success) {
+      unlock();
+    }
+    return success;
+  }, [unlock]);
+
+  const unlockWithPassword = useCallback(async (password: string) => {
+    const userData = await sessionManager.getUserData();
+    if (!userData) {
+      throw new Error('Your session has ended. Please sign in again.');
+    }
+
+    // Re-authenticating also issues a fresh token pair for this session
+    await apiClient.login({
+      usernameOrEmail: userData.email || userData.username,
+      password,
+    });
+    unlock();
+  }, [unlock]);
+
+  const handleSignOut = useCallback(async () => {
+    await apiClient.logout();
+    unlock();
+    onSignOut?.();
+  }, [unlock, onSignOut]);
+
+  const value: AppLockContextValue = {
+    isLocked,
+    isEnabled: settings.enabled,
+    timeoutMinutes: settings.timeoutMinutes,
+    setEnabled,
+    setTimeoutMinutes,
+    unlockWithBiometrics,
+    unlockWithPassword,
+  };
+
+  if (!isReady) {
+    return null;
+  }
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {hasUnlocked && children}
+      {isLocked && (
+        <View style={StyleSheet.absoluteFill}>
+          <AppLockScreen
+            onBiometricUnlock={unlockWithBiometrics}
+            onPasswordUnlock={unlockWithPassword}
+            onSignOut={handleSignOut}
+          />
+        </View>
+      )}
+    </AppLockContext.Provider>
+  );
+};
+
+export const useAppLock = (): AppLockContextValue => {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
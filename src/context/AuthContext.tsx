@@ -8,6 +8,7 @@ import React, {
 import { apiClient, ApiError, AuthTokens, UserData } from '../services/ApiClient';
 import { webSocketService } from '../services/WebSocketService';
 import { authService } from '../services/authService';
+import { sessionManager } from '../services/SessionManager';
 
 interface AuthContextType {
   // State
@@ -68,6 +69,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuthStatus();
   }, []);
 
+  // Keep state in sync with refreshes and forced sign-outs (e.g. refresh token expired)
+  useEffect(() => {
+    return sessionManager.addListener(event => {
+      if (event.type === 'ended') {
+        setUser(null);
+        setIsAuthenticated(false);
+      } else if (event.type === 'refreshed') {
+        setUser(prev => (prev ? { ...prev, ...event.user } : event.user));
+      }
+    });
+  }, []);
+
   // Handle WebSocket connection based on auth state changes
   useEffect(() => {
     if (!isLoading) {
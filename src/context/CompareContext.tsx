@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import { useToastActions } from '../components/ui/ToastManager';
+import { AnalyticsService } from '../services/AnalyticsService';
+import type { Vehicle } from '../services/contracts';
+import { MAX_COMPARE_VEHICLES } from '../utils/vehicleComparison';
+
+interface CompareContextValue {
+  vehicles: Vehicle[];
+  isFull: boolean;
+  isCompared: (vehicleId: string | number) => boolean;
+  // Adds or removes; returns whether the vehicle is now in the tray
+  toggle: (vehicle: Vehicle) => boolean;
+  remove: (vehicleId: string | number) => void;
+  clear: () => void;
+}
+
+const CompareContext = createContext<CompareContextValue | undefined>(undefined);
+
+interface CompareProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Compare tray shared by search results and car details. Kept in memory only -
+ * a comparison is a short-lived shopping task, unlike the watchlist.
+ */
+export const CompareProvider: React.FC<CompareProviderProps> = ({ children }) => {
+  const { showWarning } = useToastActions();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+
+  const isCompared = useCallback(
+    (vehicleId: string | number) => vehicles.some(v => v.id === String(vehicleId)),
+    [vehicles],
+  );
+
+  const remove = useCallback((vehicleId: string | number) => {
+    setVehicles(prev => prev.filter(v => v.id !== String(vehicleId)));
+  }, []);
+
+  const toggle = useCallback((vehicle: Vehicle): boolean => {
+    if (vehicles.some(v => v.id === vehicle.id)) {
+      remove(vehicle.id);
+      return false;
+    }
+    if (vehicles.length >= MAX_COMPARE_VEHICLES) {
+      showWarning('Compare Tray Full', `You can compare up to ${MAX_COMPARE_VEHICLES} cars at a time`);
+      return false;
+    }
+    setVehicles(prev => [...prev, vehicle]);
+    AnalyticsService.trackCarCompare(vehicle.id, vehicles.length + 1);
+    return true;
+    // showWarning is recreated every render by useToastActions
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vehicles, remove]);
+
+  const clear = useCallback(() => setVehicles([]), []);
+
+  const value: CompareContextValue = {
+    vehicles,
+    isFull: vehicles.length >= MAX_COMPARE_VEHICLES,
+    isCompared,
+    toggle,
+    remove,
+    clear,
+  };
+
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>;
+};
+
+export const useCompare = (): CompareContextValue => {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+};
@@ -1,6 +1,7 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState, useRef } from 'react';
 import NetInfo from '@react-native-community/netinfo';
 import { Alert } from 'react-native';
+import { ResponseCache } from '../services/ResponseCache';
 
 interface NetworkState {
   isConnected: boolean;
@@ -9,14 +10,21 @@ interface NetworkState {
   details: any;
 }
 
+export interface CacheStatus {
+  isShowingCachedData: boolean;
+  cachedAt: number | null; // Oldest stale payload among the matching requests
+}
+
 interface NetworkContextValue {
   networkState: NetworkState;
+  staleCache: Record<string, number>; // Stored time of each stale response served, by cache key
   isOnline: boolean;
   isOffline: boolean;
   checkConnection: () => Promise<boolean>;
   retryConnection: () => Promise<void>;
   addOnlineListener: (callback: () => void) => () => void;
   addOfflineListener: (callback: () => void) => () => void;
+  addCacheUpdateListener: (callback: (key: string) => void) => () => void;
 }
 
 const NetworkContext = createContext<NetworkContextValue | undefined>(undefined);
@@ -33,10 +41,46 @@ export const NetworkProvider: React.FC<NetworkProviderProps> = ({ children }) =>
     details: null,
   });
 
+  const [staleCache, setStaleCache] = useState<Record<string, number>>({});
+
   const onlineListeners = useRef<Array<() => void>>([]);
   const offlineListeners = useRef<Array<() => void>>([]);
+  const cacheUpdateListeners = useRef<Array<(key: string) => void>>([]);
+  const staleKeysRef = useRef<Map<string, number>>(new Map());
   const wasOfflineRef = useRef(false);
 
+  // Track which cached responses are stale so screens can say how old they are
+  useEffect(() => {
+    const publishCacheStatus = () => {
+      setStaleCache(Object.fromEntries(staleKeysRef.current));
+    };
+
+    return ResponseCache.addListener(event => {
+      if (event.type === 'cleared') {
+        staleKeysRef.current.clear();
+        publishCacheStatus();
+        return;
+      }
+      if (!event.key) return;
+
+      if (event.type === 'served') {
+        if (event.stale && event.storedAt) {
+          staleKeysRef.current.set(event.key, event.storedAt);
+        } else {
+          staleKeysRef.current.delete(event.key);
+        }
+        publishCacheStatus();
+      } else if (event.type === 'updated') {
+        staleKeysRef.current.delete(event.key);
+        publishCacheStatus();
+        if (event.changed) {
+          const key = event.key;
+          cacheUpdateListeners.current.forEach(callback => callback(key));
+        }
+      }
+    });
+  }, []);
+
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener(state => {
       const isConnected = state.isConnected ?? false;
@@ -156,17 +200,31 @@ export const NetworkProvider: React.FC<NetworkProviderProps> = ({ children }) =>
     };
   };
 
+  const addCacheUpdateListener = (callback: (key: string) => void): (() => void) => {
+    cacheUpdateListeners.current.push(callback);
+
+    // Return cleanup function
+    return () => {
+      const index = cacheUpdateListeners.current.indexOf(callback);
+      if (index > -1) {
+        cacheUpdateListeners.current.splice(index, 1);
+      }
+    };
+  };
+
   const isOnline = networkState.isConnected && networkState.isInternetReachable;
   const isOffline = !isOnline;
 
   const value: NetworkContextValue = {
     networkState,
+    staleCache,
     isOnline,
     isOffline,
     checkConnection,
     retryConnection,
     addOnlineListener,
     addOfflineListener,
+    addCacheUpdateListener,
   };
 
   return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
@@ -194,6 +252,41 @@ export const useNetworkRefresh = (refreshCallback: () => void | Promise<void>) =
   }, [refreshCallback, addOnlineListener]);
 };
 
+// Custom hook for screens that should reload when a background revalidation
+// brings in newer data for one of their cached requests
+export const useCacheRefresh = (
+  matchKey: (key: string) => boolean,
+  refreshCallback: () => void | Promise<void>,
+) => {
+  const { addCacheUpdateListener } = useNetwork();
+
+  useEffect(() => {
+    const cleanup = addCacheUpdateListener((key) => {
+      if (matchKey(key)) {
+        refreshCallback();
+      }
+    });
+
+    return cleanup;
+  }, [matchKey, refreshCallback, addCacheUpdateListener]);
+};
+
+// Custom hook for screens that say when they're showing stale cached data;
+// only the screen's own requests count, not those of screens behind it
+export const useCacheStatus = (matchKey: (key: string) => boolean): CacheStatus => {
+  const { staleCache } = useNetwork();
+
+  return useMemo(() => {
+    const timestamps = Object.keys(staleCache)
+      .filter(key => matchKey(key))
+      .map(key => staleCache[key]);
+    return {
+      isShowingCachedData: timestamps.length > 0,
+      cachedAt: timestamps.length > 0 ? Math.min(...timestamps) : null,
+    };
+  }, [staleCache, matchKey]);
+};
+
 // Custom hook for showing network-dependent UI
 export const useNetworkUI = () => {
   const { isOnline, isOffline, retryConnection } = useNetwork();
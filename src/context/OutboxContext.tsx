@@ -0,0 +1,133 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useNetwork } from './NetworkContext';
+import {
+  MutationOutbox,
+  OutboxMutation,
+  ConflictResolution,
+  ReplayResult,
+} from '../services/MutationOutbox';
+import { MockBackend } from '../services/mock/MockBackend';
+import { useToastActions } from '../components/ui/ToastManager';
+import SyncConflictModal from '../components/common/SyncConflictModal';
+
+interface OutboxContextValue {
+  pendingMutations: OutboxMutation[];
+  conflicts: OutboxMutation[];
+  pendingCount: number;
+  isSyncing: boolean;
+  hasPendingFor: (vehicleId: string) => boolean;
+  replayNow: () => Promise<ReplayResult | null>;
+  resolveConflict: (mutationId: string, resolution: ConflictResolution) => Promise<void>;
+  discardForVehicle: (vehicleId: string) => Promise<void>;
+}
+
+const OutboxContext = createContext<OutboxContextValue | undefined>(undefined);
+
+interface OutboxProviderProps {
+  children: React.ReactNode;
+}
+
+export const OutboxProvider: React.FC<OutboxProviderProps> = ({ children }) => {
+  const { isOnline, addOnlineListener } = useNetwork();
+  const { showSuccess } = useToastActions();
+  const [mutations, setMutations] = useState<OutboxMutation[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [conflictsDismissed, setConflictsDismissed] = useState(false);
+
+  useEffect(() => {
+    return MutationOutbox.addListener(setMutations);
+  }, []);
+
+  const replayNow = useCallback(async (): Promise<ReplayResult | null> => {
+    setIsSyncing(true);
+    try {
+      // Replaying before the mock switch is read would send the queue to the real server
+      await MockBackend.init();
+      const result = await MutationOutbox.replay();
+      if (result.applied > 0) {
+        showSuccess(
+          'Changes Synced',
+          `${result.applied} offline change${result.applied === 1 ? '' : 's'} saved to the server`,
+          { duration: 2500 },
+        );
+      }
+      if (result.conflicts > 0) {
+        setConflictsDismissed(false);
+      }
+      return result;
+    } catch (error) {
+      console.warn('[Outbox] Replay failed:', error);
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+    // showSuccess is recreated every render by useToastActions
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Replay on launch (if online) and every time the connection comes back
+  useEffect(() => {
+    if (isOnline) {
+      replayNow();
+    }
+    // Only on mount - reconnects are handled by the online listener below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    return addOnlineListener(() => {
+      replayNow();
+    });
+  }, [addOnlineListener, replayNow]);
+
+  const resolveConflict = useCallback(async (mutationId: string, resolution: ConflictResolution) => {
+    await MutationOutbox.resolveConflict(mutationId, resolution);
+    if (resolution === 'retry') {
+      await replayNow();
+    }
+  }, [replayNow]);
+
+  const discardForVehicle = useCallback(async (vehicleId: string) => {
+    await MutationOutbox.discardForVehicle(vehicleId);
+  }, []);
+
+  const hasPendingFor = useCallback(
+    (vehicleId: string) => mutations.some(m => m.vehicleId === String(vehicleId)),
+    [mutations],
+  );
+
+  const conflicts = mutations.filter(m => m.state === 'conflict');
+  const pendingMutations = mutations.filter(m => m.state === 'pending');
+
+  const value: OutboxContextValue = {
+    pendingMutations,
+    conflicts,
+    pendingCount: pendingMutations.length,
+    isSyncing,
+    hasPendingFor,
+    replayNow,
+    resolveConflict,
+    discardForVehicle,
+  };
+
+  return (
+    <OutboxContext.Provider value={value}>
+      {children}
+      <SyncConflictModal
+        visible={conflicts.length > 0 && !conflictsDismissed}
+        conflicts={conflicts}
+        onResolve={resolveConflict}
+        onDiscardVehicle={discardForVehicle}
+        onClose={() => setConflictsDismissed(true)}
+      />
+    </OutboxContext.Provider>
+  );
+};
+
+export const useOutbox = (): OutboxContextValue => {
+  const context = useContext(OutboxContext);
+  if (!context) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
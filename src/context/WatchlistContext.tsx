@@ -0,0 +1,89 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useNetwork } from './NetworkContext';
+import { useAuth } from './AuthContext';
+import { WatchlistService, WatchlistSnapshot } from '../services/WatchlistService';
+import type { Vehicle, WatchlistEntry } from '../services/contracts';
+
+interface WatchlistContextValue {
+  entries: WatchlistEntry[];
+  pendingCount: number;
+  syncedAt: number | null;
+  isSyncing: boolean;
+  isWatched: (carId: string | number) => boolean;
+  toggle: (car: Vehicle) => Promise<boolean>;
+  remove: (carId: string | number) => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+const WatchlistContext = createContext<WatchlistContextValue | undefined>(undefined);
+
+interface WatchlistProviderProps {
+  children: React.ReactNode;
+}
+
+export const WatchlistProvider: React.FC<WatchlistProviderProps> = ({ children }) => {
+  const { isOnline, addOnlineListener } = useNetwork();
+  const { user } = useAuth();
+  const [snapshot, setSnapshot] = useState<WatchlistSnapshot>({ entries: [], pendingCount: 0, syncedAt: null });
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    return WatchlistService.addListener(setSnapshot);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await WatchlistService.sync();
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  // Pull the server copy whenever someone signs in (and on launch if online)
+  useEffect(() => {
+    if (user && isOnline) {
+      syncNow();
+    }
+    // Reconnects are handled by the online listener below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, syncNow]);
+
+  useEffect(() => {
+    return addOnlineListener(() => {
+      syncNow();
+    });
+  }, [addOnlineListener, syncNow]);
+
+  const watchedIds = useMemo(
+    () => new Set(snapshot.entries.map(entry => entry.carId)),
+    [snapshot.entries],
+  );
+
+  const isWatched = useCallback((carId: string | number) => watchedIds.has(String(carId)), [watchedIds]);
+
+  const toggle = useCallback((car: Vehicle) => WatchlistService.toggle(car), []);
+
+  const remove = useCallback((carId: string | number) => WatchlistService.remove(String(carId)), []);
+
+  const value: WatchlistContextValue = {
+    entries: snapshot.entries,
+    pendingCount: snapshot.pendingCount,
+    syncedAt: snapshot.syncedAt,
+    isSyncing,
+    isWatched,
+    toggle,
+    remove,
+    syncNow,
+  };
+
+  return <WatchlistContext.Provider value={value}>{children}</WatchlistContext.Provider>;
+};
+
+export const useWatchlist = (): WatchlistContextValue => {
+  const context = useContext(WatchlistContext);
+  if (!context) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+};
@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useState } from 'react';
+import { apiClient } from '../services/ApiClient';
+import { POPULAR_MODELS } from '../utils/carCatalog';
+import type { ModelsByBrand } from '../utils/searchQueryParser';
+
+// Full model lists per brand, shared across screens for the app session
+const fetchedModels: ModelsByBrand = {};
+
+/**
+ * Model names the search parser can recognise: the built-in popular models,
+ * plus the full list for each brand in `brands`, fetched once per brand.
+ */
+export const useCarModelIndex = (brands: string[]): ModelsByBrand => {
+  const [fetched, setFetched] = useState<ModelsByBrand>(() => ({ ...fetchedModels }));
+  const brandKey = brands.join(',');
+
+  useEffect(() => {
+    const missing = brandKey.split(',').filter(brand => brand && !(brand in fetchedModels));
+    if (missing.length === 0) return;
+
+    let active = true;
+    Promise.all(missing.map(async brand => {
+      fetchedModels[brand] = await apiClient.getCarModelSuggestions(brand, '');
+    })).then(() => {
+      if (active) setFetched({ ...fetchedModels });
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [brandKey]);
+
+  return useMemo(() => {
+    const index: ModelsByBrand = { ...POPULAR_MODELS };
+    Object.entries(fetched).forEach(([brand, models]) => {
+      index[brand] = [...new Set([...(index[brand] ?? []), ...models])];
+    });
+    return index;
+  }, [fetched]);
+};
+
+export default useCarModelIndex;
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { useQuery } from '@apollo/client/react';
+import { SEARCH_CAR_PINS_QUERY } from '../services/queries';
+import type { VehicleSearchFilters } from '../services/CarApi';
+import {
+  CarPin,
+  SearchCarPinsData,
+  SearchCarPinsVariables,
+  toCarSearchInput,
+} from '../services/vehicleSearch';
+
+const NO_PINS: CarPin[] = [];
+
+/**
+ * Map pins for every car matching the filters. Only queried while the map is
+ * showing; sort order doesn't matter to a map, so it isn't part of the key.
+ */
+export const useCarPins = (filters: VehicleSearchFilters, { skip = false } = {}) => {
+  const variables = useMemo<SearchCarPinsVariables>(
+    () => ({ input: toCarSearchInput({ ...filters, sort: undefined }) }),
+    [filters],
+  );
+
+  const { data, previousData, loading, error } = useQuery<SearchCarPinsData, SearchCarPinsVariables>(
+    SEARCH_CAR_PINS_QUERY,
+    { variables, skip },
+  );
+
+  return {
+    pins: (data ?? previousData)?.searchCarPins ?? NO_PINS,
+    isLoading: loading,
+    error,
+  };
+};
+
+export default useCarPins;
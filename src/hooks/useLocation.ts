@@ -6,6 +6,16 @@ import {
     Linking,
 } from 'react-native';
 import Geolocation, { GeolocationError } from '@react-native-community/geolocation';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const LAST_LOCATION_KEY = '@carworld_last_location';
+
+export interface KnownLocation {
+    latitude: number;
+    longitude: number;
+    formattedAddress: string;
+    timestamp: number;
+}
 
 export interface LocationState {
     latitude: number | null;
@@ -26,12 +36,37 @@ interface UseLocationOptions {
     enableHighAccuracy?: boolean;
     timeout?: number;
     maximumAge?: number;
+    // Skip the address lookup when only coordinates are needed (e.g. search)
+    reverseGeocode?: boolean;
 }
 
 const DEFAULT_OPTIONS: UseLocationOptions = {
     enableHighAccuracy: true,
     timeout: 20000,
     maximumAge: 10000,
+    reverseGeocode: true,
+};
+
+/**
+ * Last position any screen obtained, so features like "near me" search can
+ * start right away while a fresh GPS fix is still on its way
+ */
+export const getLastKnownLocation = async (): Promise<KnownLocation | null> => {
+    try {
+        const stored = await AsyncStorage.getItem(LAST_LOCATION_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+        console.warn('Failed to read last known location:', error);
+        return null;
+    }
+};
+
+const saveLastKnownLocation = async (location: KnownLocation) => {
+    try {
+        await AsyncStorage.setItem(LAST_LOCATION_KEY, JSON.stringify(location));
+    } catch (error) {
+        console.warn('Failed to cache location:', error);
+    }
 };
 
 /**
@@ -284,7 +319,9 @@ export const useLocation = (options: UseLocationOptions = {}) => {
             const position = await getPositionWithFallback(mergedOptions.enableHighAccuracy!);
 
             // Reverse geocode
-            const address = await reverseGeocode(position.latitude, position.longitude);
+            const address = mergedOptions.reverseGeocode
+                ? await reverseGeocode(position.latitude, position.longitude)
+                : `${position.latitude.toFixed(6)}, ${position.longitude.toFixed(6)}`;
 
             setState({
                 latitude: position.latitude,
@@ -293,6 +330,7 @@ export const useLocation = (options: UseLocationOptions = {}) => {
                 isLoading: false,
                 error: null,
             });
+            saveLastKnownLocation({ ...position, formattedAddress: address, timestamp: Date.now() });
 
             return position;
         } catch (error: any) {
@@ -317,7 +355,7 @@ export const useLocation = (options: UseLocationOptions = {}) => {
 
             return null;
         }
-    }, [mergedOptions.enableHighAccuracy, mergedOptions.timeout, mergedOptions.maximumAge]);
+    }, [mergedOptions.enableHighAccuracy, mergedOptions.timeout, mergedOptions.maximumAge, mergedOptions.reverseGeocode]);
 
     /**
      * Clear location state
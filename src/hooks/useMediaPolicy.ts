@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  MediaPolicyService,
+  MediaPolicySettings,
+  ConnectionQuality,
+} from '../services/MediaPolicyService';
+
+interface MediaPolicyState {
+  settings: MediaPolicySettings;
+  connectionQuality: ConnectionQuality;
+  isOnCellular: boolean;
+}
+
+const readPolicy = (): MediaPolicyState => ({
+  settings: MediaPolicyService.getSettings(),
+  connectionQuality: MediaPolicyService.getConnectionQuality(),
+  isOnCellular: MediaPolicyService.isOnCellular(),
+});
+
+/**
+ * Media policy settings and the connection they apply to, kept in sync with
+ * MediaPolicyService
+ */
+export const useMediaPolicy = () => {
+  const [policy, setPolicy] = useState<MediaPolicyState>(readPolicy);
+
+  useEffect(() => {
+    // Settings may have changed between the first render and subscribing
+    setPolicy(readPolicy());
+    return MediaPolicyService.addListener(() => setPolicy(readPolicy()));
+  }, []);
+
+  const updateSettings = useCallback((updates: Partial<MediaPolicySettings>) => {
+    MediaPolicyService.updateSettings(updates);
+  }, []);
+
+  return {
+    ...policy,
+    dataSaver: policy.settings.dataSaver,
+    updateSettings,
+  };
+};
+
+export default useMediaPolicy;
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const RECENT_SEARCHES_KEY = '@carworld_recent_searches';
+const MAX_RECENT_SEARCHES = 5;
+
+/**
+ * Typed search keywords, newest first, kept on this device only
+ */
+export const useRecentSearches = () => {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(RECENT_SEARCHES_KEY)
+      .then(stored => stored && setRecentSearches(JSON.parse(stored)))
+      .catch(error => console.warn('Failed to load recent searches:', error));
+  }, []);
+
+  const update = useCallback((change: (terms: string[]) => string[]) => {
+    setRecentSearches(prev => {
+      const next = change(prev);
+      AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next)).catch(() => { });
+      return next;
+    });
+  }, []);
+
+  const rememberSearch = useCallback((text: string) => {
+    const term = text.trim();
+    if (term.length < 2) return;
+    update(prev => [term, ...prev.filter(t => t.toLowerCase() !== term.toLowerCase())].slice(0, MAX_RECENT_SEARCHES));
+  }, [update]);
+
+  const forgetSearch = useCallback((term: string) => {
+    update(prev => prev.filter(t => t !== term));
+  }, [update]);
+
+  return { recentSearches, rememberSearch, forgetSearch };
+};
+
+export default useRecentSearches;
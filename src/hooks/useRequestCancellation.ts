@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+
+interface UseRequestCancellationOptions {
+  /** Also cancel when the screen loses focus (default: true) */
+  cancelOnBlur?: boolean;
+}
+
+const DEFAULT_CHANNEL = 'default';
+
+/**
+ * Ties API requests to a screen's lifecycle.
+ *
+ * `nextSignal(channel)` aborts the previous request on the same channel, so a
+ * slow response can never overwrite a newer one. Everything still pending is
+ * aborted when the screen unmounts (and, by default, when it blurs).
+ * Pass the signal to ApiClient / CarApi and ignore errors for which
+ * `isRequestCancelled(error)` is true.
+ */
+export const useRequestCancellation = ({ cancelOnBlur = true }: UseRequestCancellationOptions = {}) => {
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const nextSignal = useCallback((channel: string = DEFAULT_CHANNEL): AbortSignal => {
+    controllers.current.get(channel)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(channel, controller);
+    return controller.signal;
+  }, []);
+
+  // False once a newer request has been started on the channel
+  const isLatest = useCallback((signal: AbortSignal, channel: string = DEFAULT_CHANNEL): boolean =>
+    controllers.current.get(channel)?.signal === signal, []);
+
+  const cancel = useCallback((channel: string = DEFAULT_CHANNEL) => {
+    controllers.current.get(channel)?.abort();
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+  }, []);
+
+  useEffect(() => cancelAll, [cancelAll]);
+
+  useFocusEffect(
+    useCallback(() => (cancelOnBlur ? cancelAll : undefined), [cancelOnBlur, cancelAll]),
+  );
+
+  return { nextSignal, isLatest, cancel, cancelAll };
+};
+
+export default useRequestCancellation;
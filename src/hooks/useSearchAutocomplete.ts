@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCarModelIndex } from './useCarModelIndex';
+import { buildSearchSuggestions, matchingBrands, SearchSuggestion } from '../utils/searchSuggestions';
+
+interface UseSearchAutocompleteOptions {
+  recentSearches: string[];
+  // Suggestions are only built while the search bar is focused
+  enabled: boolean;
+}
+
+/**
+ * Suggestions for the search bar plus a highlighted row that hardware arrow
+ * keys move through. Model lists for brands being typed are fetched as
+ * needed, so "hundai cr" can suggest every Hyundai model starting with "cr".
+ */
+export const useSearchAutocomplete = (text: string, { recentSearches, enabled }: UseSearchAutocompleteOptions) => {
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+
+  const brands = useMemo(() => (enabled ? matchingBrands(text) : []), [text, enabled]);
+  const modelsByBrand = useCarModelIndex(brands);
+
+  const suggestions = useMemo<SearchSuggestion[]>(
+    () => (enabled ? buildSearchSuggestions(text, { recentSearches, modelsByBrand }) : []),
+    [text, enabled, recentSearches, modelsByBrand],
+  );
+
+  useEffect(() => {
+    setHighlightedIndex(-1);
+  }, [suggestions]);
+
+  /** Handle a TextInput key; returns true when it moved the highlight */
+  const handleKey = useCallback((key: string) => {
+    if (suggestions.length === 0) return false;
+    switch (key) {
+      case 'ArrowDown':
+        setHighlightedIndex(index => (index + 1) % suggestions.length);
+        return true;
+      case 'ArrowUp':
+        setHighlightedIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+        return true;
+      default:
+        return false;
+    }
+  }, [suggestions]);
+
+  return {
+    suggestions,
+    highlightedIndex,
+    highlighted: suggestions[highlightedIndex] as SearchSuggestion | undefined,
+    setHighlightedIndex,
+    handleKey,
+  };
+};
+
+export default useSearchAutocomplete;
@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { useQuery } from '@apollo/client/react';
+import { SEARCH_FACETS_QUERY } from '../services/queries';
+import type { VehicleSearchFilters } from '../services/CarApi';
+import {
+  SearchFacetsData,
+  SearchFacetsVariables,
+  toCarSearchInput,
+} from '../services/vehicleSearch';
+
+/**
+ * Live facet counts (brand, model, city, fuel, transmission, year and price
+ * buckets) for the given filters. Counts refresh as filters change; the
+ * previous counts stay on screen meanwhile so the filter UI doesn't flicker.
+ */
+export const useSearchFacets = (filters: VehicleSearchFilters, { skip = false } = {}) => {
+  const variables = useMemo<SearchFacetsVariables>(
+    () => ({ input: toCarSearchInput({ ...filters, sort: undefined }) }),
+    [filters],
+  );
+
+  const { data, previousData, loading } = useQuery<SearchFacetsData, SearchFacetsVariables>(
+    SEARCH_FACETS_QUERY,
+    { variables, skip },
+  );
+
+  return {
+    // Undefined until the first response; callers fall back to static options
+    facets: (data ?? previousData)?.searchFacets,
+    isLoading: loading,
+  };
+};
+
+export default useSearchFacets;
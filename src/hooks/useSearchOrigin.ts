@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getLastKnownLocation, KnownLocation, useLocation } from './useLocation';
+import type { Coordinates } from '../utils/geo';
+
+/**
+ * Device position for distance search. While `enabled`, the last cached
+ * position is used immediately and replaced once a fresh (coarse) fix
+ * arrives, so "near me" works even when GPS is slow.
+ */
+export const useSearchOrigin = (enabled: boolean) => {
+  const { latitude, longitude, isLoading, error, getCurrentLocation } = useLocation({
+    enableHighAccuracy: false,
+    maximumAge: 5 * 60 * 1000,
+    reverseGeocode: false,
+  });
+  const [lastKnown, setLastKnown] = useState<KnownLocation | null>(null);
+
+  useEffect(() => {
+    getLastKnownLocation().then(setLastKnown);
+  }, []);
+
+  useEffect(() => {
+    if (enabled) getCurrentLocation();
+  }, [enabled, getCurrentLocation]);
+
+  const hasFix = latitude !== null && longitude !== null;
+
+  // Stable identity per position so searches only re-run when it moves
+  const origin = useMemo<Coordinates | null>(() => {
+    if (!enabled) return null;
+    if (latitude !== null && longitude !== null) return { latitude, longitude };
+    return lastKnown ? { latitude: lastKnown.latitude, longitude: lastKnown.longitude } : null;
+  }, [enabled, latitude, longitude, lastKnown]);
+
+  return {
+    origin,
+    // Showing results around the cached position until the fix arrives
+    isApproximate: enabled && !hasFix && !!lastKnown,
+    isLocating: isLoading,
+    error,
+    refresh: getCurrentLocation,
+  };
+};
+
+export default useSearchOrigin;
@@ -0,0 +1,81 @@
+import { useCallback, useMemo } from 'react';
+import { NetworkStatus } from '@apollo/client';
+import { useQuery } from '@apollo/client/react';
+import { SEARCH_CARS_QUERY } from '../services/queries';
+import type { VehicleSearchFilters } from '../services/CarApi';
+import type { Vehicle } from '../services/contracts';
+import {
+  SEARCH_PAGE_SIZE,
+  SearchCarsData,
+  SearchCarsVariables,
+  toCarSearchInput,
+  toVehicle,
+} from '../services/vehicleSearch';
+
+interface UseVehicleSearchOptions {
+  /** Don't query yet (e.g. the keyword is still too short) */
+  skip?: boolean;
+  pageSize?: number;
+}
+
+/**
+ * The app's single search data layer: GraphQL `searchCars` through Apollo.
+ *
+ * Results are cached per search input and pages are appended by the
+ * `searchCars` type policy, so returning to a search shows what was already
+ * loaded. Changing filters drops the previous request; the stale list stays
+ * visible (`isSearching`) until the new one arrives.
+ */
+export const useVehicleSearch = (
+  filters: VehicleSearchFilters,
+  { skip = false, pageSize = SEARCH_PAGE_SIZE }: UseVehicleSearchOptions = {},
+) => {
+  const variables = useMemo<SearchCarsVariables>(
+    () => ({ input: toCarSearchInput(filters), first: pageSize }),
+    [filters, pageSize],
+  );
+
+  const { data, previousData, networkStatus, error, fetchMore, refetch } = useQuery<SearchCarsData, SearchCarsVariables>(
+    SEARCH_CARS_QUERY,
+    { variables, skip, notifyOnNetworkStatusChange: true },
+  );
+
+  const connection = (data ?? previousData)?.searchCars;
+
+  const vehicles = useMemo<Vehicle[]>(
+    () => (skip ? [] : connection?.edges.map(edge => toVehicle(edge.node, edge.distanceKm)) ?? []),
+    [connection, skip],
+  );
+
+  const hasMore = !skip && !!connection?.pageInfo.hasNextPage;
+  const isLoadingMore = networkStatus === NetworkStatus.fetchMore;
+  const isRefreshing = networkStatus === NetworkStatus.refetch;
+  const isSearching = !skip && (networkStatus === NetworkStatus.loading || networkStatus === NetworkStatus.setVariables);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || isLoadingMore || isSearching || !connection?.pageInfo.endCursor) return;
+    await fetchMore({ variables: { after: connection.pageInfo.endCursor } });
+  }, [hasMore, isLoadingMore, isSearching, connection, fetchMore]);
+
+  const refresh = useCallback(async () => {
+    if (skip) return;
+    await refetch();
+  }, [skip, refetch]);
+
+  return {
+    vehicles,
+    totalCount: skip ? 0 : connection?.totalCount ?? 0,
+    hasMore,
+    // First page for the current filters, with nothing from a previous search to show
+    isLoading: isSearching && !connection,
+    isSearching,
+    isLoadingMore,
+    isRefreshing,
+    // Only surfaced when there's nothing cached to fall back on
+    error: vehicles.length === 0 ? error : undefined,
+    loadMore,
+    refresh,
+  };
+};
+
+export default useVehicleSearch;
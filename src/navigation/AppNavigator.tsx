@@ -27,6 +27,8 @@ import SearchResultsScreen from '../screens/car/SearchResultsScreen';
 import VehicleAnalyticsScreen from '../screens/car/VehicleAnalyticsScreen';
 import ManageCarScreen from '../screens/car/ManageCarScreen';
 import MyGarageScreen from '../screens/car/MyGarageScreen';
+import SavedCarsScreen from '../screens/car/SavedCarsScreen';
+import CompareVehiclesScreen from '../screens/car/CompareVehiclesScreen';
 import CarListScreen from '../screens/car/CarListScreen';
 
 // Chat/Messaging Screens
@@ -45,6 +47,7 @@ import DealerInquiriesScreen from '../screens/dealer/DealerInquiriesScreen';
 import DealerNetworkChatScreen from '../screens/dealer/DealerNetworkChatScreen';
 import DealerProfileScreen from '../screens/dealer/DealerProfileScreen';
 import DealerCarsListScreen from '../screens/dealer/DealerCarsListScreen';
+import UploadsScreen from '../screens/dealer/UploadsScreen';
 import DealerVerificationScreen from '../screens/dealer/DealerVerificationScreen';
 import EditCarScreen from '../screens/dealer/EditCarScreen';
 
@@ -167,6 +170,16 @@ const ProtectedMyGarageScreen = withAuthProtection(MyGarageScreen, {
   redirectTo: 'Login'
 });
 
+const ProtectedSavedCarsScreen = withAuthProtection(SavedCarsScreen, {
+  requireEmailVerification: true,
+  redirectTo: 'Login'
+});
+
+const ProtectedCompareVehiclesScreen = withAuthProtection(CompareVehiclesScreen, {
+  requireEmailVerification: true,
+  redirectTo: 'Login'
+});
+
 const ProtectedCarListScreen = withAuthProtection(CarListScreen, {
   requireEmailVerification: true,
   redirectTo: 'Login'
@@ -229,6 +242,11 @@ const ProtectedDealerCarsListScreen = withAuthProtection(DealerCarsListScreen, {
   redirectTo: 'Login'
 });
 
+const ProtectedUploadsScreen = withAuthProtection(UploadsScreen, {
+  requireEmailVerification: true,
+  redirectTo: 'Login'
+});
+
 const ProtectedDealerVerificationScreen = withAuthProtection(DealerVerificationScreen, {
   requireEmailVerification: true,
   redirectTo: 'Login'
@@ -280,6 +298,8 @@ const AppNavigator = ({ initialRouteName }: { initialRouteName: keyof RootStackP
       <Stack.Screen name="VehicleAnalytics" component={ProtectedVehicleAnalyticsScreen} />
       <Stack.Screen name="ManageCar" component={ProtectedManageCarScreen} />
       <Stack.Screen name="MyGarage" component={ProtectedMyGarageScreen} />
+      <Stack.Screen name="SavedCars" component={ProtectedSavedCarsScreen} />
+      <Stack.Screen name="CompareVehicles" component={ProtectedCompareVehiclesScreen} />
       <Stack.Screen name="CarList" component={ProtectedCarListScreen} />
       <Stack.Screen name="EditCar" component={ProtectedEditCarScreen} />
 
@@ -299,6 +319,7 @@ const AppNavigator = ({ initialRouteName }: { initialRouteName: keyof RootStackP
       <Stack.Screen name="DealerNetworkChat" component={ProtectedDealerNetworkChatScreen} />
       <Stack.Screen name="DealerProfile" component={ProtectedDealerProfileScreen} />
       <Stack.Screen name="DealerCarsList" component={ProtectedDealerCarsListScreen} />
+      <Stack.Screen name="Uploads" component={ProtectedUploadsScreen} />
       <Stack.Screen name="DealerVerification" component={ProtectedDealerVerificationScreen} />
 
       {/* Admin Screens */}
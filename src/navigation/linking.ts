@@ -0,0 +1,116 @@
+import { getStateFromPath, LinkingOptions } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import type { VehicleSearchFilters } from '../services/CarApi';
+import { sessionManager } from '../services/SessionManager';
+import { fromSearchLinkParams, toSearchLinkParams } from '../utils/searchFilters';
+import { RootStackParamList } from './types';
+
+/**
+ * Deep links: https://carworld.com/... (app/universal links) and carworld://...
+ *
+ *   /car/:carId          -> CarDetails
+ *   /dealer/:dealerId    -> DealerProfile
+ *   /search?brand=...    -> SearchResults with the link's filters
+ *
+ * Protected screens opened while signed out send the user to Login first and
+ * continue to the linked screen after sign-in (see withAuthProtection).
+ */
+
+export const APP_LINK_ORIGIN = 'https://carworld.com';
+const APP_URL_SCHEME = 'carworld://';
+
+// =============== LINK BUILDERS ===============
+
+export const buildCarLink = (carId: string | number) =>
+  `${APP_LINK_ORIGIN}/car/${encodeURIComponent(String(carId))}`;
+
+export const buildSearchLink = (filters: VehicleSearchFilters) => {
+  const query = Object.entries(toSearchLinkParams(filters))
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `${APP_LINK_ORIGIN}/search${query ? `?${query}` : ''}`;
+};
+
+// =============== LINKING CONFIG ===============
+
+/**
+ * Linking options for the NavigationContainer. `homeRoute` is placed under a
+ * linked screen so back leads into the app rather than out of it.
+ */
+export const createLinking = (homeRoute: keyof RootStackParamList): LinkingOptions<RootStackParamList> => ({
+  prefixes: [APP_URL_SCHEME, APP_LINK_ORIGIN, 'https://www.carworld.com'],
+  config: {
+    initialRouteName: homeRoute,
+    screens: {
+      CarDetails: 'car/:carId',
+      DealerProfile: 'dealer/:dealerId',
+      SearchResults: 'search',
+    },
+  },
+  getStateFromPath: (path, options) => {
+    const state = getStateFromPath(path, options);
+    if (!state) return state;
+    linkedRouteName = state.routes[state.routes.length - 1].name as keyof RootStackParamList;
+
+    // Query parameters arrive flat; SearchResults takes them as `filters`
+    return {
+      ...state,
+      routes: state.routes.map(route =>
+        route.name === 'SearchResults'
+          ? { ...route, params: { filters: fromSearchLinkParams((route.params ?? {}) as Record<string, unknown>) } }
+          : route,
+      ),
+    };
+  },
+});
+
+// =============== PENDING ROUTE ===============
+
+interface PendingRoute {
+  name: keyof RootStackParamList;
+  params?: object;
+}
+
+// Screen the last opened link led to; only link targets are worth coming back to
+let linkedRouteName: keyof RootStackParamList | null = null;
+
+// A protected screen that was opened from a link before sign-in
+let pendingRoute: PendingRoute | null = null;
+
+/**
+ * Come back to `route` after sign-in, if a link opened it. Screens reached by
+ * navigating inside the app are not remembered.
+ */
+export const rememberPendingRoute = (route: PendingRoute) => {
+  if (route.name !== linkedRouteName) return;
+  pendingRoute = route;
+};
+
+// A link opened by the previous user must not carry over to the next sign-in
+sessionManager.addListener((event) => {
+  if (event.type === 'ended') {
+    linkedRouteName = null;
+    pendingRoute = null;
+  }
+});
+
+/**
+ * Leave the sign-in flow: to the screen that required sign-in if there was
+ * one (with `home` beneath it), otherwise to `home`
+ */
+export const continueAfterSignIn = (
+  navigation: StackNavigationProp<RootStackParamList>,
+  home: 'Dashboard' | 'DealerDashboard',
+) => {
+  const route = pendingRoute;
+  pendingRoute = null;
+
+  if (!route) {
+    navigation.replace(home);
+    return;
+  }
+  navigation.reset({
+    index: 1,
+    routes: [{ name: home }, { name: route.name, params: route.params }],
+  });
+};
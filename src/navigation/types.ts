@@ -2,56 +2,7 @@
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { Car } from '../screens/car/ManageCarScreen';
-
-// Define dealer group and vehicle interfaces
-export interface DealerGroup {
-  id: string;
-  name: string;
-  description: string;
-  isPrivate: boolean;
-  adminId: string;
-  members: DealerMember[];
-  createdAt: string;
-}
-
-export interface DealerMember {
-  id: string;
-  name: string;
-  dealership: string;
-  role: 'admin' | 'member';
-  avatar?: string;
-}
-
-export interface Vehicle {
-  id: string;
-  make: string;
-  model: string;
-  year: number;
-  price: number;
-  mileage: number;
-  location: string;
-  condition: string;
-  images: string[];
-  specifications: Record<string, any>;
-  dealerId: string;
-  dealerName: string;
-  isCoListed: boolean;
-  coListedIn: string[];
-  views: number;
-  inquiries: number;
-  shares: number;
-}
-
-export interface ChatMessage {
-  id: string;
-  senderId: string;
-  receiverId: string;
-  message: string;
-  timestamp: string;
-  status: 'sent' | 'delivered' | 'read';
-  type: 'text' | 'image' | 'vehicle' | 'quote';
-  attachments?: any[];
-}
+import type { VehicleSearchFilters } from '../services/CarApi';
 
 // Define the navigation stack param list
 export type RootStackParamList = {
@@ -73,10 +24,12 @@ export type RootStackParamList = {
   CoListVehicle: { vehicleId: string };
   VehicleSearch: undefined;
   VehicleDetail: { vehicleId: string; enableCoListing?: boolean };
-  SearchResults: { filters: any };
+  SearchResults: { filters: VehicleSearchFilters };
   VehicleAnalytics: undefined;
   ManageCar: { car: Car };
   MyGarage: undefined;
+  SavedCars: undefined;
+  CompareVehicles: undefined;
   CarList: { filter?: string; title?: string };
   EditCar: { carId: string };
 
@@ -96,6 +49,7 @@ export type RootStackParamList = {
   DealerNetworkChat: { networkId: string };
   DealerProfile: { dealerId: string };
   DealerCarsList: { filter?: string; title?: string };
+  Uploads: undefined;
   DealerVerification: undefined;
 
   // Admin Screens
@@ -17,6 +17,7 @@ import Ionicons from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../../theme';
 import { Button } from '../../components/ui/Button';
 import { apiClient } from '../../services/ApiClient';
+import { continueAfterSignIn } from '../../navigation/linking';
 import { useNotifications } from '../../components/ui/ToastManager';
 
 import { useAuth } from '../../context/AuthContext';
@@ -91,8 +92,8 @@ const EmailVerificationScreen: React.FC<Props> = ({ navigation, route }) => {
         // Refresh context to update user state
         await refreshUserData();
 
-        // Navigate to Dashboard
-        navigation.replace('Dashboard');
+        // Navigate to Dashboard, or the screen that needed a verified email
+        continueAfterSignIn(navigation, 'Dashboard');
       } else {
         // Fallback if structure is different for some reason
         notifySuccess('Email verified successfully!');
@@ -17,6 +17,8 @@ import { ModernInput as Input } from '../../components/ui/InputModern';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { setSkipLogin } from '../../services/auth';
 import { apiClient } from '../../services/ApiClient';
+import { describeError } from '../../services/ErrorCatalog';
+import { continueAfterSignIn } from '../../navigation/linking';
 
 import { useTheme } from '../../theme';
 import {
@@ -34,6 +36,12 @@ interface Props {
 
 type LoginMode = 'OTP' | 'PASSWORD';
 
+// Backend DTO field -> login form field, for highlighting server-side field errors
+const LOGIN_FIELD_ALIASES: Record<string, string> = {
+  usernameOrEmail: 'email',
+  username: 'email',
+};
+
 const LoginScreen: React.FC<Props> = ({ navigation }) => {
   const { theme, isDark } = useTheme();
   const { colors } = theme;
@@ -95,14 +103,18 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
       }
     } catch (error: any) {
       console.error('Send OTP error:', error);
-      // Provide user-friendly error messages
-      let errorMessage = 'Failed to send OTP';
-      if (error.status === 404 || error.message?.includes('not found')) {
-        errorMessage = 'Account not found. Please register first.';
-      } else if (error.message) {
-        errorMessage = error.message;
+      const described = describeError(error, {
+        fallbackMessage: 'Failed to send OTP',
+        fieldAliases: LOGIN_FIELD_ALIASES,
+      });
+      // A missing account is reported as a 404 without a specific code
+      const message = described.category === 'notFound'
+        ? 'Account not found. Please register first.'
+        : described.message;
+      if (described.fieldErrors.email) {
+        setErrors(prev => ({ ...prev, email: described.fieldErrors.email }));
       }
-      if (notifyError) notifyError(errorMessage);
+      if (notifyError) notifyError(message);
     } finally {
       setIsLoading(false);
     }
@@ -131,11 +143,7 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
 
         if (navigation && navigation.replace) {
           const role = authTokens.role ? authTokens.role.toUpperCase() : '';
-          if (role === 'DEALER') {
-            navigation.replace('DealerDashboard');
-          } else {
-            navigation.replace('Dashboard');
-          }
+          continueAfterSignIn(navigation, role === 'DEALER' ? 'DealerDashboard' : 'Dashboard');
         } else {
           console.warn('Navigation not available');
         }
@@ -144,8 +152,14 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
       }
     } catch (error: any) {
       console.error('Verify OTP error:', error);
-      const errorMessage = error.message || 'Invalid OTP';
-      if (notifyLoginError) notifyLoginError(errorMessage);
+      const described = describeError(error, {
+        fallbackMessage: 'Invalid OTP',
+        fieldAliases: LOGIN_FIELD_ALIASES,
+      });
+      if (described.action === 'fixFields') {
+        setErrors(prev => ({ ...prev, otp: described.fieldErrors.otp || described.message }));
+      }
+      if (notifyLoginError) notifyLoginError(described.message);
     } finally {
       setIsLoading(false);
     }
@@ -193,11 +207,7 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
 
         if (navigation && navigation.replace) {
           const role = result && result.role ? result.role.toUpperCase() : '';
-          if (role === 'DEALER') {
-            navigation.replace('DealerDashboard');
-          } else {
-            navigation.replace('Dashboard');
-          }
+          continueAfterSignIn(navigation, role === 'DEALER' ? 'DealerDashboard' : 'Dashboard');
         }
       } else {
         throw new Error('Login function not available');
@@ -205,11 +215,13 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
     } catch (error: any) {
       console.error('Login error:', error);
 
-      const errorMessage = error.message || 'Login failed';
-      const errorDetails = error.details || '';
+      const described = describeError(error, {
+        fallbackMessage: 'Login failed',
+        fieldAliases: LOGIN_FIELD_ALIASES,
+      });
 
-      // Check if error is related to unverified email
-      if (errorMessage.toLowerCase().includes('verified') || errorDetails.toLowerCase().includes('verified')) {
+      // Unverified email: send a code and continue with verification
+      if (described.action === 'verifyEmail') {
         if (notifyLoginError) notifyLoginError('Email not verified. Sending verification code...');
 
         try {
@@ -227,7 +239,16 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
         }
       }
 
-      if (notifyLoginError) notifyLoginError(errorMessage);
+      if (described.code === 'INVALID_CREDENTIALS') {
+        setErrors(prev => ({ ...prev, password: described.message }));
+      } else if (described.fieldErrors.email || described.fieldErrors.password) {
+        setErrors(prev => ({
+          ...prev,
+          email: described.fieldErrors.email || prev.email,
+          password: described.fieldErrors.password || prev.password,
+        }));
+      }
+      if (notifyLoginError) notifyLoginError(described.message);
     } finally {
       setIsLoading(false);
     }
@@ -19,7 +19,6 @@ import {
   UIManager,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
 import Video from 'react-native-video';
 
@@ -29,7 +28,17 @@ import { Button } from '../../components/ui/Button';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import chatApi from '../../services/ChatApi';
 import { carApi, Vehicle } from '../../services/CarApi';
+import { isRequestCancelled } from '../../services/ApiClient';
+import { useRequestCancellation } from '../../hooks/useRequestCancellation';
+import { useMediaPolicy } from '../../hooks/useMediaPolicy';
+import { getImageUrl } from '../../utils/mediaUrls';
 import { useAuth } from '../../context/AuthContext';
+import { useWatchlist } from '../../context/WatchlistContext';
+import { useCompare } from '../../context/CompareContext';
+import { buildCarLink } from '../../navigation/linking';
+import CompareTray from '../../components/car/CompareTray';
+import { useCacheRefresh } from '../../context/NetworkContext';
+import { CachedDataBanner } from '../../config/NetworkError';
 
 import { BlurView } from '@react-native-community/blur';
 import { borderRadius, spacing, typography } from '../../config';
@@ -44,7 +53,6 @@ if (Platform.OS === 'android') {
 const { width, height } = Dimensions.get('window');
 
 const RECENTLY_VIEWED_KEY = '@carworld_recently_viewed';
-const FAVORITES_KEY = '@carworld_favorites';
 
 interface Props {
   navigation: any;
@@ -67,9 +75,10 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   };
   const { notifyCarSaved, notifyCarRemoved, notifyMessageSent } = useNotifications();
   const { user } = useAuth();
+  const { isWatched, toggle: toggleWatched } = useWatchlist();
+  const { isCompared, toggle: toggleCompare } = useCompare();
 
   // State
-  const [isFavorite, setIsFavorite] = useState(false);
   const [activeMediaIndex, setActiveMediaIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [car, setCar] = useState<Vehicle | null>(null);
@@ -82,6 +91,9 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   const [isVideoPaused, setIsVideoPaused] = useState(true);
   const [isVideoMuted, setIsVideoMuted] = useState(true);
   const [showVideoControls, setShowVideoControls] = useState(false);
+  // Data saver: the video isn't loaded until the user first taps play
+  const { dataSaver } = useMediaPolicy();
+  const [videoRequested, setVideoRequested] = useState(false);
 
   // Animation refs
   const scrollY = useRef(new Animated.Value(0)).current;
@@ -89,25 +101,14 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   const fadeAnim = useRef(new Animated.Value(0)).current;
 
   const carId = route.params?.carId;
+  const { nextSignal, isLatest } = useRequestCancellation();
 
   // Check if current user is the owner
   const isOwner = car && user && String(car.dealerId) === String(user.id);
+  const isFavorite = !!carId && isWatched(carId);
 
   // --- DATA LOADING ---
 
-  const checkFavoriteStatus = async () => {
-    if (!carId) return;
-    try {
-      const stored = await AsyncStorage.getItem(FAVORITES_KEY);
-      if (stored) {
-        const favorites = JSON.parse(stored) as string[];
-        setIsFavorite(favorites.includes(String(carId)));
-      }
-    } catch (e) {
-      console.warn('Failed to load favorite status');
-    }
-  };
-
   const fetchCarData = async () => {
     if (!carId) {
       setError('No car ID provided');
@@ -115,10 +116,12 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
       return;
     }
 
+    // Re-entering the screen supersedes a load that is still running
+    const signal = nextSignal('details');
     try {
       setIsLoading(true);
       setError(null);
-      const carData = await carApi.getVehicleById(String(carId));
+      const carData = await carApi.getVehicleById(String(carId), { signal });
       setCar(carData);
 
       // Track view
@@ -132,20 +135,34 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
       }).start();
 
     } catch (err) {
+      if (isRequestCancelled(err)) return;
       console.error('Error fetching car details:', err);
       setError('Failed to load car details. Please try again.');
     } finally {
-      setIsLoading(false);
+      if (isLatest(signal, 'details')) {
+        setIsLoading(false);
+      }
     }
   };
 
   useFocusEffect(
     useCallback(() => {
-      checkFavoriteStatus();
       fetchCarData();
     }, [carId])
   );
 
+  // Silently swap in fresher data when the cached copy gets revalidated
+  const isThisCarKey = useCallback((key: string) => key === `/api/cars/${carId}`, [carId]);
+  const reloadFromCache = useCallback(async () => {
+    try {
+      const carData = await carApi.getVehicleById(String(carId));
+      setCar(carData);
+    } catch (err) {
+      console.warn('Failed to reload revalidated car details:', err);
+    }
+  }, [carId]);
+  useCacheRefresh(isThisCarKey, reloadFromCache);
+
   // --- ACTIONS ---
 
   const handleFavoriteToggle = async () => {
@@ -159,37 +176,20 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
       return;
     }
 
-    const newFavoriteState = !isFavorite;
-    setIsFavorite(newFavoriteState);
-
     // Bounce animation
     Animated.sequence([
       Animated.timing(favoriteScale, { toValue: 1.3, duration: 150, useNativeDriver: true }),
       Animated.timing(favoriteScale, { toValue: 1, duration: 150, useNativeDriver: true }),
     ]).start();
 
+    // Saved locally right away; synced to the account when online
     const carTitle = `${car.make} ${car.model}`;
-    if (newFavoriteState) {
+    const saved = await toggleWatched(car);
+    if (saved) {
       notifyCarSaved(carTitle);
     } else {
       notifyCarRemoved(carTitle);
     }
-
-    try {
-      const stored = await AsyncStorage.getItem(FAVORITES_KEY);
-      let favorites: string[] = stored ? JSON.parse(stored) : [];
-      const id = String(car.id);
-
-      if (newFavoriteState) {
-        if (!favorites.includes(id)) favorites.push(id);
-      } else {
-        favorites = favorites.filter(fid => fid !== id);
-      }
-
-      await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
-    } catch (e) {
-      console.error('Failed to save favorite', e);
-    }
   };
 
   const handleSendMessage = async () => {
@@ -230,10 +230,12 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
 
   const handleShare = async () => {
     if (!car) return;
+    const link = buildCarLink(car.id);
     try {
+      // Android only shares `message`, so the link goes in both
       await Share.share({
-        message: `Check out this ${car.make} ${car.model} on CarWorld! Price: ₹${car.price}`,
-        // url: `https://carworld.com/car/${car.id}` // Deep link if available
+        message: `Check out this ${car.make} ${car.model} on CarWorld! Price: ₹${car.price}\n${link}`,
+        url: link,
       });
       carApi.trackVehicleShare(String(car.id), 'native_share');
     } catch (error) {
@@ -416,6 +418,9 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
           <TouchableOpacity onPress={handleShare} style={styles.roundButton}>
             <Ionicons name="share-social-outline" size={24} color="#FFF" />
           </TouchableOpacity>
+          <TouchableOpacity onPress={() => toggleCompare(car)} style={styles.roundButton}>
+            <Ionicons name="git-compare-outline" size={24} color={isCompared(car.id) ? colors.warning : "#FFF"} />
+          </TouchableOpacity>
           <TouchableOpacity onPress={handleFavoriteToggle} style={styles.roundButton}>
             <Animated.View style={{ transform: [{ scale: favoriteScale }] }}>
               <Ionicons name={isFavorite ? "heart" : "heart-outline"} size={24} color={isFavorite ? colors.error : "#FFF"} />
@@ -444,8 +449,10 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
               if (newIndex !== activeMediaIndex) {
                 setActiveMediaIndex(newIndex);
                 if (mediaList[newIndex].type === 'video') {
-                  setIsVideoPaused(false); // Auto-play when swiped to
-                  carApi.trackCarStat(String(car.id), 'video_play');
+                  if (!dataSaver) {
+                    setIsVideoPaused(false); // Auto-play when swiped to
+                    carApi.trackCarStat(String(car.id), 'video_play');
+                  }
                 } else {
                   setIsVideoPaused(true);
                   carApi.trackCarStat(String(car.id), 'image_swipe');
@@ -458,20 +465,26 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
                 <View key={index} style={{ width, height: 300 }}>
                   {item.type === 'video' ? (
                     <View style={styles.mediaContainer}>
-                      <Video
-                        source={{ uri: item.uri }}
-                        style={styles.videoPlayer}
-                        resizeMode="cover" // or contain
-                        paused={activeMediaIndex !== index || isVideoPaused}
-                        muted={isVideoMuted}
-                        repeat
-                      />
+                      {(!dataSaver || videoRequested) ? (
+                        <Video
+                          source={{ uri: item.uri }}
+                          style={styles.videoPlayer}
+                          resizeMode="cover" // or contain
+                          paused={activeMediaIndex !== index || isVideoPaused}
+                          muted={isVideoMuted}
+                          repeat
+                        />
+                      ) : (
+                        <View style={[styles.videoPlayer, { backgroundColor: '#000' }]} />
+                      )}
                       {/* Play Icon Overlay if paused */}
                       {(activeMediaIndex !== index || isVideoPaused) && (
                         <TouchableOpacity
                           style={styles.playOverlay}
                           onPress={() => {
-                            if (activeMediaIndex === index) setIsVideoPaused(false);
+                            if (activeMediaIndex !== index) return;
+                            setVideoRequested(true);
+                            setIsVideoPaused(false);
                           }}
                         >
                           <Ionicons name="play-circle" size={64} color="rgba(255,255,255,0.8)" />
@@ -485,7 +498,7 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
                       )}
                     </View>
                   ) : (
-                    <Image source={{ uri: item.uri }} style={styles.mediaImage} resizeMode="cover" />
+                    <Image source={{ uri: getImageUrl(item.uri, 'gallery', dataSaver) }} style={styles.mediaImage} resizeMode="cover" />
                   )}
                 </View>
               ))
@@ -516,6 +529,8 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
           )}
         </View>
 
+        <CachedDataBanner matchKey={isThisCarKey} />
+
         {/* Main Content */}
         <View style={styles.contentBody}>
           {/* Hero Header */}
@@ -591,6 +606,7 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
         </View>
       </View>
 
+      <CompareTray bottomOffset={Platform.OS === 'ios' ? 96 : 84} />
     </View>
   );
 };
@@ -18,6 +18,9 @@ import { Permission } from '../../utils/permissions';
 import { carApi, Vehicle } from '../../services/CarApi';
 import { VehicleCard } from '../../config/VehicleCard';
 import { RootStackParamList } from '../../navigation/types';
+import { CachedDataBanner } from '../../config/NetworkError';
+import { useCacheRefresh } from '../../context/NetworkContext';
+import { useWatchlist } from '../../context/WatchlistContext';
 
 
 type CarListScreenNavigationProp = StackNavigationProp<RootStackParamList, 'VehicleDetail'>;
@@ -25,6 +28,7 @@ type CarListScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Vehi
 const CarListScreen: React.FC = () => {
   const navigation = useNavigation<CarListScreenNavigationProp>();
   const { user, isAuthenticated } = useAuth();
+  const { isWatched, toggle: toggleWatched } = useWatchlist();
   const canCreateCars = usePermissions([Permission.CREATE_CAR]);
 
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
@@ -39,6 +43,8 @@ const CarListScreen: React.FC = () => {
 
   const PAGE_SIZE = 20;
 
+  const isCarListKey = useCallback((key: string) => key.startsWith('/api/cars/public'), []);
+
   const fetchVehicles = useCallback(async (page = 0, refresh = false) => {
     try {
       if (page === 0) {
@@ -49,14 +55,11 @@ const CarListScreen: React.FC = () => {
       }
 
       const response = await carApi.getPublicVehicles(page, PAGE_SIZE, 'createdAt,desc');
-      const mappedContent = (response.content || []).map((item: any) => ({
+      // Contract defaults fill status/featured/views; older listings only carry imageUrl/city
+      const mappedContent = response.content.map(item => ({
         ...item,
-        images: item.images ?? (item.imageUrl ? [item.imageUrl] : []),
-        location: item.location ?? item.city ?? '',
-        status: item.status ?? 'Available',
-        featured: item.featured ?? false,
-        views: item.views ?? 0,
-        inquiries: item.inquiries ?? 0,
+        images: item.images.length ? item.images : (item.imageUrl ? [item.imageUrl] : []),
+        location: item.location || item.city || '',
       }));
       if (refresh || page === 0) {
         setVehicles(mappedContent);
@@ -145,8 +148,10 @@ const CarListScreen: React.FC = () => {
     <VehicleCard
       vehicle={item}
       onPress={() => handleVehiclePress(item)}
+      onBookmark={() => toggleWatched(item)}
+      isBookmarked={isWatched(item.id)}
     />
-  ), [handleVehiclePress]);
+  ), [handleVehiclePress, isWatched, toggleWatched]);
 
   const renderFooter = useCallback(() => {
     if (!loadingMore) return null;
@@ -184,6 +189,12 @@ const CarListScreen: React.FC = () => {
     fetchVehicles(0, false);
   }, [fetchVehicles]);
 
+  // Background revalidation brought newer listings - reload from the cache
+  const reloadFromCache = useCallback(() => {
+    fetchVehicles(0, true);
+  }, [fetchVehicles]);
+  useCacheRefresh(isCarListKey, reloadFromCache);
+
   if (loading && vehicles.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
@@ -207,6 +218,8 @@ const CarListScreen: React.FC = () => {
         </PermissionGate>
       </View>
 
+      <CachedDataBanner matchKey={isCarListKey} onRefresh={onRefresh} />
+
       {error && (
         <View style={styles.errorContainer}>
           <Text style={styles.errorTitle}>Unable to load vehicles</Text>
@@ -21,7 +21,8 @@ import Ionicons from 'react-native-vector-icons/Ionicons';
 import { Button } from '../../components/ui/Button';
 import { Input } from '../../components/ui/Input';
 import { Card } from '../../components/ui/Card';
-import { CoListVehicleRouteProp, Vehicle, DealerGroup, DealerMember } from '../../navigation/types';
+import { CoListVehicleRouteProp } from '../../navigation/types';
+import type { Vehicle } from '../../services/contracts';
 import { carApi } from '../../services/CarApi';
 
 interface CoListingOption {
@@ -47,92 +48,32 @@ const CoListVehicleScreen: React.FC = () => {
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [loading, setLoading] = useState(false);
 
-  // Mock data - replace with API calls later
-  const mockVehicleMemo = React.useMemo<Vehicle>(() => ({
-    id: vehicleId,
-    make: 'BMW',
-    model: 'X5',
-    year: 2023,
-    price: 75000,
-    mileage: 15000,
-    location: 'New York',
-    condition: 'Excellent',
-    images: ['https://example.com/bmw1.jpg'],
-    specifications: { engine: '3.0L Twin Turbo', transmission: 'Automatic' },
-    dealerId: 'current-dealer',
-    dealerName: 'Your Dealership',
-    isCoListed: false,
-    coListedIn: [],
-    views: 234,
-    inquiries: 12,
-    shares: 8,
-  }), [vehicleId]);
-
-  const mockGroupsMemo = React.useMemo<DealerGroup[]>(() => [
-    {
-      id: '1',
-      name: 'Luxury Car Dealers Network',
-      description: 'Premium luxury vehicle dealers',
-      isPrivate: false,
-      adminId: 'dealer1',
-      members: [
-        { id: 'dealer1', name: 'John Smith', dealership: 'Premium Motors', role: 'admin' },
-        { id: 'dealer2', name: 'Sarah Johnson', dealership: 'Elite Cars', role: 'member' },
-        { id: 'dealer3', name: 'Mike Wilson', dealership: 'Luxury Auto Group', role: 'member' },
-      ],
-      createdAt: new Date().toISOString(),
-    },
-    {
-      id: '2',
-      name: 'Regional Dealers Alliance',
-      description: 'Regional dealer partnerships',
-      isPrivate: true,
-      adminId: 'dealer2',
-      members: [
-        { id: 'dealer2', name: 'Sarah Johnson', dealership: 'Elite Cars', role: 'admin' },
-        { id: 'dealer4', name: 'David Brown', dealership: 'Metro Auto', role: 'member' },
-      ],
-      createdAt: new Date().toISOString(),
-    },
-  ], []);
-
-  const mockDealersMemo = React.useMemo<DealerMember[]>(() => [
-    { id: 'dealer5', name: 'Lisa Garcia', dealership: 'Speed Motors', role: 'member' },
-    { id: 'dealer6', name: 'Tom Anderson', dealership: 'Performance Plus', role: 'member' },
-    { id: 'dealer7', name: 'Chris Lee', dealership: 'Turbo Cars', role: 'member' },
-  ], []);
-
   async function loadVehicleAndOptions() {
     try {
       setLoading(true);
 
-      setTimeout(() => {
-        setVehicle(mockVehicleMemo);
-
-        const options: CoListingOption[] = [
-          ...mockGroupsMemo.map(group => ({
-            id: `group_${group.id}`,
-            type: 'group' as const,
-            name: group.name,
-            subtitle: group.description,
-            memberCount: group.members.length,
-            isPrivate: group.isPrivate,
-            selected: false,
-          })),
-          ...mockDealersMemo.map(dealer => ({
-            id: `dealer_${dealer.id}`,
-            type: 'dealer' as const,
-            name: dealer.name,
-            subtitle: dealer.dealership,
-            selected: false,
-          })),
-        ];
-
-        setCoListingOptions(options);
-        setLoading(false);
-      }, 1000);
+      const [vehicleData, groups] = await Promise.all([
+        carApi.getVehicleById(vehicleId),
+        carApi.getAllGroups(),
+      ]);
+      setVehicle(vehicleData);
+
+      // Co-listing is group-based; the API has no dealer-to-dealer share
+      const options: CoListingOption[] = groups.map(group => ({
+        id: group.id,
+        type: 'group' as const,
+        name: group.name,
+        subtitle: group.description,
+        memberCount: group.members.length,
+        isPrivate: group.isPrivate,
+        selected: false,
+      }));
+
+      setCoListingOptions(options);
     } catch (error) {
       console.error('Error loading vehicle and options:', error);
+      Alert.alert('Error', 'Failed to load co-listing options. Please try again.');
+    } finally {
       setLoading(false);
     }
   }
@@ -152,7 +93,8 @@ const CoListVehicleScreen: React.FC = () => {
 
   useEffect(() => {
     loadVehicleAndOptions();
-  }, [mockVehicleMemo, mockGroupsMemo, mockDealersMemo]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vehicleId]);
 
   useEffect(() => {
     filterOptions();
@@ -171,7 +113,7 @@ const CoListVehicleScreen: React.FC = () => {
 
   const handleCoList = () => {
     if (selectedOptions.length === 0) {
-      Alert.alert('No Selection', 'Please select at least one group or dealer to co-list with.');
+      Alert.alert('No Selection', 'Please select at least one group to co-list with.');
       return;
     }
     setShowConfirmModal(true);
@@ -182,18 +124,7 @@ const CoListVehicleScreen: React.FC = () => {
       setLoading(true);
       setShowConfirmModal(false);
 
-      // TODO: Replace with actual API call
-      const coListData = {
-        vehicleId,
-        selections: selectedOptions.map(opt => ({
-          id: opt.id,
-          type: opt.type,
-          name: opt.name,
-        })),
-      };
-
-      // Simulate API call
-      await new Promise<void>(resolve => setTimeout(resolve, 2000));
+      await carApi.coListVehicle(vehicleId, selectedOptions.map(opt => opt.id));
 
       Alert.alert(
         'Success!',
@@ -308,7 +239,7 @@ const CoListVehicleScreen: React.FC = () => {
         <Input
           value={searchText}
           onChangeText={setSearchText}
-          placeholder="Search groups or dealers..."
+          placeholder="Search groups..."
 
         />
       </View>
@@ -0,0 +1,261 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Switch,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { RootStackParamList } from '../../navigation/types';
+import { useTheme } from '../../theme/ThemeContext';
+import { useCompare } from '../../context/CompareContext';
+import { buildComparison, ComparisonRow, ComparisonSection } from '../../utils/vehicleComparison';
+
+type CompareVehiclesScreenNavigationProp = StackNavigationProp<RootStackParamList, 'CompareVehicles'>;
+
+const LABEL_WIDTH = 120;
+const COLUMN_WIDTH = 150;
+const BEST_COLOR = '#10B981';
+
+const SECTION_TITLES: Record<ComparisonSection, string> = {
+  overview: 'Overview',
+  condition: 'Condition & History',
+  specifications: 'Specifications',
+};
+
+const CompareVehiclesScreen: React.FC = () => {
+  const navigation = useNavigation<CompareVehiclesScreenNavigationProp>();
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const styles = React.useMemo(() => createStyles(colors), [colors]);
+  const { vehicles, remove } = useCompare();
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const rows = useMemo(() => buildComparison(vehicles), [vehicles]);
+  const visibleRows = differencesOnly ? rows.filter(row => row.differs) : rows;
+
+  const sections = (Object.keys(SECTION_TITLES) as ComparisonSection[])
+    .map(section => ({ section, rows: visibleRows.filter(row => row.section === section) }))
+    .filter(group => group.rows.length > 0);
+
+  const renderRow = (row: ComparisonRow) => (
+    <View key={row.key} style={styles.row}>
+      <Text style={styles.rowLabel}>{row.label}</Text>
+      {row.values.map((value, index) => {
+        const isBest = row.best.includes(index);
+        return (
+          <View key={`${row.key}-${vehicles[index]?.id ?? index}`} style={[styles.cell, isBest && styles.bestCell]}>
+            {isBest && <Ionicons name="checkmark-circle" size={14} color={BEST_COLOR} />}
+            <Text style={[styles.cellText, isBest && styles.bestText]}>{value}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Compare Cars</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {vehicles.length < 2 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="git-compare-outline" size={64} color={colors.textSecondary} />
+          <Text style={styles.emptyStateTitle}>Pick at least 2 cars</Text>
+          <Text style={styles.emptyStateText}>
+            Add cars to the compare tray from search results or a car's details page.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.toolbar}>
+            <Text style={styles.toolbarText}>Show differences only</Text>
+            <Switch
+              value={differencesOnly}
+              onValueChange={setDifferencesOnly}
+              trackColor={{ false: '#ddd', true: colors.primary }}
+            />
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <ScrollView contentContainerStyle={styles.table}>
+              <View style={styles.row}>
+                <View style={styles.rowLabel} />
+                {vehicles.map(vehicle => (
+                  <TouchableOpacity
+                    key={vehicle.id}
+                    style={styles.vehicleHeader}
+                    activeOpacity={0.8}
+                    onPress={() => navigation.navigate('CarDetails', { carId: vehicle.id })}
+                  >
+                    {vehicle.images[0] ? (
+                      <Image source={{ uri: vehicle.images[0] }} style={styles.vehicleImage} />
+                    ) : (
+                      <View style={[styles.vehicleImage, styles.vehicleImagePlaceholder]}>
+                        <Ionicons name="car-sport" size={32} color={colors.textSecondary} />
+                      </View>
+                    )}
+                    <Text style={styles.vehicleTitle} numberOfLines={2}>
+                      {vehicle.year} {vehicle.make} {vehicle.model}
+                    </Text>
+                    <TouchableOpacity style={styles.removeButton} onPress={() => remove(vehicle.id)}>
+                      <Ionicons name="close" size={16} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {sections.map(group => (
+                <View key={group.section}>
+                  <Text style={styles.sectionTitle}>{SECTION_TITLES[group.section]}</Text>
+                  {group.rows.map(renderRow)}
+                </View>
+              ))}
+            </ScrollView>
+          </ScrollView>
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  toolbarText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  table: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  rowLabel: {
+    width: LABEL_WIDTH,
+    paddingVertical: 12,
+    paddingRight: 8,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  cell: {
+    width: COLUMN_WIDTH,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  bestCell: {
+    backgroundColor: `${BEST_COLOR}15`,
+  },
+  cellText: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  bestText: {
+    fontWeight: '700',
+    color: BEST_COLOR,
+  },
+  sectionTitle: {
+    marginTop: 20,
+    marginBottom: 4,
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  vehicleHeader: {
+    width: COLUMN_WIDTH,
+    padding: 8,
+  },
+  vehicleImage: {
+    width: COLUMN_WIDTH - 16,
+    height: 84,
+    borderRadius: 8,
+  },
+  vehicleImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.border,
+  },
+  vehicleTitle: {
+    marginTop: 6,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 2,
+    borderRadius: 10,
+    backgroundColor: colors.surface,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    color: colors.text,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+    color: colors.textSecondary,
+  },
+});
+
+export default CompareVehiclesScreen;
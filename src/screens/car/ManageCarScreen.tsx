@@ -19,6 +19,7 @@ import {
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../../theme/ThemeContext';
 import { formatIndianNumber } from '../../utils/formatting';
+import { buildCarLink } from '../../navigation/linking';
 
 const { width, height } = Dimensions.get('window');
 
@@ -192,8 +193,10 @@ const ManageCarScreen: React.FC<Props> = ({ navigation, route }) => {
 
   const handleShareCar = async () => {
     try {
+      const link = buildCarLink(car.id);
       await Share.share({
-        message: `Check out this ${car.title} for ${car.price}! Available in ${car.location}`,
+        message: `Check out this ${car.title} for ${car.price}! Available in ${car.location}\n${link}`,
+        url: link,
         title: car.title,
       });
     } catch (error) {
@@ -18,6 +18,7 @@ import {
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { carApi, Vehicle } from '../../services/CarApi';
 import { useTheme } from '../../theme/ThemeContext';
+import { useOutbox } from '../../context/OutboxContext';
 
 const { width, height } = Dimensions.get('window');
 
@@ -111,6 +112,7 @@ const MyGarageScreen: React.FC<Props> = ({ navigation }) => {
   const [showSortModal, setShowSortModal] = useState(false);
   const [sortBy, setSortBy] = useState<'date' | 'price' | 'views' | 'inquiries'>('date');
   const [searchQuery, setSearchQuery] = useState('');
+  const { hasPendingFor } = useOutbox();
 
   const loadCars = useCallback(async () => {
     try {
@@ -171,11 +173,15 @@ const MyGarageScreen: React.FC<Props> = ({ navigation }) => {
         backendStatus = 'INACTIVE';
       }
 
-      await carApi.updateVehicleStatus(carId, backendStatus as any);
+      const updated = await carApi.updateVehicleStatus(carId, backendStatus as any);
       setCars(prev => prev.map(car =>
         car.id === carId ? { ...car, status: newStatus, updatedAt: new Date().toISOString().split('T')[0] } : car
       ));
-      Alert.alert('Success', `Car status updated to ${newStatus}`);
+      if (updated?.pendingSync) {
+        Alert.alert('Saved Offline', `Car will be marked ${newStatus} once you're back online.`);
+      } else {
+        Alert.alert('Success', `Car status updated to ${newStatus}`);
+      }
     } catch (error) {
       Alert.alert('Error', 'Failed to update car status');
     }
@@ -466,6 +472,17 @@ const MyGarageScreen: React.FC<Props> = ({ navigation }) => {
       marginLeft: 4,
       textTransform: 'capitalize',
     },
+    pendingSyncBadge: {
+      position: 'absolute',
+      bottom: 12,
+      left: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 12,
+      backgroundColor: 'rgba(0,0,0,0.7)',
+    },
     promotedBadge: {
       position: 'absolute',
       top: 12,
@@ -917,6 +934,13 @@ const MyGarageScreen: React.FC<Props> = ({ navigation }) => {
                       <Text style={styles.promotedText}>PROMOTED</Text>
                     </View>
                   )}
+
+                  {hasPendingFor(car.id) && (
+                    <View style={styles.pendingSyncBadge}>
+                      <Ionicons name="cloud-upload-outline" size={12} color="#FFFFFF" />
+                      <Text style={styles.statusText}>Pending sync</Text>
+                    </View>
+                  )}
                 </View>
 
                 <View style={styles.carContent}>
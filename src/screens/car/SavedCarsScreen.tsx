@@ -0,0 +1,269 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { RootStackParamList } from '../../navigation/types';
+import { useTheme } from '../../theme/ThemeContext';
+import { useWatchlist } from '../../context/WatchlistContext';
+import { useNetwork } from '../../context/NetworkContext';
+import type { WatchlistEntry } from '../../services/CarApi';
+
+type SavedCarsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'SavedCars'>;
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 });
+
+// Backend statuses arrive in either case
+const STATUS_COLORS: Record<string, string> = {
+  AVAILABLE: '#10B981',
+  RESERVED: '#F59E0B',
+  SOLD: '#EF4444',
+};
+
+const SavedCarsScreen: React.FC = () => {
+  const navigation = useNavigation<SavedCarsScreenNavigationProp>();
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const styles = React.useMemo(() => createStyles(colors), [colors]);
+  const { isOnline } = useNetwork();
+  const { entries, pendingCount, isSyncing, syncNow, remove } = useWatchlist();
+
+  const onRefresh = useCallback(() => {
+    syncNow();
+  }, [syncNow]);
+
+  const renderItem = ({ item }: { item: WatchlistEntry }) => {
+    const car = item.car;
+    if (!car) {
+      // Listing was deleted after it was saved
+      return (
+        <View style={[styles.card, styles.unavailableCard]}>
+          <View style={styles.cardBody}>
+            <Text style={styles.title}>No longer available</Text>
+            <Text style={styles.subtitle}>Saved at {formatPrice(item.savedPrice)}</Text>
+          </View>
+          <TouchableOpacity onPress={() => remove(item.carId)} style={styles.heartButton}>
+            <Ionicons name="heart" size={22} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const drop = item.savedPrice - car.price;
+    const status = car.status.toUpperCase();
+    const statusColor = STATUS_COLORS[status] ?? colors.textSecondary;
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.8}
+        onPress={() => navigation.navigate('CarDetails', { carId: String(car.id) })}
+      >
+        {car.images?.[0] ? (
+          <Image source={{ uri: car.images[0] }} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+            <Ionicons name="car-outline" size={28} color={colors.textSecondary} />
+          </View>
+        )}
+
+        <View style={styles.cardBody}>
+          <Text style={styles.title} numberOfLines={1}>{car.year} {car.make} {car.model}</Text>
+          <Text style={styles.price}>{formatPrice(car.price)}</Text>
+          <View style={styles.badges}>
+            {drop > 0 && (
+              <View style={[styles.badge, { backgroundColor: '#10B98120' }]}>
+                <Ionicons name="trending-down" size={12} color="#10B981" />
+                <Text style={[styles.badgeText, { color: '#10B981' }]}>{formatPrice(drop)} less</Text>
+              </View>
+            )}
+            {status !== 'AVAILABLE' && (
+              <View style={[styles.badge, { backgroundColor: `${statusColor}20` }]}>
+                <Text style={[styles.badgeText, { color: statusColor }]}>{car.status}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+
+        <TouchableOpacity onPress={() => remove(item.carId)} style={styles.heartButton}>
+          <Ionicons name="heart" size={22} color={colors.error} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Saved Cars</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {pendingCount > 0 && !isOnline && (
+        <View style={styles.pendingBanner}>
+          <Ionicons name="cloud-offline-outline" size={16} color={colors.textSecondary} />
+          <Text style={styles.pendingText}>
+            {pendingCount} change{pendingCount === 1 ? '' : 's'} will sync when you're back online
+          </Text>
+        </View>
+      )}
+
+      <FlatList
+        data={entries}
+        keyExtractor={item => item.carId}
+        renderItem={renderItem}
+        contentContainerStyle={entries.length === 0 ? styles.emptyContainer : styles.list}
+        refreshControl={<RefreshControl refreshing={isSyncing} onRefresh={onRefresh} />}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="heart-outline" size={64} color={colors.textSecondary} />
+            <Text style={styles.emptyStateTitle}>No Saved Cars</Text>
+            <Text style={styles.emptyStateText}>
+              Tap the heart on a car to save it. We'll let you know when its price drops or it sells.
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  pendingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: colors.surface,
+  },
+  pendingText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  list: {
+    padding: 16,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  unavailableCard: {
+    opacity: 0.6,
+  },
+  thumbnail: {
+    width: 88,
+    height: 66,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.border,
+  },
+  cardBody: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+    color: colors.textSecondary,
+  },
+  price: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginTop: 2,
+    color: colors.primary,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  heartButton: {
+    padding: 8,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    color: colors.text,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+    color: colors.textSecondary,
+  },
+});
+
+export default SavedCarsScreen;
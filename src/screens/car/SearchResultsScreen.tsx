@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,23 +7,42 @@ import {
   TouchableOpacity,
   SafeAreaView,
   RefreshControl,
-  Alert,
   Modal,
   Dimensions,
   ActivityIndicator,
   TextInput,
+  ScrollView,
+  Share,
 } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { Button } from '../../components/ui/Button';
 import { Input } from '../../components/ui/Input';
 import { Card } from '../../components/ui/Card';
-import { Vehicle, VehicleSearchFilters, carApi } from '../../services/CarApi';
+import { Vehicle, VehicleSearchFilters } from '../../services/CarApi';
 import { VehicleCard } from '../../config/VehicleCard';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { RootStackParamList } from '../../navigation/types';
 import { AnalyticsService } from '../../services/AnalyticsService';
+import { useVehicleSearch } from '../../hooks/useVehicleSearch';
+import { useSearchFacets } from '../../hooks/useSearchFacets';
+import { useCarModelIndex } from '../../hooks/useCarModelIndex';
+import { FacetBucket, facetOptions, isRangeSelected, RangeBucket } from '../../services/vehicleSearch';
+import { toggleListValue } from '../../utils/searchFilters';
+import { POPULAR_MODELS, POPULAR_SEARCHES } from '../../utils/carCatalog';
+import {
+  mentionedBrands,
+  mergeSearchFilters,
+  parseSearchQuery,
+  QueryChip,
+  removeChipFromQuery,
+} from '../../utils/searchQueryParser';
+import { useWatchlist } from '../../context/WatchlistContext';
+import { useCompare } from '../../context/CompareContext';
+import CompareTray from '../../components/car/CompareTray';
+import SearchResultsMap from '../../components/car/SearchResultsMap';
+import { buildSearchLink } from '../../navigation/linking';
 
 const { width } = Dimensions.get('window');
 
@@ -32,6 +51,16 @@ type SearchResultsScreenRouteProp = RouteProp<RootStackParamList, 'SearchResults
 
 interface SearchResultsScreenProps { }
 
+const RELEVANCE = 'relevance';
+const NEAREST = 'distanceKm,asc';
+
+// Filters that narrow the results on their own (without a typed query)
+const hasFilterCriteria = (filters: VehicleSearchFilters) =>
+  [filters.make, filters.model, filters.location, filters.condition, filters.fuelType, filters.transmission, filters.color]
+    .some(Boolean) ||
+  [filters.minYear, filters.maxYear, filters.minPrice, filters.maxPrice, filters.maxMileage].some(value => value !== undefined) ||
+  filters.featured !== undefined;
+
 const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
   const navigation = useNavigation<SearchResultsScreenNavigationProp>();
   const route = useRoute<SearchResultsScreenRouteProp>();
@@ -43,19 +72,16 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
   const spacing = { md: 16 };
   const { filters: initialFilters } = route.params as { filters: VehicleSearchFilters };
 
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
   const [filters, setFilters] = useState<VehicleSearchFilters>(initialFilters || {});
   const [showFilters, setShowFilters] = useState(false);
-  const [sortBy, setSortBy] = useState('relevance');
-  const [totalResults, setTotalResults] = useState(0);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [totalPages, setTotalPages] = useState(0);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [isSearching, setIsSearching] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [sortBy, setSortBy] = useState(initialFilters?.sort || RELEVANCE);
+  // Opened from a saved search: start with its keyword
+  const [searchQuery, setSearchQuery] = useState(initialFilters?.query ?? '');
+  const [debouncedQuery, setDebouncedQuery] = useState(searchQuery);
   const searchInputRef = useRef<TextInput>(null);
+  const { isWatched, toggle: toggleWatched } = useWatchlist();
+  const { vehicles: comparedVehicles, isCompared, toggle: toggleCompare } = useCompare();
 
   // Filter state
   const [tempFilters, setTempFilters] = useState<VehicleSearchFilters>(filters);
@@ -66,83 +92,67 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
     setTimeout(() => searchInputRef.current?.focus(), 100);
   }, []);
 
-  // Debounced search effect
+  // Debounce typing; a new keyword replaces the query Apollo is running
   useEffect(() => {
-    if (searchQuery.length === 0) {
-      setVehicles([]);
-      setTotalResults(0);
-      return;
-    }
-
-    if (searchQuery.length < 2) {
-      return;
-    }
-
-    setIsSearching(true);
-    const debounceTimer = setTimeout(() => {
-      searchVehicles(true);
-    }, 300);
-
-    return () => {
-      clearTimeout(debounceTimer);
-    };
+    const debounceTimer = setTimeout(() => setDebouncedQuery(searchQuery), 300);
+    return () => clearTimeout(debounceTimer);
   }, [searchQuery]);
 
-  const searchVehicles = useCallback(async (reset: boolean = false, pageOverride?: number) => {
-    try {
-      if (reset) {
-        setLoading(true);
-        setCurrentPage(0);
-      } else {
-        setLoadingMore(true);
-      }
-
-      const nextPage = reset ? 0 : (pageOverride ?? 0);
-      const searchFilters = {
-        ...filters,
-        query: searchQuery || undefined,
-        page: nextPage,
-        size: 10,
-        sort: sortBy,
-      };
-
-      const response = await carApi.searchVehicles(searchFilters);
-
-      if (reset) {
-        setVehicles(response.content);
-        setCurrentPage(0);
-      } else {
-        setVehicles(prev => [...prev, ...response.content]);
-        setCurrentPage(prev => prev + 1);
-      }
-
-      setTotalResults(response.totalElements);
-      setTotalPages(response.totalPages);
-
-      // Analytics: Track search
-      if (reset && searchQuery) {
-        AnalyticsService.trackSearch(searchQuery, response.totalElements);
-      }
-    } catch (error) {
-      console.error('Error searching vehicles:', error);
-      Alert.alert('Search Error', 'Failed to search vehicles. Please try again.');
-    } finally {
-      setLoading(false);
-      setLoadingMore(false);
-      setRefreshing(false);
-      setIsSearching(false);
+  // "white creta diesel under 10 lakh" -> filter chips plus a leftover keyword.
+  // Brands mentioned so far pull in their full model lists for the parser.
+  const typedBrands = useMemo(
+    () => mentionedBrands(parseSearchQuery(searchQuery, POPULAR_MODELS)),
+    [searchQuery],
+  );
+  const modelIndex = useCarModelIndex(typedBrands);
+  // Chips follow the text as typed; the search follows the debounced text
+  const queryChips = useMemo(() => parseSearchQuery(searchQuery, modelIndex).chips, [searchQuery, modelIndex]);
+  const parsedQuery = useMemo(() => parseSearchQuery(debouncedQuery, modelIndex), [debouncedQuery, modelIndex]);
+
+  const searchFilters = useMemo<VehicleSearchFilters>(() => ({
+    ...mergeSearchFilters(filters, parsedQuery.filters),
+    query: parsedQuery.keyword || undefined,
+    sort: sortBy === RELEVANCE ? undefined : sortBy,
+  }), [filters, parsedQuery, sortBy]);
+
+  const {
+    vehicles,
+    totalCount,
+    isLoading,
+    isSearching: isFetching,
+    isLoadingMore,
+    isRefreshing,
+    error,
+    loadMore,
+    refresh,
+  } = useVehicleSearch(searchFilters, {
+    skip: parsedQuery.keyword.length === 1 || (parsedQuery.keyword.length === 0 && !hasFilterCriteria(searchFilters)),
+  });
+
+  const isSearching = isFetching || searchQuery !== debouncedQuery;
+
+  // Counts follow the filters being edited, before they're applied
+  const facetFilters = useMemo<VehicleSearchFilters>(
+    () => ({ ...mergeSearchFilters(tempFilters, parsedQuery.filters), query: parsedQuery.keyword || undefined }),
+    [tempFilters, parsedQuery],
+  );
+  const { facets } = useSearchFacets(facetFilters, { skip: !showFilters });
+
+  // Analytics: Track each keyword search once its results arrive
+  useEffect(() => {
+    if (debouncedQuery && !isFetching && !error) {
+      AnalyticsService.trackSearch(debouncedQuery, totalCount);
     }
-  }, [filters, sortBy]);
+    // Only when a search settles, not on every page loaded
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedQuery, isFetching]);
 
   const onRefresh = useCallback(() => {
-    setRefreshing(true);
-    searchVehicles(true);
-  }, [searchVehicles]);
+    refresh();
+  }, [refresh]);
 
   const handleLoadMore = () => {
-    if (!loadingMore && currentPage < totalPages - 1) {
-      searchVehicles(false, currentPage + 1);
-    }
+    loadMore();
   };
 
   const applyFilters = () => {
@@ -165,6 +175,24 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
     setSortBy(newSortBy);
   };
 
+  const removeQueryChip = (chip: QueryChip) => {
+    const remaining = removeChipFromQuery(searchQuery, chip);
+    setSearchQuery(remaining);
+    // Apply straight away rather than waiting out the typing debounce
+    setDebouncedQuery(remaining);
+  };
+
+  // The link carries every filter, including those parsed from the typed query
+  const shareSearch = async () => {
+    const link = buildSearchLink(searchFilters);
+    try {
+      await Share.share({ message: `Cars on CarWorld: ${link}`, url: link });
+      AnalyticsService.track('SEARCH_SHARE', 'SEARCH');
+    } catch (error) {
+      console.warn('Failed to share search:', error);
+    }
+  };
+
   const handleVehiclePress = (item: Vehicle) => {
     // Analytics: Track result click
     AnalyticsService.track('SEARCH_RESULT_CLICK', 'CAR', item.id, { query: searchQuery });
@@ -177,6 +205,10 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
       onPress={() => handleVehiclePress(item)}
       showCoListButton
       onCoList={() => navigation.navigate('CoListVehicle', { vehicleId: item.id })}
+      onBookmark={() => toggleWatched(item)}
+      isBookmarked={isWatched(item.id)}
+      onCompare={() => toggleCompare(item)}
+      isCompared={isCompared(item.id)}
     />
   );
 
@@ -214,6 +246,20 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
         )}
       </View>
 
+      <TouchableOpacity
+        style={[styles.filterButton, styles.viewModeButton]}
+        onPress={shareSearch}
+      >
+        <Ionicons name="share-social-outline" size={24} color={colors.primary} />
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.filterButton, styles.viewModeButton]}
+        onPress={() => setViewMode(mode => (mode === 'list' ? 'map' : 'list'))}
+      >
+        <Ionicons name={viewMode === 'list' ? 'map-outline' : 'list'} size={24} color={colors.primary} />
+      </TouchableOpacity>
+
       <TouchableOpacity
         style={styles.filterButton}
         onPress={() => setShowFilters(true)}
@@ -223,36 +269,122 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
     </View>
   );
 
+  const renderQueryChips = () => {
+    if (queryChips.length === 0) return null;
+
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.queryChipsRow}
+        contentContainerStyle={styles.queryChips}
+        keyboardShouldPersistTaps="handled"
+      >
+        {queryChips.map(chip => (
+          <TouchableOpacity key={chip.key} style={styles.queryChip} onPress={() => removeQueryChip(chip)}>
+            <Text style={styles.queryChipText}>{chip.label}</Text>
+            <Ionicons name="close" size={14} color={colors.textSecondary} />
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
+  };
+
   const renderSortOptions = () => (
     <View style={styles.sortContainer}>
       <Text style={styles.sortLabel}>Sort by:</Text>
       <TouchableOpacity
-        style={[styles.sortButton, sortBy === 'relevance' && styles.activeSortButton]}
-        onPress={() => handleSortChange('relevance')}
+        style={[styles.sortButton, sortBy === RELEVANCE && styles.activeSortButton]}
+        onPress={() => handleSortChange(RELEVANCE)}
       >
-        <Text style={[styles.sortText, sortBy === 'relevance' && styles.activeSortText]}>
+        <Text style={[styles.sortText, sortBy === RELEVANCE && styles.activeSortText]}>
           Relevance
         </Text>
       </TouchableOpacity>
       <TouchableOpacity
-        style={[styles.sortButton, sortBy === 'price' && styles.activeSortButton]}
-        onPress={() => handleSortChange('price')}
+        style={[styles.sortButton, sortBy === 'price,asc' && styles.activeSortButton]}
+        onPress={() => handleSortChange('price,asc')}
       >
-        <Text style={[styles.sortText, sortBy === 'price' && styles.activeSortText]}>
+        <Text style={[styles.sortText, sortBy === 'price,asc' && styles.activeSortText]}>
           Price: Low to High
         </Text>
       </TouchableOpacity>
       <TouchableOpacity
-        style={[styles.sortButton, sortBy === 'year' && styles.activeSortButton]}
-        onPress={() => handleSortChange('year')}
+        style={[styles.sortButton, sortBy === 'year,desc' && styles.activeSortButton]}
+        onPress={() => handleSortChange('year,desc')}
       >
-        <Text style={[styles.sortText, sortBy === 'year' && styles.activeSortText]}>
+        <Text style={[styles.sortText, sortBy === 'year,desc' && styles.activeSortText]}>
           Year: New to Old
         </Text>
       </TouchableOpacity>
+      {/* Only when the search carries a position (radius search from VehicleSearch) */}
+      {filters.latitude !== undefined && (
+        <TouchableOpacity
+          style={[styles.sortButton, sortBy === NEAREST && styles.activeSortButton]}
+          onPress={() => handleSortChange(NEAREST)}
+        >
+          <Text style={[styles.sortText, sortBy === NEAREST && styles.activeSortText]}>
+            Nearest
+          </Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
+  const renderFacetChips = (buckets: FacetBucket[] | undefined, key: 'make' | 'model' | 'location' | 'condition') => {
+    const selected = tempFilters[key]?.split(',').map(value => value.trim()).filter(Boolean) ?? [];
+    const options = facetOptions(buckets, selected);
+    if (!options?.length) return null;
+
+    return (
+      <View style={styles.facetChips}>
+        {options.map(option => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.facetChip, isSelected && styles.facetChipActive]}
+              onPress={() => setTempFilters(prev => ({ ...prev, [key]: toggleListValue(prev[key], option.value) }))}
+            >
+              <Text style={[styles.facetChipText, isSelected && styles.facetChipTextActive]}>
+                {option.value} ({option.count})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderRangeChips = (buckets: RangeBucket[] | undefined, minKey: 'minPrice' | 'minYear', maxKey: 'maxPrice' | 'maxYear') => {
+    const isSelected = (bucket: RangeBucket) => isRangeSelected(bucket, tempFilters[minKey], tempFilters[maxKey]);
+    const options = buckets?.filter(bucket => bucket.count > 0 || isSelected(bucket));
+    if (!options?.length) return null;
+
+    return (
+      <View style={styles.facetChips}>
+        {options.map(bucket => {
+          const active = isSelected(bucket);
+          return (
+            <TouchableOpacity
+              key={bucket.label}
+              style={[styles.facetChip, active && styles.facetChipActive]}
+              onPress={() => setTempFilters(prev => ({
+                ...prev,
+                [minKey]: active ? undefined : bucket.min ?? undefined,
+                [maxKey]: active ? undefined : bucket.max ?? undefined,
+              }))}
+            >
+              <Text style={[styles.facetChipText, active && styles.facetChipTextActive]}>
+                {bucket.label} ({bucket.count})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
   const renderFilterModal = () => (
     <Modal
       visible={showFilters}
@@ -271,10 +403,17 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
           </TouchableOpacity>
         </View>
 
-        <View style={styles.filterContent}>
+        <ScrollView style={styles.filterContent}>
+          {facets && (
+            <Text style={styles.facetSummary}>
+              {facets.totalCount} {facets.totalCount === 1 ? 'car matches' : 'cars match'}
+            </Text>
+          )}
+
           {/* Price Range */}
           <Card style={styles.filterSection}>
             <Text style={styles.filterSectionTitle}>Price Range</Text>
+            {renderRangeChips(facets?.prices, 'minPrice', 'maxPrice')}
             <View style={styles.priceRow}>
               <Input
                 placeholder="Min Price"
@@ -303,6 +442,7 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
           {/* Make & Model */}
           <Card style={styles.filterSection}>
             <Text style={styles.filterSectionTitle}>Vehicle</Text>
+            {renderFacetChips(facets?.brands, 'make')}
             <Input
               placeholder="Make (e.g., Toyota, Honda)"
               value={tempFilters.make || ''}
@@ -313,11 +453,13 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
               value={tempFilters.model || ''}
               onChangeText={(text) => setTempFilters(prev => ({ ...prev, model: text }))}
             />
+            {renderFacetChips(facets?.models, 'model')}
           </Card>
 
           {/* Year Range */}
           <Card style={styles.filterSection}>
             <Text style={styles.filterSectionTitle}>Year Range</Text>
+            {renderRangeChips(facets?.years, 'minYear', 'maxYear')}
             <View style={styles.priceRow}>
               <Input
                 placeholder="From Year"
@@ -346,6 +488,7 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
           {/* Location & Condition */}
           <Card style={styles.filterSection}>
             <Text style={styles.filterSectionTitle}>Location & Condition</Text>
+            {renderFacetChips(facets?.cities, 'location')}
             <Input
               placeholder="Location"
               value={tempFilters.location || ''}
@@ -356,6 +499,7 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
               value={tempFilters.condition || ''}
               onChangeText={(text) => setTempFilters(prev => ({ ...prev, condition: text }))}
             />
+            {renderFacetChips(facets?.conditions, 'condition')}
           </Card>
 
           {/* Featured Toggle */}
@@ -379,7 +523,7 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
               </TouchableOpacity>
             </View>
           </Card>
-        </View>
+        </ScrollView>
 
         <View style={styles.filterFooter}>
           <Button
@@ -395,22 +539,11 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
   const renderEmptyState = () => {
     // If query is empty, show popular searches
     if (searchQuery.length === 0) {
-      const popularSearches = [
-        'SUVs under ₹20L',
-        'Honda City',
-        'Low mileage cars',
-        'Automatic transmission',
-        'Diesel cars',
-        'Toyota Fortuner',
-        'Hyundai Creta',
-        'Cars in Mumbai',
-      ];
-
       return (
         <View style={styles.popularSearchesContainer}>
           <Text style={styles.popularSearchesTitle}>Popular Searches</Text>
           <View style={styles.popularSearchesGrid}>
-            {popularSearches.map((search, index) => (
+            {POPULAR_SEARCHES.map((search, index) => (
               <TouchableOpacity
                 key={index}
                 style={styles.popularSearchChip}
@@ -443,6 +576,24 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
       return null; // Loading handled by main loading state
     }
 
+    if (error) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="cloud-offline-outline" size={80} color={colors.textSecondary} />
+          <Text style={styles.emptyStateTitle}>Search failed</Text>
+          <Text style={styles.emptyStateText}>
+            Failed to search vehicles. Please try again.
+          </Text>
+          <Button
+            title="Try Again"
+            onPress={onRefresh}
+            variant="outline"
+            style={styles.clearFiltersButton}
+          />
+        </View>
+      );
+    }
+
     // If no results found
     return (
       <View style={styles.emptyState}>
@@ -462,7 +613,7 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
   };
 
   const renderLoadingFooter = () => {
-    if (!loadingMore) return null;
+    if (!isLoadingMore) return null;
 
     return (
       <View style={styles.loadingFooter}>
@@ -472,7 +623,7 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
     );
   };
 
-  if (loading) {
+  if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -486,23 +637,33 @@ const SearchResultsScreen: React.FC<SearchResultsScreenProps> = () => {
   return (
     <SafeAreaView style={styles.container}>
       {renderHeader()}
-      {renderSortOptions()}
-
-      <FlatList
-        data={vehicles}
-        renderItem={renderVehicleItem}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={styles.listContainer}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-        onEndReached={handleLoadMore}
-        onEndReachedThreshold={0.1}
-        ListEmptyComponent={renderEmptyState}
-        ListFooterComponent={renderLoadingFooter}
-        showsVerticalScrollIndicator={false}
-      />
+      {renderQueryChips()}
+      {viewMode === 'list' && renderSortOptions()}
+
+      {viewMode === 'map' ? (
+        <SearchResultsMap
+          filters={searchFilters}
+          onCarPress={(carId) => navigation.navigate('CarDetails', { carId })}
+          onDealerPress={(dealerId) => navigation.navigate('DealerProfile', { dealerId })}
+        />
+      ) : (
+        <FlatList
+          data={vehicles}
+          renderItem={renderVehicleItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={[styles.listContainer, comparedVehicles.length > 0 && styles.listWithTray]}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+          }
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.1}
+          ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={renderLoadingFooter}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
 
+      {viewMode === 'list' && <CompareTray />}
       {renderFilterModal()}
     </SafeAreaView>
   );
@@ -557,6 +718,36 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     backgroundColor: '#f0f0f0',
   },
+  viewModeButton: {
+    marginRight: 8,
+  },
+  queryChipsRow: {
+    flexGrow: 0,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  queryChips: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  queryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFF8DC',
+    borderWidth: 1,
+    borderColor: '#FFD700',
+  },
+  queryChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1A202C',
+  },
   sortContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -593,6 +784,9 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 32,
   },
+  listWithTray: {
+    paddingBottom: 104,
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
@@ -654,6 +848,36 @@ const styles = StyleSheet.create({
   filterSection: {
     marginBottom: 16,
   },
+  facetSummary: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  facetChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  facetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  facetChipActive: {
+    backgroundColor: '#4ECDC4',
+    borderColor: '#4ECDC4',
+  },
+  facetChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  facetChipTextActive: {
+    color: '#fff',
+  },
   filterSectionTitle: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,44 +13,40 @@ import {
   ActivityIndicator,
   Alert,
   Dimensions,
+  Switch,
+  Keyboard,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
-import { VehicleSearchNavigationProp, Vehicle } from '../../navigation/types';
+import { VehicleSearchNavigationProp } from '../../navigation/types';
 import { Input } from '../../components/ui/Input';
 import { Button } from '../../components/ui/Button';
 import { VehicleCard } from '../../config/VehicleCard';
-import { carApi } from '../../services/CarApi';
-import { useLazyQuery } from '@apollo/client/react';
-import { formatIndianNumber, cleanNumberInput } from '../../utils/formatting';
-
-import { SEARCH_CARS_QUERY } from '../../services/queries';
+import { carApi, SavedSearch, SearchFilters, Vehicle } from '../../services/CarApi';
+import { showErrorAlert } from '../../services/ErrorCatalog';
+import { formatIndianNumber } from '../../utils/formatting';
+import {
+  EMPTY_SEARCH_FILTERS,
+  describeSearchFilters,
+  isEmptySearch,
+  isRangeBucketSelected,
+  toggleRangeBucket,
+  toVehicleSearchFilters,
+} from '../../utils/searchFilters';
+import { useVehicleSearch } from '../../hooks/useVehicleSearch';
+import { useSearchFacets } from '../../hooks/useSearchFacets';
+import { useSearchOrigin } from '../../hooks/useSearchOrigin';
+import { useRecentSearches } from '../../hooks/useRecentSearches';
+import { useSearchAutocomplete } from '../../hooks/useSearchAutocomplete';
+import SearchSuggestions from '../../components/car/SearchSuggestions';
+import type { SearchSuggestion } from '../../utils/searchSuggestions';
+import { StepSlider } from '../../components/ui/StepSlider';
+import { FacetBucket, facetOptions, RangeBucket } from '../../services/vehicleSearch';
 
 const { width } = Dimensions.get('window');
 
-interface SearchFilters {
-  searchText: string;
-  make: string[];
-  model: string[];
-  yearMin: string;
-  yearMax: string;
-  priceMin: string;
-  priceMax: string;
-  mileageMax: string;
-  location: string[];
-  condition: string[];
-  fuelType: string[];
-  transmission: string[];
-  sortBy: 'price-low' | 'price-high' | 'year-new' | 'year-old' | 'mileage-low' | 'mileage-high' | 'relevance';
-}
-
-interface SavedSearch {
-  id: string;
-  name: string;
-  filters: SearchFilters;
-  createdAt: string;
-  resultCount: number;
-}
+const RADIUS_STEPS_KM = [5, 10, 25, 50, 100, 200];
+const DEFAULT_RADIUS_KM = 25;
 
 interface QuickFilter {
   id: string;
@@ -59,44 +55,15 @@ interface QuickFilter {
   icon: string;
 }
 
-interface SearchCarsResult {
-  searchCars: {
-    content: any[];
-    totalPages: number;
-    totalElements: number;
-    pageNumber: number;
-    pageSize: number;
-  };
-}
-
 const VehicleSearchScreen: React.FC = () => {
   const navigation = useNavigation<VehicleSearchNavigationProp>();
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [filteredVehicles, setFilteredVehicles] = useState<Vehicle[]>([]);
-  const [filters, setFilters] = useState<SearchFilters>({
-    searchText: '',
-    make: [],
-    model: [],
-    yearMin: '',
-    yearMax: '',
-    priceMin: '',
-    priceMax: '',
-    mileageMax: '',
-    location: [],
-    condition: [],
-    fuelType: [],
-    transmission: [],
-    sortBy: 'price-low',
-  });
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
   const [showFiltersModal, setShowFiltersModal] = useState(false);
   const [showSortModal, setShowSortModal] = useState(false);
   const [showSavedSearches, setShowSavedSearches] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [recentSearches, setRecentSearches] = useState<string[]>(['BMW X5', 'Tesla Model 3', 'Mercedes S-Class']);
+  const [isSearchFocused, setSearchFocused] = useState(false);
   const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
+  const [savingSearch, setSavingSearch] = useState(false);
 
   const colors = {
     background: '#FAFBFC',
@@ -108,105 +75,6 @@ const VehicleSearchScreen: React.FC = () => {
   };
   const spacing = { sm: 8, md: 16, lg: 24, xl: 32 };
 
-  // Mock data - replace with API calls later
-  const mockVehiclesMemo = React.useMemo<Vehicle[]>(() => [
-    {
-      id: '1',
-      make: 'BMW',
-      model: 'X5',
-      year: 2023,
-      price: 75000,
-      mileage: 15000,
-      location: 'New York',
-      condition: 'Excellent',
-      images: ['https://example.com/bmw1.jpg'],
-      specifications: { engine: '3.0L Twin Turbo', transmission: 'Automatic', fuelType: 'Gasoline' },
-      dealerId: 'dealer2',
-      dealerName: 'Elite Cars',
-      isCoListed: true,
-      coListedIn: ['group1'],
-      views: 234,
-      inquiries: 12,
-      shares: 8,
-    },
-    {
-      id: '2',
-      make: 'Mercedes-Benz',
-      model: 'S-Class',
-      year: 2024,
-      price: 95000,
-      mileage: 5000,
-      location: 'Los Angeles',
-      condition: 'Like New',
-      images: ['https://example.com/merc1.jpg'],
-      specifications: { engine: '4.0L V8 Biturbo', transmission: 'Automatic', fuelType: 'Gasoline' },
-      dealerId: 'dealer3',
-      dealerName: 'Luxury Auto Group',
-      isCoListed: true,
-      coListedIn: ['group1'],
-      views: 456,
-      inquiries: 23,
-      shares: 15,
-    },
-    {
-      id: '3',
-      make: 'Audi',
-      model: 'A4',
-      year: 2022,
-      price: 45000,
-      mileage: 25000,
-      location: 'Chicago',
-      condition: 'Good',
-      images: ['https://example.com/audi1.jpg'],
-      specifications: { engine: '2.0L Turbo', transmission: 'Automatic', fuelType: 'Gasoline' },
-      dealerId: 'dealer4',
-      dealerName: 'Metro Motors',
-      isCoListed: false,
-      coListedIn: [],
-      views: 189,
-      inquiries: 7,
-      shares: 3,
-    },
-    {
-      id: '4',
-      make: 'Tesla',
-      model: 'Model 3',
-      year: 2023,
-      price: 52000,
-      mileage: 8000,
-      location: 'San Francisco',
-      condition: 'Excellent',
-      images: ['https://example.com/tesla1.jpg'],
-      specifications: { engine: 'Electric Motor', transmission: 'Single Speed', fuelType: 'Electric' },
-      dealerId: 'dealer5',
-      dealerName: 'Electric Dreams',
-      isCoListed: true,
-      coListedIn: ['group2'],
-      views: 312,
-      inquiries: 18,
-      shares: 11,
-    },
-    {
-      id: '5',
-      make: 'Porsche',
-      model: '911',
-      year: 2023,
-      price: 125000,
-      mileage: 3000,
-      location: 'Miami',
-      condition: 'Like New',
-      images: ['https://example.com/porsche1.jpg'],
-      specifications: { engine: '3.0L Twin Turbo', transmission: 'Manual', fuelType: 'Gasoline' },
-      dealerId: 'dealer6',
-      dealerName: 'Speed Motors',
-      isCoListed: false,
-      coListedIn: [],
-      views: 578,
-      inquiries: 31,
-      shares: 22,
-    },
-  ], []);
-
   const makeOptions = ['BMW', 'Mercedes-Benz', 'Audi', 'Tesla', 'Porsche', 'Lexus', 'Acura'];
   const modelOptions = ['X5', 'S-Class', 'A4', 'Model 3', '911', 'RX', 'MDX'];
   const locationOptions = ['New York', 'Los Angeles', 'Chicago', 'San Francisco', 'Miami', 'Seattle', 'Dallas'];
@@ -257,181 +125,56 @@ const VehicleSearchScreen: React.FC = () => {
     { value: 'year-old', label: 'Year: Oldest First' },
     { value: 'mileage-low', label: 'Mileage: Low to High' },
     { value: 'mileage-high', label: 'Mileage: High to Low' },
+    { value: 'distance', label: 'Distance: Nearest First' },
   ];
 
-  // Execute search query
-  const [searchCars, { loading: queryLoading, data, fetchMore, refetch }] = useLazyQuery<SearchCarsResult>(SEARCH_CARS_QUERY, {
-    notifyOnNetworkStatusChange: true,
-  });
-
-
-
-  // Map filters to GraphQL input
-  const getSearchInput = useCallback((currentFilters: SearchFilters, pageNum: number) => {
-    return {
-      keyword: currentFilters.searchText || null,
-      brands: currentFilters.make.length > 0 ? currentFilters.make : null,
-      models: currentFilters.model.length > 0 ? currentFilters.model : null,
-      minYear: currentFilters.yearMin ? parseInt(currentFilters.yearMin) : null,
-      maxYear: currentFilters.yearMax ? parseInt(currentFilters.yearMax) : null,
-      minPrice: currentFilters.priceMin ? parseFloat(cleanNumberInput(currentFilters.priceMin)) : null,
-      maxPrice: currentFilters.priceMax ? parseFloat(cleanNumberInput(currentFilters.priceMax)) : null,
-      cities: currentFilters.location.length > 0 ? currentFilters.location : null,
-      fuelTypes: currentFilters.fuelType.length > 0 ? currentFilters.fuelType : null,
-      transmissions: currentFilters.transmission.length > 0 ? currentFilters.transmission : null,
-      page: pageNum - 1, // backend is 0-indexed
-      size: 20
-    };
-  }, []);
+  const { recentSearches, rememberSearch, forgetSearch } = useRecentSearches();
+  const {
+    suggestions,
+    highlightedIndex,
+    highlighted: highlightedSuggestion,
+    handleKey: handleSuggestionKey,
+  } = useSearchAutocomplete(filters.searchText, { recentSearches, enabled: isSearchFocused });
 
-
-  const loadVehicles = useCallback(async (reset = false) => {
-    try {
-      setLoading(true);
-      const pageToFetch = reset ? 1 : page;
-      if (reset) {
-        setPage(1);
-        setVehicles([]);
-        setFilteredVehicles([]); // Clear list on new search
-      }
-
-      const input = getSearchInput(filters, pageToFetch);
-
-      if (reset) {
-        await searchCars({
-          variables: { input }
-        });
-      } else {
-        await fetchMore({
-          variables: { input },
-        });
-      }
-    } catch (error) {
-      console.error('Error loading vehicles:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [filters, page, searchCars, fetchMore, getSearchInput]);
-
-  useEffect(() => {
-    // Initial load
-    loadVehicles(true);
-  }, []); // Only run once on mount, specific filter changes trigger via other means if needed, or we rely on user hitting search/apply
-
-  // Update vehicles when data changes
-  useEffect(() => {
-    if (data?.searchCars?.content) {
-      const newVehicles = data.searchCars.content.map((car: any) => ({
-        id: car.id,
-        make: car.brand,
-        model: car.model,
-        year: car.year,
-        price: car.price,
-        mileage: car.mileage || 0,
-        location: car.city || 'N/A',
-        condition: car.condition || 'Used',
-        images: car.thumbnailUrl ? [car.thumbnailUrl] : [],
-        dealerId: car.sellerType === 'DEALER' ? 'dealer_placeholder' : 'private_placeholder', // You might want to get actual owner ID if available
-        dealerName: car.ownerName || (car.verifiedDealer ? 'Verified Dealer' : 'Private Seller'),
-        isCoListed: false, // Not in search result yet
-        coListedIn: [],
-        views: car.views || 0,
-        inquiries: 0,
-        shares: 0,
-        specifications: {
-          fuelType: car.fuelType,
-          transmission: car.transmission
-        }
-      }));
-
-      if (page === 1) {
-        setVehicles(newVehicles);
-        setFilteredVehicles(newVehicles);
-      } else {
-        setVehicles(prev => [...prev, ...newVehicles]);
-        setFilteredVehicles(prev => [...prev, ...newVehicles]);
-      }
-
-      setHasMore(data.searchCars.pageNumber < data.searchCars.totalPages - 1);
-    }
-  }, [data, page]);
-
-  // Debounce filter changes or handle Apply button
-  // For now, let's trigger search when filters change (debouncing might be needed for text)
+  // Debounce typing and filter taps into a single search
+  const [debouncedFilters, setDebouncedFilters] = useState<SearchFilters>(filters);
   useEffect(() => {
-    const timer = setTimeout(() => {
-      loadVehicles(true);
-    }, 500); // 500ms debounce
+    const timer = setTimeout(() => setDebouncedFilters(filters), 500);
     return () => clearTimeout(timer);
   }, [filters]);
 
-  // Client-side filtering is no longer needed as backend does it, 
-  // but if we want to sort client side we can. 
-  // Ideally backend implementation handles sort, but schema didn't have sort param yet?
-  // Our schema doesn't seem to have sort in CarSearchInput yet.
-  // The plan didn't explicitly mention adding Sort to backend input.
-  // We can do client side sort for current page, OR add sort to backend.
-  // Given user asked for 'proper' implementation, backend sort is better, but sticky changes.
-  // Let's stick to client sorting of the *fetched* results for now to minimize backend changes not in plan,
-  // or just accept that sort might only apply to current page.
-  // Actually the previous code did applyFilters client side. 
-  // We should update applyFilters to ONLY do sorting, not filtering.
-
-  const applyClientSideSort = useCallback(() => {
-    let sorted = [...vehicles];
-    sorted.sort((a, b) => {
-      switch (filters.sortBy) {
-        case 'price-low':
-          return a.price - b.price;
-        case 'price-high':
-          return b.price - a.price;
-        case 'year-new':
-          return b.year - a.year;
-        case 'year-old':
-          return a.year - b.year;
-        case 'mileage-low':
-          return a.mileage - b.mileage;
-        case 'mileage-high':
-          return b.mileage - a.mileage;
-        default:
-          return 0;
-      }
-    });
-    setFilteredVehicles(sorted);
-  }, [vehicles, filters.sortBy]);
-
-
   useEffect(() => {
-    applyClientSideSort();
-  }, [vehicles, filters.sortBy]);
+    rememberSearch(debouncedFilters.searchText);
+  }, [debouncedFilters.searchText, rememberSearch]);
 
+  // Position is only requested once a distance filter or sort is picked
+  const needsOrigin = filters.radiusKm !== undefined || filters.sortBy === 'distance';
+  const {
+    origin,
+    isApproximate: isOriginApproximate,
+    isLocating,
+  } = useSearchOrigin(needsOrigin);
+
+  // Sorting is done by the backend, across all pages
+  const searchFilters = useMemo(
+    () => toVehicleSearchFilters(debouncedFilters, origin),
+    [debouncedFilters, origin],
+  );
+  const {
+    vehicles,
+    totalCount,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    error,
+    loadMore,
+    refresh,
+  } = useVehicleSearch(searchFilters);
+  // Counts are only needed while the filters sheet is open
+  const { facets } = useSearchFacets(searchFilters, { skip: !showFiltersModal });
 
   const handleLoadMore = () => {
-    if (!loading && hasMore) {
-      setPage(p => p + 1);
-      // useEffect on page change will trigger fetchMore if we wire it up, 
-      // but easier to call fetchMore directly here?
-      // actually loadVehicles depends on 'page'.
-      // Let's just update page, and let a useEffect trigger load?
-      // BUT loadVehicles(true) resets page.
-      // Let's make loadVehicles handle the current 'page' state.
-
-      // Better approach:
-      // Just call fetchMore here.
-      const input = getSearchInput(filters, page + 1);
-      fetchMore({
-        variables: { input },
-        updateQuery: (prev: SearchCarsResult, { fetchMoreResult }: { fetchMoreResult?: SearchCarsResult }) => {
-          if (!fetchMoreResult) return prev;
-          return Object.assign({}, prev, {
-            searchCars: {
-              ...fetchMoreResult.searchCars,
-              content: [...prev.searchCars.content, ...fetchMoreResult.searchCars.content]
-            }
-          });
-        }
-      });
-    }
+    loadMore();
   };
 
   const updateFilter = (key: keyof SearchFilters, value: any) => {
@@ -449,21 +192,109 @@ const VehicleSearchScreen: React.FC = () => {
   };
 
   const clearFilters = () => {
-    setFilters({
-      searchText: '',
-      make: [],
-      model: [],
-      yearMin: '',
-      yearMax: '',
-      priceMin: '',
-      priceMax: '',
-      mileageMax: '',
-      location: [],
-      condition: [],
-      fuelType: [],
-      transmission: [],
-      sortBy: 'price-low',
-    });
+    setFilters(EMPTY_SEARCH_FILTERS);
+  };
+
+  // --- Saved & recent searches ---
+
+  useEffect(() => {
+    carApi.getSavedSearches()
+      .then(setSavedSearches)
+      .catch(error => console.warn('Failed to load saved searches:', error));
+  }, []);
+
+  const saveCurrentSearch = async () => {
+    setSavingSearch(true);
+    try {
+      const saved = await carApi.createSavedSearch({
+        name: describeSearchFilters(filters),
+        // Distance alerts are matched against where the search was saved
+        filters: origin && filters.radiusKm !== undefined ? { ...filters, origin } : filters,
+        notify: true,
+      });
+      setSavedSearches(prev => [saved, ...prev]);
+    } catch (error) {
+      showErrorAlert(error, { onRetry: saveCurrentSearch }, { fallbackMessage: 'Could not save this search.' });
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const toggleSavedSearchNotify = async (saved: SavedSearch, notify: boolean) => {
+    setSavedSearches(prev => prev.map(item => item.id === saved.id ? { ...item, notify } : item));
+    try {
+      await carApi.updateSavedSearch(saved.id, { notify });
+    } catch (error) {
+      setSavedSearches(prev => prev.map(item => item.id === saved.id ? { ...item, notify: saved.notify } : item));
+      showErrorAlert(error, {}, { fallbackMessage: 'Could not update alerts for this search.' });
+    }
+  };
+
+  const deleteSavedSearch = (saved: SavedSearch) => {
+    Alert.alert('Delete Saved Search', `Stop saving "${saved.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await carApi.deleteSavedSearch(saved.id);
+            setSavedSearches(prev => prev.filter(item => item.id !== saved.id));
+          } catch (error) {
+            showErrorAlert(error, {}, { fallbackMessage: 'Could not delete this search.' });
+          }
+        },
+      },
+    ]);
+  };
+
+  const openSavedSearch = (saved: SavedSearch) => {
+    setShowSavedSearches(false);
+    navigation.navigate('SearchResults', { filters: toVehicleSearchFilters(saved.filters, origin) });
+  };
+
+  const applyRecentSearch = (term: string) => {
+    setShowSavedSearches(false);
+    updateFilter('searchText', term);
+  };
+
+  // --- Autocomplete ---
+
+  // Brands, models and cities become filters; recent/popular searches are typed in
+  const applySuggestion = (suggestion: SearchSuggestion) => {
+    const { filter, searchText = '' } = suggestion;
+    const addValue = (values: string[], value?: string) =>
+      value && !values.includes(value) ? [...values, value] : values;
+
+    setFilters(prev => filter
+      ? {
+        ...prev,
+        searchText: '',
+        make: addValue(prev.make, filter.make),
+        model: addValue(prev.model, filter.model),
+        location: addValue(prev.location, filter.location),
+      }
+      : { ...prev, searchText });
+    if (!filter) rememberSearch(searchText);
+    setSearchFocused(false);
+    Keyboard.dismiss();
+  };
+
+  const handleSearchKeyPress = (key: string) => {
+    if (key === 'Escape') {
+      setSearchFocused(false);
+      return;
+    }
+    handleSuggestionKey(key);
+  };
+
+  const submitSearch = () => {
+    if (highlightedSuggestion) {
+      applySuggestion(highlightedSuggestion);
+      return;
+    }
+    rememberSearch(filters.searchText);
+    setSearchFocused(false);
   };
 
   const handleVehiclePress = (vehicle: Vehicle) => {
@@ -542,24 +373,77 @@ const VehicleSearchScreen: React.FC = () => {
     </TouchableOpacity>
   );
 
-  const renderFilterSection = (title: string, options: string[], selectedValues: string[], onToggle: (value: string) => void) => (
-    <View style={styles.filterSection}>
-      <Text style={styles.filterTitle}>{title}</Text>
-      <View style={styles.filterOptions}>
-        {options.map(option => (
-          <TouchableOpacity
-            key={option}
-            style={[styles.filterOption, selectedValues.includes(option) && styles.selectedFilterOption]}
-            onPress={() => onToggle(option)}
-          >
-            <Text style={[styles.filterOptionText, selectedValues.includes(option) && styles.selectedFilterOptionText]}>
-              {option}
-            </Text>
-          </TouchableOpacity>
-        ))}
+  const renderDistanceHint = (radiusKm: number) => {
+    if (!origin) {
+      return isLocating ? 'Finding your location…' : 'Location unavailable - turn on location to search nearby';
+    }
+    return isOriginApproximate
+      ? `Within ${radiusKm} km of your last known location`
+      : `Within ${radiusKm} km of you`;
+  };
+
+  // Live facet counts when available (options with no matches are hidden),
+  // otherwise the static list without counts
+  const renderFilterSection = (
+    title: string,
+    fallbackOptions: string[],
+    buckets: FacetBucket[] | undefined,
+    selectedValues: string[],
+    onToggle: (value: string) => void,
+  ) => {
+    const options = facetOptions(buckets, selectedValues) ?? fallbackOptions.map(value => ({ value, count: undefined }));
+    if (options.length === 0) return null;
+
+    return (
+      <View style={styles.filterSection}>
+        <Text style={styles.filterTitle}>{title}</Text>
+        <View style={styles.filterOptions}>
+          {options.map(option => {
+            const isSelected = selectedValues.includes(option.value);
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.filterOption, isSelected && styles.selectedFilterOption]}
+                onPress={() => onToggle(option.value)}
+              >
+                <Text style={[styles.filterOptionText, isSelected && styles.selectedFilterOptionText]}>
+                  {option.value}
+                  {option.count !== undefined && (
+                    <Text style={[styles.filterOptionCount, isSelected && styles.selectedFilterOptionText]}> ({option.count})</Text>
+                  )}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
       </View>
-    </View>
-  );
+    );
+  };
+
+  const renderRangeBuckets = (range: 'year' | 'price', buckets: RangeBucket[] | undefined) => {
+    const options = buckets?.filter(bucket => bucket.count > 0 || isRangeBucketSelected(filters, range, bucket));
+    if (!options?.length) return null;
+
+    return (
+      <View style={[styles.filterOptions, styles.rangeBuckets]}>
+        {options.map(bucket => {
+          const isSelected = isRangeBucketSelected(filters, range, bucket);
+          return (
+            <TouchableOpacity
+              key={bucket.label}
+              style={[styles.filterOption, isSelected && styles.selectedFilterOption]}
+              onPress={() => setFilters(prev => toggleRangeBucket(prev, range, bucket))}
+            >
+              <Text style={[styles.filterOptionText, isSelected && styles.selectedFilterOptionText]}>
+                {bucket.label}
+                <Text style={[styles.filterOptionCount, isSelected && styles.selectedFilterOptionText]}> ({bucket.count})</Text>
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -568,12 +452,20 @@ const VehicleSearchScreen: React.FC = () => {
           <Ionicons name="arrow-back" size={24} color="#333" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Vehicle Search</Text>
-        <TouchableOpacity
-          style={styles.filterButton}
-          onPress={() => setShowFiltersModal(true)}
-        >
-          <Ionicons name="filter-list" size={24} color="#333" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setShowSavedSearches(true)}
+          >
+            <Ionicons name="bookmark-outline" size={24} color="#333" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setShowFiltersModal(true)}
+          >
+            <Ionicons name="filter-list" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <View style={styles.searchContainer}>
@@ -582,12 +474,23 @@ const VehicleSearchScreen: React.FC = () => {
           onChangeText={(text) => updateFilter('searchText', text)}
           placeholder="Search by make, model, dealer, location..."
           containerStyle={styles.searchInput}
+          returnKeyType="search"
+          onFocus={() => setSearchFocused(true)}
+          onBlur={() => setSearchFocused(false)}
+          onKeyPress={(e) => handleSearchKeyPress(e.nativeEvent.key)}
+          onSubmitEditing={submitSearch}
+        />
+        <SearchSuggestions
+          suggestions={suggestions}
+          highlightedIndex={highlightedIndex}
+          onSelect={applySuggestion}
+          onRemove={(suggestion) => forgetSearch(suggestion.label)}
         />
       </View>
 
       <View style={styles.resultsHeader}>
         <Text style={styles.resultsCount}>
-          {filteredVehicles.length} vehicle{filteredVehicles.length !== 1 ? 's' : ''} found
+          {totalCount} vehicle{totalCount !== 1 ? 's' : ''} found
         </Text>
 
         <TouchableOpacity style={styles.sortButton} onPress={() => setShowSortModal(true)}>
@@ -604,23 +507,26 @@ const VehicleSearchScreen: React.FC = () => {
       </View>
 
       <FlatList
-        data={filteredVehicles}
+        data={vehicles}
         renderItem={renderVehicleItem}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.vehiclesList}
         showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} />}
         onEndReached={handleLoadMore}
         onEndReachedThreshold={0.5}
-        ListFooterComponent={loading && page > 1 ? <ActivityIndicator style={{ margin: 20 }} /> : null}
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ margin: 20 }} /> : null}
         ListEmptyComponent={
-          !loading && filteredVehicles.length === 0 ? (
+          isLoading ? (
+            <ActivityIndicator style={{ margin: 40 }} />
+          ) : (
             <View style={styles.emptyState}>
               <Ionicons name="search-off" size={60} color="#ddd" />
               <Text style={styles.emptyStateText}>
-                No vehicles match your search criteria
+                {error ? 'Search failed. Pull down to try again.' : 'No vehicles match your search criteria'}
               </Text>
             </View>
-          ) : null
+          )
         }
       />
 
@@ -644,11 +550,17 @@ const VehicleSearchScreen: React.FC = () => {
             </View>
 
             <ScrollView style={styles.filtersContent} showsVerticalScrollIndicator={false}>
-              {renderFilterSection('Make', makeOptions, filters.make, (value) => toggleArrayFilter('make', value))}
-              {renderFilterSection('Model', modelOptions, filters.model, (value) => toggleArrayFilter('model', value))}
+              {facets && (
+                <Text style={styles.facetSummary}>
+                  {facets.totalCount} {facets.totalCount === 1 ? 'car matches' : 'cars match'}
+                </Text>
+              )}
+              {renderFilterSection('Make', makeOptions, facets?.brands, filters.make, (value) => toggleArrayFilter('make', value))}
+              {renderFilterSection('Model', modelOptions, facets?.models, filters.model, (value) => toggleArrayFilter('model', value))}
 
               <View style={styles.filterSection}>
                 <Text style={styles.filterTitle}>Year Range</Text>
+                {renderRangeBuckets('year', facets?.years)}
                 <View style={styles.rangeInputs}>
                   <Input
                     value={filters.yearMin}
@@ -670,6 +582,7 @@ const VehicleSearchScreen: React.FC = () => {
 
               <View style={styles.filterSection}>
                 <Text style={styles.filterTitle}>Price Range</Text>
+                {renderRangeBuckets('price', facets?.prices)}
                 <View style={styles.rangeInputs}>
                   <Input
                     value={filters.priceMin}
@@ -700,10 +613,32 @@ const VehicleSearchScreen: React.FC = () => {
                 />
               </View>
 
-              {renderFilterSection('Location', locationOptions, filters.location, (value) => toggleArrayFilter('location', value))}
-              {renderFilterSection('Condition', conditionOptions, filters.condition, (value) => toggleArrayFilter('condition', value))}
-              {renderFilterSection('Fuel Type', fuelTypeOptions, filters.fuelType, (value) => toggleArrayFilter('fuelType', value))}
-              {renderFilterSection('Transmission', transmissionOptions, filters.transmission, (value) => toggleArrayFilter('transmission', value))}
+              <View style={styles.filterSection}>
+                <View style={styles.distanceHeader}>
+                  <Text style={[styles.filterTitle, styles.distanceTitle]}>Distance</Text>
+                  <Switch
+                    value={filters.radiusKm !== undefined}
+                    onValueChange={(enabled) => updateFilter('radiusKm', enabled ? DEFAULT_RADIUS_KM : undefined)}
+                    trackColor={{ false: '#ddd', true: '#4ECDC4' }}
+                  />
+                </View>
+                {filters.radiusKm !== undefined && (
+                  <>
+                    <StepSlider
+                      steps={RADIUS_STEPS_KM}
+                      value={filters.radiusKm}
+                      onChange={(radiusKm) => updateFilter('radiusKm', radiusKm)}
+                      formatLabel={(km) => `${km} km`}
+                    />
+                    <Text style={styles.distanceHint}>{renderDistanceHint(filters.radiusKm)}</Text>
+                  </>
+                )}
+              </View>
+
+              {renderFilterSection('Location', locationOptions, facets?.cities, filters.location, (value) => toggleArrayFilter('location', value))}
+              {renderFilterSection('Condition', conditionOptions, facets?.conditions, filters.condition, (value) => toggleArrayFilter('condition', value))}
+              {renderFilterSection('Fuel Type', fuelTypeOptions, facets?.fuelTypes, filters.fuelType, (value) => toggleArrayFilter('fuelType', value))}
+              {renderFilterSection('Transmission', transmissionOptions, facets?.transmissions, filters.transmission, (value) => toggleArrayFilter('transmission', value))}
             </ScrollView>
           </View>
         </View>
@@ -753,6 +688,80 @@ const VehicleSearchScreen: React.FC = () => {
           </View>
         </View>
       </Modal>
+
+      {/* Saved Searches Modal */}
+      <Modal
+        visible={showSavedSearches}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowSavedSearches(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.savedModal}>
+            <View style={styles.sortHeader}>
+              <Text style={styles.sortTitle}>Saved Searches</Text>
+              <TouchableOpacity onPress={() => setShowSavedSearches(false)}>
+                <Ionicons name="close" size={24} color="#333" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.savedContent}>
+              <Button
+                title={isEmptySearch(filters) ? 'Add filters to save a search' : `Save "${describeSearchFilters(filters)}"`}
+                onPress={saveCurrentSearch}
+                loading={savingSearch}
+                disabled={isEmptySearch(filters) || savingSearch}
+                fullWidth
+              />
+
+              {savedSearches.length === 0 ? (
+                <Text style={styles.savedEmptyText}>
+                  Save a search to get notified when matching cars are listed.
+                </Text>
+              ) : (
+                savedSearches.map(saved => (
+                  <TouchableOpacity
+                    key={saved.id}
+                    style={styles.savedItem}
+                    onPress={() => openSavedSearch(saved)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.savedInfo}>
+                      <Text style={styles.savedName} numberOfLines={2}>{saved.name}</Text>
+                      <Text style={styles.savedMeta}>
+                        {saved.resultCount} match{saved.resultCount !== 1 ? 'es' : ''}
+                        {saved.notify ? ' • Alerts on' : ''}
+                      </Text>
+                    </View>
+                    <Switch
+                      value={saved.notify}
+                      onValueChange={(notify) => toggleSavedSearchNotify(saved, notify)}
+                      trackColor={{ false: '#ddd', true: '#4ECDC4' }}
+                      thumbColor="#FFFFFF"
+                    />
+                    <TouchableOpacity style={styles.savedDelete} onPress={() => deleteSavedSearch(saved)}>
+                      <Ionicons name="trash-outline" size={22} color="#999" />
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                ))
+              )}
+
+              {recentSearches.length > 0 && (
+                <View style={styles.recentSection}>
+                  <Text style={styles.filterTitle}>Recent</Text>
+                  <View style={styles.filterOptions}>
+                    {recentSearches.map(term => (
+                      <TouchableOpacity key={term} style={styles.filterOption} onPress={() => applyRecentSearch(term)}>
+                        <Text style={styles.filterOptionText}>{term}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -783,6 +792,11 @@ const styles = StyleSheet.create({
   filterButton: {
     padding: 4,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   searchContainer: {
     padding: 20,
     backgroundColor: '#fff',
@@ -993,6 +1007,32 @@ const styles = StyleSheet.create({
   selectedFilterOptionText: {
     color: '#fff',
   },
+  distanceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  distanceTitle: {
+    marginBottom: 0,
+  },
+  distanceHint: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#666',
+  },
+  filterOptionCount: {
+    fontSize: 12,
+    color: '#999',
+  },
+  rangeBuckets: {
+    marginBottom: 8,
+  },
+  facetSummary: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#666',
+  },
   rangeInputs: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1053,6 +1093,49 @@ const styles = StyleSheet.create({
     color: '#4ECDC4',
     fontWeight: '600',
   },
+  savedModal: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+  },
+  savedContent: {
+    padding: 20,
+  },
+  savedEmptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  savedItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderColor: '#eee',
+  },
+  savedInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  savedName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  savedMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  savedDelete: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  recentSection: {
+    marginTop: 24,
+  },
 });
 
 export default VehicleSearchScreen;
@@ -14,7 +14,8 @@ import {
   Platform,
   Animated,
 } from 'react-native';
-
+import { carApi, DirectMessage } from '../../services/CarApi';
+import { useAuth } from '../../context/AuthContext';
 
 interface ChatMessage {
   id: string;
@@ -69,13 +70,15 @@ const ChatConversationScreen: React.FC = ({ navigation, route }: any) => {
       cardBackground: '#FFFFFF',
     }
   } as const;
-  const user: User = { 
-    id: 'current_user_123',
-    name: 'Test User' 
+  const { user: authUser } = useAuth();
+  const user: User = {
+    id: authUser ? String(authUser.userId) : '',
+    name: authUser?.name || authUser?.username || 'You',
   };
-  
+
   const {
-    participantId,
+    conversationId,
+    participantId = conversationId,
     participantName,
     participantType,
     relatedCarId,
@@ -92,93 +95,39 @@ const ChatConversationScreen: React.FC = ({ navigation, route }: any) => {
   const flatListRef = useRef<FlatList>(null);
   const typingAnimation = useRef(new Animated.Value(0)).current;
 
-  // Mock participant data
-  const mockParticipant = React.useMemo<Participant>(() => ({
-    id: participantId,
-    name: participantName,
-    type: participantType,
-    isOnline: true,
-    lastSeen: new Date(),
-    showroomName: participantType === 'dealer' ? 'Premium Motors' : undefined,
-    avatar: participantType === 'dealer' 
-      ? 'https://images.unsplash.com/photo-1556157382-97eda2d62296?w=100&h=100&fit=crop' : 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop&crop=face'
-  }), [participantId, participantName, participantType]);
-
-  // Mock messages
-  const mockMessages = React.useMemo<ChatMessage[]>(() => [
-    {
-      id: '1',
-      text: 'Hello! I saw your listing for the Honda City. Is it still available? ',
-      timestamp: new Date(Date.now() - 60 * 60 * 1000),
-      senderId: participantId,
-      senderName: participantName,
-      type: 'text',
-      isRead: true,
-      deliveryStatus: 'read'
-    },
-    {
-      id: '2',
-      text: 'Yes, it\'s still available! Would you like to schedule a test drive? ',
-      timestamp: new Date(Date.now() - 50 * 60 * 1000),
-      senderId: user?.id || 'current_user',
-      senderName: user?.name || 'You',
-      type: 'text',
-      isRead: true,
-      deliveryStatus: 'read'
-    },
-    {
-      id: '3',
-      text: 'That would be great! Can you share more details about the car? ',
-      timestamp: new Date(Date.now() - 45 * 60 * 1000),
-      senderId: participantId,
-      senderName: participantName,
-      type: 'text',
-      isRead: true,
-      deliveryStatus: 'read'
-    },
-    {
-      id: '4',
-      text: '',
-      timestamp: new Date(Date.now() - 40 * 60 * 1000),
-      senderId: user?.id || 'current_user',
-      senderName: user?.name || 'You',
-      type: 'car_share',
-      carData: {
-        id: relatedCarId || 'car1',
-        title: relatedCarTitle || '2020 Honda City VX CVT',
-        price: '₹12,50,000',
-        image: 'https://images.unsplash.com/photo-1583121274602-3e2820c69888?w=300&h=200&fit=crop',
-        make: 'Honda',
-        model: 'City',
-        year: 2020
-      },
-      isRead: true,
-      deliveryStatus: 'read'
-    },
-    {
-      id: '5',
-      text: 'Perfect! When would be a good time for the test drive? ',
-      timestamp: new Date(Date.now() - 30 * 60 * 1000),
-      senderId: participantId,
-      senderName: participantName,
-      type: 'text',
-      isRead: true,
-      deliveryStatus: 'read'
-    }
-  ], [participantId, participantName, relatedCarId, relatedCarTitle, user?.id, user?.name]);
+  const toChatMessage = React.useCallback((message: DirectMessage): ChatMessage => {
+    const imageUrl = message.type === 'image'
+      ? (message.attachments?.[0] as { url?: string } | undefined)?.url
+      : undefined;
+    return {
+      id: String(message.id),
+      text: message.message,
+      timestamp: new Date(message.timestamp),
+      senderId: String(message.senderId),
+      senderName: String(message.senderId) === String(participantId) ? participantName : 'You',
+      type: imageUrl ? 'image' : 'text',
+      imageUrl,
+      isRead: message.status === 'read',
+      deliveryStatus: message.status,
+    };
+  }, [participantId, participantName]);
 
   useEffect(() => {
-    setParticipant(mockParticipant);
-    setMessages(mockMessages);
-    
-    // Simulate typing indicator
-    const typingTimeout = setTimeout(() => {
-      setParticipantTyping(true);
-      setTimeout(() => setParticipantTyping(false), 3000);
-    }, 2000);
-
-    return () => clearTimeout(typingTimeout);
-  }, [mockParticipant, mockMessages]);
+    setParticipant({
+      id: participantId,
+      name: participantName,
+      type: participantType ?? 'dealer',
+      isOnline: conversation?.isOnline ?? false,
+      showroomName: conversation?.dealership,
+    });
+
+    carApi.getChatMessages(participantId)
+      .then(result => setMessages(result.map(toChatMessage)))
+      .catch(error => {
+        console.error('Error loading messages:', error);
+        Alert.alert('Error', 'Failed to load messages. Please try again.');
+      });
+  }, [participantId, participantName, participantType, conversation, toChatMessage]);
 
   useEffect(() => {
     if (participantTyping) {
@@ -208,8 +157,8 @@ const ChatConversationScreen: React.FC = ({ navigation, route }: any) => {
       id: Date.now().toString(),
       text: messageText.trim(),
       timestamp: new Date(),
-      senderId: user?.id || 'current_user',
-      senderName: user?.name || 'You',
+      senderId: user.id,
+      senderName: user.name,
       type: 'text',
       isRead: false,
       deliveryStatus: 'sending'
@@ -217,27 +166,16 @@ const ChatConversationScreen: React.FC = ({ navigation, route }: any) => {
 
     setMessages(prev => [...prev, newMessage]);
     setMessageText('');
-    
-    // Simulate message delivery
-    setTimeout(() => {
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === newMessage.id 
-            ? { ...msg, deliveryStatus: 'sent' }
-            : msg
-        )
-      );
-    }, 1000);
-
-    setTimeout(() => {
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === newMessage.id 
-            ? { ...msg, deliveryStatus: 'delivered' }
-            : msg
-        )
-      );
-    }, 2000);
+
+    try {
+      const sent = await carApi.sendMessage(participantId, newMessage.text);
+      setMessages(prev => prev.map(msg => (msg.id === newMessage.id ? toChatMessage(sent) : msg)));
+    } catch (error) {
+      console.error('Error sending message:', error);
+      setMessages(prev => prev.filter(msg => msg.id !== newMessage.id));
+      setMessageText(newMessage.text);
+      Alert.alert('Error', 'Failed to send message. Please try again.');
+    }
   };
 
   const pickImage = async () => {
@@ -278,8 +216,8 @@ const ChatConversationScreen: React.FC = ({ navigation, route }: any) => {
       id: Date.now().toString(),
       text: 'My Location',
       timestamp: new Date(),
-      senderId: user?.id || 'current_user',
-      senderName: user?.name || 'You',
+      senderId: user.id,
+      senderName: user.name,
       type: 'location',
       locationData: {
         latitude: 19.0760,
@@ -309,7 +247,7 @@ const ChatConversationScreen: React.FC = ({ navigation, route }: any) => {
   };
 
   const renderMessageBubble = ({ item }: { item: ChatMessage }) => {
-    const isOwnMessage = item.senderId === user?.id || item.senderId === 'current_user';
+    const isOwnMessage = item.senderId === user.id;
     
     if (item.type === 'system') {
       return (
@@ -20,20 +20,9 @@ import { Card } from '../../components/ui/Card';
 import { chatApi, ChatMessageDto } from '../../services/ChatApi';
 import { webSocketService, WSMessage } from '../../services/WebSocketService';
 import { useAuth } from '../../context/AuthContext';
+import type { Vehicle } from '../../services/contracts';
 // import { carApi } from '../../services/CarApi'; // Uncomment when needed for vehicle selection
 
-// Interface for Vehicle (can be imported from CarApi types later)
-interface Vehicle {
-  id: number;
-  make: string;
-  model: string;
-  year: number;
-  price: number;
-  images: string[];
-  mileage: number;
-  condition: string;
-}
-
 const ChatScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute();
@@ -13,43 +13,9 @@ import {
 } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
-// import { GroupDetailsRouteProp, DealerGroup, Vehicle } from '../../navigation/types'; // Update this path based on your project structure
-
-// Temporary interfaces until proper types are available
-interface DealerGroup {
-  id: string;
-  name: string;
-  description: string;
-  isPrivate: boolean;
-  adminId: string;
-  members: Array<{
-    id: string;
-    name: string;
-    dealership: string;
-    role: 'admin' | 'member';
-  }>;
-  createdAt: string;
-}
-
-interface Vehicle {
-  id: string;
-  make: string;
-  model: string;
-  year: number;
-  price: number;
-  mileage: number;
-  location: string;
-  condition: string;
-  images: string[];
-  specifications: any;
-  dealerId: string;
-  dealerName: string;
-  isCoListed: boolean;
-  coListedIn: string[];
-  views: number;
-  inquiries: number;
-  shares: number;
-}
+import type { DealerGroup, Vehicle } from '../../services/contracts';
+import { carApi } from '../../services/CarApi';
+import { useAuth } from '../../context/AuthContext';
 
 const GroupDetailsScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -62,74 +28,21 @@ const GroupDetailsScreen: React.FC = () => {
   const [showMenuModal, setShowMenuModal] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  // Mock data - replace with API calls later
-  const mockGroup: DealerGroup = {
-    id: groupId,
-    name: 'Luxury Car Dealers Network',
-    description: 'Network for premium luxury vehicle dealers. Share inventory, collaborate on sales, and expand your reach in the luxury car market.',
-    isPrivate: false,
-    adminId: 'dealer1',
-    members: [
-      { id: 'dealer1', name: 'John Smith', dealership: 'Premium Motors', role: 'admin' },
-      { id: 'dealer2', name: 'Sarah Johnson', dealership: 'Elite Cars', role: 'member' },
-      { id: 'dealer3', name: 'Mike Wilson', dealership: 'Luxury Auto Group', role: 'member' },
-      { id: 'dealer4', name: 'Lisa Garcia', dealership: 'Speed Motors', role: 'member' },
-    ],
-    createdAt: new Date().toISOString(),
-  };
-
-  const mockVehicles: Vehicle[] = [
-    {
-      id: '1',
-      make: 'BMW',
-      model: 'X5',
-      year: 2023,
-      price: 75000,
-      mileage: 15000,
-      location: 'New York',
-      condition: 'Excellent',
-      images: ['https://example.com/bmw1.jpg', 'https://example.com/bmw2.jpg'],
-      specifications: { engine: '3.0L Twin Turbo', transmission: 'Automatic' },
-      dealerId: 'dealer2',
-      dealerName: 'Sarah Johnson - Elite Cars',
-      isCoListed: true,
-      coListedIn: [groupId],
-      views: 234,
-      inquiries: 12,
-      shares: 8,
-    },
-    {
-      id: '2',
-      make: 'Mercedes-Benz',
-      model: 'S-Class',
-      year: 2024,
-      price: 95000,
-      mileage: 5000,
-      location: 'Los Angeles',
-      condition: 'Like New',
-      images: ['https://example.com/merc1.jpg'],
-      specifications: { engine: '4.0L V8 Biturbo', transmission: 'Automatic' },
-      dealerId: 'dealer3',
-      dealerName: 'Mike Wilson - Luxury Auto Group',
-      isCoListed: true,
-      coListedIn: [groupId],
-      views: 456,
-      inquiries: 23,
-      shares: 15,
-    },
-  ];
+  const { user } = useAuth();
 
   const loadGroupDetails = async () => {
     try {
       setLoading(true);
-      // Simulate API calls
-      setTimeout(() => {
-        setGroup(mockGroup);
-        setGroupVehicles(mockVehicles);
-        setLoading(false);
-      }, 1000);
+      const [groupData, coListed] = await Promise.all([
+        carApi.getGroupById(groupId),
+        carApi.getCoListedVehicles(),
+      ]);
+      setGroup(groupData);
+      setGroupVehicles(coListed.filter(vehicle => vehicle.coListedIn.includes(groupId)));
     } catch (error) {
       console.error('Error loading group details:', error);
+      Alert.alert('Error', 'Failed to load group details. Please try again.');
+    } finally {
       setLoading(false);
     }
   };
@@ -139,7 +52,7 @@ const GroupDetailsScreen: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [groupId]);
 
-  const isAdmin = group?.adminId === 'dealer1'; // Replace with current user ID check
+  const isAdmin = !!user && group?.adminId === String(user.userId);
 
   const handleInviteMembers = () => {
     // navigation.navigate('InviteMembers', { groupId }); // Update screen name based on your navigation structure
@@ -160,9 +73,13 @@ const GroupDetailsScreen: React.FC = () => {
         {
           text: 'Leave',
           style: 'destructive',
-          onPress: () => {
-            // TODO: Implement leave group logic
-            navigation.goBack();
+          onPress: async () => {
+            try {
+              await carApi.leaveGroup(groupId);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to leave group. Please try again.');
+            }
           },
         },
       ]
@@ -178,9 +95,13 @@ const GroupDetailsScreen: React.FC = () => {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            // TODO: Implement delete group logic
-            navigation.goBack();
+          onPress: async () => {
+            try {
+              await carApi.deleteGroup(groupId);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete group. Please try again.');
+            }
           },
         },
       ]
@@ -12,6 +12,8 @@ import { useNavigation } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { Card } from '../../components/ui/Card';
+import { carApi, Conversation as ConversationDto } from '../../services/CarApi';
+import { useAuth } from '../../context/AuthContext';
 
 // Temporary interface until proper types are available
 interface ChatMessage {
@@ -52,108 +54,42 @@ const MessagesScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  // Mock data - replace with API calls later
-  const mockConversations = React.useMemo<Conversation[]>(() => [
-    {
-      id: '1',
-      dealerId: 'dealer2',
-      dealerName: 'Sarah Johnson',
-      dealership: 'Elite Cars',
-      lastMessage: {
-        id: 'msg1',
-        senderId: 'dealer2',
-        receiverId: 'current-user',
-        message: 'I have a customer interested in your BMW X5. Can we discuss pricing? ',
-        timestamp: new Date(Date.now() - 1000 * 60 * 15).toISOString(), // 15 minutes ago
-        status: 'delivered',
-        type: 'text',
-      },
-      unreadCount: 2,
-      isOnline: true,
-    },
-    {
-      id: '2',
-      dealerId: 'dealer3',
-      dealerName: 'Mike Wilson',
-      dealership: 'Luxury Auto Group',
-      lastMessage: {
-        id: 'msg2',
-        senderId: 'current-user',
-        receiverId: 'dealer3',
-        message: 'Thanks for the vehicle details. Let me review and get back to you.',
-        timestamp: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(), // 2 hours ago
-        status: 'read',
-        type: 'text',
-      },
-      unreadCount: 0,
-      isOnline: false,
-    },
-    {
-      id: '3',
-      dealerId: 'dealer4',
-      dealerName: 'Lisa Garcia',
-      dealership: 'Speed Motors',
-      lastMessage: {
-        id: 'msg3',
-        senderId: 'dealer4',
-        receiverId: 'current-user',
-        message: 'Shared vehicle: 2023 Porsche 911 - $125,000',
-        timestamp: new Date(Date.now() - 1000 * 60 * 60 * 6).toISOString(), // 6 hours ago
-        status: 'delivered',
-        type: 'vehicle',
-      },
-      unreadCount: 1,
-      isOnline: true,
-    },
-    {
-      id: '4',
-      dealerId: 'dealer5',
-      dealerName: 'Tom Anderson',
-      dealership: 'Performance Plus',
-      lastMessage: {
-        id: 'msg4',
-        senderId: 'current-user',
-        receiverId: 'dealer5',
-        message: 'Perfect! When can we schedule the vehicle inspection? ',
-        timestamp: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(), // 1 day ago
-        status: 'read',
-        type: 'text',
-      },
-      unreadCount: 0,
-      isOnline: false,
-    },
-    {
-      id: '5',
-      dealerId: 'dealer6',
-      dealerName: 'Chris Lee',
-      dealership: 'Turbo Cars',
+  const { user } = useAuth();
+  const currentUserId = user ? String(user.userId) : '';
+
+  const toConversation = useCallback((dto: ConversationDto): Conversation => {
+    const dealerId = String(dto.participantId ?? dto.id);
+    const senderId = dto.lastMessageSenderId !== undefined ? String(dto.lastMessageSenderId) : dealerId;
+    return {
+      id: String(dto.id),
+      dealerId,
+      dealerName: dto.participantName || 'Unknown dealer',
+      dealership: dto.participantDealership || '',
       lastMessage: {
-        id: 'msg5',
-        senderId: 'dealer6',
-        receiverId: 'current-user',
-        message: 'Quote updated: $89,500 (Final offer)',
-        timestamp: new Date(Date.now() - 1000 * 60 * 60 * 48).toISOString(), // 2 days ago
-        status: 'delivered',
-        type: 'quote',
+        id: `${dto.id}-last`,
+        senderId,
+        receiverId: senderId === dealerId ? currentUserId : dealerId,
+        message: dto.lastMessage || '',
+        timestamp: dto.lastMessageAt || new Date().toISOString(),
+        status: dto.unreadCount > 0 ? 'delivered' : 'read',
+        type: (dto.lastMessageType as ChatMessage['type']) || 'text',
       },
-      unreadCount: 1,
-      isOnline: false,
-    },
-  ], []);
+      unreadCount: dto.unreadCount,
+      isOnline: dto.participantOnline,
+    };
+  }, [currentUserId]);
 
   const loadConversations = useCallback(async () => {
     try {
       setLoading(true);
-      // Simulate API call
-      setTimeout(() => {
-        setConversations(mockConversations);
-        setLoading(false);
-      }, 1000);
+      const result = await carApi.getConversations();
+      setConversations(result.map(toConversation));
     } catch (error) {
       console.error('Error loading conversations:', error);
+    } finally {
       setLoading(false);
     }
-  }, [mockConversations]);
+  }, [toConversation]);
 
   const filterConversations = useCallback(() => {
     if (!searchText.trim()) {
@@ -184,7 +120,7 @@ const MessagesScreen: React.FC = () => {
   };
 
   const handleConversationPress = (conversation: Conversation) => {
-    (navigation as any).navigate('ChatScreen', {
+    (navigation as any).navigate('Chat', {
       dealerId: conversation.dealerId,
       dealerName: conversation.dealerName,
     });
@@ -251,7 +187,7 @@ const MessagesScreen: React.FC = () => {
               styles.lastMessage,
               item.unreadCount > 0 && styles.unreadMessage
             ]} numberOfLines={1}>
-              {item.lastMessage.senderId === 'current-user' && '✓ '}
+              {item.lastMessage.senderId === currentUserId && '✓ '}
               {getMessagePreview(item.lastMessage)}
             </Text>
             
@@ -39,7 +39,8 @@ interface Props {
 const DealerCarsListScreen: React.FC<Props> = ({ navigation, route }) => {
     const { theme, isDark } = useTheme();
     const { colors } = theme;
-    const { uploads, retryUpload } = useUploadQueue();
+    const { uploads, retryUpload, getQueuedCount } = useUploadQueue();
+    const queuedCount = getQueuedCount();
 
     const filter = route.params?.filter || 'all';
     const title = route.params?.title || 'My Cars';
@@ -146,6 +147,8 @@ const DealerCarsListScreen: React.FC<Props> = ({ navigation, route }) => {
                         return { icon: 'cog-outline', color: '#F59E0B', text: 'Processing...' };
                     case 'pending':
                         return { icon: 'time-outline', color: '#6B7280', text: 'Queued' };
+                    case 'paused':
+                        return { icon: 'pause-circle-outline', color: '#6B7280', text: 'Upload Paused' };
                 }
             }
 
@@ -396,7 +399,18 @@ const DealerCarsListScreen: React.FC<Props> = ({ navigation, route }) => {
                     <Ionicons name="arrow-back" size={scaleSize(24)} color={colors.text} />
                 </TouchableOpacity>
                 <Text style={[styles.headerTitle, { color: colors.text }]}>{title}</Text>
-                <View style={styles.headerRight} />
+                <TouchableOpacity
+                    onPress={() => navigation.navigate('Uploads')}
+                    style={styles.headerRight}
+                    accessibilityLabel={queuedCount > 0 ? `Uploads, ${queuedCount} in progress` : 'Uploads'}
+                >
+                    <Ionicons name="cloud-upload-outline" size={scaleSize(24)} color={colors.text} />
+                    {queuedCount > 0 && (
+                        <View style={[styles.uploadBadge, { backgroundColor: colors.primary }]}>
+                            <Text style={styles.uploadBadgeText}>{queuedCount}</Text>
+                        </View>
+                    )}
+                </TouchableOpacity>
             </View>
 
             {loading && page === 0 ? (
@@ -458,6 +472,25 @@ const styles = StyleSheet.create({
     },
     headerRight: {
         width: scaleSize(40),
+        height: scaleSize(40),
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    uploadBadge: {
+        position: 'absolute',
+        top: scaleSize(2),
+        right: scaleSize(2),
+        minWidth: scaleSize(16),
+        height: scaleSize(16),
+        borderRadius: scaleSize(8),
+        paddingHorizontal: scaleSize(3),
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    uploadBadgeText: {
+        color: '#FFFFFF',
+        fontSize: scaleSize(10),
+        fontWeight: '700',
     },
     listContent: {
         padding: getResponsiveSpacing('lg'),
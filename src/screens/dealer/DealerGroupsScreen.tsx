@@ -10,7 +10,8 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
-import { DealerGroupsNavigationProp, DealerGroup } from '../../navigation/types';
+import { DealerGroupsNavigationProp } from '../../navigation/types';
+import type { DealerGroup } from '../../services/contracts';
 
 const DealerGroupsScreen: React.FC = () => {
   const navigation = useNavigation<DealerGroupsNavigationProp>();
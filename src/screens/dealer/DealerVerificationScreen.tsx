@@ -18,6 +18,7 @@ import { launchImageLibrary, Asset } from 'react-native-image-picker';
 import { useTheme } from '../../theme';
 import { useAuth } from '../../context/AuthContext';
 import { apiClient } from '../../services/ApiClient';
+import { describeError, showErrorAlert } from '../../services/ErrorCatalog';
 import { useLocation } from '../../hooks/useLocation';
 import {
     scaleSize,
@@ -76,6 +77,8 @@ const DealerVerificationScreen: React.FC<Props> = ({ navigation }) => {
     const [existingRequest, setExistingRequest] = useState<VerificationStatus | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [uploadProgress, setUploadProgress] = useState<string>('');
+    // Server-side validation messages, keyed by request field
+    const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
     useEffect(() => {
         fetchVerificationStatus();
@@ -95,6 +98,12 @@ const DealerVerificationScreen: React.FC<Props> = ({ navigation }) => {
         }
     };
 
+    const clearFieldError = (field: string) => {
+        if (fieldErrors[field]) {
+            setFieldErrors(({ [field]: _cleared, ...rest }) => rest);
+        }
+    };
+
     const handleDetectLocation = async () => {
         await getCurrentLocation();
     };
@@ -169,6 +178,7 @@ const DealerVerificationScreen: React.FC<Props> = ({ navigation }) => {
         }
 
         setIsSubmitting(true);
+        setFieldErrors({});
 
         try {
             // 1. Upload images through secure backend API
@@ -220,10 +230,12 @@ const DealerVerificationScreen: React.FC<Props> = ({ navigation }) => {
             );
         } catch (error: any) {
             console.error('Submission error:', error);
-            const errorMessage = error.response?.data?.message ||
-                error.response?.data?.error ||
-                'Failed to submit verification request';
-            Alert.alert('Error', errorMessage);
+            const options = { fallbackMessage: 'Failed to submit verification request' };
+            setFieldErrors(describeError(error, options).fieldErrors);
+            showErrorAlert(error, {
+                onRetry: handleSubmit,
+                onRelogin: () => navigation.reset({ index: 0, routes: [{ name: 'Login' }] }),
+            }, options);
         } finally {
             setIsSubmitting(false);
             setUploadProgress('');
@@ -410,49 +422,53 @@ const DealerVerificationScreen: React.FC<Props> = ({ navigation }) => {
                     <View style={styles.inputGroup}>
                         <Text style={[styles.inputLabel, { color: colors.text }]}>Business Name *</Text>
                         <TextInput
-                            style={[styles.input, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }]}
+                            style={[styles.input, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }, !!fieldErrors.businessName && { borderWidth: 1, borderColor: colors.error }]}
                             placeholder="e.g. ABC Auto Sales"
                             placeholderTextColor={colors.textSecondary}
                             value={businessName}
-                            onChangeText={setBusinessName}
+                            onChangeText={(text) => { setBusinessName(text); clearFieldError('businessName'); }}
                         />
+                        {!!fieldErrors.businessName && <Text style={[styles.fieldError, { color: colors.error }]}>{fieldErrors.businessName}</Text>}
                     </View>
 
                     <View style={styles.inputGroup}>
                         <Text style={[styles.inputLabel, { color: colors.text }]}>Business Address *</Text>
                         <TextInput
-                            style={[styles.input, styles.multilineInput, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }]}
+                            style={[styles.input, styles.multilineInput, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }, !!fieldErrors.businessAddress && { borderWidth: 1, borderColor: colors.error }]}
                             placeholder="Full address of your showroom"
                             placeholderTextColor={colors.textSecondary}
                             value={businessAddress}
-                            onChangeText={setBusinessAddress}
+                            onChangeText={(text) => { setBusinessAddress(text); clearFieldError('businessAddress'); }}
                             multiline
                             numberOfLines={3}
                         />
+                        {!!fieldErrors.businessAddress && <Text style={[styles.fieldError, { color: colors.error }]}>{fieldErrors.businessAddress}</Text>}
                     </View>
 
                     <View style={styles.inputGroup}>
                         <Text style={[styles.inputLabel, { color: colors.text }]}>GST Number (Optional)</Text>
                         <TextInput
-                            style={[styles.input, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }]}
+                            style={[styles.input, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }, !!fieldErrors.gstNumber && { borderWidth: 1, borderColor: colors.error }]}
                             placeholder="e.g. 22AAAAA0000A1Z5"
                             placeholderTextColor={colors.textSecondary}
                             value={gstNumber}
-                            onChangeText={setGstNumber}
+                            onChangeText={(text) => { setGstNumber(text); clearFieldError('gstNumber'); }}
                             autoCapitalize="characters"
                         />
+                        {!!fieldErrors.gstNumber && <Text style={[styles.fieldError, { color: colors.error }]}>{fieldErrors.gstNumber}</Text>}
                     </View>
 
                     <View style={styles.inputGroup}>
                         <Text style={[styles.inputLabel, { color: colors.text }]}>Phone Number (Optional)</Text>
                         <TextInput
-                            style={[styles.input, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }]}
+                            style={[styles.input, { backgroundColor: isDark ? '#2C2C2C' : '#F5F7FA', color: colors.text }, !!fieldErrors.phoneNumber && { borderWidth: 1, borderColor: colors.error }]}
                             placeholder="e.g. +91 98765 43210"
                             placeholderTextColor={colors.textSecondary}
                             value={phoneNumber}
-                            onChangeText={setPhoneNumber}
+                            onChangeText={(text) => { setPhoneNumber(text); clearFieldError('phoneNumber'); }}
                             keyboardType="phone-pad"
                         />
+                        {!!fieldErrors.phoneNumber && <Text style={[styles.fieldError, { color: colors.error }]}>{fieldErrors.phoneNumber}</Text>}
                     </View>
                 </View>
 
@@ -687,6 +703,10 @@ const styles = StyleSheet.create({
         paddingHorizontal: 16,
         fontSize: 16,
     },
+    fieldError: {
+        fontSize: 12,
+        marginTop: 6,
+    },
     multilineInput: {
         height: 80,
         paddingTop: 12,
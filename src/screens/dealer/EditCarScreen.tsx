@@ -151,11 +151,17 @@ const EditCarScreen: React.FC<Props> = ({ navigation, route }) => {
                 }
             };
 
-            await carApi.updateVehicle(String(car.id), updates);
-
-            Alert.alert('Success', 'Car details updated successfully!', [
-                { text: 'OK', onPress: () => navigation.goBack() }
-            ]);
+            const updated = await carApi.updateVehicle(String(car.id), updates);
+
+            if (updated?.pendingSync) {
+                Alert.alert('Saved Offline', "Your changes will be synced when you're back online.", [
+                    { text: 'OK', onPress: () => navigation.goBack() }
+                ]);
+            } else {
+                Alert.alert('Success', 'Car details updated successfully!', [
+                    { text: 'OK', onPress: () => navigation.goBack() }
+                ]);
+            }
         } catch (err) {
             console.error('Error updating car:', err);
             Alert.alert('Error', 'Failed to update car details.');
@@ -219,7 +225,7 @@ const EditCarScreen: React.FC<Props> = ({ navigation, route }) => {
             })).filter(img => img.uri.length > 0);
 
             if (selectedImages.length > 0) {
-                await addToQueue(carId, selectedImages, null);
+                await addToQueue(carId, selectedImages, null, car ? `${car.make} ${car.model}` : undefined);
                 Alert.alert('Uploading', 'Your photos are being uploaded in the background.');
             }
         } catch (error) {
@@ -0,0 +1,539 @@
+import React from 'react';
+import {
+    View,
+    Text,
+    FlatList,
+    StyleSheet,
+    StatusBar,
+    TouchableOpacity,
+    Image,
+    Switch,
+    ScrollView,
+    Alert,
+    ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTheme } from '../../theme';
+import {
+    scaleSize,
+    getResponsiveSpacing,
+    getResponsiveTypography,
+    getResponsiveBorderRadius,
+} from '../../utils/responsiveEnhanced';
+import { useUploadQueue, UploadTask, UploadStatus } from '../../context/UploadQueueContext';
+import { getErrorMessage, UploadErrorType, MAX_RETRIES } from '../../utils/uploadValidation';
+import { RootStackParamList } from '../../navigation/types';
+
+type UploadsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Uploads'>;
+
+interface Props {
+    navigation: UploadsScreenNavigationProp;
+}
+
+type ImageState = 'queued' | 'compressing' | 'uploading' | 'uploaded' | 'failed';
+
+interface ImageStatus {
+    state: ImageState;
+    progress?: number; // 0-100 while uploading
+}
+
+const STATUS_INFO: Record<UploadStatus, { icon: string; color: string; text: string }> = {
+    pending: { icon: 'time-outline', color: '#6B7280', text: 'Queued' },
+    paused: { icon: 'pause-circle-outline', color: '#6B7280', text: 'Paused' },
+    validating: { icon: 'shield-checkmark-outline', color: '#3B82F6', text: 'Checking files' },
+    compressing: { icon: 'contract-outline', color: '#3B82F6', text: 'Compressing' },
+    uploading: { icon: 'cloud-upload-outline', color: '#3B82F6', text: 'Uploading' },
+    completed: { icon: 'checkmark-circle', color: '#10B981', text: 'Uploaded' },
+    partial: { icon: 'warning-outline', color: '#F59E0B', text: 'Some photos failed' },
+    failed: { icon: 'close-circle', color: '#EF4444', text: 'Failed' },
+};
+
+const ERROR_CATEGORY_LABELS: Record<UploadErrorType, string> = {
+    network: 'Network',
+    timeout: 'Timeout',
+    server: 'Server',
+    validation: 'Invalid file',
+    compression: 'Compression',
+    unknown: 'Unknown',
+};
+
+const formatFileSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+/**
+ * Where a single picked image is in its task's pipeline
+ */
+const getImageStatus = (task: UploadTask, index: number): ImageStatus => {
+    const retrying = task.retryImageIndices;
+    // Earlier attempt already sent it
+    if (retrying && !retrying.includes(index)) return { state: 'uploaded' };
+
+    const sessionFile = task.session?.files.find(f => f.imageIndex === index);
+    if (sessionFile) {
+        if (sessionFile.status === 'uploaded') return { state: 'uploaded' };
+        if (task.status !== 'uploading') return { state: 'queued' };
+        return {
+            state: 'uploading',
+            progress: Math.floor((sessionFile.uploadedBytes / Math.max(1, sessionFile.size)) * 100),
+        };
+    }
+
+    if (task.failedImageIndices.includes(index) && task.status !== 'compressing') return { state: 'failed' };
+
+    switch (task.status) {
+        case 'completed':
+        case 'partial':
+            return { state: 'uploaded' };
+        case 'validating':
+        case 'compressing':
+            return { state: 'compressing' };
+        default:
+            return { state: 'queued' };
+    }
+};
+
+const UploadsScreen: React.FC<Props> = ({ navigation }) => {
+    const { theme, isDark } = useTheme();
+    const { colors } = theme;
+    const {
+        uploads,
+        settings,
+        isWaitingForWifi,
+        isVideoWaitingForWifi,
+        retryUpload,
+        retryFailedImages,
+        cancelUpload,
+        pauseUpload,
+        resumeUpload,
+        moveUpload,
+        removeFromQueue,
+        setPauseOnCellular,
+    } = useUploadQueue();
+
+    const tasks = Array.from(uploads.values());
+    const hasFinished = tasks.some(task => task.status === 'completed');
+
+    const clearFinished = () => {
+        tasks.filter(task => task.status === 'completed').forEach(task => removeFromQueue(task.carId));
+    };
+
+    const confirmCancel = (task: UploadTask) => {
+        Alert.alert(
+            'Cancel Upload',
+            'Photos that have not been uploaded yet will be discarded.',
+            [
+                { text: 'Keep', style: 'cancel' },
+                { text: 'Cancel Upload', style: 'destructive', onPress: () => cancelUpload(task.carId) },
+            ]
+        );
+    };
+
+    const renderImageStatus = (status: ImageStatus) => {
+        switch (status.state) {
+            case 'uploaded':
+                return <Ionicons name="checkmark-circle" size={scaleSize(16)} color="#10B981" />;
+            case 'failed':
+                return <Ionicons name="alert-circle" size={scaleSize(16)} color="#EF4444" />;
+            case 'compressing':
+                return <ActivityIndicator size="small" color="#FFFFFF" />;
+            case 'uploading':
+                return <Text style={styles.thumbnailProgress}>{status.progress}%</Text>;
+            default:
+                return <Ionicons name="time-outline" size={scaleSize(16)} color="#FFFFFF" />;
+        }
+    };
+
+    const renderThumbnails = (task: UploadTask) => (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.thumbnails}>
+            {task.images.map((image, index) => {
+                const status = getImageStatus(task, index);
+                return (
+                    <View
+                        key={`${image.uri}-${index}`}
+                        style={[styles.thumbnail, status.state === 'failed' && styles.thumbnailFailed]}
+                        accessibilityLabel={`Photo ${index + 1}: ${status.state}`}
+                    >
+                        <Image source={{ uri: image.uri }} style={styles.thumbnailImage} />
+                        <View style={styles.thumbnailOverlay}>{renderImageStatus(status)}</View>
+                    </View>
+                );
+            })}
+            {task.video && (
+                <View style={[styles.thumbnail, styles.videoThumbnail, { backgroundColor: isDark ? '#374151' : '#E5E7EB' }]}>
+                    <Ionicons name="videocam-outline" size={scaleSize(22)} color={colors.textSecondary} />
+                    <View style={styles.thumbnailOverlay}>
+                        {task.videoUploaded
+                            ? <Ionicons name="checkmark-circle" size={scaleSize(16)} color="#10B981" />
+                            : <Ionicons name="time-outline" size={scaleSize(16)} color="#FFFFFF" />}
+                    </View>
+                </View>
+            )}
+        </ScrollView>
+    );
+
+    const renderAction = (icon: string, label: string, onPress: () => void, color: string = colors.primary) => (
+        <TouchableOpacity key={label} style={styles.actionButton} onPress={onPress} accessibilityLabel={label}>
+            <Ionicons name={icon} size={scaleSize(16)} color={color} />
+            <Text style={[styles.actionText, { color }]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    const renderTask = ({ item: task, index }: { item: UploadTask; index: number }) => {
+        const statusInfo = STATUS_INFO[task.status];
+        const isActive = task.status === 'validating' || task.status === 'compressing' || task.status === 'uploading';
+        const canRetry = task.status === 'failed' && task.retryCount < MAX_RETRIES;
+        const canRetryImages = (task.status === 'failed' || task.status === 'partial') && task.failedImageIndices.length > 0;
+        const isFinished = task.status === 'completed' || task.status === 'partial' || task.status === 'failed';
+        const savings = task.compression && task.compression.originalBytes > 0
+            ? Math.round((1 - task.compression.compressedBytes / task.compression.originalBytes) * 100)
+            : null;
+
+        return (
+            <View style={[styles.card, { backgroundColor: colors.surface }]}>
+                <View style={styles.cardHeader}>
+                    <View style={styles.cardTitleBlock}>
+                        <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={1}>
+                            {task.title || `Car #${task.carId}`}
+                        </Text>
+                        <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]}>
+                            {task.images.length} photo{task.images.length === 1 ? '' : 's'}
+                            {task.video ? ' • 1 video' : ''}
+                        </Text>
+                    </View>
+                    <View style={[styles.statusBadge, { backgroundColor: statusInfo.color }]}>
+                        <Ionicons name={statusInfo.icon} size={scaleSize(12)} color="#FFFFFF" style={{ marginRight: 4 }} />
+                        <Text style={styles.statusText}>
+                            {isActive ? `${statusInfo.text} ${task.progress}%` : statusInfo.text}
+                        </Text>
+                    </View>
+                </View>
+
+                {isActive && (
+                    <View style={[styles.progressTrack, { backgroundColor: isDark ? '#374151' : '#E5E7EB' }]}>
+                        <View style={[styles.progressFill, { width: `${task.progress}%`, backgroundColor: colors.primary }]} />
+                    </View>
+                )}
+
+                {renderThumbnails(task)}
+
+                {task.compression && savings !== null && (
+                    <Text style={[styles.detailText, { color: colors.textSecondary }]}>
+                        Compressed {formatFileSize(task.compression.originalBytes)} to {formatFileSize(task.compression.compressedBytes)}
+                        {savings > 0 ? ` (${savings}% smaller)` : ''}
+                    </Text>
+                )}
+
+                {task.errorType && task.status === 'failed' && (
+                    <View style={[styles.errorBox, { backgroundColor: isDark ? 'rgba(239,68,68,0.12)' : '#FEF2F2' }]}>
+                        <Text style={styles.errorCategory}>{ERROR_CATEGORY_LABELS[task.errorType]} error</Text>
+                        <Text style={[styles.errorMessage, { color: colors.text }]}>{getErrorMessage(task.errorType)}</Text>
+                    </View>
+                )}
+
+                {task.failedImageIndices.length > 0 && task.status !== 'compressing' && (
+                    <Text style={[styles.detailText, { color: '#EF4444' }]}>
+                        {task.failedImageIndices.length} photo{task.failedImageIndices.length === 1 ? '' : 's'} failed
+                    </Text>
+                )}
+
+                {isVideoWaitingForWifi(task.carId) && (
+                    <Text style={[styles.detailText, { color: '#F59E0B' }]}>
+                        Photos uploaded • video waits for Wi-Fi
+                    </Text>
+                )}
+
+                <View style={styles.actions}>
+                    {(isActive || task.status === 'pending') && renderAction('pause-outline', 'Pause', () => pauseUpload(task.carId))}
+                    {task.status === 'paused' && renderAction('play-outline', 'Resume', () => resumeUpload(task.carId))}
+                    {canRetryImages && renderAction('images-outline', 'Retry failed photos', () => retryFailedImages(task.carId))}
+                    {canRetry && !canRetryImages && renderAction('refresh-outline', 'Retry', () => retryUpload(task.carId))}
+                    {!isFinished && index > 0 && renderAction('arrow-up-outline', 'Up', () => moveUpload(task.carId, -1), colors.textSecondary)}
+                    {!isFinished && index < tasks.length - 1 && renderAction('arrow-down-outline', 'Down', () => moveUpload(task.carId, 1), colors.textSecondary)}
+                    {isFinished
+                        ? renderAction('close-outline', 'Remove', () => removeFromQueue(task.carId), colors.textSecondary)
+                        : renderAction('close-circle-outline', 'Cancel', () => confirmCancel(task), '#EF4444')}
+                </View>
+            </View>
+        );
+    };
+
+    const renderEmpty = () => (
+        <View style={styles.emptyContainer}>
+            <Ionicons name="cloud-done-outline" size={scaleSize(64)} color={colors.textSecondary} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>No Uploads</Text>
+            <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+                Photos and videos you add to your cars upload here in the background.
+            </Text>
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+            <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
+
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={scaleSize(24)} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: colors.text }]}>Uploads</Text>
+                <TouchableOpacity
+                    onPress={clearFinished}
+                    disabled={!hasFinished}
+                    style={styles.headerRight}
+                    accessibilityLabel="Clear finished uploads"
+                >
+                    <Text style={[styles.clearText, { color: hasFinished ? colors.primary : colors.textSecondary }]}>Clear</Text>
+                </TouchableOpacity>
+            </View>
+
+            {/* Settings */}
+            <View style={[styles.settingRow, { backgroundColor: colors.surface }]}>
+                <View style={styles.settingLabel}>
+                    <Text style={[styles.settingTitle, { color: colors.text }]}>Pause on mobile data</Text>
+                    <Text style={[styles.settingSubtitle, { color: colors.textSecondary }]}>
+                        Upload only over Wi-Fi
+                    </Text>
+                </View>
+                <Switch
+                    value={settings.pauseOnCellular}
+                    onValueChange={setPauseOnCellular}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                />
+            </View>
+
+            {isWaitingForWifi && tasks.some(task => task.status === 'pending') && (
+                <View style={[styles.banner, { backgroundColor: isDark ? 'rgba(245,158,11,0.15)' : '#FFFBEB' }]}>
+                    <Ionicons name="wifi-outline" size={scaleSize(16)} color="#F59E0B" />
+                    <Text style={[styles.bannerText, { color: colors.text }]}>
+                        Waiting for Wi-Fi to continue uploading
+                    </Text>
+                </View>
+            )}
+
+            <FlatList
+                data={tasks}
+                keyExtractor={(task) => task.carId}
+                renderItem={renderTask}
+                contentContainerStyle={styles.listContent}
+                showsVerticalScrollIndicator={false}
+                ListEmptyComponent={renderEmpty}
+            />
+        </SafeAreaView>
+    );
+};
+
+const THUMBNAIL_SIZE = scaleSize(56);
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: getResponsiveSpacing('lg'),
+        paddingVertical: getResponsiveSpacing('md'),
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(0,0,0,0.1)',
+    },
+    backButton: {
+        width: scaleSize(40),
+        height: scaleSize(40),
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        fontSize: getResponsiveTypography('lg'),
+        fontWeight: '700',
+    },
+    headerRight: {
+        width: scaleSize(48),
+        alignItems: 'flex-end',
+    },
+    clearText: {
+        fontSize: getResponsiveTypography('sm'),
+        fontWeight: '600',
+    },
+    settingRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginHorizontal: getResponsiveSpacing('lg'),
+        marginTop: getResponsiveSpacing('md'),
+        padding: getResponsiveSpacing('md'),
+        borderRadius: getResponsiveBorderRadius('lg'),
+    },
+    settingLabel: {
+        flex: 1,
+    },
+    settingTitle: {
+        fontSize: getResponsiveTypography('md'),
+        fontWeight: '600',
+    },
+    settingSubtitle: {
+        fontSize: getResponsiveTypography('xs'),
+        marginTop: 2,
+    },
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginHorizontal: getResponsiveSpacing('lg'),
+        marginTop: getResponsiveSpacing('sm'),
+        padding: getResponsiveSpacing('sm'),
+        borderRadius: getResponsiveBorderRadius('md'),
+    },
+    bannerText: {
+        flex: 1,
+        fontSize: getResponsiveTypography('sm'),
+    },
+    listContent: {
+        padding: getResponsiveSpacing('lg'),
+        flexGrow: 1,
+    },
+    card: {
+        borderRadius: getResponsiveBorderRadius('lg'),
+        padding: getResponsiveSpacing('md'),
+        marginBottom: getResponsiveSpacing('md'),
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 4,
+        elevation: 2,
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    cardTitleBlock: {
+        flex: 1,
+        marginRight: getResponsiveSpacing('sm'),
+    },
+    cardTitle: {
+        fontSize: getResponsiveTypography('md'),
+        fontWeight: '700',
+    },
+    cardSubtitle: {
+        fontSize: getResponsiveTypography('xs'),
+        marginTop: 2,
+    },
+    statusBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: scaleSize(8),
+        paddingVertical: scaleSize(4),
+        borderRadius: scaleSize(12),
+    },
+    statusText: {
+        color: '#FFFFFF',
+        fontSize: scaleSize(11),
+        fontWeight: '600',
+    },
+    progressTrack: {
+        height: scaleSize(4),
+        borderRadius: scaleSize(2),
+        overflow: 'hidden',
+        marginTop: getResponsiveSpacing('sm'),
+    },
+    progressFill: {
+        height: '100%',
+    },
+    thumbnails: {
+        gap: scaleSize(8),
+        paddingVertical: getResponsiveSpacing('sm'),
+    },
+    thumbnail: {
+        width: THUMBNAIL_SIZE,
+        height: THUMBNAIL_SIZE,
+        borderRadius: getResponsiveBorderRadius('sm'),
+        overflow: 'hidden',
+    },
+    thumbnailFailed: {
+        borderWidth: 2,
+        borderColor: '#EF4444',
+    },
+    thumbnailImage: {
+        width: '100%',
+        height: '100%',
+    },
+    videoThumbnail: {
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    thumbnailOverlay: {
+        position: 'absolute',
+        right: 2,
+        bottom: 2,
+        minWidth: scaleSize(20),
+        height: scaleSize(20),
+        borderRadius: scaleSize(10),
+        paddingHorizontal: 2,
+        backgroundColor: 'rgba(0,0,0,0.55)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    thumbnailProgress: {
+        color: '#FFFFFF',
+        fontSize: scaleSize(9),
+        fontWeight: '700',
+    },
+    detailText: {
+        fontSize: getResponsiveTypography('xs'),
+        marginTop: 2,
+    },
+    errorBox: {
+        borderRadius: getResponsiveBorderRadius('md'),
+        padding: getResponsiveSpacing('sm'),
+        marginTop: getResponsiveSpacing('sm'),
+    },
+    errorCategory: {
+        color: '#EF4444',
+        fontSize: getResponsiveTypography('xs'),
+        fontWeight: '700',
+        textTransform: 'uppercase',
+    },
+    errorMessage: {
+        fontSize: getResponsiveTypography('sm'),
+        marginTop: 2,
+    },
+    actions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginTop: getResponsiveSpacing('sm'),
+        gap: scaleSize(4),
+    },
+    actionButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: scaleSize(6),
+        paddingHorizontal: scaleSize(8),
+    },
+    actionText: {
+        fontSize: getResponsiveTypography('sm'),
+        fontWeight: '600',
+        marginLeft: 4,
+    },
+    emptyContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: getResponsiveSpacing('xl'),
+    },
+    emptyTitle: {
+        fontSize: getResponsiveTypography('lg'),
+        fontWeight: '700',
+        marginTop: getResponsiveSpacing('md'),
+    },
+    emptySubtitle: {
+        fontSize: getResponsiveTypography('sm'),
+        textAlign: 'center',
+        marginTop: getResponsiveSpacing('sm'),
+    },
+});
+
+export default UploadsScreen;
@@ -17,13 +17,15 @@ import Ionicons from 'react-native-vector-icons/Ionicons';
 import { Button } from '../../components/ui/Button';
 import { RootStackParamList } from '../../navigation/types';
 import { useTheme } from '../../theme/ThemeContext';
+import { carApi, AppNotification, NotificationSettings } from '../../services/CarApi';
+import { EMPTY_SEARCH_FILTERS, toVehicleSearchFilters } from '../../utils/searchFilters';
 
 
 type IconProps = React.ComponentProps<typeof Ionicons>['name'];
 
 interface Notification {
   id: string;
-  type: 'new_listing' | 'inquiry' | 'co_listing' | 'message' | 'group_invite' | 'price_alert' | 'system';
+  type: 'new_listing' | 'inquiry' | 'co_listing' | 'message' | 'group_invite' | 'price_alert' | 'saved_car' | 'system';
   title: string;
   message: string;
   timestamp: string;
@@ -32,17 +34,18 @@ interface Notification {
   actionable?: boolean;
 }
 
-interface NotificationSettings {
-  newListings: boolean;
-  inquiries: boolean;
-  coListingActions: boolean;
-  newMessages: boolean;
-  groupInvites: boolean;
-  priceAlerts: boolean;
-  systemNotifications: boolean;
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-}
+const NOTIFICATION_TYPES: Notification['type'][] = [
+  'new_listing', 'inquiry', 'co_listing', 'message', 'group_invite', 'price_alert', 'saved_car', 'system',
+];
+
+// Backend types arrive in either case; anything unknown is shown as a system notice
+const toNotification = (dto: AppNotification): Notification => {
+  const type = dto.type.toLowerCase() as Notification['type'];
+  return {
+    ...dto,
+    type: NOTIFICATION_TYPES.includes(type) ? type : 'system',
+  };
+};
 
 type NotificationsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Notifications'>;
 
@@ -72,93 +75,17 @@ const NotificationsScreen: React.FC = () => {
     pushNotifications: true,
   });
 
-  // Mock notifications data
-  const mockNotifications = React.useMemo<Notification[]>(() => [
-    {
-      id: '1',
-      type: 'inquiry',
-      title: 'New Inquiry',
-      message: 'Sarah Johnson inquired about your 2023 BMW X5',
-      timestamp: new Date(Date.now() - 1000 * 60 * 15).toISOString(), // 15 minutes ago
-      isRead: false,
-      data: { vehicleId: 'v1', dealerId: 'dealer2', dealerName: 'Sarah Johnson' },
-      actionable: true,
-    },
-    {
-      id: '2',
-      type: 'co_listing',
-      title: 'Co-listing Request',
-      message: 'Mike Wilson wants to co-list your Mercedes C-Class in Luxury Car Network',
-      timestamp: new Date(Date.now() - 1000 * 60 * 60).toISOString(), // 1 hour ago
-      isRead: false,
-      data: { vehicleId: 'v2', groupId: 'g1', dealerId: 'dealer3' },
-      actionable: true,
-    },
-    {
-      id: '3',
-      type: 'message',
-      title: 'New Message',
-      message: 'You have a new message from Tom Anderson',
-      timestamp: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(), // 2 hours ago
-      isRead: true,
-      data: { dealerId: 'dealer6', dealerName: 'Tom Anderson' },
-      actionable: true,
-    },
-    {
-      id: '4',
-      type: 'group_invite',
-      title: 'Group Invitation',
-      message: 'You\'ve been invited to join "Regional Sports Car Dealers"',
-      timestamp: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString(), // 4 hours ago
-      isRead: true,
-      data: { groupId: 'g2', groupName: 'Regional Sports Car Dealers', invitedBy: 'Lisa Garcia' },
-      actionable: true,
-    },
-    {
-      id: '5',
-      type: 'new_listing',
-      title: 'New Listing Alert',
-      message: 'A 2022 Porsche 911 matching your interests was just listed in your area',
-      timestamp: new Date(Date.now() - 1000 * 60 * 60 * 6).toISOString(), // 6 hours ago
-      isRead: true,
-      data: { vehicleId: 'v3', make: 'Porsche', model: '911', location: 'New York' },
-      actionable: true,
-    },
-    {
-      id: '6',
-      type: 'price_alert',
-      title: 'Price Drop Alert',
-      message: 'BMW X5 2023 price dropped by $2,000 - now $73,000',
-      timestamp: new Date(Date.now() - 1000 * 60 * 60 * 12).toISOString(), // 12 hours ago
-      isRead: true,
-      data: { vehicleId: 'v4', oldPrice: 75000, newPrice: 73000 },
-      actionable: true,
-    },
-    {
-      id: '7',
-      type: 'system',
-      title: 'App Update Available',
-      message: 'CarWorld v2.1 is now available with new features',
-      timestamp: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString(), // 1 day ago
-      isRead: true,
-      data: { version: '2.1.0' },
-      actionable: false,
-    },
-  ], []);
-
   const loadNotifications = useCallback(async () => {
     try {
       setLoading(true);
-      // Simulate API call
-      setTimeout(() => {
-        setNotifications(mockNotifications);
-        setLoading(false);
-      }, 1000);
+      const response = await carApi.getNotifications();
+      setNotifications(response.map(toNotification));
     } catch (error) {
       console.error('Error loading notifications:', error);
+    } finally {
       setLoading(false);
     }
-  }, [mockNotifications]);
+  }, []);
 
   const filterNotifications = useCallback(() => {
     let filtered = notifications;
@@ -192,7 +119,7 @@ const NotificationsScreen: React.FC = () => {
 
   const markAsRead = async (notificationId: string) => {
     try {
-      // TODO: Call API to mark as read
+      await carApi.markNotificationAsRead(notificationId);
       setNotifications(prev =>
         prev.map(n => n.id === notificationId ? { ...n, isRead: true } : n)
       );
@@ -203,7 +130,8 @@ const NotificationsScreen: React.FC = () => {
 
   const markAllAsRead = async () => {
     try {
-      // TODO: Call API to mark all as read
+      const unread = notifications.filter(n => !n.isRead);
+      await Promise.all(unread.map(n => carApi.markNotificationAsRead(n.id)));
       setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
@@ -216,6 +144,7 @@ const NotificationsScreen: React.FC = () => {
     }
 
     // Navigate based on notification type
+    if (!notification.data) return;
     switch (notification.type) {
       case 'inquiry':
         navigation.navigate('Chat', {
@@ -241,10 +170,23 @@ const NotificationsScreen: React.FC = () => {
         break;
       case 'new_listing':
       case 'price_alert':
+        // Saved search alerts reopen the search that produced them
+        if (notification.data?.filters) {
+          navigation.navigate('SearchResults', {
+            filters: toVehicleSearchFilters({ ...EMPTY_SEARCH_FILTERS, ...notification.data.filters }),
+          });
+          break;
+        }
         navigation.navigate('VehicleDetail', {
           vehicleId: notification.data.vehicleId,
         });
         break;
+      case 'saved_car':
+        // Watchlist updates: price drop, reserved/sold, new photos ready
+        navigation.navigate('CarDetails', {
+          carId: String(notification.data.vehicleId),
+        });
+        break;
       default:
         break;
     }
@@ -264,6 +206,8 @@ const NotificationsScreen: React.FC = () => {
         return { name: 'directions-car', color: '#4ECDC4' };
       case 'price_alert':
         return { name: 'trending-down', color: '#F44336' };
+      case 'saved_car':
+        return { name: 'heart', color: '#E91E63' };
       case 'system':
         return { name: 'system-update', color: '#607D8B' };
       default:
@@ -1,30 +1,67 @@
-import React, { useContext } from 'react';
-import { View, Text, StyleSheet, Switch, Alert } from 'react-native';
+import React, { useContext, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Switch, Alert, TouchableOpacity, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { Card } from '../../components/ui/Card';
 import { Button } from '../../components/ui/Button';
 import { useTheme } from '../../theme/ThemeContext';
+import { useAppLock } from '../../context/AppLockContext';
+import DevicesSection from '../../components/settings/DevicesSection';
+import MediaSection from '../../components/settings/MediaSection';
+import DeveloperSection from '../../components/settings/DeveloperSection';
+import { APP_LOCK_TIMEOUT_OPTIONS, AppLockTimeout } from '../../services/AppLockService';
 
+// Taps on the header title that reveal the developer menu in release builds
+const DEVELOPER_MENU_TAPS = 7;
 
+const formatLockTimeout = (minutes: AppLockTimeout) =>
+  minutes === 0 ? 'Immediately' : `${minutes} min`;
 
 const SettingsScreen = ({ navigation }: { navigation?: any }) => {
   const { theme, isDark, toggleTheme } = useTheme();
   const toggle = () => toggleTheme();
   const styles = getStyles(theme.colors);
 
+  const { isEnabled: isAppLockEnabled, timeoutMinutes, setEnabled, setTimeoutMinutes } = useAppLock();
+
+  const [showDeveloperMenu, setShowDeveloperMenu] = useState(__DEV__);
+  const titleTaps = useRef(0);
+
+  const handleTitlePress = () => {
+    if (showDeveloperMenu) return;
+    titleTaps.current += 1;
+    if (titleTaps.current >= DEVELOPER_MENU_TAPS) {
+      setShowDeveloperMenu(true);
+      Alert.alert('Developer Menu', 'Developer options are now shown at the bottom of Settings.');
+    }
+  };
+
   const handleComingSoon = (feature: string) => {
     Alert.alert('Coming Soon', `${feature} is under development.`);
   };
 
+  const handleSignedOut = () => {
+    navigation?.reset({ index: 0, routes: [{ name: 'Login' }] });
+  };
+
+  const handleAppLockToggle = async (enabled: boolean) => {
+    try {
+      await setEnabled(enabled);
+    } catch (error: any) {
+      Alert.alert('App Lock', error?.message || 'Could not update App Lock.');
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Settings</Text>
+        <TouchableOpacity activeOpacity={1} onPress={handleTitlePress}>
+          <Text style={styles.headerTitle}>Settings</Text>
+        </TouchableOpacity>
         <Text style={styles.headerSubtitle}>Manage your preferences</Text>
       </View>
 
-      <View style={styles.content}>
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Appearance</Text>
           <Card style={styles.settingCard}>
@@ -49,6 +86,49 @@ const SettingsScreen = ({ navigation }: { navigation?: any }) => {
           </Card>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Security</Text>
+          <Card style={styles.settingCard}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingLeft}>
+                <Ionicons name="lock-closed" size={24} color={theme.colors.primary} />
+                <Text style={styles.settingLabel}>App Lock</Text>
+              </View>
+              <Switch
+                value={isAppLockEnabled}
+                onValueChange={handleAppLockToggle}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+            {isAppLockEnabled && (
+              <View style={styles.timeoutRow}>
+                <Text style={styles.timeoutLabel}>Lock after leaving the app</Text>
+                <View style={styles.timeoutOptions}>
+                  {APP_LOCK_TIMEOUT_OPTIONS.map(option => {
+                    const selected = option === timeoutMinutes;
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.timeoutChip, selected && styles.timeoutChipSelected]}
+                        onPress={() => setTimeoutMinutes(option)}
+                      >
+                        <Text style={[styles.timeoutChipText, selected && styles.timeoutChipTextSelected]}>
+                          {formatLockTimeout(option)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+          </Card>
+        </View>
+
+        <MediaSection />
+
+        <DevicesSection onSignedOut={handleSignedOut} />
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Account</Text>
           <Card style={styles.settingCard} onPress={() => handleComingSoon('Edit Profile')}>
@@ -105,6 +185,8 @@ const SettingsScreen = ({ navigation }: { navigation?: any }) => {
           </Card>
         </View>
 
+        {showDeveloperMenu && <DeveloperSection onSignedOut={handleSignedOut} />}
+
         {navigation && (
           <Button
             title="Back to Dashboard"
@@ -114,7 +196,7 @@ const SettingsScreen = ({ navigation }: { navigation?: any }) => {
             style={styles.backButton}
           />
         )}
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 };
@@ -142,6 +224,8 @@ const getStyles = (colors: any) => StyleSheet.create({
   },
   content: {
     flex: 1,
+  },
+  contentContainer: {
     paddingHorizontal: 20,
     paddingTop: 20,
   },
@@ -175,6 +259,39 @@ const getStyles = (colors: any) => StyleSheet.create({
     color: colors.text,
     marginLeft: 12,
   },
+  timeoutRow: {
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  timeoutLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 10,
+  },
+  timeoutOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  timeoutChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  timeoutChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  timeoutChipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  timeoutChipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   backButton: {
     marginTop: 24,
     marginBottom: 32,
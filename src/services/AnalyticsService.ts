@@ -3,6 +3,7 @@ import { AppState, AppStateStatus, Platform } from 'react-native';
 import DeviceInfo from 'react-native-device-info';
 import NetInfo from '@react-native-community/netinfo';
 import { apiClient } from './ApiClient';
+import { sessionManager } from './SessionManager';
 
 // =============== TYPES ===============
 
@@ -14,7 +15,7 @@ export type AnalyticsEventType =
     | 'SCREEN_VIEW' | 'SCREEN_EXIT' | 'NAV_BACK' | 'NAV_TAB_SWITCH'
     | 'APP_OPEN' | 'APP_CLOSE' | 'APP_BACKGROUND' | 'APP_FOREGROUND'
     | 'SEARCH_QUERY' | 'SEARCH_FILTER_APPLY' | 'SEARCH_FILTER_CLEAR'
-    | 'SEARCH_RESULT_CLICK' | 'SEARCH_NO_RESULTS' | 'SEARCH_SCROLL'
+    | 'SEARCH_RESULT_CLICK' | 'SEARCH_NO_RESULTS' | 'SEARCH_SCROLL' | 'SEARCH_SHARE'
     | 'LOGIN' | 'LOGOUT' | 'SIGNUP' | 'SIGNUP_STEP'
     | 'PROFILE_VIEW' | 'PROFILE_EDIT' | 'SETTINGS_CHANGE'
     | 'DEALER_VIEW' | 'DEALER_CONTACT' | 'DEALER_CARS_VIEW'
@@ -118,6 +119,13 @@ class AnalyticsServiceClass {
             // Listen to app state
             AppState.addEventListener('change', this.handleAppStateChange);
 
+            // Rotate the analytics session when the user signs out
+            sessionManager.addListener(event => {
+                if (event.type === 'ended') {
+                    this.handleSessionEnded();
+                }
+            });
+
             // Listen to network state
             NetInfo.addEventListener(state => {
                 const wasOffline = !this.isOnline;
@@ -147,6 +155,17 @@ class AnalyticsServiceClass {
         }
     }
 
+    private handleSessionEnded(): void {
+        this.track('LOGOUT');
+        this.persistQueue();
+
+        // Events after logout belong to a new (anonymous) session
+        this.sessionId = this.generateSessionId();
+        this.sessionStart = Date.now();
+        this.sessionAggregates.clear();
+        this.recentEvents.clear();
+    }
+
     private generateSessionId(): string {
         return `ses_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
     }
@@ -305,6 +324,10 @@ class AnalyticsServiceClass {
         this.track(isSaved ? 'CAR_SAVE' : 'CAR_UNSAVE', 'CAR', carId);
     }
 
+    trackCarCompare(carId: string, compareCount: number): void {
+        this.track('CAR_COMPARE_ADD', 'CAR', carId, { compareCount });
+    }
+
     trackCarShare(carId: string, platform: string): void {
         this.track('CAR_SHARE', 'CAR', carId, { platform });
     }
@@ -393,7 +416,7 @@ class AnalyticsServiceClass {
         if (this.eventQueue.length === 0) return;
 
         // Auth guard: Skip flush if no access token (user not logged in)
-        const accessToken = await AsyncStorage.getItem('@carworld_access_token');
+        const accessToken = await sessionManager.getAccessToken();
         if (!accessToken) {
             console.debug('[Analytics] Skipping flush - no auth token');
             await this.persistQueue(); // Save for later
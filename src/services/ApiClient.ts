@@ -1,18 +1,16 @@
 import axios, {
+  CanceledError,
   AxiosInstance,
   AxiosRequestConfig,
   AxiosResponse,
   InternalAxiosRequestConfig,
 } from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
 
 
-// API Configuration
+// API Configuration (baseURL comes from EnvironmentService)
 const API_CONFIG = {
-
-  baseURL: 'http://192.168.1.11:9000', // Use your server's IP address
   timeout: 15000, // Increased timeout for better mobile network handling
   headers: {
     'Content-Type': 'application/json',
@@ -22,20 +20,64 @@ const API_CONFIG = {
   },
 };
 
-// Import WebSocket service (lazy import or direct if no circular dep issue)
-// Note: We'll use a setter or import it directly. Since both are singletons,
-// we can import the instance.
-import { webSocketService } from './WebSocketService';
-
-// Storage keys for secure token management
-const STORAGE_KEYS = {
-  ACCESS_TOKEN: '@carworld_access_token',
-  REFRESH_TOKEN: '@carworld_refresh_token',
-  USER_DATA: '@carworld_user_data',
-  TOKEN_EXPIRY: '@carworld_token_expiry',
-  REFRESH_EXPIRY: '@carworld_refresh_expiry',
+import { ResponseCache, CacheEntry } from './ResponseCache';
+import { sessionManager } from './SessionManager';
+import { EnvironmentService } from './EnvironmentService';
+import { MockBackend } from './mock/MockBackend';
+import { s, Schema, SchemaError } from '../utils/schema';
+import {
+  AuthTokens,
+  AuthTokensSchema,
+  UserData,
+  UserDataSchema,
+  TokenValidationSchema,
+  ActiveSession,
+  ActiveSessionSchema,
+  HealthCheck,
+  HealthCheckSchema,
+  Vehicle,
+  VehicleSchema,
+  VehiclePage,
+  VehiclePageSchema,
+} from './contracts';
+
+// DTO types live in contracts.ts; re-exported for existing imports
+export type { AuthTokens, UserData, ActiveSession } from './contracts';
+
+// Offline-first cache policies (max age before a background revalidation)
+const CACHE_POLICIES = {
+  carList: 2 * 60 * 1000, // 2 minutes
+  carDetails: 5 * 60 * 1000, // 5 minutes
+  search: 60 * 1000, // 1 minute
 };
 
+// Cache key prefixes invalidated by car mutations
+const CAR_CACHE_PREFIXES = ['/api/cars', '/api/search/cars'];
+
+export interface RequestOptions {
+  /** Abort when the caller no longer needs the result (screen blurred, newer query sent) */
+  signal?: AbortSignal;
+}
+
+export interface CachedGetOptions extends RequestOptions {
+  params?: Record<string, any>;
+  maxAgeMs?: number;
+}
+
+// A GET shared by every caller that asked for the same method + URL + params
+interface InFlightRequest {
+  key: string;
+  promise: Promise<AxiosResponse<any>>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * True when a request was aborted through its signal. Callers should drop the
+ * result silently - a newer request (or nothing) owns the screen state now.
+ */
+export const isRequestCancelled = (error: unknown): boolean => axios.isCancel(error);
+
 // API Response types
 export interface ApiSuccessResponse<T> {
   timestamp: string;
@@ -57,24 +99,6 @@ export interface ApiErrorResponse {
   data?: any;
 }
 
-export interface AuthTokens {
-  accessToken: string;
-  refreshToken: string;
-  tokenType: string;
-  userId: number;
-  username: string;
-  email: string;
-  role: string;
-  location?: string;
-  // Backend verification flags coming from JwtAuthResponseV2
-  emailVerified: boolean;
-  verifiedDealer: boolean;
-  expiresAt: string;
-  refreshExpiresAt: string;
-  expiresIn: number;
-  refreshExpiresIn: number;
-}
-
 export interface RegisterResponse {
   userId: number;
   username: string;
@@ -83,19 +107,10 @@ export interface RegisterResponse {
   createdAt: string;
 }
 
-export interface UserData {
-  id?: string | number; // For backward compatibility with chat features
-  userId: number;
-  username: string;
-  name?: string; // Display name for chat features
-  email: string;
-  role: string;
-  location?: string;
-  phoneNumber?: string;
-  // Role/verification flags used for permission matrix
-  emailVerified?: boolean;
-  verifiedDealer?: boolean;
-}
+// Backend error codes for a session revoked from another device
+const SESSION_REVOKED_CODES = ['SESSION_REVOKED', 'TOKEN_REVOKED'];
+export const SESSION_REVOKED_MESSAGE =
+  'You were signed out because this device was removed from your account on another device.';
 
 // Custom error class for API errors
 export class ApiError extends Error {
@@ -107,6 +122,8 @@ export class ApiError extends Error {
   public fieldErrors?: { [key: string]: string };
   public status: number;
   public data?: any;
+  // The failed request carried an access token (so a 401 means the token was refused)
+  public authenticated = false;
 
   constructor(response: ApiErrorResponse, status: number = 500) {
     // Safely extract message without format string interpretation
@@ -148,13 +165,9 @@ export class NetworkError extends Error {
 
 class ApiClient {
   private instance: AxiosInstance;
-  private isRefreshing = false;
-  private failedQueue: Array<{
-    resolve: (value: any) => void;
-    reject: (error: any) => void;
-  }> = [];
   private networkCheckInterval: ReturnType<typeof setTimeout> | null = null;
-  private tokenRefreshTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private revalidations = new Map<string, Promise<void>>();
+  private inFlight = new Map<string, InFlightRequest>();
   private retryConfig = {
     retries: 3,
     retryDelay: 1000, // Base delay in milliseconds
@@ -173,7 +186,7 @@ class ApiClient {
   };
 
   public getBaseUrl(): string {
-    return API_CONFIG.baseURL;
+    return EnvironmentService.getApiBaseUrl();
   }
 
   constructor() {
@@ -181,86 +194,31 @@ class ApiClient {
     this.setupInterceptors();
     this.setupRetryLogic();
     this.startNetworkMonitoring();
-    this.scheduleTokenRefreshFromStorage().catch(() => undefined);
-  }
 
-  private clearTokenRefreshTimer(): void {
-    if (this.tokenRefreshTimeoutId) {
-      clearTimeout(this.tokenRefreshTimeoutId);
-      this.tokenRefreshTimeoutId = null;
-    }
-  }
-
-  private scheduleTokenRefresh(expiresAtMs: number): void {
-    this.clearTokenRefreshTimer();
-
-    const now = Date.now();
-    const msUntilExpiry = expiresAtMs - now;
-    const refreshInMs = Math.max(msUntilExpiry - 120_000, 60_000);
-
-    if (msUntilExpiry <= 0) {
-      this.tokenRefreshTimeoutId = setTimeout(() => {
-        this.performProactiveRefresh().catch(() => undefined);
-      }, 0);
-      return;
-    }
-
-    this.tokenRefreshTimeoutId = setTimeout(() => {
-      this.performProactiveRefresh().catch(() => undefined);
-    }, refreshInMs);
-  }
-
-  async scheduleTokenRefreshFromStorage(): Promise<void> {
-    const [accessToken, refreshToken, tokenExpiry] = await AsyncStorage.multiGet([
-      STORAGE_KEYS.ACCESS_TOKEN,
-      STORAGE_KEYS.REFRESH_TOKEN,
-      STORAGE_KEYS.TOKEN_EXPIRY,
-    ]);
-
-    if (!accessToken?.[1] || !refreshToken?.[1] || !tokenExpiry?.[1]) {
-      this.clearTokenRefreshTimer();
-      return;
-    }
-
-    const expiresAtMs = Number(tokenExpiry[1]);
-    if (!Number.isFinite(expiresAtMs)) {
-      this.clearTokenRefreshTimer();
-      return;
-    }
-
-    this.scheduleTokenRefresh(expiresAtMs);
-  }
-
-  private async performProactiveRefresh(): Promise<void> {
-    const isOnline = await this.checkNetworkConnectivity();
-    if (!isOnline) {
-      this.clearTokenRefreshTimer();
-      this.tokenRefreshTimeoutId = setTimeout(() => {
-        this.performProactiveRefresh().catch(() => undefined);
-      }, 30_000);
-      return;
-    }
-
-    const [refreshToken, refreshExpiry] = await AsyncStorage.multiGet([
-      STORAGE_KEYS.REFRESH_TOKEN,
-      STORAGE_KEYS.REFRESH_EXPIRY,
-    ]);
-
-    const refreshTokenValue = refreshToken?.[1];
-    const refreshExpiryMs = refreshExpiry?.[1] ? Number(refreshExpiry[1]) : NaN;
-
-    if (!refreshTokenValue || !Number.isFinite(refreshExpiryMs) || Date.now() >= refreshExpiryMs) {
-      await this.clearAuthData();
-      return;
-    }
-
-    await this.refreshAccessToken(refreshTokenValue);
+    // SessionManager owns tokens and refresh scheduling; we only supply the network call
+    sessionManager.setRefreshHandler((refreshToken) => this.requestTokenRefresh(refreshToken));
+    // Responses cached from the previous host are not reusable
+    EnvironmentService.addListener(() => ResponseCache.clear());
+    sessionManager.addListener((event) => {
+      if (event.type === 'ended') {
+        // Cached responses belong to the signed-out user
+        return ResponseCache.clear();
+      }
+    });
   }
 
   private setupInterceptors() {
     // Request interceptor - Add auth token and validate authentication
     this.instance.interceptors.request.use(
       async (config: InternalAxiosRequestConfig) => {
+        // Resolved per request so environment switches apply without a new instance
+        config.baseURL = EnvironmentService.getApiBaseUrl();
+
+        // Mock mode answers in-process; the rest of the pipeline is unchanged
+        if (__DEV__ && MockBackend.isEnabled()) {
+          config.adapter = (require('./mock/mockAdapter') as typeof import('./mock/mockAdapter')).mockAdapter;
+        }
+
         // Skip auth validation for public auth endpoints (login, register, etc.)
         const publicEndpoints = [
           '/api/auth/login',
@@ -276,8 +234,8 @@ class ApiClient {
         if (!isPublicEndpoint) {
           try {
             // Check if user is authenticated by validating token exists
-            const token = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
-            const userDataStr = await AsyncStorage.getItem(STORAGE_KEYS.USER_DATA);
+            const token = await sessionManager.getAccessToken();
+            const userData = await sessionManager.getUserData();
 
             if (!token) {
               // No token available, block the request
@@ -293,24 +251,17 @@ class ApiClient {
             }
 
             // Check if email is verified (if user data is available)
-            if (userDataStr) {
-              try {
-                const userData = JSON.parse(userDataStr);
-                if (userData.emailVerified === false) {
-                  // Email not verified, block the request
-                  throw new ApiError({
-                    message: 'Email verification required. Please verify your email to continue.',
-                    errorType: 'EMAIL_NOT_VERIFIED',
-                    errorCode: 'EMAIL_VERIFICATION_REQUIRED',
-                    redirectTo: 'EmailVerificationScreen',
-                    details: `User ${userData.email} has not verified their email address.`,
-                    timestamp: new Date().toISOString(),
-                    path: '/api/auth/validate',
-                  }, 401);
-                }
-              } catch (parseError) {
-                console.warn('Failed to parse user data for email verification check:', parseError);
-              }
+            if (userData?.emailVerified === false) {
+              // Email not verified, block the request
+              throw new ApiError({
+                message: 'Email verification required. Please verify your email to continue.',
+                errorType: 'EMAIL_NOT_VERIFIED',
+                errorCode: 'EMAIL_VERIFICATION_REQUIRED',
+                redirectTo: 'EmailVerificationScreen',
+                details: `User ${userData.email} has not verified their email address.`,
+                timestamp: new Date().toISOString(),
+                path: '/api/auth/validate',
+              }, 401);
             }
 
             // Add authorization header
@@ -345,6 +296,11 @@ class ApiClient {
         return response;
       },
       async (error) => {
+        // Cancelled on purpose - not a network failure, nothing to report
+        if (axios.isCancel(error)) {
+          throw error;
+        }
+
         const originalRequest = error.config;
         const isRefreshEndpoint = typeof originalRequest?.url === 'string'
           ? originalRequest.url.includes('/api/auth/refresh-token')
@@ -370,47 +326,29 @@ class ApiClient {
             throw apiError;
           }
 
-          if (this.isRefreshing) {
-            // Queue the request if token refresh is in progress
-            return new Promise((resolve, reject) => {
-              this.failedQueue.push({ resolve, reject });
-            })
-              .then((token) => {
-                if (originalRequest.headers) {
-                  originalRequest.headers.Authorization = `Bearer ${token}`;
-                }
-                return this.instance(originalRequest);
-              })
-              .catch((err) => {
-                return Promise.reject(err);
-              });
+          // Session was revoked from another device - refreshing won't help
+          if (SESSION_REVOKED_CODES.includes(errorType)) {
+            await sessionManager.endSession('REVOKED');
+            throw this.sessionRevokedError(error.response.data);
           }
 
           originalRequest._retry = true;
-          this.isRefreshing = true;
 
           try {
-            const refreshToken = await AsyncStorage.getItem(
-              STORAGE_KEYS.REFRESH_TOKEN,
-            );
-            if (refreshToken) {
-              const newTokens = await this.refreshAccessToken(refreshToken);
-              this.processQueue(newTokens.accessToken);
-
-              if (originalRequest.headers) {
-                originalRequest.headers.Authorization = `Bearer ${newTokens.accessToken}`;
-              }
-
-              return this.instance(originalRequest);
-            } else {
-              throw new Error('No refresh token available');
+            // Single-flight: concurrent 401s all wait on the same refresh
+            const newTokens = await sessionManager.refresh();
+
+            if (originalRequest.headers) {
+              originalRequest.headers.Authorization = `Bearer ${newTokens.accessToken}`;
+            }
+
+            return this.instance(originalRequest);
+          } catch (refreshError: any) {
+            // SessionManager has ended the session if the refresh token was rejected
+            if (SESSION_REVOKED_CODES.includes(refreshError?.errorCode)) {
+              return Promise.reject(this.sessionRevokedError(refreshError));
             }
-          } catch (refreshError) {
-            this.processQueue(null);
-            await this.clearAuthData();
             return Promise.reject(refreshError);
-          } finally {
-            this.isRefreshing = false;
           }
         }
 
@@ -435,6 +373,7 @@ class ApiClient {
             },
             error.response.status
           );
+          apiError.authenticated = !!originalRequest?.headers?.Authorization;
 
           throw apiError;
         } else if (error.request) {
@@ -471,17 +410,6 @@ class ApiClient {
     );
   }
 
-  private processQueue(token: string | null) {
-    this.failedQueue.forEach(({ resolve, reject }) => {
-      if (token) {
-        resolve(token);
-      } else {
-        reject(new Error('Token refresh failed'));
-      }
-    });
-    this.failedQueue = [];
-  }
-
   private setupRetryLogic() {
     // Add request retry logic
     this.instance.interceptors.response.use(
@@ -490,7 +418,7 @@ class ApiClient {
         const config = error.config;
 
         // If there is no config, we can't retry this request
-        if (!config) {
+        if (!config || axios.isCancel(error)) {
           return Promise.reject(error);
         }
 
@@ -537,6 +465,7 @@ class ApiClient {
   async login(credentials: {
     usernameOrEmail: string;
     password: string;
+    deviceInfo?: Record<string, any>;
   }): Promise<AuthTokens> {
     try {
       const response = await this.instance.post<ApiSuccessResponse<AuthTokens>>(
@@ -544,11 +473,11 @@ class ApiClient {
         credentials,
       );
 
-      const authData = response.data.data;
+      const rawAuthData = response.data.data;
 
       // CRITICAL FIX: Check if email is verified before saving auth data
-      if (!authData.emailVerified) {
-        console.warn('Login attempted with unverified email for user:', authData.username);
+      if (!rawAuthData?.emailVerified) {
+        console.warn('Login attempted with unverified email for user:', rawAuthData?.username);
         // Don't save auth tokens when email is not verified
         // This prevents the cascading failures mentioned in the analysis
         throw new ApiError({
@@ -563,6 +492,7 @@ class ApiClient {
         }, 401);
       }
 
+      const authData = this.validateResponse(AuthTokensSchema, rawAuthData, '/api/auth/login');
       await this.saveAuthData(authData);
 
       console.log('Login successful for user:', authData.username);
@@ -651,7 +581,7 @@ class ApiClient {
     }
 
     const response = await this.instance.post<ApiSuccessResponse<AuthTokens>>(endpoint, { email, otp });
-    const authData = response.data.data;
+    const authData = this.validateResponse(AuthTokensSchema, response.data.data, endpoint);
 
     // Save auth data for successful verification
     await this.saveAuthData(authData);
@@ -676,14 +606,42 @@ class ApiClient {
     await this.instance.post('/api/auth/password/reset', data);
   }
 
-  async refreshAccessToken(refreshToken: string): Promise<AuthTokens> {
-    const response = await this.instance.post<ApiSuccessResponse<AuthTokens>>(
-      '/api/auth/refresh-token',
-      { refreshToken },
-    );
-    const authData = response.data.data;
-    await this.saveAuthData(authData);
-    return authData;
+  /**
+   * Refresh the session. Delegates to SessionManager so concurrent callers
+   * share a single request.
+   */
+  async refreshAccessToken(): Promise<AuthTokens> {
+    return sessionManager.refresh();
+  }
+
+  // Raw refresh call - only SessionManager should invoke this
+  private async requestTokenRefresh(refreshToken: string): Promise<AuthTokens> {
+    try {
+      const response = await this.instance.post<ApiSuccessResponse<AuthTokens>>(
+        '/api/auth/refresh-token',
+        { refreshToken },
+      );
+      return this.validateResponse(AuthTokensSchema, response.data.data, '/api/auth/refresh-token');
+    } catch (error: any) {
+      if (SESSION_REVOKED_CODES.includes(error?.errorCode)) {
+        // End with the specific reason before SessionManager falls back to REFRESH_FAILED
+        await sessionManager.endSession('REVOKED');
+      }
+      throw error;
+    }
+  }
+
+  private sessionRevokedError(data: any = {}): ApiError {
+    return new ApiError({
+      ...data,
+      timestamp: data.timestamp || new Date().toISOString(),
+      // ApiError surfaces `details` as its message
+      message: SESSION_REVOKED_MESSAGE,
+      details: SESSION_REVOKED_MESSAGE,
+      path: data.path || '',
+      errorCode: 'SESSION_REVOKED',
+      redirectTo: 'Login',
+    }, 401);
   }
 
   async validateToken(): Promise<{
@@ -691,13 +649,8 @@ class ApiClient {
     userDetails?: UserData;
   }> {
     try {
-      const response = await this.instance.post<
-        ApiSuccessResponse<{
-          valid: boolean;
-          userDetails?: UserData;
-        }>
-      >('/api/auth/validate-token');
-      return response.data.data;
+      const response = await this.instance.post<ApiSuccessResponse<unknown>>('/api/auth/validate-token');
+      return this.validateResponse(TokenValidationSchema, response.data.data, '/api/auth/validate-token');
     } catch (error: any) {
       console.error('Token validation failed:', error);
       // Propagate error to allow caller to distinguish between 401 and Network Error
@@ -724,6 +677,21 @@ class ApiClient {
     }
   }
 
+  // Active sessions / device management
+
+  async getActiveSessions(): Promise<ActiveSession[]> {
+    const response = await this.instance.get<ApiSuccessResponse<unknown>>('/api/auth/sessions');
+    return this.validateResponse(s.array(ActiveSessionSchema), response.data.data, '/api/auth/sessions');
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.instance.delete(`/api/auth/sessions/${sessionId}`);
+  }
+
+  async revokeOtherSessions(): Promise<void> {
+    await this.instance.delete('/api/auth/sessions/others');
+  }
+
   private handleAuthError(error: any, defaultMessage: string): Error {
     if (error instanceof ApiError || error instanceof NetworkError) {
       return error;
@@ -765,31 +733,191 @@ class ApiClient {
     return new Error(defaultMessage);
   }
 
+  // Offline-first cached reads (stale-while-revalidate)
+
+  /**
+   * GET through the persistent response cache.
+   * Fresh entries are returned as-is; stale entries are returned immediately
+   * while a conditional request (ETag / Last-Modified) refreshes them in the
+   * background. Listeners on ResponseCache are told when new data lands.
+   */
+  async getCached<T = any>(url: string, options: CachedGetOptions = {}): Promise<T> {
+    const { params, maxAgeMs = CACHE_POLICIES.carList, signal } = options;
+    const key = ResponseCache.buildKey(url, params);
+    const cached = await ResponseCache.get<T>(key);
+
+    if (!cached) {
+      return this.fetchAndCache<T>(key, url, params, signal);
+    }
+
+    const isStale = cached.invalidated === true || Date.now() - cached.storedAt > maxAgeMs;
+    if (isStale) {
+      this.revalidate(key, url, params, cached);
+    }
+
+    ResponseCache.notifyServed(key, isStale, cached.storedAt);
+    return cached.data;
+  }
+
+  private async fetchAndCache<T>(
+    key: string,
+    url: string,
+    params?: Record<string, any>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const response = await this.dedupedGet<T>(url, { params }, signal);
+    const storedAt = Date.now();
+
+    await ResponseCache.set<T>(key, {
+      data: response.data,
+      storedAt,
+      etag: response.headers?.etag,
+      lastModified: response.headers?.['last-modified'],
+    });
+    ResponseCache.notifyServed(key, false, storedAt);
+    return response.data;
+  }
+
+  private revalidate<T>(key: string, url: string, params: Record<string, any> | undefined, cached: CacheEntry<T>): void {
+    // Single-flight: one background revalidation per key
+    if (this.revalidations.has(key)) return;
+
+    const run = (async () => {
+      const isOnline = await this.checkNetworkConnectivity();
+      if (!isOnline) return;
+
+      const headers: Record<string, string> = {};
+      if (cached.etag) headers['If-None-Match'] = cached.etag;
+      if (cached.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+      const response = await this.instance.get<T>(url, {
+        params,
+        headers,
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+      });
+
+      if (response.status === 304) {
+        await ResponseCache.touch(key);
+        ResponseCache.notifyUpdated(key, false, Date.now());
+        return;
+      }
+
+      const storedAt = Date.now();
+      await ResponseCache.set<T>(key, {
+        data: response.data,
+        storedAt,
+        etag: response.headers?.etag,
+        lastModified: response.headers?.['last-modified'],
+      });
+      ResponseCache.notifyUpdated(key, true, storedAt);
+    })()
+      .catch((error) => {
+        if (__DEV__) {
+          console.log('Background revalidation failed for', key, error?.message);
+        }
+      })
+      .finally(() => {
+        this.revalidations.delete(key);
+      });
+
+    this.revalidations.set(key, run);
+  }
+
+  // In-flight request deduplication
+
+  /**
+   * GET that joins an identical request already on the wire instead of sending
+   * another one. Each caller may cancel through its own signal; the shared
+   * request is only aborted once every caller waiting on it has gone.
+   */
+  private dedupedGet<T>(url: string, config: AxiosRequestConfig = {}, signal?: AbortSignal): Promise<AxiosResponse<T>> {
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError('Request cancelled'));
+    }
+
+    const key = `GET ${ResponseCache.buildKey(url, config.params)}`;
+    let entry = this.inFlight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        key,
+        controller,
+        subscribers: 0,
+        promise: this.instance.get<T>(url, { ...config, signal: controller.signal }).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        }),
+      };
+      this.inFlight.set(key, created);
+      entry = created;
+    } else if (__DEV__) {
+      console.log('Joining in-flight request', key);
+    }
+
+    return this.subscribe<T>(entry, signal);
+  }
+
+  private subscribe<T>(entry: InFlightRequest, signal?: AbortSignal): Promise<AxiosResponse<T>> {
+    entry.subscribers += 1;
+
+    // A caller without a signal keeps the shared request alive until it settles
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise<AxiosResponse<T>>((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers -= 1;
+        if (entry.subscribers === 0) {
+          // Nobody is waiting any more; later callers must not join an aborted request
+          this.inFlight.delete(entry.key);
+          entry.controller.abort();
+        }
+        reject(new CanceledError('Request cancelled'));
+      };
+
+      signal.addEventListener('abort', onAbort);
+      entry.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private async invalidateCarCache(): Promise<void> {
+    try {
+      await ResponseCache.invalidate(CAR_CACHE_PREFIXES);
+    } catch (error) {
+      console.warn('Failed to invalidate car cache:', error);
+    }
+  }
+
   // Car management methods
-  async getCars(page = 0, size = 20, sort = 'createdAt,desc'): Promise<any> {
+  async getCars(page = 0, size = 20, sort = 'createdAt,desc'): Promise<VehiclePage> {
     try {
-      const response = await this.instance.get(`/api/cars?page=${page}&size=${size}&sort=${sort}`);
+      const body = await this.getCached<unknown>('/api/cars', {
+        params: { page, size, sort },
+        maxAgeMs: CACHE_POLICIES.carList,
+      });
       // Backend returns ApiResponse<Page<CarResponse>>
-      if (response.data && response.data.success && response.data.data) {
-        return response.data.data; // Return the Page<CarResponse>
-      }
-      return response.data;
+      return this.validateResponse(VehiclePageSchema, this.unwrapData(body), '/api/cars');
     } catch (error: any) {
       console.error('Error fetching cars:', error);
       throw this.handleApiError(error, 'Failed to fetch vehicles');
     }
   }
 
-  async getCarById(id: string | number): Promise<any> {
+  async getCarById(id: string | number, options: RequestOptions = {}): Promise<Vehicle> {
     try {
-      const response = await this.instance.get(`/api/cars/${id}`);
+      const body = await this.getCached<unknown>(`/api/cars/${id}`, {
+        maxAgeMs: CACHE_POLICIES.carDetails,
+        signal: options.signal,
+      });
       // Backend returns ApiResponse<CarResponse>
-      if (response.data && response.data.success && response.data.data) {
-        return response.data.data; // Return the CarResponse
-      }
-      return response.data;
+      return this.validateResponse(VehicleSchema, this.unwrapData(body), `/api/cars/${id}`);
     } catch (error: any) {
-      console.error('Error fetching car by ID:', error);
+      if (!isRequestCancelled(error)) console.error('Error fetching car by ID:', error);
       throw this.handleApiError(error, 'Failed to fetch vehicle details');
     }
   }
@@ -806,28 +934,24 @@ class ApiClient {
     }
   }
 
-  async createCar(carData: any): Promise<any> {
+  async createCar(carData: Record<string, any>): Promise<Vehicle> {
     try {
       const response = await this.instance.post('/api/cars', carData);
+      await this.invalidateCarCache();
       // Backend returns ApiResponse<CarResponse>
-      if (response.data && response.data.success && response.data.data) {
-        return response.data.data; // Return the created CarResponse
-      }
-      return response.data;
+      return this.validateResponse(VehicleSchema, this.unwrapData(response.data), '/api/cars');
     } catch (error: any) {
       console.error('Error creating car:', error);
       throw this.handleApiError(error, 'Failed to create vehicle listing');
     }
   }
 
-  async updateCar(id: string | number, carData: any): Promise<any> {
+  async updateCar(id: string | number, carData: Record<string, any>): Promise<Vehicle> {
     try {
       const response = await this.instance.patch(`/api/cars/${id}`, carData);
+      await this.invalidateCarCache();
       // Backend returns ApiResponse<CarResponse>
-      if (response.data && response.data.success && response.data.data) {
-        return response.data.data; // Return the updated CarResponse
-      }
-      return response.data;
+      return this.validateResponse(VehicleSchema, this.unwrapData(response.data), `/api/cars/${id}`);
     } catch (error: any) {
       console.error('Error updating car:', error);
       throw this.handleApiError(error, 'Failed to update vehicle listing');
@@ -837,24 +961,27 @@ class ApiClient {
   async deleteCar(id: string | number, hard: boolean = false): Promise<void> {
     try {
       await this.instance.delete(`/api/cars/${id}?hard=${hard}`);
+      await this.invalidateCarCache();
     } catch (error: any) {
       console.error('Error deleting car:', error);
       throw this.handleApiError(error, 'Failed to delete vehicle listing');
     }
   }
 
-  async updateCarStatus(id: number, status: string): Promise<any> {
+  async updateCarStatus(id: number, status: string): Promise<Vehicle> {
     const response = await this.instance.post(`/api/cars/${id}/status`, {
       status,
     });
-    return response.data;
+    await this.invalidateCarCache();
+    return this.validateResponse(VehicleSchema, this.unwrapData(response.data), `/api/cars/${id}/status`);
   }
 
-  async featureCar(id: number, featured: boolean = true): Promise<any> {
+  async featureCar(id: number, featured: boolean = true): Promise<Vehicle> {
     const response = await this.instance.post(
       `/api/cars/${id}/feature?featured=${featured}`,
     );
-    return response.data;
+    await this.invalidateCarCache();
+    return this.validateResponse(VehicleSchema, this.unwrapData(response.data), `/api/cars/${id}/feature`);
   }
 
   async searchCars(filters: {
@@ -874,7 +1001,7 @@ class ApiClient {
     page?: number;
     size?: number;
     sort?: string;
-  }): Promise<any> {
+  }, options: RequestOptions = {}): Promise<VehiclePage> {
     try {
       const params = new URLSearchParams();
 
@@ -898,33 +1025,38 @@ class ApiClient {
       // Handle sort (currently backend hardcodes, but passing it for future)
       if (filters.sort) params.append('sort', filters.sort);
 
-      const response = await this.instance.get(`/api/search/cars?${params.toString()}`);
+      const body = await this.getCached<unknown>(`/api/search/cars?${params.toString()}`, {
+        maxAgeMs: CACHE_POLICIES.search,
+        signal: options.signal,
+      });
 
       // Backend returns ApiResponse<Page<CarSearchHitDto>>
-      if (response.data && response.data.success && response.data.data) {
-        return response.data.data; // Return the Page<CarResponse>
-      }
-      return response.data;
+      return this.validateResponse(VehiclePageSchema, this.unwrapData(body), '/api/search/cars');
     } catch (error: any) {
-      console.error('Error searching cars:', error);
+      if (!isRequestCancelled(error)) console.error('Error searching cars:', error);
       throw this.handleApiError(error, 'Failed to search vehicles');
     }
   }
 
   // User profile methods
   async getUserProfile(): Promise<UserData> {
-    const response = await this.instance.get<UserData>('/api/user/profile');
-    return response.data;
+    const response = await this.instance.get<unknown>('/api/user/profile');
+    return this.validateResponse(UserDataSchema, response.data, '/api/user/profile');
   }
 
   // Health check
-  async healthCheck(): Promise<any> {
-    const response = await this.instance.get('/api/auth/health');
-    return response.data;
+  async healthCheck(): Promise<HealthCheck> {
+    const response = await this.instance.get<unknown>('/api/auth/health');
+    return this.validateResponse(HealthCheckSchema, response.data, '/api/auth/health');
   }
 
   // Network connectivity methods
   private async checkNetworkConnectivity(): Promise<boolean> {
+    // The mock backend lives in-process, so it is always reachable
+    if (MockBackend.isEnabled()) {
+      return true;
+    }
+
     try {
       const netInfo = await NetInfo.fetch();
       return netInfo.isConnected === true && netInfo.isInternetReachable === true;
@@ -960,8 +1092,38 @@ class ApiClient {
     this.stopNetworkMonitoring();
   }
 
+  // Response contracts
+
+  /**
+   * Check a response body against its contract (see contracts.ts). A mismatch
+   * becomes an ApiError here instead of an undefined-property crash in a screen.
+   */
+  validateResponse<T>(schema: Schema<T>, body: unknown, path: string): T {
+    try {
+      return schema.parse(body);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) {
+        throw error;
+      }
+      console.error(`[Contract] Invalid response from ${path}: ${error.message}`);
+      throw new ApiError({
+        timestamp: new Date().toISOString(),
+        message: 'Received an unexpected response from the server',
+        details: 'Received an unexpected response from the server. Please try again later.',
+        path,
+        errorCode: 'INVALID_RESPONSE',
+        data: { field: error.path, expected: error.expected, received: error.received },
+      }, 500);
+    }
+  }
+
+  // Most endpoints wrap their payload in ApiResponse<T>; a few return it bare
+  private unwrapData(body: any): unknown {
+    return body && body.success && body.data ? body.data : body;
+  }
+
   private handleApiError(error: any, defaultMessage: string): Error {
-    if (error instanceof ApiError || error instanceof NetworkError) {
+    if (error instanceof ApiError || error instanceof NetworkError || axios.isCancel(error)) {
       return error;
     }
 
@@ -977,94 +1139,26 @@ class ApiClient {
     return new Error(defaultMessage);
   }
 
-  // Token and storage management
+  // Token and storage management (persisted by SessionManager)
   private async saveAuthData(authData: AuthTokens): Promise<void> {
-    try {
-      const now = Date.now();
-      const parsedExpiresAt = authData.expiresAt ? new Date(authData.expiresAt).getTime() : NaN;
-      const parsedRefreshExpiresAt = authData.refreshExpiresAt ? new Date(authData.refreshExpiresAt).getTime() : NaN;
-
-      const accessExpiryMs = Number.isFinite(parsedExpiresAt)
-        ? parsedExpiresAt
-        : now + authData.expiresIn * 1000;
-      const refreshExpiryMs = Number.isFinite(parsedRefreshExpiresAt)
-        ? parsedRefreshExpiresAt
-        : now + authData.refreshExpiresIn * 1000;
-
-      await AsyncStorage.multiSet([
-        [STORAGE_KEYS.ACCESS_TOKEN, authData.accessToken],
-        [STORAGE_KEYS.REFRESH_TOKEN, authData.refreshToken],
-        [STORAGE_KEYS.TOKEN_EXPIRY, accessExpiryMs.toString()],
-        [STORAGE_KEYS.REFRESH_EXPIRY, refreshExpiryMs.toString()],
-        [
-          STORAGE_KEYS.USER_DATA,
-          JSON.stringify({
-            userId: authData.userId,
-            username: authData.username,
-            email: authData.email,
-            role: authData.role,
-            location: authData.location,
-            emailVerified: authData.emailVerified,
-            verifiedDealer: authData.verifiedDealer,
-          }),
-        ],
-      ]);
-
-      // CRITICAL FIX: Notify WebSocketService of new token
-      // This ensures WebSocket reconnects with the new token immediately
-      // preventing disconnect loops when the old token expires on the server
-      webSocketService.onTokenRefresh().catch(err =>
-        console.warn('Failed to update WebSocket token:', err)
-      );
-
-      this.scheduleTokenRefresh(accessExpiryMs);
-    } catch (error) {
-      console.error('Failed to save auth data:', error);
-      throw new Error('Failed to save authentication data');
-    }
+    await sessionManager.startSession(authData);
   }
 
   private async clearAuthData(): Promise<void> {
-    try {
-      this.clearTokenRefreshTimer();
-
-      // Notify WebSocketService
-      webSocketService.onLogout();
-
-      await AsyncStorage.multiRemove([
-        STORAGE_KEYS.ACCESS_TOKEN,
-        STORAGE_KEYS.REFRESH_TOKEN,
-        STORAGE_KEYS.USER_DATA,
-        STORAGE_KEYS.TOKEN_EXPIRY,
-        STORAGE_KEYS.REFRESH_EXPIRY,
-      ]);
-    } catch (error) {
-      console.error('Failed to clear auth data:', error);
-    }
+    await sessionManager.endSession('LOGOUT');
   }
 
   async getStoredUserData(): Promise<UserData | null> {
-    try {
-      const userData = await AsyncStorage.getItem(STORAGE_KEYS.USER_DATA);
-      return userData ? JSON.parse(userData) : null;
-    } catch (error) {
-      console.error('Failed to get stored user data:', error);
-      return null;
-    }
+    return sessionManager.getUserData();
   }
 
   async getStoredAccessToken(): Promise<string | null> {
-    try {
-      return await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
-    } catch (error) {
-      console.error('Failed to get stored access token:', error);
-      return null;
-    }
+    return sessionManager.getAccessToken();
   }
 
   async isAuthenticated(): Promise<boolean> {
     try {
-      const token = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+      const token = await sessionManager.getAccessToken();
       if (!token) return false;
 
       // Check network connectivity first
@@ -1083,8 +1177,7 @@ class ApiClient {
 
       // If it's a network error, check if we have a token stored
       if (error instanceof NetworkError) {
-        const token = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
-        return !!token;
+        return sessionManager.hasSession();
       }
 
       return false;
@@ -1092,8 +1185,18 @@ class ApiClient {
   }
 
   // Public HTTP methods for external services
+
+  /**
+   * Identical concurrent GETs (method + URL + params) share one request.
+   * Pass `signal` in the config to cancel; requests with custom headers or
+   * other options are sent as-is.
+   */
   async get<T>(url: string, config?: any): Promise<AxiosResponse<T>> {
-    return this.instance.get(url, config);
+    const { params, signal, ...rest } = config ?? {};
+    if (Object.keys(rest).length > 0) {
+      return this.instance.get(url, config);
+    }
+    return this.dedupedGet<T>(url, { params }, signal);
   }
 
   async post<T>(url: string, data?: any, config?: any): Promise<AxiosResponse<T>> {
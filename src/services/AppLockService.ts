@@ -0,0 +1,140 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
+import { authService } from './auth';
+
+// =============== TYPES ===============
+
+export type AppLockTimeout = 0 | 1 | 5 | 15; // minutes in background before locking
+
+export interface AppLockSettings {
+  enabled: boolean;
+  timeoutMinutes: AppLockTimeout;
+}
+
+// =============== CONSTANTS ===============
+
+// A throwaway secret guarded by biometry/device credential. Reading it back
+// is what triggers the system unlock prompt.
+const KEYCHAIN_SERVICE = 'com.carworld.applock';
+const KEYCHAIN_USERNAME = 'carworld-applock';
+const LOCK_SECRET = 'unlocked';
+
+const STORAGE_KEYS = {
+  TIMEOUT: '@carworld_app_lock_timeout',
+};
+
+export const APP_LOCK_TIMEOUT_OPTIONS: AppLockTimeout[] = [0, 1, 5, 15];
+const DEFAULT_TIMEOUT: AppLockTimeout = 5;
+
+/**
+ * App Lock Service - biometric / device-credential gate on resume
+ *
+ * Features:
+ * - Uses the existing AuthService biometric flag as the on/off switch
+ * - Unlock prompt via a Keychain item with biometry-or-passcode access control
+ * - Configurable background timeout before the app locks again
+ */
+class AppLockServiceClass {
+  /**
+   * Whether the device can show a biometric or device-credential prompt
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const biometryType = await Keychain.getSupportedBiometryType();
+      if (biometryType) return true;
+      return await Keychain.isPasscodeAuthAvailable();
+    } catch (error) {
+      console.warn('[AppLock] Availability check failed:', error);
+      return false;
+    }
+  }
+
+  async getSupportedBiometryType(): Promise<Keychain.BIOMETRY_TYPE | null> {
+    try {
+      return await Keychain.getSupportedBiometryType();
+    } catch {
+      return null;
+    }
+  }
+
+  async getSettings(): Promise<AppLockSettings> {
+    const [enabled, storedTimeout] = await Promise.all([
+      authService.isBiometricEnabled(),
+      AsyncStorage.getItem(STORAGE_KEYS.TIMEOUT).catch(() => null),
+    ]);
+    const timeout = Number(storedTimeout);
+
+    return {
+      enabled,
+      timeoutMinutes: APP_LOCK_TIMEOUT_OPTIONS.includes(timeout as AppLockTimeout)
+        ? (timeout as AppLockTimeout)
+        : DEFAULT_TIMEOUT,
+    };
+  }
+
+  /**
+   * Turn the lock on. Stores the guarded secret first so a device without
+   * enrolled biometrics/passcode fails here rather than at the next resume.
+   */
+  async enable(): Promise<void> {
+    if (!(await this.isAvailable())) {
+      throw new Error('Set up a fingerprint, face unlock or device PIN to use App Lock.');
+    }
+
+    const result = await Keychain.setGenericPassword(KEYCHAIN_USERNAME, LOCK_SECRET, {
+      service: KEYCHAIN_SERVICE,
+      accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY_OR_DEVICE_PASSCODE,
+      accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+    });
+    if (!result) {
+      throw new Error('Could not enable App Lock on this device.');
+    }
+
+    await authService.setBiometricEnabled(true);
+  }
+
+  async disable(): Promise<void> {
+    await authService.setBiometricEnabled(false);
+    try {
+      await Keychain.resetGenericPassword({ service: KEYCHAIN_SERVICE });
+    } catch (error) {
+      console.warn('[AppLock] Failed to remove lock secret:', error);
+    }
+  }
+
+  async setTimeout(minutes: AppLockTimeout): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.TIMEOUT, String(minutes));
+  }
+
+  /**
+   * Show the system biometric / device credential prompt.
+   * Resolves false when the user cancels or authentication fails.
+   */
+  async authenticate(title = 'Unlock CarWorld'): Promise<boolean> {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: KEYCHAIN_SERVICE,
+        authenticationPrompt: {
+          title,
+          subtitle: 'Confirm it\'s you to continue',
+          cancel: 'Use password',
+        },
+      });
+      return credentials !== false && credentials.password === LOCK_SECRET;
+    } catch (error) {
+      console.log('[AppLock] Biometric unlock failed or cancelled:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Has the app been in the background long enough to require unlocking?
+   */
+  shouldLock(backgroundedAt: number | null, timeoutMinutes: AppLockTimeout): boolean {
+    if (backgroundedAt === null) return false;
+    return Date.now() - backgroundedAt >= timeoutMinutes * 60_000;
+  }
+}
+
+export const AppLockService = new AppLockServiceClass();
+export default AppLockService;
@@ -0,0 +1,125 @@
+import { NativeEventEmitter, NativeModules, PermissionsAndroid, Platform } from 'react-native';
+
+// =============== TYPES ===============
+
+interface BackgroundUploadNativeModule {
+  // Resolves false when the system won't allow it right now
+  start(): Promise<boolean>;
+  updateProgress(title: string, progress: number): void;
+  stop(): void;
+}
+
+type ExpiredListener = () => void;
+
+// =============== CONSTANTS ===============
+
+/** Headless JS task the Android foreground service runs (registered in index.js) */
+export const BACKGROUND_UPLOAD_TASK = 'CarWorldBackgroundUpload';
+
+// Emitted on iOS when the system is about to suspend the app
+const EXPIRED_EVENT = 'BackgroundUploadExpired';
+
+const nativeModule: BackgroundUploadNativeModule | undefined = NativeModules.BackgroundUpload;
+
+/**
+ * Background Upload Service - keeps uploads running once the app leaves the foreground
+ *
+ * Features:
+ * - Android: a foreground service with a progress notification, which also
+ *   runs the upload queue as a headless JS task after the app is killed
+ * - iOS: a background task that buys time to finish the current chunk; on
+ *   expiry listeners pause uploads so they resume on return
+ * - Uploads keep running in the app's process when the system refuses to
+ *   start the service (Android 12+ from the background); the next start() tries again
+ * - No-op where the native module isn't linked
+ */
+class BackgroundUploadServiceClass {
+  private running = false;
+  private lastNotification = '';
+  private permissionRequested = false;
+  private expiredListeners = new Set<ExpiredListener>();
+
+  constructor() {
+    if (nativeModule && Platform.OS === 'ios') {
+      new NativeEventEmitter(NativeModules.BackgroundUpload).addListener(EXPIRED_EVENT, () => {
+        this.running = false;
+        this.expiredListeners.forEach(listener => listener());
+      });
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!nativeModule;
+  }
+
+  /**
+   * Start the foreground service / background task. Safe to call repeatedly.
+   */
+  start(): void {
+    if (!nativeModule || this.running) return;
+    this.running = true;
+    this.lastNotification = '';
+    this.requestNotificationPermission();
+    nativeModule.start()
+      .catch(error => {
+        console.warn('[BackgroundUpload] Failed to start:', error);
+        return false;
+      })
+      .then(started => {
+        if (!started) {
+          this.running = false;
+        }
+      });
+  }
+
+  /**
+   * Android 13+ hides the progress notification without this; uploads run either way
+   */
+  private requestNotificationPermission(): void {
+    if (this.permissionRequested || Platform.OS !== 'android' || Number(Platform.Version) < 33) return;
+    this.permissionRequested = true;
+    PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.POST_NOTIFICATIONS).catch(error => {
+      console.warn('[BackgroundUpload] Notification permission request failed:', error);
+    });
+  }
+
+  /**
+   * Update the progress notification (Android only)
+   * @param activeCount - Cars with media still uploading
+   * @param progress - Overall progress 0-100
+   */
+  updateProgress(activeCount: number, progress: number): void {
+    if (!nativeModule || !this.running || Platform.OS !== 'android') return;
+
+    const title = activeCount === 1
+      ? 'Uploading car photos'
+      : `Uploading photos for ${activeCount} cars`;
+    const rounded = Math.max(0, Math.min(100, Math.round(progress)));
+
+    // Progress events arrive far more often than the notification can change
+    const notification = `${title}|${rounded}`;
+    if (notification === this.lastNotification) return;
+    this.lastNotification = notification;
+
+    nativeModule.updateProgress(title, rounded);
+  }
+
+  stop(): void {
+    if (!nativeModule || !this.running) return;
+    this.running = false;
+    nativeModule.stop();
+  }
+
+  /**
+   * Called when iOS ends the background time
+   */
+  addExpiredListener(listener: ExpiredListener): () => void {
+    this.expiredListeners.add(listener);
+    return () => {
+      this.expiredListeners.delete(listener);
+    };
+  }
+}
+
+export const BackgroundUploadService = new BackgroundUploadServiceClass();
+export default BackgroundUploadService;
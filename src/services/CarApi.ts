@@ -1,35 +1,56 @@
-import { ApiClient, apiClient } from './ApiClient';
-
-export interface Vehicle {
-  id: string;
-  make: string;
-  model: string;
-  year: number;
-  price: number;
-  mileage: number;
-  location: string;
-  condition: string;
-  images: string[];
-  specifications: Record<string, any>;
-  dealerId: string;
-  dealerName: string;
-  isCoListed: boolean;
-  coListedIn: string[];
-  views: number;
-  inquiries: number;
-  shares: number;
-  status: 'Available' | 'Sold' | 'Reserved' | 'Archived' | 'Deleted';
-  mediaStatus: 'NONE' | 'PENDING' | 'UPLOADING' | 'UPLOADED' | 'PROCESSING' | 'READY' | 'FAILED' | 'DELETED' | 'MEDIA_PENDING';
-  featured: boolean;
-  createdAt: string;
-  updatedAt: string;
-  // Extended properties
-  variant?: string;
-  fuelType?: string;
-  transmission?: string;
-  imageUrl?: string;  // Primary image URL (first image)
-  videoUrl?: string;  // Video URL for the listing
-}
+import { ApiClient, ApiError, NetworkError, RequestOptions, apiClient, isRequestCancelled } from './ApiClient';
+import { ResponseCache } from './ResponseCache';
+import { MutationOutbox, OutboxMutationType } from './MutationOutbox';
+import { s } from '../utils/schema';
+import {
+  Vehicle,
+  VehicleSchema,
+  VehiclePage,
+  VehiclePageSchema,
+  CarStatistics,
+  CarStatisticsSchema,
+  DealerGroup,
+  DealerGroupSchema,
+  GroupInvitation,
+  GroupInvitationSchema,
+  DealerDashboardResponse,
+  DealerDashboardSchema,
+  InitUploadResponse,
+  InitUploadResponseSchema,
+  Conversation,
+  ConversationSchema,
+  DirectMessage,
+  DirectMessageSchema,
+  AppNotification,
+  NotificationSchema,
+  NotificationSettings,
+  SavedSearch,
+  SavedSearchSchema,
+  SearchFilters,
+  WatchlistEntry,
+  WatchlistEntrySchema,
+} from './contracts';
+
+// Response DTO types are defined (and validated) in contracts.ts
+export type {
+  Vehicle,
+  VehiclePage,
+  CarStatistics,
+  DealerGroup,
+  DealerMember,
+  GroupInvitation,
+  DealerDashboardResponse,
+  InitUploadResponse,
+  Conversation,
+  DirectMessage,
+  AppNotification,
+  NotificationSettings,
+  SavedSearch,
+  SearchFilters,
+  WatchlistEntry,
+} from './contracts';
+
+export type VehicleStatus = 'Available' | 'Sold' | 'Reserved' | 'Archived' | 'Deleted';
 
 export interface VehicleSearchFilters {
   make?: string;
@@ -42,12 +63,26 @@ export interface VehicleSearchFilters {
   condition?: string;
   status?: string;
   featured?: boolean;
+  fuelType?: string;
+  transmission?: string;
+  color?: string;
+  maxMileage?: number;
+  // Search origin; with radiusKm, only cars within that distance match
+  latitude?: number;
+  longitude?: number;
+  radiusKm?: number;
   query?: string; // Search keyword
   page?: number;
   size?: number;
   sort?: string;
 }
 
+export interface SavedSearchRequest {
+  name: string;
+  filters: SearchFilters;
+  notify: boolean;
+}
+
 export interface VehiclePerformance {
   vehicleId: string;
   views: number;
@@ -60,70 +95,12 @@ export interface VehiclePerformance {
   dealerInterest: number;
 }
 
-export interface CarStatistics {
-  totalCars: number;
-  activeCars: number;
-  soldCars: number;
-  featuredCars: number;
-  inactiveCars: number;
-  newCarsLast7Days: number;
-  lastUpdated: string;
-}
-
-// Dealer Group related interfaces
-export interface DealerGroup {
-  id: string;
-  name: string;
-  description: string;
-  isPrivate: boolean;
-  adminId: string;
-  members: DealerMember[];
-  createdAt: string;
-  vehicleCount?: number;
-}
-
-export interface DealerMember {
-  id: string;
-  name: string;
-  dealership: string;
-  role: 'admin' | 'member';
-  avatar?: string;
-  joinedAt?: string;
-}
-
-export interface GroupInvitation {
-  id: string;
-  groupId: string;
-  groupName: string;
-  invitedBy: string;
-  invitedByName: string;
-  invitedDealer: string;
-  status: 'pending' | 'accepted' | 'rejected';
-  createdAt: string;
-  expiresAt: string;
-}
-
-// Dealer Dashboard Response
-export interface DealerDashboardResponse {
-  totalViews: number;
-  totalUniqueVisitors: number;
-  totalCarsAdded: number;
-  activeCars: number;
-  contactRequestsReceived: number;
-}
-
 export interface InitUploadRequest {
   carId: number;
   fileNames: string[];
   contentTypes: string[];
 }
 
-export interface InitUploadResponse {
-  sessionId: string;
-  uploadUrls: string[];
-  filePaths: string[];
-}
-
 export interface CompleteUploadRequest {
   carId: number;
   sessionId: string;
@@ -139,7 +116,7 @@ class CarApiService {
   }
 
   // Get all cars
-  async getAllVehicles(page = 0, size = 20, sort = 'createdAt,desc'): Promise<{ content: Vehicle[], totalElements: number, totalPages: number, number: number, pageable: any }> {
+  async getAllVehicles(page = 0, size = 20, sort = 'createdAt,desc'): Promise<VehiclePage> {
     try {
       const response = await this.apiClient.getCars(page, size, sort);
       return response;
@@ -149,11 +126,14 @@ class CarApiService {
     }
   }
 
-  async getPublicVehicles(page = 0, size = 20, sort = 'createdAt,desc'): Promise<{ content: Vehicle[], totalElements: number, totalPages: number, number: number }> {
+  async getPublicVehicles(page = 0, size = 20, sort = 'createdAt,desc'): Promise<VehiclePage> {
     try {
-      const url = `/api/cars/public?page=${page}&size=${size}&sort=${encodeURIComponent(sort)}`;
-      const response = await this.apiClient.get<{ data: { content: Vehicle[], totalElements: number, totalPages: number, number: number } }>(url);
-      return response.data.data;
+      // Served offline-first from the response cache
+      const body = await this.apiClient.getCached<{ data: unknown }>(
+        '/api/cars/public',
+        { params: { page, size, sort } },
+      );
+      return this.apiClient.validateResponse(VehiclePageSchema, body?.data, '/api/cars/public');
     } catch (error) {
       console.error('Error fetching public vehicles:', error);
       throw error;
@@ -161,17 +141,17 @@ class CarApiService {
   }
 
   // Get car by ID
-  async getVehicleById(id: string): Promise<Vehicle> {
+  async getVehicleById(id: string, options?: RequestOptions): Promise<Vehicle> {
     try {
-      return await this.apiClient.getCarById(id);
+      return await this.apiClient.getCarById(id, options);
     } catch (error) {
-      console.error('Error fetching vehicle:', error);
+      if (!isRequestCancelled(error)) console.error('Error fetching vehicle:', error);
       throw error;
     }
   }
 
   // Create new car listing
-  async createVehicle(vehicleData: Omit<Vehicle, 'id' | 'createdAt' | 'updatedAt' | 'views' | 'inquiries' | 'shares' | 'dealerName'>): Promise<Vehicle> {
+  async createVehicle(vehicleData: Partial<Omit<Vehicle, 'id' | 'createdAt' | 'updatedAt' | 'views' | 'inquiries' | 'shares' | 'dealerName'>>): Promise<Vehicle> {
     try {
       return await this.apiClient.createCar(vehicleData);
     } catch (error) {
@@ -180,10 +160,69 @@ class CarApiService {
     }
   }
 
+  // Run a mutation now, or record it in the offline outbox when the device is
+  // offline / the request never reached the server. Once a car has queued
+  // mutations, later ones queue behind them so ordering is preserved.
+  private async runOrQueue<T>(
+    type: OutboxMutationType,
+    id: string,
+    payload: Record<string, any>,
+    run: () => Promise<T>,
+    optimistic: () => Promise<T>,
+  ): Promise<T> {
+    const isOnline = await this.apiClient.isNetworkAvailable();
+    const mustQueue = !isOnline || (await MutationOutbox.hasPendingFor(id));
+
+    if (!mustQueue) {
+      try {
+        return await run();
+      } catch (error) {
+        const neverReachedServer =
+          error instanceof NetworkError || (error instanceof ApiError && error.status === 0);
+        if (!neverReachedServer) {
+          throw error;
+        }
+      }
+    }
+
+    await MutationOutbox.enqueue(type, id, payload);
+    return optimistic();
+  }
+
+  // Patch the cached copy of a car so offline screens reflect the queued edit
+  private async applyOptimisticUpdate(id: string, updates: Partial<Vehicle>): Promise<Vehicle> {
+    const key = `/api/cars/${id}`;
+    const cached = await ResponseCache.get<any>(key);
+    const isWrapped = cached?.data?.success === true && cached.data.data;
+    const current: Partial<Vehicle> = (isWrapped ? cached?.data.data : cached?.data) ?? {};
+
+    const optimistic = {
+      ...current,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString(),
+      pendingSync: true,
+    } as Vehicle;
+
+    if (cached) {
+      await ResponseCache.set(key, {
+        ...cached,
+        data: isWrapped ? { ...cached.data, data: optimistic } : optimistic,
+      });
+    }
+    return optimistic;
+  }
+
   // Update car listing
   async updateVehicle(id: string, updates: Partial<Vehicle>): Promise<Vehicle> {
     try {
-      return await this.apiClient.updateCar(id, updates);
+      return await this.runOrQueue(
+        'UPDATE_VEHICLE',
+        id,
+        updates,
+        () => this.apiClient.updateCar(id, updates),
+        () => this.applyOptimisticUpdate(id, updates),
+      );
     } catch (error) {
       console.error('Error updating vehicle:', error);
       throw error;
@@ -193,7 +232,15 @@ class CarApiService {
   // Delete car listing
   async deleteVehicle(id: string, hard: boolean = false): Promise<void> {
     try {
-      await this.apiClient.deleteCar(id, hard);
+      await this.runOrQueue(
+        'DELETE_VEHICLE',
+        id,
+        { hard },
+        () => this.apiClient.deleteCar(id, hard),
+        async () => {
+          await ResponseCache.invalidate([`/api/cars/${id}`]);
+        },
+      );
     } catch (error) {
       console.error('Error deleting vehicle:', error);
       throw error;
@@ -201,9 +248,15 @@ class CarApiService {
   }
 
   // Update car status
-  async updateVehicleStatus(id: string, status: Vehicle['status']): Promise<Vehicle> {
+  async updateVehicleStatus(id: string, status: VehicleStatus | string): Promise<Vehicle> {
     try {
-      return await this.apiClient.updateCarStatus(Number(id), status);
+      return await this.runOrQueue(
+        'UPDATE_STATUS',
+        id,
+        { status },
+        () => this.apiClient.updateCarStatus(Number(id), status),
+        () => this.applyOptimisticUpdate(id, { status }),
+      );
     } catch (error) {
       console.error('Error updating vehicle status:', error);
       throw error;
@@ -214,8 +267,8 @@ class CarApiService {
   async updateMediaStatus(id: string, status: 'NONE' | 'UPLOADING' | 'PROCESSING' | 'READY' | 'FAILED'): Promise<Vehicle> {
     try {
       // Use generic post if specific method not in ApiClient
-      const response = await this.apiClient.post<{ data: Vehicle }>(`/api/cars/${id}/media-status`, { status });
-      return response.data.data;
+      const response = await this.apiClient.post<{ data: unknown }>(`/api/cars/${id}/media-status`, { status });
+      return this.apiClient.validateResponse(VehicleSchema, response.data.data, `/api/cars/${id}/media-status`);
     } catch (error) {
       console.error('Error updating media status:', error);
       throw error;
@@ -224,8 +277,8 @@ class CarApiService {
 
   // Async Media V2 Endpoints
   async initMediaUpload(data: InitUploadRequest): Promise<InitUploadResponse> {
-    const response = await this.apiClient.post<{ data: InitUploadResponse }>('/api/media/init-upload', data);
-    return response.data.data;
+    const response = await this.apiClient.post<{ data: unknown }>('/api/media/init-upload', data);
+    return this.apiClient.validateResponse(InitUploadResponseSchema, response.data.data, '/api/media/init-upload');
   }
 
   async completeMediaProcessing(data: CompleteUploadRequest): Promise<void> {
@@ -233,24 +286,24 @@ class CarApiService {
   }
 
   // Search vehicles with filters
-  async searchVehicles(filters: VehicleSearchFilters): Promise<{ content: Vehicle[], totalElements: number, totalPages: number }> {
+  async searchVehicles(filters: VehicleSearchFilters, options?: RequestOptions): Promise<VehiclePage> {
     try {
-      return await this.apiClient.searchCars(filters);
+      return await this.apiClient.searchCars(filters, options);
     } catch (error) {
-      console.error('Error searching vehicles:', error);
+      if (!isRequestCancelled(error)) console.error('Error searching vehicles:', error);
       throw error;
     }
   }
 
   // Get vehicles by dealer (public view)
-  async getVehiclesByDealer(dealerId: string, page: number = 0, size: number = 20, status?: string): Promise<{ content: Vehicle[], totalElements: number, totalPages: number }> {
+  async getVehiclesByDealer(dealerId: string, page: number = 0, size: number = 20, status?: string): Promise<VehiclePage> {
     try {
       let url = `/api/cars/seller/${dealerId}?page=${page}&size=${size}`;
       if (status) {
         url += `&status=${encodeURIComponent(status)}`;
       }
-      const response = await this.apiClient.get<{ data: { content: Vehicle[], totalElements: number, totalPages: number } }>(url);
-      return response.data.data;
+      const response = await this.apiClient.get<{ data: unknown }>(url);
+      return this.apiClient.validateResponse(VehiclePageSchema, response.data.data, `/api/cars/seller/${dealerId}`);
     } catch (error) {
       console.error('Error fetching dealer vehicles:', error);
       throw error;
@@ -291,8 +344,8 @@ class CarApiService {
 
   async getAdminCarStatistics(): Promise<CarStatistics> {
     try {
-      const response = await this.apiClient.get<{ data: CarStatistics }>('/api/cars/admin/analytics');
-      return response.data.data;
+      const response = await this.apiClient.get<{ data: unknown }>('/api/cars/admin/analytics');
+      return this.apiClient.validateResponse(CarStatisticsSchema, response.data.data, '/api/cars/admin/analytics');
     } catch (error) {
       console.error('Error fetching admin car statistics:', error);
       throw error;
@@ -313,8 +366,8 @@ class CarApiService {
   async coListVehicle(vehicleId: string, groupIds: string[]): Promise<Vehicle> {
     try {
       // This would need custom endpoint implementation
-      const response = await this.apiClient.post<Vehicle>(`/api/cars/${vehicleId}/co-list`, { groupIds });
-      return response.data;
+      const response = await this.apiClient.post<unknown>(`/api/cars/${vehicleId}/co-list`, { groupIds });
+      return this.apiClient.validateResponse(VehicleSchema, response.data, `/api/cars/${vehicleId}/co-list`);
     } catch (error) {
       console.error('Error co-listing vehicle:', error);
       throw error;
@@ -324,8 +377,8 @@ class CarApiService {
   // Remove co-listing from groups
   async removeCoListing(vehicleId: string, groupIds: string[]): Promise<Vehicle> {
     try {
-      const response = await this.apiClient.delete<Vehicle>(`/api/cars/${vehicleId}/co-list`, { data: { groupIds } });
-      return response.data;
+      const response = await this.apiClient.delete<unknown>(`/api/cars/${vehicleId}/co-list`, { data: { groupIds } });
+      return this.apiClient.validateResponse(VehicleSchema, response.data, `/api/cars/${vehicleId}/co-list`);
     } catch (error) {
       console.error('Error removing co-listing:', error);
       throw error;
@@ -335,8 +388,8 @@ class CarApiService {
   // Get co-listed vehicles for current dealer
   async getCoListedVehicles(): Promise<Vehicle[]> {
     try {
-      const response = await this.apiClient.get<Vehicle[]>('/api/cars/co-listed');
-      return response.data;
+      const response = await this.apiClient.get<unknown>('/api/cars/co-listed');
+      return this.apiClient.validateResponse(s.lenientArray(VehicleSchema), response.data, '/api/cars/co-listed');
     } catch (error) {
       console.error('Error fetching co-listed vehicles:', error);
       throw error;
@@ -378,8 +431,8 @@ class CarApiService {
   // Get similar vehicles
   async getSimilarVehicles(vehicleId: string, limit: number = 5): Promise<Vehicle[]> {
     try {
-      const response = await this.apiClient.get<Vehicle[]>(`/api/cars/${vehicleId}/similar?limit=${limit}`);
-      return response.data;
+      const response = await this.apiClient.get<unknown>(`/api/cars/${vehicleId}/similar?limit=${limit}`);
+      return this.apiClient.validateResponse(s.lenientArray(VehicleSchema), response.data, `/api/cars/${vehicleId}/similar`);
     } catch (error) {
       console.error('Error fetching similar vehicles:', error);
       throw error;
@@ -389,8 +442,8 @@ class CarApiService {
   // Dealer Groups API
   async getAllGroups(): Promise<DealerGroup[]> {
     try {
-      const response = await this.apiClient.get<DealerGroup[]>('/api/groups');
-      return response.data;
+      const response = await this.apiClient.get<unknown>('/api/groups');
+      return this.apiClient.validateResponse(s.array(DealerGroupSchema), response.data, '/api/groups');
     } catch (error) {
       console.error('Error fetching groups:', error);
       throw error;
@@ -399,8 +452,8 @@ class CarApiService {
 
   async getGroupById(groupId: string): Promise<DealerGroup> {
     try {
-      const response = await this.apiClient.get<DealerGroup>(`/api/groups/${groupId}`);
-      return response.data;
+      const response = await this.apiClient.get<unknown>(`/api/groups/${groupId}`);
+      return this.apiClient.validateResponse(DealerGroupSchema, response.data, `/api/groups/${groupId}`);
     } catch (error) {
       console.error('Error fetching group:', error);
       throw error;
@@ -409,8 +462,8 @@ class CarApiService {
 
   async createGroup(groupData: Omit<DealerGroup, 'id' | 'createdAt' | 'members'>): Promise<DealerGroup> {
     try {
-      const response = await this.apiClient.post<DealerGroup>('/api/groups', groupData);
-      return response.data;
+      const response = await this.apiClient.post<unknown>('/api/groups', groupData);
+      return this.apiClient.validateResponse(DealerGroupSchema, response.data, '/api/groups');
     } catch (error) {
       console.error('Error creating group:', error);
       throw error;
@@ -419,8 +472,8 @@ class CarApiService {
 
   async updateGroup(groupId: string, updates: Partial<DealerGroup>): Promise<DealerGroup> {
     try {
-      const response = await this.apiClient.patch<DealerGroup>(`/api/groups/${groupId}`, updates);
-      return response.data;
+      const response = await this.apiClient.patch<unknown>(`/api/groups/${groupId}`, updates);
+      return this.apiClient.validateResponse(DealerGroupSchema, response.data, `/api/groups/${groupId}`);
     } catch (error) {
       console.error('Error updating group:', error);
       throw error;
@@ -438,8 +491,8 @@ class CarApiService {
 
   async inviteMember(groupId: string, dealerId: string): Promise<GroupInvitation> {
     try {
-      const response = await this.apiClient.post<GroupInvitation>(`/api/groups/${groupId}/invite`, { dealerId });
-      return response.data;
+      const response = await this.apiClient.post<unknown>(`/api/groups/${groupId}/invite`, { dealerId });
+      return this.apiClient.validateResponse(GroupInvitationSchema, response.data, `/api/groups/${groupId}/invite`);
     } catch (error) {
       console.error('Error inviting member:', error);
       throw error;
@@ -457,8 +510,8 @@ class CarApiService {
 
   async acceptInvitation(invitationId: string): Promise<DealerGroup> {
     try {
-      const response = await this.apiClient.post<DealerGroup>(`/api/invitations/${invitationId}/accept`);
-      return response.data;
+      const response = await this.apiClient.post<unknown>(`/api/invitations/${invitationId}/accept`);
+      return this.apiClient.validateResponse(DealerGroupSchema, response.data, `/api/invitations/${invitationId}/accept`);
     } catch (error) {
       console.error('Error accepting invitation:', error);
       throw error;
@@ -476,8 +529,8 @@ class CarApiService {
 
   async getMyInvitations(): Promise<GroupInvitation[]> {
     try {
-      const response = await this.apiClient.get<GroupInvitation[]>('/api/invitations/my');
-      return response.data;
+      const response = await this.apiClient.get<unknown>('/api/invitations/my');
+      return this.apiClient.validateResponse(s.array(GroupInvitationSchema), response.data, '/api/invitations/my');
     } catch (error) {
       console.error('Error fetching invitations:', error);
       throw error;
@@ -494,35 +547,35 @@ class CarApiService {
   }
 
   // Messaging API
-  async getConversations(): Promise<any[]> {
+  async getConversations(): Promise<Conversation[]> {
     try {
-      const response = await this.apiClient.get<any[]>('/api/messages/conversations');
-      return response.data;
+      const response = await this.apiClient.get<unknown>('/api/messages/conversations');
+      return this.apiClient.validateResponse(s.array(ConversationSchema), response.data, '/api/messages/conversations');
     } catch (error) {
       console.error('Error fetching conversations:', error);
       throw error;
     }
   }
 
-  async getChatMessages(dealerId: string, page: number = 0, size: number = 50): Promise<any[]> {
+  async getChatMessages(dealerId: string, page: number = 0, size: number = 50): Promise<DirectMessage[]> {
     try {
-      const response = await this.apiClient.get<any[]>(`/api/messages/${dealerId}?page=${page}&size=${size}`);
-      return response.data;
+      const response = await this.apiClient.get<unknown>(`/api/messages/${dealerId}?page=${page}&size=${size}`);
+      return this.apiClient.validateResponse(s.array(DirectMessageSchema), response.data, `/api/messages/${dealerId}`);
     } catch (error) {
       console.error('Error fetching chat messages:', error);
       throw error;
     }
   }
 
-  async sendMessage(receiverId: string, message: string, type: string = 'text', attachments?: any[]): Promise<any> {
+  async sendMessage(receiverId: string, message: string, type: string = 'text', attachments?: any[]): Promise<DirectMessage> {
     try {
-      const response = await this.apiClient.post('/api/messages/send', {
+      const response = await this.apiClient.post<unknown>('/api/messages/send', {
         receiverId,
         message,
         type,
         attachments
       });
-      return response.data;
+      return this.apiClient.validateResponse(DirectMessageSchema, response.data, '/api/messages/send');
     } catch (error) {
       console.error('Error sending message:', error);
       throw error;
@@ -539,10 +592,10 @@ class CarApiService {
   }
 
   // Notification API
-  async getNotifications(page: number = 0, size: number = 20): Promise<any[]> {
+  async getNotifications(page: number = 0, size: number = 20): Promise<AppNotification[]> {
     try {
-      const response = await this.apiClient.get<any[]>(`/api/notifications?page=${page}&size=${size}`);
-      return response.data;
+      const response = await this.apiClient.get<unknown>(`/api/notifications?page=${page}&size=${size}`);
+      return this.apiClient.validateResponse(s.array(NotificationSchema), response.data, '/api/notifications');
     } catch (error) {
       console.error('Error fetching notifications:', error);
       throw error;
@@ -558,16 +611,83 @@ class CarApiService {
     }
   }
 
-  async updateNotificationSettings(settings: any): Promise<any> {
+  async updateNotificationSettings(settings: NotificationSettings): Promise<void> {
     try {
-      const response = await this.apiClient.post('/api/notifications/settings', settings);
-      return response.data;
+      await this.apiClient.post('/api/notifications/settings', settings);
     } catch (error) {
       console.error('Error updating notification settings:', error);
       throw error;
     }
   }
 
+  // ==================== SAVED SEARCHES API ====================
+
+  /**
+   * Saved searches of the current user. With `notify` on, the backend posts
+   * `new_listing` / `price_alert` notifications for newly matching cars.
+   * GET /api/saved-searches
+   */
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    try {
+      const response = await this.apiClient.get<{ data: unknown }>('/api/saved-searches');
+      return this.apiClient.validateResponse(s.array(SavedSearchSchema), response.data.data, '/api/saved-searches');
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+      throw error;
+    }
+  }
+
+  async createSavedSearch(request: SavedSearchRequest): Promise<SavedSearch> {
+    try {
+      const response = await this.apiClient.post<{ data: unknown }>('/api/saved-searches', request);
+      return this.apiClient.validateResponse(SavedSearchSchema, response.data.data, '/api/saved-searches');
+    } catch (error) {
+      console.error('Error saving search:', error);
+      throw error;
+    }
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<SavedSearchRequest>): Promise<SavedSearch> {
+    try {
+      const response = await this.apiClient.patch<{ data: unknown }>(`/api/saved-searches/${id}`, updates);
+      return this.apiClient.validateResponse(SavedSearchSchema, response.data.data, `/api/saved-searches/${id}`);
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      throw error;
+    }
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    try {
+      await this.apiClient.delete(`/api/saved-searches/${id}`);
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      throw error;
+    }
+  }
+
+  // ==================== WATCHLIST API ====================
+
+  /**
+   * Cars the current user saved. The backend notifies watchers on price drops,
+   * Reserved/Sold status changes and when media finishes processing.
+   * GET /api/watchlist
+   */
+  async getWatchlist(): Promise<WatchlistEntry[]> {
+    const response = await this.apiClient.get<{ data: unknown }>('/api/watchlist');
+    return this.apiClient.validateResponse(s.array(WatchlistEntrySchema), response.data.data, '/api/watchlist');
+  }
+
+  // Idempotent - saving an already saved car is a no-op
+  async watchVehicle(carId: string): Promise<WatchlistEntry> {
+    const response = await this.apiClient.put<{ data: unknown }>(`/api/watchlist/${carId}`);
+    return this.apiClient.validateResponse(WatchlistEntrySchema, response.data.data, `/api/watchlist/${carId}`);
+  }
+
+  async unwatchVehicle(carId: string): Promise<void> {
+    await this.apiClient.delete(`/api/watchlist/${carId}`);
+  }
+
   // ==================== DEALER DASHBOARD API ====================
 
   /**
@@ -576,8 +696,8 @@ class CarApiService {
    */
   async getDealerDashboard(): Promise<DealerDashboardResponse> {
     try {
-      const response = await this.apiClient.get<{ data: DealerDashboardResponse }>('/api/cars/dealer/dashboard');
-      return response.data.data;
+      const response = await this.apiClient.get<{ data: unknown }>('/api/cars/dealer/dashboard');
+      return this.apiClient.validateResponse(DealerDashboardSchema, response.data.data, '/api/cars/dealer/dashboard');
     } catch (error) {
       console.error('Error fetching dealer dashboard:', error);
       throw error;
@@ -592,14 +712,14 @@ class CarApiService {
     page: number = 0,
     size: number = 20,
     status?: string
-  ): Promise<{ content: Vehicle[], totalElements: number, totalPages: number }> {
+  ): Promise<VehiclePage> {
     try {
       let url = `/api/cars/dealer/my-cars?page=${page}&size=${size}`;
       if (status) {
         url += `&status=${encodeURIComponent(status)}`;
       }
-      const response = await this.apiClient.get<{ data: { content: Vehicle[], totalElements: number, totalPages: number } }>(url);
-      return response.data.data;
+      const response = await this.apiClient.get<{ data: unknown }>(url);
+      return this.apiClient.validateResponse(VehiclePageSchema, response.data.data, '/api/cars/dealer/my-cars');
     } catch (error) {
       console.error('Error fetching my car listings:', error);
       throw error;
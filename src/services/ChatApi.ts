@@ -1,94 +1,39 @@
 import apiClient from './ApiClient';
-
-// Chat-related types
-export interface ChatRoomDto {
-  id: number;
-  name: string;
-  description?: string;
-  type: 'PRIVATE' | 'GROUP' | 'CAR_INQUIRY';
-  createdBy: {
-    id: number;
-    username: string;
-    displayName: string;
-    email: string;
-  };
-  isActive: boolean;
-  carId?: number;
-  createdAt: string;
-  updatedAt: string;
-  lastActivityAt?: string;
-  participantCount?: number;
-  unreadCount?: number;
-  lastMessage?: ChatMessageDto;
-  maxParticipants?: number;
-
-  // Inquiry specific fields
-  status?: string;
-  leadScore?: number;
-  buyerName?: string;
-  buyerPhone?: string;
-  carInfo?: {
-    id: number;
-    title: string;
-    price: number;
-    imageUrl?: string;
-  };
-}
-
-export interface ChatMessageDto {
-  id: number;
-  chatRoomId: number;
-  sender?: {
-    id: number;
-    username: string;
-    displayName: string;
-    avatarUrl?: string; // Frontend addition
-  };
-  content: string;
-  messageType: 'TEXT' | 'IMAGE' | 'FILE' | 'SYSTEM' | 'VOICE' | 'LOCATION' | 'CAR_REFERENCE' | 'USER_REFERENCE';
-  isEdited: boolean;
-  isDeleted: boolean;
-  createdAt: string;
-  updatedAt: string;
-  editedAt?: string;
-  replyTo?: {
-    id: number;
-    content: string;
-    senderUsername: string;
-    messageType: string;
-  };
-  fileAttachment?: {
-    fileUrl: string;
-    fileName: string;
-    fileSize: number;
-    mimeType: string;
-  };
-  deliveryStatus?: 'SENT' | 'DELIVERED' | 'READ';
-}
-
-export interface ChatParticipantDto {
-  id: number;
-  user: {
-    id: number;
-    username: string;
-    email: string;
-    displayName: string;
-  };
-  role: 'ADMIN' | 'MEMBER';
-  joinedAt: string;
-  lastActivityAt?: string;
-  isActive: boolean;
-}
-
-export interface UserStatus {
-  userId: number;
-  username: string;
-  status: 'ONLINE' | 'AWAY' | 'BUSY' | 'OFFLINE';
-  customStatus?: string;
-  lastActiveAt: string;
-  isTypingInChatId?: number;
-}
-
+import { s } from '../utils/schema';
+import {
+  page,
+  Page,
+  ChatRoomDto,
+  ChatRoomSchema,
+  ChatMessageDto,
+  ChatMessageSchema,
+  ChatParticipantDto,
+  ChatParticipantSchema,
+  UserStatus,
+  UserStatusSchema,
+  DeliveryStats,
+  DeliveryStatsSchema,
+  MessageStatus,
+  MessageStatusSchema,
+  UnreadCount,
+  UnreadCountSchema,
+} from './contracts';
+
+// Response DTOs are defined (and validated) in contracts.ts
+export type {
+  ChatRoomDto,
+  ChatMessageDto,
+  ChatParticipantDto,
+  UserStatus,
+  DeliveryStats,
+  MessageStatus,
+  UnreadCount,
+} from './contracts';
+
+const ChatRoomPageSchema = page(ChatRoomSchema);
+const ChatMessagePageSchema = page(ChatMessageSchema);
+
+// Request types
 export interface CreateChatRequest {
   name: string;
   description?: string;
@@ -132,22 +77,6 @@ export interface TypingIndicator {
   isTyping: boolean;
 }
 
-export interface DeliveryStats {
-  messageId: number;
-  totalRecipients: number;
-  sentCount: number;
-  deliveredCount: number;
-  readCount: number;
-  failedCount: number;
-  readBy: { username: string; readAt: string }[];
-  deliveredTo: { username: string; deliveredAt: string }[];
-}
-
-export interface UnreadCount {
-  totalUnread: number;
-  unreadByChat: { [chatId: string]: number };
-}
-
 export class ChatApi {
 
   // =====================================
@@ -157,41 +86,41 @@ export class ChatApi {
   /**
    * Get user's chats
    */
-  async getMyChats(page: number = 0, size: number = 20): Promise<any> {
-    const response = await apiClient.get<any>(`/api/chat/rooms?page=${page}&size=${size}`);
-    return response.data;
+  async getMyChats(page: number = 0, size: number = 20): Promise<Page<ChatRoomDto>> {
+    const response = await apiClient.get<unknown>(`/api/chat/rooms?page=${page}&size=${size}`);
+    return apiClient.validateResponse(ChatRoomPageSchema, response.data, '/api/chat/rooms');
   }
 
   /**
    * Get chat details
    */
-  async getChat(chatId: number): Promise<any> {
-    const response = await apiClient.get<any>(
+  async getChat(chatId: number): Promise<ChatRoomDto> {
+    const response = await apiClient.get<unknown>(
       `/api/chat/rooms/${chatId}`
     );
-    return response.data;
+    return apiClient.validateResponse(ChatRoomSchema, response.data, `/api/chat/rooms/${chatId}`);
   }
 
   /**
    * Create a private chat
    */
-  async createPrivateChat(request: CreatePrivateChatRequest): Promise<any> {
-    const response = await apiClient.post<any>(
+  async createPrivateChat(request: CreatePrivateChatRequest): Promise<ChatRoomDto> {
+    const response = await apiClient.post<unknown>(
       '/api/chat/private',
       request
     );
-    return response.data;
+    return apiClient.validateResponse(ChatRoomSchema, response.data, '/api/chat/private');
   }
 
   /**
    * Create a group chat
    */
-  async createGroupChat(request: CreateChatRequest): Promise<any> {
-    const response = await apiClient.post<any>(
+  async createGroupChat(request: CreateChatRequest): Promise<ChatRoomDto> {
+    const response = await apiClient.post<unknown>(
       '/api/chat/group',
       request
     );
-    return response.data;
+    return apiClient.validateResponse(ChatRoomSchema, response.data, '/api/chat/group');
   }
 
   /**
@@ -223,11 +152,11 @@ export class ChatApi {
   /**
    * Get chat participants
    */
-  async getChatParticipants(chatId: number): Promise<any[]> {
-    const response = await apiClient.get<any>(
+  async getChatParticipants(chatId: number): Promise<ChatParticipantDto[]> {
+    const response = await apiClient.get<unknown>(
       `/api/chat/rooms/${chatId}/participants`
     );
-    return response.data;
+    return apiClient.validateResponse(s.array(ChatParticipantSchema), response.data, `/api/chat/rooms/${chatId}/participants`);
   }
 
   // =====================================
@@ -241,31 +170,31 @@ export class ChatApi {
     chatId: number,
     page: number = 0,
     size: number = 50
-  ): Promise<any> {
-    const response = await apiClient.get<any>(`/api/chat/rooms/${chatId}/messages?page=${page}&size=${size}`);
-    return response.data;
+  ): Promise<Page<ChatMessageDto>> {
+    const response = await apiClient.get<unknown>(`/api/chat/rooms/${chatId}/messages?page=${page}&size=${size}`);
+    return apiClient.validateResponse(ChatMessagePageSchema, response.data, `/api/chat/rooms/${chatId}/messages`);
   }
 
   /**
    * Send message
    */
-  async sendMessage(chatId: number, request: SendMessageRequest): Promise<any> {
-    const response = await apiClient.post<any>(
+  async sendMessage(chatId: number, request: SendMessageRequest): Promise<ChatMessageDto> {
+    const response = await apiClient.post<unknown>(
       `/api/chat/rooms/${chatId}/messages`,
       request
     );
-    return response.data;
+    return apiClient.validateResponse(ChatMessageSchema, response.data, `/api/chat/rooms/${chatId}/messages`);
   }
 
   /**
    * Edit message
    */
-  async editMessage(messageId: number, request: EditMessageRequest): Promise<any> {
-    const response = await apiClient.put<any>(
+  async editMessage(messageId: number, request: EditMessageRequest): Promise<ChatMessageDto> {
+    const response = await apiClient.put<unknown>(
       `/api/chat/messages/${messageId}`,
       request
     );
-    return response.data;
+    return apiClient.validateResponse(ChatMessageSchema, response.data, `/api/chat/messages/${messageId}`);
   }
 
   /**
@@ -283,19 +212,19 @@ export class ChatApi {
     query: string,
     page: number = 0,
     size: number = 20
-  ): Promise<any> {
-    const response = await apiClient.get<any>(
+  ): Promise<Page<ChatMessageDto>> {
+    const response = await apiClient.get<unknown>(
       `/api/chat/rooms/${chatId}/search?query=${encodeURIComponent(query)}&page=${page}&size=${size}`
     );
-    return response.data;
+    return apiClient.validateResponse(ChatMessagePageSchema, response.data, `/api/chat/rooms/${chatId}/search`);
   }
 
   /**
    * Get media messages in chat
    */
-  async getMediaMessages(chatId: number, page: number = 0, size: number = 20): Promise<any> {
-    const response = await apiClient.get<any>(`/api/chat/rooms/${chatId}/media?page=${page}&size=${size}`);
-    return response.data;
+  async getMediaMessages(chatId: number, page: number = 0, size: number = 20): Promise<Page<ChatMessageDto>> {
+    const response = await apiClient.get<unknown>(`/api/chat/rooms/${chatId}/media?page=${page}&size=${size}`);
+    return apiClient.validateResponse(ChatMessagePageSchema, response.data, `/api/chat/rooms/${chatId}/media`);
   }
 
   // =====================================
@@ -329,19 +258,19 @@ export class ChatApi {
   /**
    * Get message delivery statistics
    */
-  async getDeliveryStats(messageId: number): Promise<any> {
-    const response = await apiClient.get<any>(
+  async getDeliveryStats(messageId: number): Promise<DeliveryStats> {
+    const response = await apiClient.get<unknown>(
       `/api/chat/messages/${messageId}/delivery-stats`
     );
-    return response.data;
+    return apiClient.validateResponse(DeliveryStatsSchema, response.data, `/api/chat/messages/${messageId}/delivery-stats`);
   }
 
   /**
    * Get message status
    */
-  async getMessageStatus(messageId: number): Promise<any> {
-    const response = await apiClient.get<any>(`/api/chat/messages/${messageId}/status`);
-    return response.data;
+  async getMessageStatus(messageId: number): Promise<MessageStatus> {
+    const response = await apiClient.get<unknown>(`/api/chat/messages/${messageId}/status`);
+    return apiClient.validateResponse(MessageStatusSchema, response.data, `/api/chat/messages/${messageId}/status`);
   }
 
   // =====================================
@@ -351,21 +280,21 @@ export class ChatApi {
   /**
    * Get total unread count
    */
-  async getUnreadCount(): Promise<any> {
-    const response = await apiClient.get<any>(
+  async getUnreadCount(): Promise<UnreadCount> {
+    const response = await apiClient.get<unknown>(
       '/api/chat/unread-count'
     );
-    return response.data;
+    return apiClient.validateResponse(UnreadCountSchema, response.data, '/api/chat/unread-count');
   }
 
   /**
    * Get unread count by chat
    */
-  async getUnreadCountByChat(): Promise<any> {
-    const response = await apiClient.get<any>(
+  async getUnreadCountByChat(): Promise<Record<string, number>> {
+    const response = await apiClient.get<unknown>(
       '/api/chat/rooms/unread-count'
     );
-    return response.data;
+    return apiClient.validateResponse(s.record(s.number()), response.data, '/api/chat/rooms/unread-count');
   }
 
   // =====================================
@@ -375,11 +304,11 @@ export class ChatApi {
   /**
    * Get online users in chat
    */
-  async getOnlineUsers(chatId: number): Promise<any> {
-    const response = await apiClient.get<any>(
+  async getOnlineUsers(chatId: number): Promise<UserStatus[]> {
+    const response = await apiClient.get<unknown>(
       `/api/chat/${chatId}/online-users`
     );
-    return response.data;
+    return apiClient.validateResponse(s.array(UserStatusSchema), response.data, `/api/chat/${chatId}/online-users`);
   }
 
   /**
@@ -399,13 +328,13 @@ export class ChatApi {
   /**
    * Upload file for message
    */
-  async uploadFile(chatId: number, file: FormData): Promise<any> {
-    const response = await apiClient.post<any>(`/api/chat/rooms/${chatId}/messages/upload`, file, {
+  async uploadFile(chatId: number, file: FormData): Promise<ChatMessageDto> {
+    const response = await apiClient.post<unknown>(`/api/chat/rooms/${chatId}/messages/upload`, file, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return apiClient.validateResponse(ChatMessageSchema, response.data, `/api/chat/rooms/${chatId}/messages/upload`);
   }
 
   // =====================================
@@ -415,51 +344,50 @@ export class ChatApi {
   /**
    * Get dealer-only chats
    */
-  async getDealerGroups(page: number = 0, size: number = 20): Promise<any> {
-    const response = await apiClient.get<any>(`/api/chat/dealer-groups?page=${page}&size=${size}`);
-    return response.data;
+  async getDealerGroups(page: number = 0, size: number = 20): Promise<Page<ChatRoomDto>> {
+    const response = await apiClient.get<unknown>(`/api/chat/dealer-groups?page=${page}&size=${size}`);
+    return apiClient.validateResponse(ChatRoomPageSchema, response.data, '/api/chat/dealer-groups');
   }
 
   /**
    * Create car inquiry chat
    */
-  async createCarInquiryChat(carId: number, message: string): Promise<any> {
-    const response = await apiClient.post<any>(
+  async createCarInquiryChat(carId: number, message: string): Promise<ChatRoomDto> {
+    const response = await apiClient.post<unknown>(
       '/api/chat/car-inquiry',
       {
         carId,
         message
       }
     );
-    // Force update
-    return response.data;
+    return apiClient.validateResponse(ChatRoomSchema, response.data, '/api/chat/car-inquiry');
   }
 
   /**
    * Get car-related chats
    */
-  async getCarChats(carId: number): Promise<any> {
-    const response = await apiClient.get<any>(
+  async getCarChats(carId: number): Promise<ChatRoomDto[]> {
+    const response = await apiClient.get<unknown>(
       `/api/chat/car/${carId}`
     );
-    return response.data;
+    return apiClient.validateResponse(s.array(ChatRoomSchema), response.data, `/api/chat/car/${carId}`);
   }
 
   /**
    * Get dealer inquiries
    */
-  async getDealerInquiries(status: string = 'ALL', page: number = 0, size: number = 20, query: string = ''): Promise<any> {
+  async getDealerInquiries(status: string = 'ALL', page: number = 0, size: number = 20, query: string = ''): Promise<Page<ChatRoomDto>> {
     const queryParam = query ? `&query=${encodeURIComponent(query)}` : '';
-    const response = await apiClient.get<any>(`/api/chat/dealer/inquiries?status=${status}&page=${page}&size=${size}${queryParam}`);
-    return response.data;
+    const response = await apiClient.get<unknown>(`/api/chat/dealer/inquiries?status=${status}&page=${page}&size=${size}${queryParam}`);
+    return apiClient.validateResponse(ChatRoomPageSchema, response.data, '/api/chat/dealer/inquiries');
   }
 
   /**
    * Update inquiry status
    */
-  async updateInquiryStatus(chatId: number, status: string): Promise<any> {
-    const response = await apiClient.patch<any>(`/api/chat/rooms/${chatId}/inquiry/status?status=${status}`);
-    return response.data;
+  async updateInquiryStatus(chatId: number, status: string): Promise<ChatRoomDto> {
+    const response = await apiClient.patch<unknown>(`/api/chat/rooms/${chatId}/inquiry/status?status=${status}`);
+    return apiClient.validateResponse(ChatRoomSchema, response.data, `/api/chat/rooms/${chatId}/inquiry/status`);
   }
 
   // =====================================
@@ -469,21 +397,21 @@ export class ChatApi {
   /**
    * Search chats
    */
-  async searchChats(query: string): Promise<any> {
-    const response = await apiClient.get<any>(
+  async searchChats(query: string): Promise<ChatRoomDto[]> {
+    const response = await apiClient.get<unknown>(
       `/api/chat/search?query=${encodeURIComponent(query)}`
     );
-    return response.data;
+    return apiClient.validateResponse(s.array(ChatRoomSchema), response.data, '/api/chat/search');
   }
 
   /**
    * Get popular/featured chats
    */
-  async getPopularChats(): Promise<any> {
-    const response = await apiClient.get<any>(
+  async getPopularChats(): Promise<ChatRoomDto[]> {
+    const response = await apiClient.get<unknown>(
       '/api/chat/popular'
     );
-    return response.data;
+    return apiClient.validateResponse(s.array(ChatRoomSchema), response.data, '/api/chat/popular');
   }
 
   // =====================================
@@ -493,9 +421,9 @@ export class ChatApi {
   /**
    * Get chat statistics
    */
-  async getChatStatistics(chatId: number): Promise<any> {
-    const response = await apiClient.get<any>(`/api/chat/${chatId}/statistics`);
-    return response.data;
+  async getChatStatistics(chatId: number): Promise<Record<string, unknown>> {
+    const response = await apiClient.get<unknown>(`/api/chat/${chatId}/statistics`);
+    return apiClient.validateResponse(s.record(s.unknown()), response.data, `/api/chat/${chatId}/statistics`);
   }
 }
 
@@ -0,0 +1,217 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// =============== TYPES ===============
+
+export type EnvironmentName = 'dev' | 'staging' | 'prod' | 'custom';
+
+type PresetName = Exclude<EnvironmentName, 'custom'>;
+
+/**
+ * An image host that resizes on request, e.g. `?w=400`
+ */
+export interface ImageResizeHost {
+  // Images under this origin can be resized
+  origin: string;
+  // Query parameter carrying the requested width
+  widthParam: string;
+}
+
+/**
+ * Raster map tiles and the credit their provider requires on the map
+ */
+export interface MapTileSource {
+  // `{z}/{x}/{y}` template
+  url: string;
+  attribution: string;
+}
+
+export interface EnvironmentConfig {
+  name: EnvironmentName;
+  label: string;
+  apiBaseUrl: string;
+  wsBaseUrl: string;
+  graphqlUrl: string;
+  // null = offline placeholder tiles
+  mapTiles: MapTileSource | null;
+  // Where listing photos are served from, for smaller variants in data saver mode
+  imageResizeHosts: ImageResizeHost[];
+}
+
+interface StoredEnvironment {
+  name: EnvironmentName;
+  customBaseUrl?: string;
+}
+
+type EnvironmentListener = (environment: EnvironmentConfig, previous: EnvironmentConfig) => void;
+
+// =============== CONSTANTS ===============
+
+const STORAGE_KEY = '@carworld_environment';
+
+// The public OpenStreetMap tile servers don't allow app traffic, so deployed
+// backends proxy a keyed provider; the key stays on the server.
+const proxiedMapTiles = (baseUrl: string): MapTileSource => ({
+  url: `${baseUrl}/api/map/tiles/{z}/{x}/{y}.png`,
+  attribution: '© MapTiler © OpenStreetMap contributors',
+});
+
+// Mock backend fixtures use Unsplash photos
+const UNSPLASH_IMAGES: ImageResizeHost = { origin: 'https://images.unsplash.com', widthParam: 'w' };
+
+// All three transports are served by the same Spring host. Development hosts
+// are often offline, so their maps use locally drawn tiles.
+const fromBaseUrl = (
+  name: EnvironmentName,
+  label: string,
+  baseUrl: string,
+  { mapTiles = null, imageResizeHosts = [] }: Partial<Pick<EnvironmentConfig, 'mapTiles' | 'imageResizeHosts'>> = {},
+): EnvironmentConfig => ({
+  name,
+  label,
+  apiBaseUrl: baseUrl,
+  wsBaseUrl: baseUrl,
+  graphqlUrl: `${baseUrl}/graphql`,
+  mapTiles,
+  imageResizeHosts,
+});
+
+const PRESETS: Record<PresetName, EnvironmentConfig> = {
+  dev: fromBaseUrl('dev', 'Development', 'http://192.168.1.11:9000', {
+    imageResizeHosts: [UNSPLASH_IMAGES],
+  }),
+  staging: fromBaseUrl('staging', 'Staging', 'https://staging-api.carworld.com', {
+    mapTiles: proxiedMapTiles('https://staging-api.carworld.com'),
+    imageResizeHosts: [{ origin: 'https://staging-media.carworld.com', widthParam: 'w' }],
+  }),
+  prod: fromBaseUrl('prod', 'Production', 'https://api.carworld.com', {
+    mapTiles: proxiedMapTiles('https://api.carworld.com'),
+    imageResizeHosts: [{ origin: 'https://media.carworld.com', widthParam: 'w' }],
+  }),
+};
+
+export const ENVIRONMENT_NAMES: EnvironmentName[] = ['dev', 'staging', 'prod', 'custom'];
+
+const DEFAULT_ENVIRONMENT: PresetName = __DEV__ ? 'dev' : 'prod';
+
+/**
+ * Normalise a user-entered server address: require http(s), drop trailing slashes
+ */
+export const normalizeBaseUrl = (value: string): string => {
+  const trimmed = value.trim().replace(/\/+$/, '');
+  if (!/^https?:\/\/[^\s/]+(:\d+)?(\/[^\s]*)?$/i.test(trimmed)) {
+    throw new Error('Enter a full server address, e.g. http://192.168.1.20:9000');
+  }
+  return trimmed;
+};
+
+/**
+ * Environment Service - which backend the app talks to
+ *
+ * Features:
+ * - Dev, staging and prod presets plus a custom host
+ * - Single source of truth for the REST, WebSocket and GraphQL endpoints
+ *   (and the map tile server and image hosts)
+ * - Persisted across launches; read once at startup via `init()`
+ * - Clients read the endpoints per request/connection; listeners drop state
+ *   left over from the previous backend when the environment changes at runtime
+ */
+class EnvironmentServiceClass {
+  private current: EnvironmentConfig = PRESETS[DEFAULT_ENVIRONMENT];
+  private listeners = new Set<EnvironmentListener>();
+
+  /**
+   * Load the persisted selection. Call before the first request is made.
+   */
+  async init(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.current = this.resolve(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.warn('[Environment] Failed to load selection, using default:', error);
+      this.current = PRESETS[DEFAULT_ENVIRONMENT];
+    }
+
+    console.log(`[Environment] ${this.current.label} (${this.current.apiBaseUrl})`);
+  }
+
+  getCurrent(): EnvironmentConfig {
+    return this.current;
+  }
+
+  getPreset(name: PresetName): EnvironmentConfig {
+    return PRESETS[name];
+  }
+
+  getApiBaseUrl(): string {
+    return this.current.apiBaseUrl;
+  }
+
+  getWsBaseUrl(): string {
+    return this.current.wsBaseUrl;
+  }
+
+  getGraphqlUrl(): string {
+    return this.current.graphqlUrl;
+  }
+
+  getMapTiles(): MapTileSource | null {
+    return this.current.mapTiles;
+  }
+
+  getImageResizeHosts(): ImageResizeHost[] {
+    return this.current.imageResizeHosts;
+  }
+
+  /**
+   * Switch backend. Callers should end the session first - tokens issued by
+   * one environment are not valid on another.
+   */
+  async setEnvironment(name: EnvironmentName, customBaseUrl?: string): Promise<EnvironmentConfig> {
+    const selection: StoredEnvironment = name === 'custom'
+      ? { name, customBaseUrl: normalizeBaseUrl(customBaseUrl ?? '') }
+      : { name };
+
+    const previous = this.current;
+    this.current = this.resolve(selection);
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+    } catch (error) {
+      console.warn('[Environment] Failed to persist selection:', error);
+    }
+
+    this.notifyIfChanged(previous);
+    return this.current;
+  }
+
+  addListener(listener: EnvironmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyIfChanged(previous: EnvironmentConfig): void {
+    if (this.current.apiBaseUrl === previous.apiBaseUrl) return;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.current, previous);
+      } catch (error) {
+        console.error('[Environment] Listener error:', error);
+      }
+    });
+  }
+
+  private resolve(selection: StoredEnvironment): EnvironmentConfig {
+    if (selection.name === 'custom' && selection.customBaseUrl) {
+      return fromBaseUrl('custom', 'Custom', selection.customBaseUrl, { imageResizeHosts: [UNSPLASH_IMAGES] });
+    }
+    return PRESETS[selection.name as PresetName] ?? PRESETS[DEFAULT_ENVIRONMENT];
+  }
+}
+
+export const EnvironmentService = new EnvironmentServiceClass();
+export default EnvironmentService;
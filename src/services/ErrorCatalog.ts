@@ -0,0 +1,325 @@
+import { Alert, Linking } from 'react-native';
+import { ApiError, NetworkError, SESSION_REVOKED_MESSAGE } from './ApiClient';
+
+/**
+ * Error Catalogue - one place that turns thrown errors into what the user sees
+ *
+ * Features:
+ * - Backend `errorCode`s, `NetworkError` and HTTP statuses map to a category,
+ *   a title/message and a recovery action
+ * - Messages are looked up per locale with English as the fallback
+ * - Backend `fieldErrors` are passed through (optionally renamed to form keys)
+ *   so forms can highlight the offending inputs
+ */
+
+// =============== TYPES ===============
+
+export type ErrorCategory =
+  | 'network'
+  | 'auth'
+  | 'verification'
+  | 'validation'
+  | 'permission'
+  | 'notFound'
+  | 'conflict'
+  | 'rateLimit'
+  | 'server'
+  | 'unknown';
+
+export type RecoveryAction =
+  | 'retry'
+  | 'relogin'
+  | 'verifyEmail'
+  | 'openSettings'
+  | 'fixFields'
+  | 'none';
+
+export interface UserFacingError {
+  code: string;
+  category: ErrorCategory;
+  title: string;
+  message: string;
+  action: RecoveryAction;
+  actionLabel?: string;
+  /** Field key -> message, keyed by the caller's form field names */
+  fieldErrors: Record<string, string>;
+  status?: number;
+  cause: unknown;
+}
+
+interface CatalogEntry {
+  category: ErrorCategory;
+  action: RecoveryAction;
+}
+
+interface CatalogMessage {
+  title: string;
+  message: string;
+}
+
+type Locale = 'en';
+
+export interface DescribeErrorOptions {
+  /** Message to use when nothing specific is known about the error */
+  fallbackMessage?: string;
+  /** Backend field name -> form field name, e.g. `{ make: 'brand' }` */
+  fieldAliases?: Record<string, string>;
+}
+
+// =============== CATALOGUE ===============
+
+const CATALOG: Record<string, CatalogEntry> = {
+  // Connectivity
+  OFFLINE: { category: 'network', action: 'retry' },
+  NETWORK_ERROR: { category: 'network', action: 'retry' },
+  TIMEOUT: { category: 'network', action: 'retry' },
+  REQUEST_ERROR: { category: 'network', action: 'retry' },
+
+  // Authentication
+  INVALID_CREDENTIALS: { category: 'auth', action: 'fixFields' },
+  NO_TOKEN: { category: 'auth', action: 'relogin' },
+  UNAUTHORIZED: { category: 'auth', action: 'none' },
+  INVALID_TOKEN: { category: 'auth', action: 'relogin' },
+  TOKEN_EXPIRED: { category: 'auth', action: 'relogin' },
+  INVALID_REFRESH_TOKEN: { category: 'auth', action: 'relogin' },
+  SESSION_REVOKED: { category: 'auth', action: 'relogin' },
+  TOKEN_REVOKED: { category: 'auth', action: 'relogin' },
+  ACCOUNT_LOCKED: { category: 'auth', action: 'none' },
+  INVALID_OTP: { category: 'auth', action: 'fixFields' },
+  OTP_EXPIRED: { category: 'auth', action: 'retry' },
+  USER_NOT_FOUND: { category: 'notFound', action: 'fixFields' },
+  USER_ALREADY_EXISTS: { category: 'conflict', action: 'fixFields' },
+
+  // Verification
+  EMAIL_NOT_VERIFIED: { category: 'verification', action: 'verifyEmail' },
+  EMAIL_VERIFICATION_REQUIRED: { category: 'verification', action: 'verifyEmail' },
+  DEALER_NOT_VERIFIED: { category: 'verification', action: 'none' },
+  VERIFICATION_ALREADY_PENDING: { category: 'conflict', action: 'none' },
+
+  // Input
+  VALIDATION_ERROR: { category: 'validation', action: 'fixFields' },
+  INVALID_CAR_ID: { category: 'validation', action: 'none' },
+  FILE_TOO_LARGE: { category: 'validation', action: 'fixFields' },
+  FILE_TOO_SMALL: { category: 'validation', action: 'fixFields' },
+  INVALID_MIME_TYPE: { category: 'validation', action: 'fixFields' },
+  INVALID_EXTENSION: { category: 'validation', action: 'fixFields' },
+  TOO_MANY_FILES: { category: 'validation', action: 'fixFields' },
+  DURATION_TOO_LONG: { category: 'validation', action: 'fixFields' },
+
+  // Access & resources
+  ACCESS_DENIED: { category: 'permission', action: 'none' },
+  PERMISSION_DENIED: { category: 'permission', action: 'openSettings' },
+  NOT_FOUND: { category: 'notFound', action: 'none' },
+  CONFLICT: { category: 'conflict', action: 'retry' },
+  RATE_LIMITED: { category: 'rateLimit', action: 'retry' },
+
+  // Server
+  SERVER_ERROR: { category: 'server', action: 'retry' },
+  INVALID_RESPONSE: { category: 'server', action: 'retry' },
+  UNKNOWN_ERROR: { category: 'unknown', action: 'retry' },
+};
+
+const MESSAGES: Record<Locale, Record<string, CatalogMessage>> = {
+  en: {
+    OFFLINE: { title: 'You are offline', message: 'Check your internet connection and try again.' },
+    NETWORK_ERROR: { title: 'Connection problem', message: 'We could not reach CarWorld. Please try again.' },
+    TIMEOUT: { title: 'Taking too long', message: 'The server did not respond in time. Please try again.' },
+    REQUEST_ERROR: { title: 'Request failed', message: 'Something went wrong sending your request. Please try again.' },
+
+    INVALID_CREDENTIALS: { title: 'Sign in failed', message: 'The email or password is incorrect.' },
+    NO_TOKEN: { title: 'Please sign in', message: 'You need to sign in to continue.' },
+    UNAUTHORIZED: { title: 'Not authorized', message: 'The request was refused. Check your details and try again.' },
+    INVALID_TOKEN: { title: 'Session expired', message: 'Please sign in again to continue.' },
+    TOKEN_EXPIRED: { title: 'Session expired', message: 'Please sign in again to continue.' },
+    INVALID_REFRESH_TOKEN: { title: 'Session expired', message: 'Please sign in again to continue.' },
+    SESSION_REVOKED: { title: 'Signed out', message: SESSION_REVOKED_MESSAGE },
+    TOKEN_REVOKED: { title: 'Signed out', message: SESSION_REVOKED_MESSAGE },
+    ACCOUNT_LOCKED: { title: 'Account locked', message: 'Too many failed attempts. Try again later or reset your password.' },
+    INVALID_OTP: { title: 'Invalid code', message: 'The verification code is incorrect.' },
+    OTP_EXPIRED: { title: 'Code expired', message: 'That code has expired. Request a new one.' },
+    USER_NOT_FOUND: { title: 'Account not found', message: 'No account uses this email. Please register first.' },
+    USER_ALREADY_EXISTS: { title: 'Account exists', message: 'An account with this email already exists. Try signing in.' },
+
+    EMAIL_NOT_VERIFIED: { title: 'Verify your email', message: 'Please verify your email address to continue.' },
+    EMAIL_VERIFICATION_REQUIRED: { title: 'Verify your email', message: 'Please verify your email address to continue.' },
+    DEALER_NOT_VERIFIED: { title: 'Verification pending', message: 'This feature unlocks once your dealership is verified.' },
+    VERIFICATION_ALREADY_PENDING: { title: 'Already submitted', message: 'Your verification request is already being reviewed.' },
+
+    VALIDATION_ERROR: { title: 'Check your details', message: 'Some fields need your attention.' },
+    INVALID_CAR_ID: { title: 'Car not available', message: 'This car could not be found.' },
+    FILE_TOO_LARGE: { title: 'File too large', message: 'Choose a smaller file and try again.' },
+    FILE_TOO_SMALL: { title: 'File unreadable', message: 'That file appears to be empty or corrupted.' },
+    INVALID_MIME_TYPE: { title: 'Unsupported file', message: 'Use a JPEG, PNG or WebP image, or an MP4 or MOV video.' },
+    INVALID_EXTENSION: { title: 'Unsupported file', message: 'Use a JPEG, PNG or WebP image, or an MP4 or MOV video.' },
+    TOO_MANY_FILES: { title: 'Too many files', message: 'Remove some files and try again.' },
+    DURATION_TOO_LONG: { title: 'Video too long', message: 'Videos must be shorter than 4 minutes 30 seconds.' },
+
+    ACCESS_DENIED: { title: 'Not allowed', message: 'Your account does not have access to this.' },
+    PERMISSION_DENIED: { title: 'Permission needed', message: 'Allow access in Settings to use this feature.' },
+    NOT_FOUND: { title: 'Not found', message: 'What you were looking for no longer exists.' },
+    CONFLICT: { title: 'Out of date', message: 'This was changed elsewhere. Refresh and try again.' },
+    RATE_LIMITED: { title: 'Slow down', message: 'Too many requests. Please wait a moment and try again.' },
+
+    SERVER_ERROR: { title: 'Server error', message: 'Something went wrong on our side. Please try again.' },
+    INVALID_RESPONSE: { title: 'Unexpected response', message: 'Received an unexpected response from the server. Please try again later.' },
+    UNKNOWN_ERROR: { title: 'Something went wrong', message: 'Please try again.' },
+  },
+};
+
+const ACTION_LABELS: Record<Locale, Record<RecoveryAction, string | undefined>> = {
+  en: {
+    retry: 'Try Again',
+    relogin: 'Sign In',
+    verifyEmail: 'Verify Email',
+    openSettings: 'Open Settings',
+    fixFields: undefined,
+    none: undefined,
+  },
+};
+
+// Fallback code per HTTP status when the backend sends no known errorCode
+const STATUS_CODES: Record<number, string> = {
+  0: 'NETWORK_ERROR',
+  400: 'VALIDATION_ERROR',
+  // INVALID_TOKEN only when the request carried a token; see resolveCode
+  401: 'UNAUTHORIZED',
+  403: 'ACCESS_DENIED',
+  404: 'NOT_FOUND',
+  408: 'TIMEOUT',
+  409: 'CONFLICT',
+  413: 'FILE_TOO_LARGE',
+  422: 'VALIDATION_ERROR',
+  429: 'RATE_LIMITED',
+};
+
+// =============== HELPERS ===============
+
+const currentLocale = (): Locale => {
+  const tag = Intl.DateTimeFormat().resolvedOptions().locale || 'en';
+  const language = tag.split('-')[0] as Locale;
+  return language in MESSAGES ? language : 'en';
+};
+
+const lookupMessage = (code: string): CatalogMessage =>
+  MESSAGES[currentLocale()][code] ?? MESSAGES.en[code] ?? MESSAGES.en.UNKNOWN_ERROR;
+
+const resolveCode = (error: unknown): { code: string; status?: number } => {
+  if (error instanceof NetworkError) {
+    return { code: 'OFFLINE' };
+  }
+  if (error instanceof ApiError) {
+    // errorType is the more specific signal on verification errors
+    const candidates = [error.errorCode, error.errorType].filter(Boolean) as string[];
+    const known = candidates.find(code => code in CATALOG);
+    if (known && known !== 'UNKNOWN_ERROR') {
+      return { code: known, status: error.status };
+    }
+    if (error.fieldErrors && Object.keys(error.fieldErrors).length > 0) {
+      return { code: 'VALIDATION_ERROR', status: error.status };
+    }
+    if (error.status === 401 && error.authenticated) {
+      return { code: 'INVALID_TOKEN', status: error.status };
+    }
+    return { code: STATUS_CODES[error.status] ?? (error.status >= 500 ? 'SERVER_ERROR' : 'UNKNOWN_ERROR'), status: error.status };
+  }
+  const errorCode = (error as { errorCode?: string } | null)?.errorCode;
+  if (errorCode && errorCode in CATALOG) {
+    return { code: errorCode };
+  }
+  return { code: 'UNKNOWN_ERROR' };
+};
+
+// =============== PUBLIC API ===============
+
+/**
+ * Map any thrown value to the message, action and field highlights to show
+ */
+export const describeError = (error: unknown, options: DescribeErrorOptions = {}): UserFacingError => {
+  const { code, status } = resolveCode(error);
+  const entry = CATALOG[code];
+  const text = lookupMessage(code);
+
+  const fieldErrors: Record<string, string> = {};
+  if (error instanceof ApiError && error.fieldErrors) {
+    Object.entries(error.fieldErrors).forEach(([field, message]) => {
+      fieldErrors[options.fieldAliases?.[field] ?? field] = String(message);
+    });
+  }
+
+  // Validation failures read better with the backend's own first field message
+  const firstFieldMessage = Object.values(fieldErrors)[0];
+  const message = code === 'UNKNOWN_ERROR'
+    ? options.fallbackMessage ?? text.message
+    : entry.category === 'validation' && firstFieldMessage
+      ? firstFieldMessage
+      : text.message;
+
+  return {
+    code,
+    category: entry.category,
+    title: text.title,
+    message,
+    action: entry.action,
+    actionLabel: ACTION_LABELS[currentLocale()][entry.action],
+    fieldErrors,
+    status,
+    cause: error,
+  };
+};
+
+export interface RecoveryHandlers {
+  onRetry?: () => void;
+  onRelogin?: () => void;
+  onVerifyEmail?: () => void;
+}
+
+/**
+ * Run the recovery action for an error. Returns false when there was no
+ * handler for it, so callers can fall back to plain dismissal.
+ */
+export const performRecovery = (described: UserFacingError, handlers: RecoveryHandlers = {}): boolean => {
+  switch (described.action) {
+    case 'retry':
+      handlers.onRetry?.();
+      return !!handlers.onRetry;
+    case 'relogin':
+      handlers.onRelogin?.();
+      return !!handlers.onRelogin;
+    case 'verifyEmail':
+      handlers.onVerifyEmail?.();
+      return !!handlers.onVerifyEmail;
+    case 'openSettings':
+      Linking.openSettings().catch(() => undefined);
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Alert with the catalogue message and, when a handler exists, a recovery button
+ */
+export const showErrorAlert = (
+  error: unknown,
+  handlers: RecoveryHandlers = {},
+  options: DescribeErrorOptions = {},
+): UserFacingError => {
+  const described = describeError(error, options);
+  const hasHandler =
+    described.action === 'openSettings' ||
+    (described.action === 'retry' && !!handlers.onRetry) ||
+    (described.action === 'relogin' && !!handlers.onRelogin) ||
+    (described.action === 'verifyEmail' && !!handlers.onVerifyEmail);
+
+  Alert.alert(
+    described.title,
+    described.message,
+    hasHandler && described.actionLabel
+      ? [
+        { text: 'Cancel', style: 'cancel' },
+        { text: described.actionLabel, onPress: () => performRecovery(described, handlers) },
+      ]
+      : [{ text: 'OK' }],
+  );
+  return described;
+};
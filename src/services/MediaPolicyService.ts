@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+// =============== TYPES ===============
+
+/** How much the current connection can carry; also the image/video compression level to start from */
+export type ConnectionQuality = 'high' | 'medium' | 'low';
+
+export interface MediaPolicySettings {
+  // Hold video uploads until the device is off mobile data
+  videoUploadsOnWifiOnly: boolean;
+  // Start compression at a lower level on slower connections
+  adaptiveCompression: boolean;
+  // Smaller images and no video autoplay while browsing
+  dataSaver: boolean;
+}
+
+type MediaPolicyListener = () => void;
+
+// =============== CONSTANTS ===============
+
+const SETTINGS_KEY = '@carworld_media_policy';
+
+const DEFAULT_SETTINGS: MediaPolicySettings = {
+  videoUploadsOnWifiOnly: false,
+  adaptiveCompression: false,
+  dataSaver: false,
+};
+
+const SLOW_CELLULAR_GENERATIONS = ['2g', '3g'];
+
+/**
+ * Media Policy Service - connection-aware rules for sending and loading media
+ *
+ * Features:
+ * - Tracks the connection type and cellular generation via NetInfo
+ * - User settings persisted to AsyncStorage: video uploads on Wi-Fi only,
+ *   compression matched to connection quality, and data saver
+ * - Read outside React by UploadQueueService (including the Android headless
+ *   task), and by screens through useMediaPolicy
+ */
+class MediaPolicyServiceClass {
+  private settings: MediaPolicySettings = DEFAULT_SETTINGS;
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<MediaPolicyListener>();
+  private onCellular = false;
+  private quality: ConnectionQuality = 'high';
+
+  constructor() {
+    NetInfo.addEventListener(state => this.setConnection(state));
+  }
+
+  private setConnection(state: NetInfoState): void {
+    const onCellular = state.type === 'cellular';
+    let quality: ConnectionQuality = 'high';
+    if (state.type === 'cellular') {
+      const generation = state.details?.cellularGeneration;
+      quality = !generation || SLOW_CELLULAR_GENERATIONS.includes(generation) ? 'low' : 'medium';
+    }
+
+    if (onCellular === this.onCellular && quality === this.quality) return;
+    this.onCellular = onCellular;
+    this.quality = quality;
+    this.emit();
+  }
+
+  /**
+   * Read the stored settings once
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.restore();
+    }
+    return this.loadPromise;
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      if (stored) {
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+        this.emit();
+      }
+    } catch (error) {
+      console.warn('Failed to load media policy:', error);
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  getSettings(): MediaPolicySettings {
+    return this.settings;
+  }
+
+  async updateSettings(updates: Partial<MediaPolicySettings>): Promise<void> {
+    this.settings = { ...this.settings, ...updates };
+    this.emit();
+    try {
+      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save media policy:', error);
+    }
+  }
+
+  isOnCellular(): boolean {
+    return this.onCellular;
+  }
+
+  getConnectionQuality(): ConnectionQuality {
+    return this.quality;
+  }
+
+  /**
+   * Video uploads have to wait for Wi-Fi right now
+   */
+  shouldHoldVideo(): boolean {
+    return this.settings.videoUploadsOnWifiOnly && this.onCellular;
+  }
+
+  /**
+   * Highest compression level worth trying on the current connection
+   */
+  getCompressionLevel(): ConnectionQuality {
+    return this.settings.adaptiveCompression ? this.quality : 'high';
+  }
+
+  isDataSaverEnabled(): boolean {
+    return this.settings.dataSaver;
+  }
+
+  /**
+   * Called when the settings or the connection change
+   */
+  addListener(listener: MediaPolicyListener): () => void {
+    this.listeners.add(listener);
+    this.load();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const MediaPolicyService = new MediaPolicyServiceClass();
+export default MediaPolicyService;
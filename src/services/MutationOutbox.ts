@@ -0,0 +1,251 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiClient, ApiError, NetworkError } from './ApiClient';
+import { sessionManager } from './SessionManager';
+
+// =============== TYPES ===============
+
+export type OutboxMutationType = 'UPDATE_VEHICLE' | 'UPDATE_STATUS' | 'DELETE_VEHICLE';
+
+export type OutboxMutationState = 'pending' | 'conflict';
+
+export type ConflictReason = 'NOT_FOUND' | 'CONFLICT' | 'REJECTED';
+
+export interface OutboxMutation {
+  id: string;
+  type: OutboxMutationType;
+  vehicleId: string;
+  payload: Record<string, any>;
+  createdAt: number;
+  attempts: number;
+  state: OutboxMutationState;
+  conflictReason?: ConflictReason;
+  errorMessage?: string;
+}
+
+export type ConflictResolution = 'discard' | 'retry';
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  remaining: number;
+}
+
+type OutboxListener = (mutations: OutboxMutation[]) => void;
+
+// =============== CONSTANTS ===============
+
+const STORAGE_KEY = '@carworld_mutation_outbox';
+
+/**
+ * Mutation Outbox - durable queue for listing edits made while offline
+ *
+ * Features:
+ * - Mutations persisted to AsyncStorage so they survive app restarts
+ * - Replayed strictly in the order they were recorded
+ * - Network failures leave the queue untouched for the next attempt
+ * - Server rejections (deleted car, conflicting edit) become conflicts
+ *   that block later mutations for the same vehicle until resolved
+ * - Emptied when the session ends, so one user's edits never replay as the next
+ */
+class MutationOutboxClass {
+  private mutations: OutboxMutation[] = [];
+  private loaded = false;
+  private isReplaying = false;
+  private listeners: OutboxListener[] = [];
+  // Bumped by clear() so a replay already in flight stops sending
+  private generation = 0;
+
+  constructor() {
+    sessionManager.addListener((event) => {
+      if (event.type === 'ended') {
+        return this.clear();
+      }
+    });
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    const generation = this.generation;
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      // Cleared while reading; the stored queue belonged to the previous user
+      if (generation !== this.generation) return;
+      this.mutations = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('[Outbox] Failed to load queue:', error);
+      this.mutations = [];
+    }
+    this.loaded = true;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.mutations));
+    } catch (error) {
+      console.warn('[Outbox] Failed to persist queue:', error);
+    }
+    this.emit();
+  }
+
+  private emit(): void {
+    const snapshot = [...this.mutations];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private generateId(): string {
+    return `mut_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  async enqueue(type: OutboxMutationType, vehicleId: string, payload: Record<string, any> = {}): Promise<OutboxMutation> {
+    await this.load();
+
+    const mutation: OutboxMutation = {
+      id: this.generateId(),
+      type,
+      vehicleId: String(vehicleId),
+      payload,
+      createdAt: Date.now(),
+      attempts: 0,
+      state: 'pending',
+    };
+
+    this.mutations.push(mutation);
+    await this.persist();
+    console.log(`[Outbox] Queued ${type} for vehicle ${vehicleId}`);
+    return mutation;
+  }
+
+  async getAll(): Promise<OutboxMutation[]> {
+    await this.load();
+    return [...this.mutations];
+  }
+
+  async hasPendingFor(vehicleId: string): Promise<boolean> {
+    await this.load();
+    return this.mutations.some(m => m.vehicleId === String(vehicleId));
+  }
+
+  private execute(mutation: OutboxMutation): Promise<unknown> {
+    switch (mutation.type) {
+      case 'UPDATE_VEHICLE':
+        return apiClient.updateCar(mutation.vehicleId, mutation.payload);
+      case 'UPDATE_STATUS':
+        return apiClient.updateCarStatus(Number(mutation.vehicleId), mutation.payload.status);
+      case 'DELETE_VEHICLE':
+        return apiClient.deleteCar(mutation.vehicleId, mutation.payload.hard === true);
+    }
+  }
+
+  private classifyConflict(error: ApiError): ConflictReason {
+    if (error.status === 404 || error.status === 410) return 'NOT_FOUND';
+    if (error.status === 409 || error.status === 412) return 'CONFLICT';
+    return 'REJECTED';
+  }
+
+  /**
+   * Replay queued mutations in order. Stops at the first network failure.
+   */
+  async replay(): Promise<ReplayResult> {
+    await this.load();
+    if (this.isReplaying) {
+      return { applied: 0, conflicts: 0, remaining: this.mutations.length };
+    }
+
+    this.isReplaying = true;
+    const generation = this.generation;
+    let applied = 0;
+    let conflicts = 0;
+
+    try {
+      const blockedVehicles = new Set(
+        this.mutations.filter(m => m.state === 'conflict').map(m => m.vehicleId),
+      );
+
+      for (const mutation of [...this.mutations]) {
+        if (generation !== this.generation) break;
+        if (mutation.state === 'conflict' || blockedVehicles.has(mutation.vehicleId)) {
+          continue;
+        }
+
+        mutation.attempts += 1;
+        try {
+          await this.execute(mutation);
+          if (generation !== this.generation) break;
+          this.mutations = this.mutations.filter(m => m.id !== mutation.id);
+          applied += 1;
+        } catch (error: any) {
+          if (generation !== this.generation) break;
+          const isTransient =
+            error instanceof NetworkError ||
+            (error instanceof ApiError && (error.status === 0 || error.status >= 500));
+
+          if (isTransient || !(error instanceof ApiError)) {
+            // Leave it (and everything after it) for the next replay
+            console.log('[Outbox] Replay paused:', error?.message);
+            break;
+          }
+
+          mutation.state = 'conflict';
+          mutation.conflictReason = this.classifyConflict(error);
+          mutation.errorMessage = error.message;
+          blockedVehicles.add(mutation.vehicleId);
+          conflicts += 1;
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+      await this.persist();
+    }
+
+    return { applied, conflicts, remaining: this.mutations.length };
+  }
+
+  /**
+   * Resolve a conflicted mutation: drop it, or put it back in the queue
+   */
+  async resolveConflict(mutationId: string, resolution: ConflictResolution): Promise<void> {
+    await this.load();
+
+    if (resolution === 'discard') {
+      this.mutations = this.mutations.filter(m => m.id !== mutationId);
+    } else {
+      this.mutations = this.mutations.map(m =>
+        m.id === mutationId
+          ? { ...m, state: 'pending', conflictReason: undefined, errorMessage: undefined }
+          : m,
+      );
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * Drop every queued mutation for a vehicle (e.g. after it was deleted server-side)
+   */
+  async discardForVehicle(vehicleId: string): Promise<void> {
+    await this.load();
+    this.mutations = this.mutations.filter(m => m.vehicleId !== String(vehicleId));
+    await this.persist();
+  }
+
+  /**
+   * Drop every queued mutation - used on logout
+   */
+  async clear(): Promise<void> {
+    this.generation += 1;
+    this.mutations = [];
+    this.loaded = true;
+    await this.persist();
+  }
+
+  addListener(listener: OutboxListener): () => void {
+    this.listeners.push(listener);
+    this.load().then(() => listener([...this.mutations]));
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
+
+export const MutationOutbox = new MutationOutboxClass();
+export default MutationOutbox;
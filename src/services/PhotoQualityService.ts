@@ -0,0 +1,109 @@
+import { NativeModules } from 'react-native';
+import {
+  assessPhotoQuality,
+  findNearDuplicates,
+  perceptualHash,
+  LuminanceSample,
+  PhotoDimensions,
+  PhotoQualityIssue,
+  QUALITY_SAMPLE_SIZE,
+} from '../utils/photoQuality';
+
+// =============== TYPES ===============
+
+interface NativeLuminanceSample {
+  // Size of the original photo
+  width: number;
+  height: number;
+  sampleWidth: number;
+  sampleHeight: number;
+  pixels: number[];
+}
+
+interface PhotoQualityNativeModule {
+  sampleLuminance(uri: string, maxSide: number): Promise<NativeLuminanceSample>;
+}
+
+export interface PhotoQualityReport {
+  // Problems with this photo on its own; duplicates depend on the whole set
+  issues: PhotoQualityIssue[];
+  // Perceptual hash for near-duplicate checks; null when the photo couldn't be read
+  hash: string | null;
+}
+
+export interface PhotoToCheck extends PhotoDimensions {
+  uri: string;
+}
+
+const nativeModule: PhotoQualityNativeModule | undefined = NativeModules.PhotoQuality;
+
+/**
+ * Photo Quality Service - on-device checks for listing photos before upload
+ *
+ * Features:
+ * - Native code decodes a small grayscale sample of each photo; the checks
+ *   themselves live in utils/photoQuality and run in JS
+ * - Flags blurry, dark, overexposed and low-resolution photos, and repeats
+ *   of a photo already in the set
+ * - Only advisory: a photo that can't be read, or a missing native module,
+ *   leaves just the resolution check
+ */
+class PhotoQualityServiceClass {
+  isAvailable(): boolean {
+    return !!nativeModule;
+  }
+
+  private async sample(uri: string): Promise<{ sample: LuminanceSample; original: PhotoDimensions } | null> {
+    if (!nativeModule) return null;
+    try {
+      const result = await nativeModule.sampleLuminance(uri, QUALITY_SAMPLE_SIZE);
+      return {
+        sample: { width: result.sampleWidth, height: result.sampleHeight, pixels: result.pixels },
+        original: { width: result.width, height: result.height },
+      };
+    } catch (error) {
+      console.warn('[PhotoQuality] Could not sample photo:', uri, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check one photo
+   * @param photo - The picked photo; width/height of the original, if the picker reported them
+   */
+  async check(photo: PhotoToCheck): Promise<PhotoQualityReport> {
+    const sampled = await this.sample(photo.uri);
+    const dimensions = photo.width && photo.height ? photo : sampled?.original ?? {};
+
+    return {
+      issues: assessPhotoQuality(dimensions, sampled?.sample ?? null),
+      hash: sampled ? perceptualHash(sampled.sample) : null,
+    };
+  }
+
+  /**
+   * Check photos one after another; decoding them all at once would spike memory
+   */
+  async checkAll(photos: PhotoToCheck[]): Promise<PhotoQualityReport[]> {
+    const reports: PhotoQualityReport[] = [];
+    for (const photo of photos) {
+      reports.push(await this.check(photo));
+    }
+    return reports;
+  }
+
+  /**
+   * Every issue for each photo of a set, in order, including repeats of an
+   * earlier photo
+   */
+  issuesForSet(reports: Array<PhotoQualityReport | undefined>): PhotoQualityIssue[][] {
+    const duplicates = findNearDuplicates(reports.map(report => report?.hash));
+    return reports.map((report, i) => [
+      ...(report?.issues ?? []),
+      ...(duplicates.has(i) ? ['duplicate' as const] : []),
+    ]);
+  }
+}
+
+export const PhotoQualityService = new PhotoQualityServiceClass();
+export default PhotoQualityService;
@@ -0,0 +1,202 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// =============== TYPES ===============
+
+export interface CacheEntry<T = any> {
+  data: T;
+  storedAt: number; // When the payload was last confirmed by the server
+  etag?: string;
+  lastModified?: string;
+  invalidated?: boolean; // Set by a mutation; forces revalidation on next read
+}
+
+export type CacheEventType = 'served' | 'updated' | 'invalidated' | 'cleared';
+
+export interface CacheEvent {
+  type: CacheEventType;
+  key?: string;
+  stale?: boolean; // 'served' events: payload was older than its max age
+  changed?: boolean; // 'updated' events: false when the server answered 304
+  storedAt?: number;
+}
+
+type CacheListener = (event: CacheEvent) => void;
+
+// =============== CONSTANTS ===============
+
+const STORAGE_PREFIX = '@carworld_http_cache:';
+const STORAGE_INDEX_KEY = '@carworld_http_cache_index';
+const MAX_ENTRIES = 150; // Oldest entries are evicted beyond this
+
+/**
+ * Response Cache - persistent HTTP cache backing ApiClient's offline-first reads
+ *
+ * Features:
+ * - Entries persisted to AsyncStorage, mirrored in memory
+ * - ETag / Last-Modified validators kept alongside each payload
+ * - Prefix-based invalidation after mutations
+ * - LRU-style eviction by storedAt
+ * - Event stream so NetworkContext can tell screens about stale data
+ */
+class ResponseCacheClass {
+  private memory = new Map<string, CacheEntry>();
+  private index: Record<string, number> = {};
+  private indexLoaded = false;
+  private listeners: CacheListener[] = [];
+
+  private async loadIndex(): Promise<void> {
+    if (this.indexLoaded) return;
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_INDEX_KEY);
+      this.index = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load response cache index:', error);
+      this.index = {};
+    }
+    this.indexLoaded = true;
+  }
+
+  private async persistIndex(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_INDEX_KEY, JSON.stringify(this.index));
+    } catch (error) {
+      console.warn('Failed to persist response cache index:', error);
+    }
+  }
+
+  private emit(event: CacheEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('Response cache listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Build a stable cache key from a URL and its query params
+   */
+  buildKey(url: string, params?: Record<string, any>): string {
+    if (!params) return url;
+    const query = Object.keys(params)
+      .filter(name => params[name] !== undefined && params[name] !== null)
+      .sort()
+      .map(name => `${name}=${String(params[name])}`)
+      .join('&');
+    return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+  }
+
+  async get<T = any>(key: string): Promise<CacheEntry<T> | null> {
+    const inMemory = this.memory.get(key);
+    if (inMemory) return inMemory as CacheEntry<T>;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+      if (!stored) return null;
+      const entry = JSON.parse(stored) as CacheEntry<T>;
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      console.warn('Failed to read response cache entry:', error);
+      return null;
+    }
+  }
+
+  async set<T = any>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.memory.set(key, entry);
+    await this.loadIndex();
+    this.index[key] = entry.storedAt;
+
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+      await this.evictIfNeeded();
+      await this.persistIndex();
+    } catch (error) {
+      console.warn('Failed to persist response cache entry:', error);
+    }
+  }
+
+  /**
+   * Refresh the timestamp of an entry after a 304 Not Modified
+   */
+  async touch(key: string): Promise<void> {
+    const entry = await this.get(key);
+    if (!entry) return;
+    await this.set(key, { ...entry, storedAt: Date.now(), invalidated: false });
+  }
+
+  private async evictIfNeeded(): Promise<void> {
+    const keys = Object.keys(this.index);
+    if (keys.length <= MAX_ENTRIES) return;
+
+    const toEvict = keys
+      .sort((a, b) => this.index[a] - this.index[b])
+      .slice(0, keys.length - MAX_ENTRIES);
+
+    toEvict.forEach(key => {
+      delete this.index[key];
+      this.memory.delete(key);
+    });
+    await AsyncStorage.multiRemove(toEvict.map(key => STORAGE_PREFIX + key));
+  }
+
+  /**
+   * Mark every entry whose key starts with one of the prefixes as stale.
+   * Entries are kept (so they can still be served offline) but will be
+   * revalidated on the next read.
+   */
+  async invalidate(prefixes: string[]): Promise<void> {
+    await this.loadIndex();
+    const matches = Object.keys(this.index).filter(key =>
+      prefixes.some(prefix => key.startsWith(prefix)),
+    );
+
+    await Promise.all(
+      matches.map(async key => {
+        const entry = await this.get(key);
+        if (!entry) return;
+        const staleEntry = { ...entry, invalidated: true, etag: undefined, lastModified: undefined };
+        this.memory.set(key, staleEntry);
+        await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(staleEntry));
+      }),
+    );
+
+    matches.forEach(key => this.emit({ type: 'invalidated', key }));
+  }
+
+  /**
+   * Drop everything - used on logout so one user's data never leaks to the next
+   */
+  async clear(): Promise<void> {
+    await this.loadIndex();
+    const keys = Object.keys(this.index);
+    this.memory.clear();
+    this.index = {};
+
+    try {
+      await AsyncStorage.multiRemove([...keys.map(key => STORAGE_PREFIX + key), STORAGE_INDEX_KEY]);
+    } catch (error) {
+      console.warn('Failed to clear response cache:', error);
+    }
+    this.emit({ type: 'cleared' });
+  }
+
+  notifyServed(key: string, stale: boolean, storedAt: number): void {
+    this.emit({ type: 'served', key, stale, storedAt });
+  }
+
+  notifyUpdated(key: string, changed: boolean, storedAt: number): void {
+    this.emit({ type: 'updated', key, changed, storedAt });
+  }
+
+  addListener(listener: CacheListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
+
+export const ResponseCache = new ResponseCacheClass();
+export default ResponseCache;
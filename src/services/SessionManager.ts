@@ -0,0 +1,348 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Keychain from 'react-native-keychain';
+import type { AuthTokens, UserData } from './ApiClient';
+
+// =============== TYPES ===============
+
+interface StoredTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessExpiresAt: number; // epoch ms
+  refreshExpiresAt: number; // epoch ms
+}
+
+export type SessionEndReason = 'LOGOUT' | 'REFRESH_FAILED' | 'EXPIRED' | 'REVOKED';
+
+export type SessionEvent =
+  | { type: 'started'; user: UserData }
+  | { type: 'refreshed'; user: UserData }
+  | { type: 'ended'; reason: SessionEndReason };
+
+type SessionListener = (event: SessionEvent) => void | Promise<void>;
+type RefreshHandler = (refreshToken: string) => Promise<AuthTokens>;
+
+// =============== CONSTANTS ===============
+
+const KEYCHAIN_SERVICE = 'com.carworld.session';
+const KEYCHAIN_USERNAME = 'carworld-session';
+
+const STORAGE_KEYS = {
+  USER_DATA: '@carworld_user_data',
+  // Legacy AsyncStorage token keys - migrated to Keychain on first read
+  LEGACY_ACCESS_TOKEN: '@carworld_access_token',
+  LEGACY_REFRESH_TOKEN: '@carworld_refresh_token',
+  LEGACY_TOKEN_EXPIRY: '@carworld_token_expiry',
+  LEGACY_REFRESH_EXPIRY: '@carworld_refresh_expiry',
+};
+
+const REFRESH_LEAD_TIME_MS = 120_000; // Refresh 2 minutes before expiry
+const MIN_REFRESH_DELAY_MS = 60_000;
+const OFFLINE_RETRY_DELAY_MS = 30_000;
+
+// Statuses meaning the server refused the refresh token itself (invalid_grant)
+const REFRESH_REJECTED_STATUSES = [400, 401];
+
+/**
+ * A refresh the server turned down, as opposed to a network drop, timeout or 5xx
+ */
+const isRefreshRejected = (error: any): boolean =>
+  REFRESH_REJECTED_STATUSES.includes(error?.status ?? error?.response?.status);
+
+/**
+ * Session Manager - single owner of the signed-in session
+ *
+ * Features:
+ * - Tokens stored in the Keychain/Keystore (user profile stays in AsyncStorage)
+ * - One proactive refresh timer for the whole app
+ * - Single-flight refresh: concurrent callers share one request
+ * - Logout fan-out to every registered listener (WebSocket, caches, analytics)
+ *
+ * ApiClient registers the network call used for refreshing via
+ * setRefreshHandler(); everything else reads tokens from here.
+ */
+class SessionManagerClass {
+  private tokens: StoredTokens | null = null;
+  private userData: UserData | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private refreshPromise: Promise<AuthTokens> | null = null;
+  private refreshHandler: RefreshHandler | null = null;
+  private refreshTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private listeners: SessionListener[] = [];
+
+  // =============== STORAGE ===============
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const credentials = await Keychain.getGenericPassword({ service: KEYCHAIN_SERVICE });
+      if (credentials) {
+        this.tokens = JSON.parse(credentials.password);
+      } else {
+        this.tokens = await this.migrateLegacyTokens();
+      }
+
+      const userData = await AsyncStorage.getItem(STORAGE_KEYS.USER_DATA);
+      this.userData = userData ? JSON.parse(userData) : null;
+    } catch (error) {
+      console.error('[Session] Failed to load session:', error);
+      this.tokens = null;
+      this.userData = null;
+    }
+
+    if (this.tokens) {
+      this.scheduleRefresh(this.tokens.accessExpiresAt);
+    }
+  }
+
+  /**
+   * Older builds kept tokens in AsyncStorage. Move them into the Keychain once.
+   */
+  private async migrateLegacyTokens(): Promise<StoredTokens | null> {
+    const [[, accessToken], [, refreshToken], [, tokenExpiry], [, refreshExpiry]] =
+      await AsyncStorage.multiGet([
+        STORAGE_KEYS.LEGACY_ACCESS_TOKEN,
+        STORAGE_KEYS.LEGACY_REFRESH_TOKEN,
+        STORAGE_KEYS.LEGACY_TOKEN_EXPIRY,
+        STORAGE_KEYS.LEGACY_REFRESH_EXPIRY,
+      ]);
+
+    if (!accessToken || !refreshToken) {
+      return null;
+    }
+
+    const tokens: StoredTokens = {
+      accessToken,
+      refreshToken,
+      accessExpiresAt: Number(tokenExpiry) || 0,
+      refreshExpiresAt: Number(refreshExpiry) || 0,
+    };
+
+    await this.writeTokens(tokens);
+    await AsyncStorage.multiRemove([
+      STORAGE_KEYS.LEGACY_ACCESS_TOKEN,
+      STORAGE_KEYS.LEGACY_REFRESH_TOKEN,
+      STORAGE_KEYS.LEGACY_TOKEN_EXPIRY,
+      STORAGE_KEYS.LEGACY_REFRESH_EXPIRY,
+    ]);
+    console.log('[Session] Migrated tokens to secure storage');
+    return tokens;
+  }
+
+  private async writeTokens(tokens: StoredTokens): Promise<void> {
+    await Keychain.setGenericPassword(KEYCHAIN_USERNAME, JSON.stringify(tokens), {
+      service: KEYCHAIN_SERVICE,
+      accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK,
+    });
+  }
+
+  // =============== SESSION LIFECYCLE ===============
+
+  /**
+   * Persist a fresh token pair (login, OTP verification or refresh)
+   */
+  async startSession(authData: AuthTokens): Promise<void> {
+    await this.load();
+    const isRefresh = this.tokens !== null;
+
+    const now = Date.now();
+    const parsedExpiresAt = authData.expiresAt ? new Date(authData.expiresAt).getTime() : NaN;
+    const parsedRefreshExpiresAt = authData.refreshExpiresAt ? new Date(authData.refreshExpiresAt).getTime() : NaN;
+
+    const tokens: StoredTokens = {
+      accessToken: authData.accessToken,
+      refreshToken: authData.refreshToken,
+      accessExpiresAt: Number.isFinite(parsedExpiresAt) ? parsedExpiresAt : now + authData.expiresIn * 1000,
+      refreshExpiresAt: Number.isFinite(parsedRefreshExpiresAt)
+        ? parsedRefreshExpiresAt
+        : now + authData.refreshExpiresIn * 1000,
+    };
+
+    const userData: UserData = {
+      userId: authData.userId,
+      username: authData.username,
+      email: authData.email,
+      role: authData.role,
+      location: authData.location,
+      emailVerified: authData.emailVerified,
+      verifiedDealer: authData.verifiedDealer,
+    };
+
+    try {
+      await this.writeTokens(tokens);
+      await AsyncStorage.setItem(STORAGE_KEYS.USER_DATA, JSON.stringify(userData));
+    } catch (error) {
+      console.error('[Session] Failed to save session:', error);
+      throw new Error('Failed to save authentication data');
+    }
+
+    this.tokens = tokens;
+    this.userData = userData;
+    this.scheduleRefresh(tokens.accessExpiresAt);
+    this.emit({ type: isRefresh ? 'refreshed' : 'started', user: userData });
+  }
+
+  /**
+   * Clear the session everywhere. Safe to call more than once.
+   */
+  async endSession(reason: SessionEndReason = 'LOGOUT'): Promise<void> {
+    await this.load();
+    this.clearRefreshTimer();
+    const hadSession = this.tokens !== null || this.userData !== null;
+
+    this.tokens = null;
+    this.userData = null;
+
+    try {
+      await Keychain.resetGenericPassword({ service: KEYCHAIN_SERVICE });
+      await AsyncStorage.removeItem(STORAGE_KEYS.USER_DATA);
+    } catch (error) {
+      console.error('[Session] Failed to clear session:', error);
+    }
+
+    if (hadSession) {
+      this.emit({ type: 'ended', reason });
+    }
+  }
+
+  async updateUserData(updates: Partial<UserData>): Promise<void> {
+    await this.load();
+    if (!this.userData) return;
+    this.userData = { ...this.userData, ...updates };
+    await AsyncStorage.setItem(STORAGE_KEYS.USER_DATA, JSON.stringify(this.userData));
+  }
+
+  // =============== ACCESSORS ===============
+
+  async getAccessToken(): Promise<string | null> {
+    await this.load();
+    return this.tokens?.accessToken ?? null;
+  }
+
+  async getUserData(): Promise<UserData | null> {
+    await this.load();
+    return this.userData;
+  }
+
+  async hasSession(): Promise<boolean> {
+    await this.load();
+    return this.tokens !== null;
+  }
+
+  // =============== REFRESH ===============
+
+  setRefreshHandler(handler: RefreshHandler): void {
+    this.refreshHandler = handler;
+  }
+
+  /**
+   * Refresh the access token. Concurrent callers share the same request.
+   * A rejected refresh token ends the session; transient failures keep the
+   * tokens and try again later.
+   */
+  refresh(): Promise<AuthTokens> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<AuthTokens> {
+    await this.load();
+
+    if (!this.refreshHandler) {
+      throw new Error('Session refresh handler not configured');
+    }
+
+    const tokens = this.tokens;
+    if (!tokens || Date.now() >= tokens.refreshExpiresAt) {
+      await this.endSession('EXPIRED');
+      throw new Error('Refresh token expired');
+    }
+
+    try {
+      const authData = await this.refreshHandler(tokens.refreshToken);
+      await this.startSession(authData);
+      return authData;
+    } catch (error) {
+      if (isRefreshRejected(error)) {
+        await this.endSession('REFRESH_FAILED');
+      } else {
+        console.warn('[Session] Refresh failed, retrying later:', error);
+        this.scheduleRetry();
+      }
+      throw error;
+    }
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimeoutId) {
+      clearTimeout(this.refreshTimeoutId);
+      this.refreshTimeoutId = null;
+    }
+  }
+
+  private scheduleRefresh(accessExpiresAt: number): void {
+    this.clearRefreshTimer();
+
+    const msUntilExpiry = accessExpiresAt - Date.now();
+    const delay = msUntilExpiry <= 0
+      ? 0
+      : Math.max(msUntilExpiry - REFRESH_LEAD_TIME_MS, MIN_REFRESH_DELAY_MS);
+
+    this.refreshTimeoutId = setTimeout(() => {
+      this.proactiveRefresh().catch(() => undefined);
+    }, delay);
+  }
+
+  private scheduleRetry(): void {
+    this.clearRefreshTimer();
+    this.refreshTimeoutId = setTimeout(() => {
+      this.proactiveRefresh().catch(() => undefined);
+    }, OFFLINE_RETRY_DELAY_MS);
+  }
+
+  private async proactiveRefresh(): Promise<void> {
+    const netInfo = await NetInfo.fetch().catch(() => null);
+    const isOnline = netInfo?.isConnected === true && netInfo?.isInternetReachable === true;
+
+    if (!isOnline) {
+      this.scheduleRetry();
+      return;
+    }
+
+    await this.refresh();
+  }
+
+  // =============== LISTENERS ===============
+
+  /**
+   * Subscribe to session start/refresh/end. Used for logout fan-out:
+   * WebSocketService, ResponseCache, Apollo and AnalyticsService register here.
+   */
+  addListener(listener: SessionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit(event: SessionEvent): void {
+    this.listeners.forEach(listener => {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch(error => console.warn('[Session] Listener failed:', error));
+    });
+  }
+}
+
+export const sessionManager = new SessionManagerClass();
+export default sessionManager;
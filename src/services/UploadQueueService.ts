@@ -0,0 +1,1197 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { Video } from 'react-native-compressor';
+import ImageResizer from 'react-native-image-resizer';
+import RNFS from 'react-native-fs';
+import { carApi } from './CarApi';
+import apiClient from './ApiClient';
+import { sessionManager } from './SessionManager';
+import { EnvironmentService } from './EnvironmentService';
+import { BackgroundUploadService } from './BackgroundUploadService';
+import { MediaPolicyService, ConnectionQuality } from './MediaPolicyService';
+import { MockBackend, MOCK_UPLOAD_PREFIX } from './mock/MockBackend';
+import type { InitUploadResponse } from './contracts';
+import {
+  createSignedPutTransport,
+  createTusTransport,
+  uploadInChunks,
+  UploadSessionExpiredError,
+} from '../utils/resumableUpload';
+import {
+  validateImage,
+  validateVideo,
+  validateImageCount,
+  validateCarId,
+  sanitizePath,
+  categorizeError,
+  getRetryDelay,
+  withTimeout,
+  getErrorMessage,
+  MAX_RETRIES,
+  COMPRESSION_TIMEOUT_MS,
+  MAX_COMPRESSED_IMAGE_SIZE,
+  MAX_COMPRESSED_VIDEO_SIZE,
+  UploadErrorType,
+} from '../utils/uploadValidation';
+
+// =============== TYPES ===============
+
+export type UploadProtocol = InitUploadResponse['uploadProtocol'];
+
+export interface SelectedImage {
+  uri: string;
+  fileName?: string;
+  type?: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface VideoAsset {
+  uri: string;
+  fileName?: string;
+  type?: string;
+  fileSize?: number;
+  duration?: number;
+}
+
+export type UploadStatus =
+  | 'pending'
+  | 'validating'
+  | 'compressing'
+  | 'uploading'
+  | 'completed'
+  | 'failed'
+  | 'partial'
+  | 'paused';
+
+export interface UploadTask {
+  carId: string;
+  // Shown in the Uploads screen, e.g. "Hyundai Creta"
+  title?: string;
+  status: UploadStatus;
+  progress: number; // 0-100
+  error?: string;
+  errorType?: UploadErrorType;
+  images: SelectedImage[];
+  video: VideoAsset | null;
+  retryCount: number;
+  // Partial success tracking
+  uploadedImageUrls: string[];
+  failedImageIndices: number[];
+  videoUploaded: boolean;
+  // Timestamps
+  startedAt?: number;
+  completedAt?: number;
+  // Upload in progress; kept until the server has every file so it can be resumed
+  session?: UploadSession;
+  // Lost the connection while the app was in the background; retried on return
+  failedInBackground?: boolean;
+  // Set when retrying only the images that failed last time
+  retryImageIndices?: number[];
+  // The photos are published; only the video, held for Wi-Fi, is left
+  videoOnly?: boolean;
+  compression?: CompressionStats;
+}
+
+export interface CompressionStats {
+  originalBytes: number;
+  compressedBytes: number;
+}
+
+export interface UploadSessionFile {
+  uri: string; // Compressed temp copy
+  type: string;
+  name: string;
+  isVideo: boolean;
+  size: number;
+  uploadUrl: string;
+  filePath: string;
+  uploadedBytes: number; // Confirmed by the server
+  status: 'pending' | 'uploaded' | 'failed';
+  imageIndex?: number; // Position in UploadTask.images; unset for the video
+}
+
+export interface UploadSession {
+  sessionId: string;
+  // How the upload URLs take the bytes; sessions saved without one are sent by PUT
+  protocol?: UploadProtocol;
+  files: UploadSessionFile[];
+}
+
+export interface UploadQueueSettings {
+  // Hold uploads while on mobile data
+  pauseOnCellular: boolean;
+}
+
+// Tasks in queue order
+type UploadQueueListener = (tasks: Map<string, UploadTask>) => void;
+
+// =============== CONSTANTS ===============
+
+const PERSISTENCE_KEY = 'car_upload_queue_v2';
+const SETTINGS_KEY = '@carworld_upload_settings';
+
+const DEFAULT_SETTINGS: UploadQueueSettings = {
+  pauseOnCellular: false,
+};
+
+const ACTIVE_STATUSES: UploadStatus[] = ['validating', 'compressing', 'uploading'];
+
+/** Compression quality presets for fallback strategy */
+const COMPRESSION_LEVELS: Record<ConnectionQuality, { width: number; height: number; quality: number }> = {
+  high: { width: 1920, height: 1080, quality: 85 },
+  medium: { width: 1280, height: 720, quality: 70 },
+  low: { width: 1024, height: 576, quality: 60 },
+};
+
+/** Compression levels from best to smallest */
+const LEVEL_ORDER: ConnectionQuality[] = ['high', 'medium', 'low'];
+
+/** Compressed temp copies held by a task's upload session */
+const sessionFileUris = (task?: UploadTask): string[] =>
+  task?.session?.files.map(f => f.uri) ?? [];
+
+/** Size of a picked file, from the picker when it reported one */
+const fileSizeOf = async (uri: string, knownSize?: number): Promise<number> => {
+  if (knownSize) return knownSize;
+  try {
+    return (await RNFS.stat(sanitizePath(uri).replace(/^file:\/\//, ''))).size;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Upload Queue Service - background upload queue for car media (images/videos)
+ *
+ * Features:
+ * - Queue persisted to AsyncStorage; interrupted tasks resume on next launch
+ * - Compression with fallback quality levels, then resumable chunked uploads
+ *   whose confirmed offsets are persisted, so a restart resumes mid-file
+ * - Runs outside React: the in-app UploadQueueProvider and the Android
+ *   headless task drive the same queue, so their state never diverges
+ * - Keeps running in the background via BackgroundUploadService, with a
+ *   progress notification on Android
+ * - Tasks cut off while backgrounded are picked up again on return
+ * - One task at a time in queue order, which the user can rearrange,
+ *   pause, or hold until Wi-Fi
+ * - Follows MediaPolicyService: videos can wait for Wi-Fi while the photos
+ *   go ahead, and compression can start lower on slow connections
+ */
+class UploadQueueServiceClass {
+  private tasks = new Map<string, UploadTask>();
+  private loadPromise: Promise<void> | null = null;
+  private loaded = false;
+  private listeners = new Set<UploadQueueListener>();
+  private processing = new Set<string>();
+  private tempFiles = new Map<string, string[]>();
+  private abortControllers = new Map<string, AbortController>();
+  // Aborted on purpose (pause, background expiry, mobile data); the status to leave them in
+  private interrupted = new Map<string, UploadStatus>();
+  private idleWaiters: Array<() => void> = [];
+  private settings: UploadQueueSettings = DEFAULT_SETTINGS;
+  // Tasks sending their video right now, stopped if the device moves to mobile data
+  private videoInFlight = new Set<string>();
+  // iOS background time ran out; nothing starts until the app is back
+  private heldUntilForeground = false;
+
+  constructor() {
+    BackgroundUploadService.addExpiredListener(() => {
+      this.heldUntilForeground = true;
+      this.interruptAll('pending');
+    });
+    AppState.addEventListener('change', nextState => {
+      if (nextState === 'active' && this.heldUntilForeground) {
+        this.heldUntilForeground = false;
+        this.drain();
+      }
+    });
+    MediaPolicyService.addListener(() => this.applyNetworkPolicy());
+  }
+
+  // =============== STATE ===============
+
+  /**
+   * Read the persisted queue once. Tasks that were mid-way are reset to
+   * pending so `resumePending()` picks them up.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.restore();
+    }
+    return this.loadPromise;
+  }
+
+  private async restore(): Promise<void> {
+    // Nothing may start before the media policy says whether video can go
+    await MediaPolicyService.load();
+
+    try {
+      const storedSettings = await AsyncStorage.getItem(SETTINGS_KEY);
+      if (storedSettings) {
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(storedSettings) };
+      }
+    } catch (error) {
+      console.warn('Failed to load upload settings:', error);
+    }
+
+    try {
+      const json = await AsyncStorage.getItem(PERSISTENCE_KEY);
+      if (json) {
+        const map = new Map<string, UploadTask>(JSON.parse(json));
+        map.forEach((task, carId) => {
+          if (ACTIVE_STATUSES.includes(task.status)) {
+            console.log(`Resuming interrupted upload for car ${carId}`);
+            task.status = 'pending';
+          }
+        });
+        this.tasks = map;
+      }
+    } catch (error) {
+      console.error('Failed to load upload queue:', error);
+    }
+    this.loaded = true;
+    this.emit();
+  }
+
+  private async persist(): Promise<void> {
+    // Don't overwrite the stored queue before it has been read
+    if (!this.loaded) return;
+    try {
+      await AsyncStorage.setItem(PERSISTENCE_KEY, JSON.stringify(Array.from(this.tasks.entries())));
+    } catch (error) {
+      console.error('Failed to save upload queue:', error);
+    }
+  }
+
+  private emit(): void {
+    const snapshot = new Map(this.tasks);
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private setTask(task: UploadTask): void {
+    this.tasks.set(task.carId, task);
+    this.persist();
+    this.emit();
+  }
+
+  private deleteTask(carId: string): void {
+    this.tasks.delete(carId);
+    this.persist();
+    this.emit();
+    this.reportProgress();
+  }
+
+  /**
+   * Update a single task; ignored once it has been cancelled or removed.
+   * Progress alone isn't written to storage: it's recomputed on resume, and
+   * confirmed offsets are saved with the session.
+   */
+  private updateTask(carId: string, updates: Partial<UploadTask>): void {
+    const existing = this.tasks.get(carId);
+    if (!existing) return;
+    const changed = (Object.keys(updates) as Array<keyof UploadTask>).filter(key => updates[key] !== existing[key]);
+    if (changed.length === 0) return;
+
+    const task = { ...existing, ...updates };
+    if (changed.every(key => key === 'progress')) {
+      this.tasks.set(carId, task);
+      this.emit();
+    } else {
+      this.setTask(task);
+    }
+    if (changed.includes('progress')) {
+      this.reportProgress();
+    }
+  }
+
+  getTasks(): Map<string, UploadTask> {
+    return new Map(this.tasks);
+  }
+
+  getTask(carId: string): UploadTask | undefined {
+    return this.tasks.get(carId);
+  }
+
+  getSettings(): UploadQueueSettings {
+    return this.settings;
+  }
+
+  async setPauseOnCellular(pauseOnCellular: boolean): Promise<void> {
+    this.settings = { ...this.settings, pauseOnCellular };
+    try {
+      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save upload settings:', error);
+    }
+    this.applyNetworkPolicy();
+  }
+
+  /**
+   * Queued uploads are held because the device is on mobile data
+   */
+  isWaitingForWifi(): boolean {
+    return this.settings.pauseOnCellular && MediaPolicyService.isOnCellular();
+  }
+
+  /**
+   * Everything the task has left to send is video, held until Wi-Fi
+   */
+  isVideoWaitingForWifi(carId: string): boolean {
+    const task = this.tasks.get(carId);
+    if (!task?.session || task.status !== 'pending' || !MediaPolicyService.shouldHoldVideo()) return false;
+    const unsent = task.session.files.filter(f => f.status !== 'uploaded');
+    return unsent.length > 0 && unsent.every(f => f.isVideo);
+  }
+
+  // =============== QUEUE ===============
+
+  /**
+   * Add a validated task and start processing it
+   */
+  enqueue(task: UploadTask): void {
+    this.setTask(task);
+    // Start processing with slight delay
+    setTimeout(() => this.drain(), 100);
+  }
+
+  /**
+   * Retry a failed task after the backoff delay for its attempt count
+   */
+  retry(carId: string): void {
+    const task = this.tasks.get(carId);
+    if (!task) return;
+
+    const delay = getRetryDelay(task.retryCount);
+    console.log(`Retrying upload ${carId} after ${delay}ms (attempt ${task.retryCount + 1})`);
+
+    this.setTask({
+      ...task,
+      status: 'pending',
+      progress: 0,
+      error: undefined,
+      errorType: undefined,
+      failedInBackground: undefined,
+      retryCount: task.retryCount + 1,
+    });
+
+    setTimeout(() => this.drain(), delay);
+  }
+
+  /**
+   * Upload again only the images that failed last time; what already reached
+   * the server is left alone
+   */
+  retryFailedImages(carId: string): void {
+    const task = this.tasks.get(carId);
+    if (!task || task.failedImageIndices.length === 0 || this.processing.has(carId)) return;
+
+    this.setTask({
+      ...task,
+      status: 'pending',
+      progress: 0,
+      error: undefined,
+      errorType: undefined,
+      failedInBackground: undefined,
+      session: undefined,
+      retryImageIndices: task.failedImageIndices,
+    });
+    this.drain();
+  }
+
+  /**
+   * Hold a task; an upload in flight keeps its confirmed chunks for resume()
+   */
+  pause(carId: string): void {
+    const task = this.tasks.get(carId);
+    if (!task) return;
+
+    const controller = this.abortControllers.get(carId);
+    if (controller) {
+      this.interrupted.set(carId, 'paused');
+      controller.abort();
+    } else if (task.status === 'pending') {
+      this.updateTask(carId, { status: 'paused' });
+    }
+  }
+
+  resume(carId: string): void {
+    if (this.tasks.get(carId)?.status !== 'paused') return;
+    this.updateTask(carId, { status: 'pending' });
+    this.drain();
+  }
+
+  /**
+   * Move a task `offset` places up (negative) or down the queue
+   */
+  move(carId: string, offset: number): void {
+    const order = Array.from(this.tasks.keys());
+    const from = order.indexOf(carId);
+    if (from === -1) return;
+    const to = Math.max(0, Math.min(order.length - 1, from + offset));
+    if (to === from) return;
+
+    order.splice(from, 1);
+    order.splice(to, 0, carId);
+    this.tasks = new Map(order.map(id => [id, this.tasks.get(id)!]));
+    this.persist();
+    this.emit();
+  }
+
+  /**
+   * Cancel an in-progress upload and drop it from the queue
+   */
+  cancel(carId: string): void {
+    this.abortControllers.get(carId)?.abort();
+    this.remove(carId);
+  }
+
+  /**
+   * Remove a task from the queue, deleting its temp files
+   */
+  remove(carId: string): void {
+    const sessionFiles = sessionFileUris(this.tasks.get(carId));
+    this.processing.delete(carId);
+    this.deleteTask(carId);
+    this.cleanupTempFiles(carId, sessionFiles);
+    this.syncBackgroundRunner();
+  }
+
+  /**
+   * Continue the queue, retrying tasks that lost their connection while the
+   * app was in the background
+   */
+  resumePending(): void {
+    this.tasks.forEach((task, carId) => {
+      if (task.status === 'failed' && task.failedInBackground && task.retryCount < MAX_RETRIES) {
+        this.retry(carId);
+      }
+    });
+    this.drain();
+  }
+
+  /**
+   * Start the first pending task in queue order, if nothing is running
+   */
+  private drain(): void {
+    if (!this.loaded || this.processing.size > 0 || this.heldUntilForeground || this.isWaitingForWifi()) return;
+
+    for (const task of this.tasks.values()) {
+      if (task.status === 'pending' && !this.isVideoWaitingForWifi(task.carId)) {
+        this.processUpload(task);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Entry point for the Android headless task: resume the persisted queue and
+   * resolve once nothing is left to upload
+   */
+  async runUntilIdle(): Promise<void> {
+    // Cold start from the foreground service: the app hasn't read its settings
+    if (!this.loadPromise) {
+      await Promise.all([EnvironmentService.init(), MockBackend.init()]);
+    }
+    await this.load();
+    this.resumePending();
+
+    if (this.processing.size === 0) return;
+    await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+  }
+
+  addListener(listener: UploadQueueListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener(new Map(this.tasks)));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // =============== BACKGROUND ===============
+
+  /**
+   * Keep the background runner alive exactly while something is processing
+   */
+  private syncBackgroundRunner(): void {
+    if (this.processing.size > 0) {
+      BackgroundUploadService.start();
+      this.reportProgress();
+      return;
+    }
+
+    BackgroundUploadService.stop();
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private reportProgress(): void {
+    if (this.processing.size === 0) return;
+    let total = 0;
+    this.processing.forEach(carId => {
+      total += this.tasks.get(carId)?.progress ?? 0;
+    });
+    BackgroundUploadService.updateProgress(this.processing.size, total / this.processing.size);
+  }
+
+  /**
+   * Stop the requests in flight cleanly, leaving the tasks in `status`.
+   * Used when iOS is about to suspend the app and when switching to mobile data.
+   */
+  private interruptAll(status: UploadStatus): void {
+    this.abortControllers.forEach((controller, carId) => {
+      this.interrupted.set(carId, status);
+      controller.abort();
+    });
+  }
+
+  private applyNetworkPolicy(): void {
+    if (this.isWaitingForWifi()) {
+      this.interruptAll('pending');
+    } else {
+      if (MediaPolicyService.shouldHoldVideo()) {
+        // Keeps the chunks already sent; continues on Wi-Fi
+        this.videoInFlight.forEach(carId => {
+          this.interrupted.set(carId, 'pending');
+          this.abortControllers.get(carId)?.abort();
+        });
+      }
+      this.drain();
+    }
+    this.emit();
+  }
+
+  // =============== TEMP FILES ===============
+
+  /**
+   * Cleanup temporary files for a specific car upload, plus any `extraFiles`
+   * (compressed files of an upload session restored from storage)
+   */
+  private async cleanupTempFiles(carId: string, extraFiles: string[] = []): Promise<void> {
+    await this.deleteFiles(new Set([...(this.tempFiles.get(carId) || []), ...extraFiles]));
+    this.tempFiles.delete(carId);
+  }
+
+  /**
+   * Delete local files, skipping any that are already gone
+   */
+  private async deleteFiles(files: Iterable<string>): Promise<void> {
+    for (const filePath of files) {
+      try {
+        const cleanPath = filePath.replace(/^file:\/\//, '');
+        const exists = await RNFS.exists(cleanPath);
+        if (exists) {
+          await RNFS.unlink(cleanPath);
+          console.log('Cleaned up temp file:', cleanPath);
+        }
+      } catch (error) {
+        console.warn('Failed to cleanup temp file:', filePath, error);
+      }
+    }
+  }
+
+  /**
+   * Track a temporary file for later cleanup
+   */
+  private trackTempFile(carId: string, filePath: string): void {
+    const existing = this.tempFiles.get(carId) || [];
+    this.tempFiles.set(carId, [...existing, filePath]);
+  }
+
+  // =============== PIPELINE ===============
+
+  /**
+   * Compress a single image with fallback quality levels, starting from the
+   * level the media policy allows for the current connection
+   */
+  private async compressImageWithFallback(
+    image: SelectedImage,
+    index: number,
+    carId: string,
+  ): Promise<SelectedImage | null> {
+    const levels = LEVEL_ORDER.slice(LEVEL_ORDER.indexOf(MediaPolicyService.getCompressionLevel()));
+
+    for (const level of levels) {
+      const config = COMPRESSION_LEVELS[level];
+      try {
+        const sanitizedUri = sanitizePath(image.uri);
+
+        const resized = await ImageResizer.createResizedImage(
+          sanitizedUri,
+          config.width,
+          config.height,
+          'JPEG',
+          config.quality,
+          0,
+          undefined,
+          false
+        );
+
+        // Verify the compressed file
+        const cleanUri = resized.uri.replace(/^file:\/\//, '');
+        const stat = await RNFS.stat(cleanUri);
+
+        // Track for cleanup
+        this.trackTempFile(carId, resized.uri);
+
+        // Check if size is acceptable
+        if (stat.size <= MAX_COMPRESSED_IMAGE_SIZE) {
+          console.log(`Image ${index} compressed at ${level} quality: ${(stat.size / 1024).toFixed(0)}KB`);
+          return {
+            uri: resized.uri,
+            fileName: resized.name || `image_${Date.now()}_${index}.jpg`,
+            type: 'image/jpeg',
+            fileSize: stat.size,
+            width: resized.width,
+            height: resized.height,
+          };
+        }
+
+        console.log(`Image ${index} at ${level} quality still too large (${(stat.size / 1024).toFixed(0)}KB), trying lower quality`);
+      } catch (error) {
+        console.warn(`Image ${index} compression at ${level} quality failed:`, error);
+      }
+    }
+
+    console.error(`Image ${index} failed all compression attempts`);
+    return null;
+  }
+
+  /**
+   * Compress all images with progress tracking
+   */
+  private async compressImages(
+    images: SelectedImage[],
+    carId: string,
+    onProgress: (progress: number) => void
+  ): Promise<{ compressed: SelectedImage[]; failedIndices: number[] }> {
+    const compressed: SelectedImage[] = [];
+    const failedIndices: number[] = [];
+    const totalImages = images.length;
+
+    for (let i = 0; i < images.length; i++) {
+      const image = images[i];
+
+      // Validate image before compression
+      const validation = validateImage(image);
+      if (!validation.valid) {
+        console.warn(`Skipping invalid image ${i}: ${validation.error}`);
+        failedIndices.push(i);
+        onProgress(((i + 1) / totalImages) * 100);
+        continue;
+      }
+
+      const result = await this.compressImageWithFallback(image, i, carId);
+      if (result) {
+        compressed.push(result);
+      } else {
+        failedIndices.push(i);
+      }
+
+      onProgress(((i + 1) / totalImages) * 100);
+    }
+
+    return { compressed, failedIndices };
+  }
+
+  /**
+   * Compress video with fallback strategy
+   */
+  private async compressVideo(
+    video: VideoAsset,
+    carId: string,
+    onProgress: (progress: number) => void
+  ): Promise<VideoAsset | null> {
+    // Validate video first
+    const validation = validateVideo(video);
+    if (!validation.valid) {
+      console.error('Video validation failed:', validation.error);
+      throw new Error(validation.error);
+    }
+
+
+    const sanitizedUri = sanitizePath(video.uri);
+    const timestamp = Date.now();
+
+    // Try high quality first, then lower
+    const qualityPresets = [
+      { crf: 28, preset: 'fast', scale: 1280 },      // High quality
+      { crf: 30, preset: 'veryfast', scale: 1024 },  // Medium quality
+      { crf: 32, preset: 'ultrafast', scale: 854 },  // Low quality
+    ];
+
+    // Slower connections skip the presets they couldn't upload in reasonable time
+    const firstPreset = LEVEL_ORDER.indexOf(MediaPolicyService.getCompressionLevel());
+
+    for (let i = firstPreset; i < qualityPresets.length; i++) {
+      const { crf, preset, scale } = qualityPresets[i];
+      const outputPath = `${RNFS.CachesDirectoryPath}/video_${timestamp}_q${i}.mp4`;
+
+      try {
+        try {
+          // Map presets to react-native-compressor options
+          // High: 1080p, higher bitrate
+          // Medium: 720p, medium bitrate
+          // Low: 480p, lower bitrate
+
+          let compressConfig: any = {};
+
+          if (i === 0) { // High
+            compressConfig = {
+              compressionMethod: 'manual',
+              maxWidth: 1920,
+              maxHeight: 1080,
+              bitrate: 4000000, // 4Mbps
+            };
+          } else if (i === 1) { // Medium 
+            compressConfig = {
+              compressionMethod: 'manual',
+              maxWidth: 1280,
+              maxHeight: 720,
+              bitrate: 2000000, // 2Mbps
+            };
+          } else { // Low
+            compressConfig = {
+              compressionMethod: 'manual',
+              maxWidth: 854,
+              maxHeight: 480,
+              bitrate: 1000000, // 1Mbps
+            };
+          }
+
+          console.log(`Attempting video compression with preset ${i + 1}/${qualityPresets.length}`);
+
+          // react-native-compressor returns the file path on success
+          const compressedUri = await withTimeout(
+            Video.compress(
+              video.uri,
+              compressConfig,
+              (progress) => {
+                // progress is 0-1
+                onProgress(((i / qualityPresets.length) * 50) + (progress * (50 / qualityPresets.length)));
+              }
+            ),
+            COMPRESSION_TIMEOUT_MS,
+            'Video compression'
+          );
+
+          if (compressedUri) {
+            const cleanPath = compressedUri.replace('file://', '');
+            const stat = await RNFS.stat(cleanPath);
+
+            // STRICT VALIDATION: Check if compressed size is within limits (70MB)
+            if (stat.size > MAX_COMPRESSED_VIDEO_SIZE) {
+              console.log(`Video preset ${i + 1} produced ${stat.size} bytes, exceeding limit ${MAX_COMPRESSED_VIDEO_SIZE}. Trying lower quality.`);
+              await RNFS.unlink(cleanPath).catch(() => { });
+              onProgress(((i + 1) / qualityPresets.length) * 50);
+              continue;
+            }
+
+            const finalUri = `file://${cleanPath}`;
+
+            this.trackTempFile(carId, finalUri);
+            onProgress(100);
+
+            console.log(`Video compressed successfully at quality level ${i + 1}: ${(stat.size / (1024 * 1024)).toFixed(1)}MB`);
+
+            return {
+              uri: finalUri,
+              fileName: `video_${timestamp}.mp4`,
+              type: 'video/mp4',
+              fileSize: stat.size,
+              duration: video.duration,
+            };
+          }
+        } catch (error) {
+          console.warn(`Video compression attempt ${i + 1} failed:`, error);
+
+        }
+      } catch (error) {
+        console.warn(`Video compression attempt ${i + 1} failed:`, error);
+        // Clean up failed output file
+        try {
+          await RNFS.unlink(outputPath);
+        } catch { }
+      }
+
+      onProgress(((i + 1) / qualityPresets.length) * 50);
+    }
+
+    console.error('Video compression failed at all quality levels');
+    return null;
+  }
+
+  /**
+   * Chunk transport for one file of an upload session
+   */
+  private async createFileTransport(file: UploadSessionFile, protocol: UploadProtocol | undefined, signal: AbortSignal) {
+    // Upload URLs from the mock backend are not reachable over the network
+    if (__DEV__ && file.uploadUrl.startsWith(MOCK_UPLOAD_PREFIX)) {
+      return MockBackend.createUploadTransport(file.uploadUrl, file.uri, file.size);
+    }
+
+    // Prepare token if needed (for backend URLs that aren't pre-signed S3/GCS)
+    let authToken: string | null = null;
+
+    // Check if URL is for our backend
+    const url = file.uploadUrl;
+    const isBackendUrl = url.startsWith('/') || url.includes(apiClient.getBaseUrl()) || !url.startsWith('http');
+
+    if (isBackendUrl) {
+      try {
+        authToken = await sessionManager.getAccessToken();
+      } catch (e) {
+        console.warn('Failed to get token for upload', e);
+      }
+    }
+
+    return protocol === 'tus'
+      ? createTusTransport(url, file.uri, { authToken, signal })
+      : createSignedPutTransport(url, file, { authToken, signal });
+  }
+
+  /**
+   * Open an upload session on the server for the given files
+   */
+  private async openUploadSession(
+    carId: string,
+    files: Pick<UploadSessionFile, 'uri' | 'type' | 'name' | 'isVideo' | 'size' | 'imageIndex'>[]
+  ): Promise<UploadSession> {
+    const { sessionId, uploadUrls, filePaths, uploadProtocol } = await carApi.initMediaUpload({
+      carId: Number(carId),
+      fileNames: files.map(f => f.name),
+      contentTypes: files.map(f => f.type),
+    });
+
+    return {
+      sessionId,
+      protocol: uploadProtocol,
+      files: files.map((file, i) => ({
+        ...file,
+        uploadUrl: uploadUrls[i],
+        filePath: filePaths[i],
+        uploadedBytes: 0,
+        status: 'pending',
+      })),
+    };
+  }
+
+  /**
+   * A saved session can be resumed while the compressed files it still has
+   * to send are on disk
+   */
+  private async canResumeSession(session: UploadSession): Promise<boolean> {
+    for (const file of session.files) {
+      if (file.status === 'uploaded') continue;
+      if (!(await RNFS.exists(file.uri.replace(/^file:\/\//, '')))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Publish the photos already sent and move the video into a session of its
+   * own, so the listing doesn't wait for Wi-Fi to show them
+   */
+  private async holdVideoForWifi(carId: string, session: UploadSession): Promise<UploadSession> {
+    const uploaded = session.files.filter(f => f.status === 'uploaded');
+    // Only the video was in this session; nothing to publish
+    if (uploaded.length === 0) return session;
+
+    await carApi.completeMediaProcessing({
+      carId: Number(carId),
+      sessionId: session.sessionId,
+      success: true,
+      uploadedFilePaths: uploaded.map(f => f.filePath),
+    });
+    await this.deleteFiles(uploaded.map(f => f.uri));
+
+    const videoSession = await this.openUploadSession(carId, session.files.filter(f => f.status !== 'uploaded'));
+    this.updateTask(carId, { session: videoSession });
+    return videoSession;
+  }
+
+  /**
+   * Process a single upload task with comprehensive error handling
+   */
+  private async processUpload(task: UploadTask) {
+    const { carId, images, video } = task;
+
+    // Prevent duplicate processing
+    if (this.processing.has(carId)) {
+      console.log(`Task ${carId} is already being processed`);
+      return;
+    }
+    this.processing.add(carId);
+
+    // Create abort controller for this task
+    const abortController = new AbortController();
+    this.abortControllers.set(carId, abortController);
+    this.syncBackgroundRunner();
+
+    let session: UploadSession | undefined;
+
+    try {
+      // Phase 0: Validation (0-5%)
+      this.updateTask(carId, { status: 'validating', progress: 0, startedAt: Date.now() });
+
+      // Validate carId
+      const carIdValidation = validateCarId(carId);
+      if (!carIdValidation.valid) {
+        throw new Error(carIdValidation.error);
+      }
+
+      // Validate image count
+      const countValidation = validateImageCount(images.length);
+      if (!countValidation.valid) {
+        throw new Error(countValidation.error);
+      }
+
+      this.updateTask(carId, { progress: 5 });
+
+      let failedImageIndices = task.failedImageIndices;
+      // Everything, just the images that failed last time, or none once they are published
+      const imageIndices = task.videoOnly ? [] : task.retryImageIndices ?? images.map((_, i) => i);
+
+      if (task.session && await this.canResumeSession(task.session)) {
+        // Compressed files and upload URLs from the interrupted attempt
+        console.log(`Resuming upload session ${task.session.sessionId} for car ${carId}`);
+        session = task.session;
+      } else {
+        if (task.session) {
+          this.updateTask(carId, { session: undefined });
+        }
+
+        // Phase 1: Compression (5-50%)
+        this.updateTask(carId, { status: 'compressing', progress: 5 });
+
+        let compressedImages: SelectedImage[] = [];
+        let compressedImageIndices: number[] = [];
+        let compressedVideo: VideoAsset | null = null;
+        if (!task.videoOnly) {
+          failedImageIndices = [];
+        }
+
+        // Compress images (5-35%)
+        if (imageIndices.length > 0) {
+          const result = await this.compressImages(imageIndices.map(i => images[i]), carId, (p) => {
+            this.updateTask(carId, { progress: 5 + Math.floor(p * 0.3) });
+          });
+          compressedImages = result.compressed;
+          failedImageIndices = result.failedIndices.map(k => imageIndices[k]);
+          compressedImageIndices = imageIndices.filter(i => !failedImageIndices.includes(i));
+        }
+
+        // Compress video (35-50%); it went up with the first attempt when retrying images
+        if (video && !task.retryImageIndices) {
+          try {
+            compressedVideo = await this.compressVideo(video, carId, (p) => {
+              this.updateTask(carId, { progress: 35 + Math.floor(p * 0.15) });
+            });
+          } catch (videoError: any) {
+            console.error('Video compression failed:', videoError);
+            // Continue with images only - video is optional
+          }
+        }
+
+        this.updateTask(carId, { progress: 50, failedImageIndices });
+
+        // Check if we have anything to upload
+        if (compressedImages.length === 0 && !compressedVideo) {
+          throw new Error('No media could be processed successfully');
+        }
+
+        const allFiles = [
+          ...compressedImages.map((img, idx) => ({
+            uri: img.uri,
+            type: img.type || 'image/jpeg',
+            name: img.fileName || `image_${idx}.jpg`,
+            isVideo: false,
+            imageIndex: compressedImageIndices[idx],
+          })),
+          ...(compressedVideo ? [{
+            uri: compressedVideo.uri,
+            type: compressedVideo.type || 'video/mp4',
+            name: compressedVideo.fileName || 'video.mp4',
+            isVideo: true,
+          }] : []),
+        ];
+
+        const filesWithSize = await Promise.all(allFiles.map(async file => ({
+          ...file,
+          size: (await RNFS.stat(file.uri.replace(/^file:\/\//, ''))).size,
+        })));
+
+        // Compression savings for the Uploads screen, over what is being sent
+        const originalSizes = await Promise.all([
+          ...compressedImageIndices.map(i => fileSizeOf(images[i].uri, images[i].fileSize)),
+          ...(compressedVideo && video ? [fileSizeOf(video.uri, video.fileSize)] : []),
+        ]);
+        const compression: CompressionStats = {
+          originalBytes: originalSizes.reduce((sum, size) => sum + size, 0),
+          compressedBytes: filesWithSize.reduce((sum, f) => sum + f.size, 0),
+        };
+        if ((task.retryImageIndices || task.videoOnly) && task.compression) {
+          compression.originalBytes += task.compression.originalBytes;
+          compression.compressedBytes += task.compression.compressedBytes;
+        }
+
+        // Compression can't be interrupted; stop here if paused or cancelled meanwhile
+        if (abortController.signal.aborted) {
+          throw new Error('Upload cancelled');
+        }
+
+        // Saved with the task, so an app restart picks up from here
+        session = await this.openUploadSession(carId, filesWithSize);
+        this.updateTask(carId, { session, compression });
+      }
+
+      // Phase 2: Upload (50-95%)
+      this.updateTask(carId, { status: 'uploading', progress: 50 });
+
+      const totalBytes = session.files.reduce((sum, f) => sum + f.size, 0) || 1;
+      let sessionReopened = false;
+      let videoHeld = false;
+
+      const saveFile = (index: number, updates: Partial<UploadSessionFile>) => {
+        const current: UploadSession = session!;
+        session = {
+          ...current,
+          files: current.files.map((f, i) => (i === index ? { ...f, ...updates } : f)),
+        };
+        this.updateTask(carId, { session });
+      };
+
+      for (let i = 0; i < session.files.length; i++) {
+        const file = session.files[i];
+        if (file.status === 'uploaded') continue;
+
+        if (file.isVideo && MediaPolicyService.shouldHoldVideo()) {
+          session = await this.holdVideoForWifi(carId, session);
+          videoHeld = true;
+          break;
+        }
+
+        // Bytes of the files before this one
+        const bytesBefore = session.files.slice(0, i).reduce((sum, f) => sum + f.size, 0);
+
+        try {
+          if (file.isVideo) this.videoInFlight.add(carId);
+          const transport = await this.createFileTransport(file, session.protocol, abortController.signal);
+          await uploadInChunks(transport, {
+            size: file.size,
+            startOffset: file.uploadedBytes,
+            signal: abortController.signal,
+            onProgress: (bytes) => {
+              const globalProgress = 50 + ((bytesBefore + bytes) / totalBytes) * 45;
+              this.updateTask(carId, { progress: Math.min(95, Math.floor(globalProgress)) });
+            },
+            onChunkConfirmed: (bytes) => saveFile(i, { uploadedBytes: bytes }),
+          });
+
+          saveFile(i, { uploadedBytes: file.size, status: 'uploaded' });
+          if (file.isVideo) {
+            this.updateTask(carId, { videoUploaded: true });
+          }
+        } catch (err) {
+          if (!(err instanceof UploadSessionExpiredError) || sessionReopened) {
+            console.error(`Failed to upload ${file.name}`, err);
+            throw err;
+          }
+
+          // Upload URLs are no longer valid; start over once with a fresh session
+          console.warn(`Upload session ${session.sessionId} expired, opening a new one`);
+          sessionReopened = true;
+          session = await this.openUploadSession(carId, session.files);
+          this.updateTask(carId, { session });
+          i = -1;
+        } finally {
+          this.videoInFlight.delete(carId);
+        }
+      }
+
+      if (videoHeld) {
+        // Photos are live; the task waits in the queue until Wi-Fi
+        console.log(`Video for car ${carId} held until Wi-Fi`);
+        this.updateTask(carId, { status: 'pending', session, retryImageIndices: undefined, videoOnly: true });
+        return;
+      }
+
+      // Phase 3: Complete Processing (95-100%)
+      const uploadedFilePaths = session.files.map(f => f.filePath);
+
+      await carApi.completeMediaProcessing({
+        carId: Number(carId),
+        sessionId: session.sessionId,
+        success: true,
+        uploadedFilePaths,
+      });
+
+      // Determine final status
+      const hasFailures = failedImageIndices.length > 0;
+      const finalStatus: UploadStatus = hasFailures ? 'partial' : 'completed';
+
+      this.updateTask(carId, {
+        status: finalStatus,
+        progress: 100,
+        completedAt: Date.now(),
+        uploadedImageUrls: [], // backend will set these
+        videoUploaded: task.videoUploaded || session.files.some(f => f.isVideo),
+        session: undefined,
+        retryImageIndices: undefined,
+        videoOnly: undefined,
+      });
+
+      // Nothing left to resume
+      await this.cleanupTempFiles(carId, session.files.map(f => f.uri));
+      session = undefined;
+
+      if (hasFailures) {
+        console.log(`Upload completed with partial success.`);
+      } else {
+        console.log(`Upload completed successfully for car ${carId}`);
+      }
+
+    } catch (error: any) {
+      const interruptedStatus = this.interrupted.get(carId);
+      if (interruptedStatus) {
+        console.log(`Upload for car ${carId} interrupted, now ${interruptedStatus}`);
+        this.updateTask(carId, { status: interruptedStatus });
+        return;
+      }
+
+      console.error('Upload processing failed:', error);
+      const errorType = categorizeError(error);
+      const userMessage = getErrorMessage(errorType);
+
+      this.updateTask(carId, {
+        status: 'failed',
+        error: error.message || userMessage,
+        errorType,
+        completedAt: Date.now(),
+        failedInBackground: AppState.currentState !== 'active' && (errorType === 'network' || errorType === 'timeout'),
+      });
+    } finally {
+      this.processing.delete(carId);
+      this.abortControllers.delete(carId);
+      this.interrupted.delete(carId);
+
+      if (session) {
+        // Keep the compressed files so a retry or restart resumes the session
+        this.tempFiles.delete(carId);
+      } else {
+        // Cleanup temporary files
+        await this.cleanupTempFiles(carId);
+      }
+      // Next in line, before the background runner sees an empty queue
+      this.drain();
+      this.syncBackgroundRunner();
+    }
+  }
+}
+
+export const UploadQueueService = new UploadQueueServiceClass();
+export default UploadQueueService;
@@ -0,0 +1,242 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiClient, ApiError, NetworkError } from './ApiClient';
+import { carApi } from './CarApi';
+import { sessionManager } from './SessionManager';
+import { AnalyticsService } from './AnalyticsService';
+import type { Vehicle, WatchlistEntry } from './contracts';
+
+// =============== TYPES ===============
+
+type PendingChange = 'add' | 'remove';
+
+interface StoredWatchlist {
+  entries: WatchlistEntry[];
+  // Local changes not yet accepted by the server, keyed by car id
+  pending: Record<string, PendingChange>;
+  syncedAt: number | null;
+}
+
+export interface WatchlistSnapshot {
+  entries: WatchlistEntry[];
+  pendingCount: number;
+  syncedAt: number | null;
+}
+
+type WatchlistListener = (snapshot: WatchlistSnapshot) => void;
+
+// =============== CONSTANTS ===============
+
+const STORAGE_KEY = '@carworld_watchlist';
+
+const EMPTY: StoredWatchlist = { entries: [], pending: {}, syncedAt: null };
+
+/**
+ * Watchlist Service - cars the user saved ("hearted")
+ *
+ * Features:
+ * - Persisted locally, so Saved Cars and heart states work offline
+ * - Saves/unsaves apply immediately and are pushed when the server is reachable
+ * - Server copy wins on sync, except for changes still waiting to be pushed
+ * - Cleared when the session ends; the list belongs to the signed-in user
+ */
+class WatchlistServiceClass {
+  private state: StoredWatchlist = EMPTY;
+  private loaded = false;
+  private syncing: Promise<void> | null = null;
+  private listeners: WatchlistListener[] = [];
+  // Bumped by clear() so a sync already in flight drops its results
+  private generation = 0;
+
+  constructor() {
+    sessionManager.addListener((event) => {
+      if (event.type === 'ended') {
+        return this.clear();
+      }
+    });
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    const generation = this.generation;
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      // Cleared while reading; the stored list belonged to the previous user
+      if (generation !== this.generation) return;
+      this.state = stored ? { ...EMPTY, ...JSON.parse(stored) } : EMPTY;
+    } catch (error) {
+      console.warn('[Watchlist] Failed to load:', error);
+      this.state = EMPTY;
+    }
+    this.loaded = true;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('[Watchlist] Failed to persist:', error);
+    }
+    this.emit();
+  }
+
+  private snapshot(): WatchlistSnapshot {
+    return {
+      entries: [...this.state.entries],
+      pendingCount: Object.keys(this.state.pending).length,
+      syncedAt: this.state.syncedAt,
+    };
+  }
+
+  private emit(): void {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  async getAll(): Promise<WatchlistEntry[]> {
+    await this.load();
+    return [...this.state.entries];
+  }
+
+  async isWatched(carId: string): Promise<boolean> {
+    await this.load();
+    return this.state.entries.some(entry => entry.carId === String(carId));
+  }
+
+  async add(car: Vehicle): Promise<void> {
+    await this.load();
+    const carId = String(car.id);
+    if (!this.state.entries.some(entry => entry.carId === carId)) {
+      const entry: WatchlistEntry = { carId, savedAt: new Date().toISOString(), savedPrice: car.price, car };
+      this.state = {
+        ...this.state,
+        entries: [entry, ...this.state.entries],
+        pending: { ...this.state.pending, [carId]: 'add' },
+      };
+      await this.persist();
+    }
+    AnalyticsService.trackCarSave(carId, true);
+    this.sync();
+  }
+
+  async remove(carId: string): Promise<void> {
+    await this.load();
+    const id = String(carId);
+    this.state = {
+      ...this.state,
+      entries: this.state.entries.filter(entry => entry.carId !== id),
+      pending: { ...this.state.pending, [id]: 'remove' },
+    };
+    await this.persist();
+    AnalyticsService.trackCarSave(id, false);
+    this.sync();
+  }
+
+  /**
+   * Save or unsave; resolves to the new saved state
+   */
+  async toggle(car: Vehicle): Promise<boolean> {
+    if (await this.isWatched(String(car.id))) {
+      await this.remove(String(car.id));
+      return false;
+    }
+    await this.add(car);
+    return true;
+  }
+
+  /**
+   * Push local changes, then pull the server list. Single-flight; a no-op offline.
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSyncs()
+        .catch((error) => {
+          console.log('[Watchlist] Sync paused:', error?.message);
+        })
+        .finally(() => {
+          this.syncing = null;
+        });
+    }
+    return this.syncing;
+  }
+
+  // Saves and unsaves made during a pass join it without being pushed, so go round again
+  private async runSyncs(): Promise<void> {
+    let again = true;
+    while (again) {
+      again = await this.runSync();
+    }
+  }
+
+  /**
+   * One push and pull; true when changes made meanwhile are still waiting to be pushed
+   */
+  private async runSync(): Promise<boolean> {
+    await this.load();
+    const generation = this.generation;
+    if (!(await sessionManager.hasSession()) || !(await apiClient.isNetworkAvailable())) {
+      return false;
+    }
+
+    for (const [carId, change] of Object.entries(this.state.pending)) {
+      try {
+        if (change === 'add') {
+          await carApi.watchVehicle(carId);
+        } else {
+          await carApi.unwatchVehicle(carId);
+        }
+      } catch (error) {
+        const neverReachedServer =
+          error instanceof NetworkError || (error instanceof ApiError && (error.status === 0 || error.status >= 500));
+        if (neverReachedServer || !(error instanceof ApiError)) {
+          // Keep this and later changes for the next attempt
+          throw error;
+        }
+        // Rejected (e.g. the car was deleted) - the server list below is the truth
+        console.warn(`[Watchlist] Dropping ${change} for car ${carId}:`, error.message);
+      }
+      if (generation !== this.generation) return false;
+      // The user may have flipped this car again while the request was out
+      if (this.state.pending[carId] === change) {
+        const { [carId]: _done, ...rest } = this.state.pending;
+        this.state = { ...this.state, pending: rest };
+      }
+    }
+
+    const remote = await carApi.getWatchlist();
+    if (generation !== this.generation) return false;
+    // Anything pushed while we were fetching is still pending and wins
+    const pending = this.state.pending;
+    const localAdds = this.state.entries.filter(entry => pending[entry.carId] === 'add');
+    const entries = [
+      ...localAdds,
+      ...remote.filter(entry => !pending[entry.carId]),
+    ];
+
+    this.state = { entries, pending, syncedAt: Date.now() };
+    await this.persist();
+    return Object.keys(pending).length > 0;
+  }
+
+  addListener(listener: WatchlistListener): () => void {
+    this.listeners.push(listener);
+    this.load().then(() => listener(this.snapshot()));
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.generation += 1;
+    this.state = EMPTY;
+    this.loaded = true;
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('[Watchlist] Failed to clear:', error);
+    }
+    this.emit();
+  }
+}
+
+export const WatchlistService = new WatchlistServiceClass();
+export default WatchlistService;
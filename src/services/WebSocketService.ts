@@ -1,6 +1,8 @@
 import { Client } from '@stomp/stompjs';
 import SockJS from 'sockjs-client';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sessionManager } from './SessionManager';
+import { EnvironmentService } from './EnvironmentService';
+import { MockBackend } from './mock/MockBackend';
 import { Platform } from 'react-native';
 import { ChatMessageDto, UserStatus, TypingIndicator, UnreadCount, DeliveryStats } from './ChatApi';
 
@@ -35,8 +37,11 @@ type MessageHandler = (message: WSMessage) => void;
 type ConnectionHandler = (status: ConnectionStatus) => void;
 type ErrorHandler = (error: any) => void;
 
+// The subset of the stompjs Client used here; satisfied by MockStompClient too
+type StompClient = Pick<Client, 'connectHeaders' | 'activate' | 'deactivate' | 'subscribe' | 'publish'>;
+
 class WebSocketService {
-  private client: Client | null = null;
+  private client: StompClient | null = null;
   private isConnected = false;
   private isConnecting = false;
   private reconnectAttempts = 0;
@@ -64,13 +69,29 @@ class WebSocketService {
     debug: __DEV__,
   };
 
-  // Base URL for WebSocket connection
-  private readonly wsBaseUrl = __DEV__
-    ? 'http://localhost:9000' : 'https://your-production-api.com';
+  // Base URL for WebSocket connection, read at client creation time
+  private get wsBaseUrl(): string {
+    return EnvironmentService.getWsBaseUrl();
+  }
 
   constructor() {
     // Defer client initialization until first connection attempt
     // This prevents WebSocket from being initialized before authentication
+
+    // Follow the session: reconnect with new tokens, tear down on logout
+    sessionManager.addListener((event) => {
+      if (event.type === 'refreshed') {
+        return this.onTokenRefresh();
+      }
+      if (event.type === 'ended') {
+        this.onLogout();
+      }
+    });
+
+    // A client is bound to its broker URL; drop it so the next connect() builds one for the new host
+    EnvironmentService.addListener(() => {
+      this.onLogout();
+    });
   }
 
   // =====================================
@@ -79,6 +100,17 @@ class WebSocketService {
 
   private async initializeClient(): Promise<void> {
     try {
+      if (__DEV__ && MockBackend.isEnabled()) {
+        const { MockStompClient } = require('./mock/MockStompBroker') as typeof import('./mock/MockStompBroker');
+        this.client = new MockStompClient({
+          connectHeaders: await this.getConnectHeaders(),
+          onConnect: this.onConnect.bind(this),
+          onDisconnect: this.onDisconnect.bind(this),
+          onStompError: this.onStompError.bind(this),
+        });
+        return;
+      }
+
       this.client = new Client({
         brokerURL: `${this.wsBaseUrl}/ws`,
 
@@ -114,7 +146,7 @@ class WebSocketService {
     const headers: Record<string, string> = {};
 
     try {
-      const token = await AsyncStorage.getItem('@carworld_access_token');
+      const token = await sessionManager.getAccessToken();
       if (token) {
         headers.Authorization = `Bearer ${token}`;
       }
@@ -142,7 +174,7 @@ class WebSocketService {
     // Retry token check up to 3 times with increasing delays
     let token = null;
     for (let attempt = 1; attempt <= 3; attempt++) {
-      token = await AsyncStorage.getItem('@carworld_access_token');
+      token = await sessionManager.getAccessToken();
       if (token) {
         break;
       }
@@ -249,7 +281,7 @@ class WebSocketService {
         console.log('[WebSocket] User authenticated, connecting...');
       }
 
-      // Add a small delay to ensure token is stored in AsyncStorage
+      // Add a small delay to ensure the session has been persisted
       // This prevents race condition where WebSocket tries to connect before token is available
       setTimeout(async () => {
         await this.connect();
@@ -282,7 +314,7 @@ class WebSocketService {
     await new Promise(resolve => setTimeout(() => resolve(true), 200));
 
     // Check if we have a token before attempting connection
-    const token = await AsyncStorage.getItem('@carworld_access_token');
+    const token = await sessionManager.getAccessToken();
     if (token) {
       console.log('[WebSocket] Token found, proceeding with connection');
       await this.connect();
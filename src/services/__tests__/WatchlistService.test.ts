@@ -0,0 +1,156 @@
+import type { Vehicle, WatchlistEntry } from '../contracts';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('../ApiClient', () => {
+  class ApiError extends Error {
+    status: number;
+    constructor(message: string, status: number) {
+      super(message);
+      this.status = status;
+    }
+  }
+  class NetworkError extends Error {}
+  return {
+    ApiError,
+    NetworkError,
+    apiClient: { isNetworkAvailable: jest.fn(async () => true) },
+  };
+});
+
+jest.mock('../CarApi', () => ({
+  carApi: {
+    getWatchlist: jest.fn(),
+    watchVehicle: jest.fn(),
+    unwatchVehicle: jest.fn(),
+  },
+}));
+
+jest.mock('../SessionManager', () => ({
+  sessionManager: {
+    addListener: jest.fn(),
+    hasSession: jest.fn(async () => true),
+  },
+}));
+
+jest.mock('../AnalyticsService', () => ({
+  AnalyticsService: { trackCarSave: jest.fn() },
+}));
+
+const { carApi } = require('../CarApi');
+
+const car = (id: string, price = 500000) => ({ id, price } as Vehicle);
+
+const entry = (carId: string): WatchlistEntry => ({
+  carId,
+  savedAt: '2026-01-01T00:00:00.000Z',
+  savedPrice: 500000,
+});
+
+/**
+ * A fresh service per test, so state never leaks between them
+ */
+const loadService = () => {
+  let service: typeof import('../WatchlistService').WatchlistService;
+  jest.isolateModules(() => {
+    service = require('../WatchlistService').WatchlistService;
+  });
+  return service!;
+};
+
+/**
+ * A promise the test resolves by hand, to hold a request in flight
+ */
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise<void>(resolve => setImmediate(resolve));
+
+describe('WatchlistService sync', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    require('@react-native-async-storage/async-storage').clear();
+    carApi.watchVehicle.mockResolvedValue(undefined);
+    carApi.unwatchVehicle.mockResolvedValue(undefined);
+    carApi.getWatchlist.mockResolvedValue([]);
+  });
+
+  it('merges the server list with changes that are still pending', async () => {
+    const service = loadService();
+    carApi.getWatchlist.mockResolvedValue([entry('1'), entry('2')]);
+    await service.sync();
+
+    // Held back by the network, so they stay pending through the next pull
+    const { NetworkError } = require('../ApiClient');
+    carApi.watchVehicle.mockRejectedValue(new NetworkError('offline'));
+    carApi.getWatchlist.mockResolvedValue([entry('1'), entry('2')]);
+    await service.remove('2');
+    await service.add(car('3'));
+    await service.sync();
+
+    expect((await service.getAll()).map(e => e.carId)).toEqual(['3', '1']);
+  });
+
+  it('keeps a change made while the previous one was being pushed', async () => {
+    const service = loadService();
+    const push = deferred<void>();
+    carApi.watchVehicle.mockReturnValue(push.promise);
+
+    await service.add(car('7'));
+    const syncing = service.sync();
+    while (carApi.watchVehicle.mock.calls.length === 0) {
+      await flush();
+    }
+    // Unsaved again before the server answered the save
+    await service.remove('7');
+    push.resolve();
+    await syncing;
+
+    const snapshots: number[] = [];
+    service.addListener(snapshot => snapshots.push(snapshot.pendingCount));
+    await flush();
+
+    expect(await service.isWatched('7')).toBe(false);
+    expect(carApi.unwatchVehicle).toHaveBeenCalledWith('7');
+    expect(snapshots).toEqual([0]);
+  });
+
+  it('pushes a car saved while a sync is in flight', async () => {
+    const service = loadService();
+    const push = deferred<void>();
+    carApi.watchVehicle.mockReturnValueOnce(push.promise);
+
+    await service.add(car('7'));
+    const syncing = service.sync();
+    while (carApi.watchVehicle.mock.calls.length === 0) {
+      await flush();
+    }
+    await service.add(car('8'));
+    push.resolve();
+    await syncing;
+
+    expect(carApi.watchVehicle.mock.calls.map(([carId]: [string]) => carId)).toEqual(['7', '8']);
+  });
+
+  it('does not bring back entries when cleared during a sync', async () => {
+    const service = loadService();
+    const pull = deferred<WatchlistEntry[]>();
+    carApi.getWatchlist.mockReturnValue(pull.promise);
+
+    const syncing = service.sync();
+    await flush();
+    await service.clear();
+    pull.resolve([entry('1')]);
+    await syncing;
+
+    expect(await service.getAll()).toEqual([]);
+  });
+});
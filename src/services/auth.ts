@@ -1,7 +1,8 @@
 // Re-export from the authService for backward compatibility
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { apiClient } from './ApiClient';
+import { apiClient, AuthTokens as ApiAuthTokens, UserData } from './ApiClient';
+import { sessionManager } from './SessionManager';
 
 // Auth status for partial authentication states
 export type AuthStatus = 'LOGGED_OUT' | 'EMAIL_PENDING' | 'DEALER_PENDING' | 'FULL_ACCESS';
@@ -58,37 +59,49 @@ export interface ResetPasswordRequest {
     confirmPassword: string;
 }
 
-// Storage keys (with proper naming convention)
+// Storage keys for local auth preferences (tokens live in SessionManager)
 const STORAGE_KEYS = {
-    ACCESS_TOKEN: '@carworld_access_token',
-    REFRESH_TOKEN: '@carworld_refresh_token',
-    USER_DATA: '@carworld_user_data',
-    TOKEN_EXPIRY: '@carworld_token_expiry',
-    REFRESH_EXPIRY: '@carworld_refresh_expiry',
     BIOMETRIC_ENABLED: '@carworld_biometric_enabled',
     AUTO_LOGIN: '@carworld_auto_login',
 };
 
-class AuthService {
-    private isRefreshing = false;
-    private refreshPromise: Promise<AuthTokens> | null = null;
-    private refreshTokenTimeoutId: number | null = null;
+const toUser = (userData: UserData): User => ({
+    id: String(userData.userId ?? userData.id ?? ''),
+    email: userData.email,
+    name: userData.name || userData.username,
+    phone: userData.phoneNumber,
+    role: (userData.role?.toLowerCase() || 'user') as User['role'],
+    emailVerified: userData.emailVerified ?? false,
+    phoneVerified: false,
+    verifiedDealer: userData.verifiedDealer,
+    createdAt: '',
+    updatedAt: '',
+});
+
+const toAuthResponse = (authData: ApiAuthTokens): AuthResponse => ({
+    user: toUser(authData),
+    tokens: {
+        accessToken: authData.accessToken,
+        refreshToken: authData.refreshToken,
+        tokenType: 'Bearer',
+        expiresIn: authData.expiresIn,
+        refreshExpiresIn: authData.refreshExpiresIn,
+    },
+});
 
+class AuthService {
     /**
      * Login user with credentials
      */
     async login(credentials: LoginCredentials): Promise<AuthResponse> {
         try {
-            const response = await apiClient.post<AuthResponse>('/api/auth/login', {
+            const authData = await apiClient.login({
                 usernameOrEmail: credentials.usernameOrEmail.trim().toLowerCase(),
                 password: credentials.password,
                 deviceInfo: await this.getDeviceInfo(),
             });
 
-            await this.storeAuthData(response.data);
-            this.scheduleTokenRefresh(response.data.tokens.expiresIn);
-
-            return response.data;
+            return toAuthResponse(authData);
         } catch (error: any) {
             this.handleAuthError(error);
             throw error;
@@ -103,16 +116,13 @@ class AuthService {
             // Client-side validation
             this.validateRegistrationCredentials(credentials);
 
-            const response = await apiClient.post<AuthResponse>('/api/auth/register', {
-                ...credentials,
+            const authData = await apiClient.register({
+                username: credentials.name.trim(),
                 email: credentials.email.trim().toLowerCase(),
-                deviceInfo: await this.getDeviceInfo(),
+                password: credentials.password,
             });
 
-            await this.storeAuthData(response.data);
-            this.scheduleTokenRefresh(response.data.tokens.expiresIn);
-
-            return response.data;
+            return toAuthResponse(authData);
         } catch (error: any) {
             this.handleAuthError(error);
             throw error;
@@ -123,20 +133,8 @@ class AuthService {
      * Logout user and clear all data
      */
     async logout(): Promise<void> {
-        try {
-            const refreshToken = await AsyncStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
-
-            if (refreshToken) {
-                // Notify server about logout to invalidate tokens
-                await apiClient.post('/api/auth/logout', { refreshToken }).catch(() => {
-                    // Ignore logout API errors as we're clearing local data anyway
-                });
-            }
-        } catch (error) {
-            console.warn('Logout API call failed:', error);
-        } finally {
-            await this.clearAuthData();
-        }
+        // ApiClient notifies the server, then SessionManager fans out the logout
+        await apiClient.logout();
     }
 
     /**
@@ -177,27 +175,11 @@ class AuthService {
     }
 
     /**
-     * Refresh access token
+     * Refresh access token (single-flight, owned by SessionManager)
      */
     async refreshAccessToken(): Promise<AuthTokens> {
-        if (this.isRefreshing && this.refreshPromise) {
-            return this.refreshPromise;
-        }
-
-        this.isRefreshing = true;
-        this.refreshPromise = this.performTokenRefresh();
-
-        try {
-            const tokens = await this.refreshPromise;
-            this.scheduleTokenRefresh(tokens.expiresIn);
-            return tokens;
-        } catch (error) {
-            await this.clearAuthData();
-            throw error;
-        } finally {
-            this.isRefreshing = false;
-            this.refreshPromise = null;
-        }
+        const authData = await sessionManager.refresh();
+        return toAuthResponse(authData).tokens;
     }
 
     /**
@@ -205,8 +187,8 @@ class AuthService {
      */
     async getCurrentUser(): Promise<User | null> {
         try {
-            const userData = await AsyncStorage.getItem(STORAGE_KEYS.USER_DATA);
-            return userData ? JSON.parse(userData) : null;
+            const userData = await sessionManager.getUserData();
+            return userData ? toUser(userData) : null;
         } catch (error) {
             console.error('Failed to get current user:', error);
             return null;
@@ -218,26 +200,7 @@ class AuthService {
      */
     async getAccessToken(): Promise<string | null> {
         try {
-            const token = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
-            const expiry = await AsyncStorage.getItem(STORAGE_KEYS.TOKEN_EXPIRY);
-
-            if (!token || !expiry) return null;
-
-            const now = Date.now();
-            const expiryTime = parseInt(expiry, 10);
-
-            // If token expires in less than 1 week, refresh it proactively
-            const oneWeekInMs = 7 * 24 * 60 * 60 * 1000; // 604800000 ms
-            if (expiryTime - now < oneWeekInMs) {
-                try {
-                    const newTokens = await this.refreshAccessToken();
-                    return newTokens.accessToken;
-                } catch (error) {
-                    return null;
-                }
-            }
-
-            return token;
+            return await sessionManager.getAccessToken();
         } catch (error) {
             console.error('Failed to get access token:', error);
             return null;
@@ -271,7 +234,7 @@ class AuthService {
     
     async getAuthStatus(): Promise<AuthStatus> {
         try {
-            const token = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+            const token = await sessionManager.getAccessToken();
             if (!token) return 'LOGGED_OUT';
 
             const user = await this.getCurrentUser();
@@ -319,11 +282,7 @@ class AuthService {
             });
 
             // Update user data to reflect email verification
-            const currentUser = await this.getCurrentUser();
-            if (currentUser) {
-                currentUser.emailVerified = true;
-                await AsyncStorage.setItem(STORAGE_KEYS.USER_DATA, JSON.stringify(currentUser));
-            }
+            await sessionManager.updateUserData({ emailVerified: true });
 
             return response.data;
         } catch (error: any) {
@@ -340,7 +299,14 @@ class AuthService {
             const response = await apiClient.patch<{ user: User }>('/api/auth/profile', updates);
 
             // Update stored user data
-            await AsyncStorage.setItem(STORAGE_KEYS.USER_DATA, JSON.stringify(response.data.user));
+            const { user } = response.data;
+            await sessionManager.updateUserData({
+                email: user.email,
+                name: user.name,
+                phoneNumber: user.phone,
+                emailVerified: user.emailVerified,
+                verifiedDealer: user.verifiedDealer,
+            });
 
             return response.data.user;
         } catch (error: any) {
@@ -386,92 +352,6 @@ class AuthService {
     }
 
     // Private methods
-    private async performTokenRefresh(): Promise<AuthTokens> {
-        const refreshToken = await AsyncStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
-        const refreshExpiry = await AsyncStorage.getItem(STORAGE_KEYS.REFRESH_EXPIRY);
-
-        if (!refreshToken || !refreshExpiry) {
-            throw new Error('No refresh token available');
-        }
-
-        if (Date.now() >= parseInt(refreshExpiry, 10)) {
-            throw new Error('Refresh token expired');
-        }
-
-        // Use apiClient.refreshAccessToken() which properly saves tokens
-        const authTokens = await apiClient.refreshAccessToken(refreshToken);
-
-        // Map to our AuthTokens format
-        return {
-            accessToken: authTokens.accessToken,
-            refreshToken: authTokens.refreshToken,
-            tokenType: 'Bearer',
-            expiresIn: authTokens.expiresIn,
-            refreshExpiresIn: authTokens.refreshExpiresIn,
-        };
-    }
-
-    private async storeAuthData(authData: AuthResponse): Promise<void> {
-        try {
-            await Promise.all([
-                AsyncStorage.setItem(STORAGE_KEYS.USER_DATA, JSON.stringify(authData.user)),
-                this.storeTokens(authData.tokens),
-            ]);
-        } catch (error) {
-            console.error('Failed to store auth data:', error);
-            throw new Error('Failed to store authentication data');
-        }
-    }
-
-    private async storeTokens(tokens: AuthTokens): Promise<void> {
-        const now = Date.now();
-        const accessTokenExpiry = now + (tokens.expiresIn * 1000);
-        const refreshTokenExpiry = now + (tokens.refreshExpiresIn * 1000);
-
-        await Promise.all([
-            AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, tokens.accessToken),
-            AsyncStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, tokens.refreshToken),
-            AsyncStorage.setItem(STORAGE_KEYS.TOKEN_EXPIRY, accessTokenExpiry.toString()),
-            AsyncStorage.setItem(STORAGE_KEYS.REFRESH_EXPIRY, refreshTokenExpiry.toString()),
-        ]);
-    }
-
-    private async clearAuthData(): Promise<void> {
-        try {
-            if (this.refreshTokenTimeoutId) {
-                clearTimeout(this.refreshTokenTimeoutId);
-                this.refreshTokenTimeoutId = null;
-            }
-
-            await AsyncStorage.multiRemove([
-                STORAGE_KEYS.ACCESS_TOKEN,
-                STORAGE_KEYS.REFRESH_TOKEN,
-                STORAGE_KEYS.USER_DATA,
-                STORAGE_KEYS.TOKEN_EXPIRY,
-                STORAGE_KEYS.REFRESH_EXPIRY,
-            ]);
-        } catch (error) {
-            console.error('Failed to clear auth data:', error);
-        }
-    }
-
-    private scheduleTokenRefresh(expiresInSeconds: number): void {
-        if (this.refreshTokenTimeoutId) {
-            clearTimeout(this.refreshTokenTimeoutId);
-        }
-
-        // Schedule refresh 1 week (604800 seconds) before token expires
-        // This ensures the token is refreshed well before the 2-week expiration
-        const oneWeekInSeconds = 7 * 24 * 60 * 60; // 604800 seconds
-        const refreshTime = Math.max((expiresInSeconds - oneWeekInSeconds) * 1000, 60000); // At least 1 minute
-
-        this.refreshTokenTimeoutId = setTimeout(() => {
-            this.refreshAccessToken().catch((error) => {
-                console.error('Automatic token refresh failed:', error);
-            });
-        }, refreshTime);
-    }
-
     private async getDeviceInfo(): Promise<any> {
         try {
             const { Platform, Dimensions } = require('react-native');
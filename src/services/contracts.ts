@@ -0,0 +1,458 @@
+import { s, Schema, Infer } from '../utils/schema';
+
+/**
+ * API Contracts - runtime schemas for every backend DTO the app reads.
+ *
+ * Types are inferred from the schemas, so this file is the single source of
+ * truth for response shapes. Services validate responses with
+ * `apiClient.validateResponse(schema, body, path)`, which turns a mismatch
+ * into an ApiError (errorCode INVALID_RESPONSE) at the network boundary.
+ *
+ * Request payloads stay as plain interfaces next to the service that sends them.
+ */
+
+// =============== ENVELOPES ===============
+
+/**
+ * Spring `ApiResponse<T>` wrapper
+ */
+export const apiResponse = <T>(data: Schema<T>) =>
+  s.object({
+    success: s.boolean().default(true),
+    message: s.string().optional(),
+    timestamp: s.string().optional(),
+    data,
+  });
+
+/**
+ * Spring Data `Page<T>`. Malformed items are dropped so the rest of the page still shows.
+ */
+export const page = <T>(item: Schema<T>) =>
+  s.object({
+    content: s.lenientArray(item),
+    totalElements: s.number().default(0),
+    totalPages: s.number().default(0),
+    number: s.number().default(0),
+    size: s.number().optional(),
+    first: s.boolean().optional(),
+    last: s.boolean().optional(),
+    empty: s.boolean().optional(),
+    pageable: s.unknown().optional(),
+  });
+
+export type Page<T> = Infer<ReturnType<typeof page<T>>>;
+
+// =============== AUTH ===============
+
+export const AuthTokensSchema = s.object({
+  accessToken: s.string(),
+  refreshToken: s.string(),
+  tokenType: s.string().default('Bearer'),
+  userId: s.number(),
+  username: s.string(),
+  email: s.string(),
+  role: s.string(),
+  location: s.string().optional(),
+  emailVerified: s.boolean().default(false),
+  verifiedDealer: s.boolean().default(false),
+  expiresAt: s.string().optional(),
+  refreshExpiresAt: s.string().optional(),
+  expiresIn: s.number(),
+  refreshExpiresIn: s.number(),
+});
+export type AuthTokens = Infer<typeof AuthTokensSchema>;
+
+export const UserDataSchema = s.object({
+  id: s.union(s.string(), s.number()).optional(), // For backward compatibility with chat features
+  userId: s.number(),
+  username: s.string(),
+  name: s.string().optional(), // Display name for chat features
+  email: s.string(),
+  role: s.string(),
+  location: s.string().optional(),
+  phoneNumber: s.string().optional(),
+  // Role/verification flags used for permission matrix
+  emailVerified: s.boolean().optional(),
+  verifiedDealer: s.boolean().optional(),
+});
+export type UserData = Infer<typeof UserDataSchema>;
+
+export const TokenValidationSchema = s.object({
+  valid: s.boolean(),
+  userDetails: UserDataSchema.optional(),
+});
+
+export const ActiveSessionSchema = s.object({
+  id: s.id(),
+  deviceModel: s.string().optional(),
+  deviceBrand: s.string().optional(),
+  os: s.string().optional(),
+  osVersion: s.string().optional(),
+  appVersion: s.string().optional(),
+  city: s.string().optional(),
+  country: s.string().optional(),
+  lastActiveAt: s.string(),
+  createdAt: s.string().optional(),
+  current: s.boolean().default(false), // The session making this request
+});
+export type ActiveSession = Infer<typeof ActiveSessionSchema>;
+
+export const HealthCheckSchema = s.object({
+  status: s.string(),
+  mode: s.string().optional(),
+});
+export type HealthCheck = Infer<typeof HealthCheckSchema>;
+
+// =============== VEHICLES ===============
+
+// Free-form listing details; known keys are typed, anything else passes through
+export const VehicleSpecificationsSchema = s.object({
+  fuelType: s.string().optional(),
+  transmission: s.string().optional(),
+  bodyType: s.string().optional(),
+  color: s.string().optional(),
+  description: s.string().optional(),
+  kmDriven: s.number().optional(),
+  numberOfOwners: s.number().optional(),
+  insurance: s.union(s.boolean(), s.string()).optional(),
+  location: s.string().optional(),
+});
+export type VehicleSpecifications = Infer<typeof VehicleSpecificationsSchema>;
+
+export const VehicleSchema = s.object({
+  id: s.id(),
+  make: s.string(),
+  model: s.string(),
+  year: s.number(),
+  price: s.number(),
+  mileage: s.number().default(0),
+  location: s.string().default(''),
+  city: s.string().optional(),
+  condition: s.string().default(''),
+  images: s.array(s.string()).default([]),
+  specifications: VehicleSpecificationsSchema.default({}),
+  dealerId: s.id().default(''),
+  dealerName: s.string().default(''),
+  isCoListed: s.boolean().default(false),
+  coListedIn: s.array(s.string()).default([]),
+  views: s.number().default(0),
+  inquiries: s.number().default(0),
+  shares: s.number().default(0),
+  // Backend sends AVAILABLE/SOLD/...; older screens use title case
+  status: s.string().default('Available'),
+  mediaStatus: s.string().optional(),
+  featured: s.boolean().default(false),
+  createdAt: s.string().default(''),
+  updatedAt: s.string().default(''),
+  // Extended properties
+  title: s.string().optional(),
+  description: s.string().optional(),
+  variant: s.string().optional(),
+  fuelType: s.string().optional(),
+  transmission: s.string().optional(),
+  color: s.string().optional(),
+  imageUrl: s.string().optional(), // Primary image URL (first image)
+  videoUrl: s.string().optional(), // Video URL for the listing
+  numberOfOwners: s.number().optional(),
+  // Seller condition disclosures (CarSubmissionForm); null = not answered
+  accidentHistory: s.boolean().nullable().optional(),
+  repaintedParts: s.boolean().nullable().optional(),
+  floodDamage: s.boolean().nullable().optional(),
+  // Where the car can be seen; used for radius search
+  latitude: s.number().optional(),
+  longitude: s.number().optional(),
+  // Search results only: distance from the search origin
+  distanceKm: s.number().optional(),
+  pendingSync: s.boolean().optional(), // Local edit waiting in the offline outbox
+});
+export type Vehicle = Infer<typeof VehicleSchema>;
+
+export const VehiclePageSchema = page(VehicleSchema);
+export type VehiclePage = Infer<typeof VehiclePageSchema>;
+
+export const CarStatisticsSchema = s.object({
+  totalCars: s.number(),
+  activeCars: s.number(),
+  soldCars: s.number(),
+  featuredCars: s.number(),
+  inactiveCars: s.number(),
+  newCarsLast7Days: s.number(),
+  lastUpdated: s.string(),
+});
+export type CarStatistics = Infer<typeof CarStatisticsSchema>;
+
+export const DealerDashboardSchema = s.object({
+  totalViews: s.number().default(0),
+  totalUniqueVisitors: s.number().default(0),
+  totalCarsAdded: s.number().default(0),
+  activeCars: s.number().default(0),
+  contactRequestsReceived: s.number().default(0),
+});
+export type DealerDashboardResponse = Infer<typeof DealerDashboardSchema>;
+
+export const InitUploadResponseSchema = s.object({
+  sessionId: s.string(),
+  uploadUrls: s.array(s.string()),
+  filePaths: s.array(s.string()),
+  // 'tus' when the upload URLs accept resumable chunks; otherwise one signed PUT per file
+  uploadProtocol: s.oneOf(['tus', 'put'] as const).default('put'),
+});
+export type InitUploadResponse = Infer<typeof InitUploadResponseSchema>;
+
+// =============== DEALER GROUPS ===============
+
+export const DealerMemberSchema = s.object({
+  id: s.id(),
+  name: s.string(),
+  dealership: s.string().default(''),
+  role: s.oneOf(['admin', 'member'] as const),
+  avatar: s.string().optional(),
+  joinedAt: s.string().optional(),
+});
+export type DealerMember = Infer<typeof DealerMemberSchema>;
+
+export const DealerGroupSchema = s.object({
+  id: s.id(),
+  name: s.string(),
+  description: s.string().default(''),
+  isPrivate: s.boolean().default(false),
+  adminId: s.id(),
+  members: s.array(DealerMemberSchema).default([]),
+  createdAt: s.string(),
+  vehicleCount: s.number().optional(),
+});
+export type DealerGroup = Infer<typeof DealerGroupSchema>;
+
+export const GroupInvitationSchema = s.object({
+  id: s.id(),
+  groupId: s.id(),
+  groupName: s.string(),
+  invitedBy: s.id(),
+  invitedByName: s.string(),
+  invitedDealer: s.id(),
+  status: s.oneOf(['pending', 'accepted', 'rejected'] as const),
+  createdAt: s.string(),
+  expiresAt: s.string(),
+});
+export type GroupInvitation = Infer<typeof GroupInvitationSchema>;
+
+// =============== MESSAGING & NOTIFICATIONS ===============
+
+export const ConversationSchema = s.object({
+  id: s.id(),
+  participantId: s.id().optional(),
+  participantName: s.string().optional(),
+  participantDealership: s.string().optional(),
+  participantOnline: s.boolean().default(false),
+  lastMessage: s.string().optional(),
+  lastMessageAt: s.string().optional(),
+  lastMessageType: s.string().optional(),
+  lastMessageSenderId: s.id().optional(),
+  unreadCount: s.number().default(0),
+});
+export type Conversation = Infer<typeof ConversationSchema>;
+
+export const DirectMessageSchema = s.object({
+  id: s.id(),
+  senderId: s.id(),
+  receiverId: s.id(),
+  message: s.string(),
+  timestamp: s.string(),
+  status: s.oneOf(['sent', 'delivered', 'read'] as const).default('sent'),
+  type: s.string().default('text'),
+  attachments: s.array(s.unknown()).optional(),
+});
+export type DirectMessage = Infer<typeof DirectMessageSchema>;
+
+export const NotificationSchema = s.object({
+  id: s.id(),
+  type: s.string(),
+  title: s.string(),
+  message: s.string().default(''),
+  timestamp: s.string(),
+  isRead: s.boolean().default(false),
+  data: s.unknown().optional(),
+  actionable: s.boolean().optional(),
+});
+export type AppNotification = Infer<typeof NotificationSchema>;
+
+export interface NotificationSettings {
+  newListings: boolean;
+  inquiries: boolean;
+  coListingActions: boolean;
+  newMessages: boolean;
+  groupInvites: boolean;
+  priceAlerts: boolean;
+  systemNotifications: boolean;
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+}
+
+// =============== SAVED SEARCHES ===============
+
+export const SEARCH_SORT_OPTIONS = [
+  'price-low', 'price-high', 'year-new', 'year-old', 'mileage-low', 'mileage-high', 'distance', 'relevance',
+] as const;
+
+/**
+ * Filter state of the vehicle search screen; stored verbatim with a saved search
+ */
+export const SearchFiltersSchema = s.object({
+  searchText: s.string().default(''),
+  make: s.array(s.string()).default([]),
+  model: s.array(s.string()).default([]),
+  yearMin: s.string().default(''),
+  yearMax: s.string().default(''),
+  priceMin: s.string().default(''),
+  priceMax: s.string().default(''),
+  mileageMax: s.string().default(''),
+  location: s.array(s.string()).default([]),
+  condition: s.array(s.string()).default([]),
+  fuelType: s.array(s.string()).default([]),
+  transmission: s.array(s.string()).default([]),
+  sortBy: s.oneOf(SEARCH_SORT_OPTIONS).default('price-low'), // Matches EMPTY_SEARCH_FILTERS
+  // "Within X km of me"; the origin is the device position when the search ran
+  radiusKm: s.number().optional(),
+  origin: s.object({ latitude: s.number(), longitude: s.number() }).optional(),
+});
+export type SearchFilters = Infer<typeof SearchFiltersSchema>;
+
+export const SavedSearchSchema = s.object({
+  id: s.id(),
+  name: s.string(),
+  filters: SearchFiltersSchema,
+  notify: s.boolean().default(false),
+  createdAt: s.string(),
+  resultCount: s.number().default(0),
+  lastNotifiedAt: s.string().nullable().optional(),
+});
+export type SavedSearch = Infer<typeof SavedSearchSchema>;
+
+// =============== WATCHLIST ===============
+
+/**
+ * A car the user hearted. `savedPrice` is the price when it was saved, so
+ * price drops can be shown even while offline. `car` is null once deleted.
+ */
+export const WatchlistEntrySchema = s.object({
+  carId: s.id(),
+  savedAt: s.string(),
+  savedPrice: s.number(),
+  car: VehicleSchema.nullable().optional(),
+});
+export type WatchlistEntry = Infer<typeof WatchlistEntrySchema>;
+
+// =============== CHAT ===============
+
+const ChatUserSchema = s.object({
+  id: s.number(),
+  username: s.string(),
+  displayName: s.string().default(''),
+  email: s.string().optional(),
+  avatarUrl: s.string().optional(), // Frontend addition
+});
+
+export const ChatMessageSchema = s.object({
+  id: s.number(),
+  chatRoomId: s.number(),
+  sender: ChatUserSchema.optional(),
+  content: s.string().default(''),
+  messageType: s.oneOf([
+    'TEXT', 'IMAGE', 'FILE', 'SYSTEM', 'VOICE', 'LOCATION', 'CAR_REFERENCE', 'USER_REFERENCE',
+  ] as const),
+  isEdited: s.boolean().default(false),
+  isDeleted: s.boolean().default(false),
+  createdAt: s.string(),
+  updatedAt: s.string().default(''),
+  editedAt: s.string().optional(),
+  replyTo: s.object({
+    id: s.number(),
+    content: s.string(),
+    senderUsername: s.string(),
+    messageType: s.string(),
+  }).optional(),
+  fileAttachment: s.object({
+    fileUrl: s.string(),
+    fileName: s.string(),
+    fileSize: s.number(),
+    mimeType: s.string(),
+  }).optional(),
+  deliveryStatus: s.oneOf(['SENT', 'DELIVERED', 'READ'] as const).optional(),
+});
+export type ChatMessageDto = Infer<typeof ChatMessageSchema>;
+
+export const ChatRoomSchema = s.object({
+  id: s.number(),
+  name: s.string(),
+  description: s.string().optional(),
+  type: s.oneOf([
+    'PRIVATE', 'GROUP', 'CAR_INQUIRY', 'DEALER_ONLY', 'SELLER_ONLY', 'SUPPORT',
+  ] as const),
+  createdBy: ChatUserSchema,
+  isActive: s.boolean().default(true),
+  carId: s.number().optional(),
+  createdAt: s.string(),
+  updatedAt: s.string().default(''),
+  lastActivityAt: s.string().optional(),
+  participantCount: s.number().optional(),
+  unreadCount: s.number().optional(),
+  lastMessage: ChatMessageSchema.optional(),
+  maxParticipants: s.number().optional(),
+
+  // Inquiry specific fields
+  status: s.string().optional(),
+  leadScore: s.number().optional(),
+  buyerName: s.string().optional(),
+  buyerPhone: s.string().optional(),
+  carInfo: s.object({
+    id: s.number(),
+    title: s.string(),
+    price: s.number(),
+    imageUrl: s.string().optional(),
+  }).optional(),
+});
+export type ChatRoomDto = Infer<typeof ChatRoomSchema>;
+
+export const ChatParticipantSchema = s.object({
+  id: s.number(),
+  user: ChatUserSchema,
+  role: s.oneOf(['ADMIN', 'MEMBER'] as const),
+  joinedAt: s.string(),
+  lastActivityAt: s.string().optional(),
+  isActive: s.boolean().default(true),
+});
+export type ChatParticipantDto = Infer<typeof ChatParticipantSchema>;
+
+export const UserStatusSchema = s.object({
+  userId: s.number(),
+  username: s.string(),
+  status: s.oneOf(['ONLINE', 'AWAY', 'BUSY', 'OFFLINE'] as const),
+  customStatus: s.string().optional(),
+  lastActiveAt: s.string(),
+  isTypingInChatId: s.number().optional(),
+});
+export type UserStatus = Infer<typeof UserStatusSchema>;
+
+export const DeliveryStatsSchema = s.object({
+  messageId: s.number(),
+  totalRecipients: s.number(),
+  sentCount: s.number(),
+  deliveredCount: s.number(),
+  readCount: s.number(),
+  failedCount: s.number(),
+  readBy: s.array(s.object({ username: s.string(), readAt: s.string() })).default([]),
+  deliveredTo: s.array(s.object({ username: s.string(), deliveredAt: s.string() })).default([]),
+});
+export type DeliveryStats = Infer<typeof DeliveryStatsSchema>;
+
+export const MessageStatusSchema = s.object({
+  messageId: s.number(),
+  status: s.oneOf(['SENT', 'DELIVERED', 'READ'] as const),
+});
+export type MessageStatus = Infer<typeof MessageStatusSchema>;
+
+export const UnreadCountSchema = s.object({
+  totalUnread: s.number(),
+  unreadByChat: s.record(s.number()).default({}),
+});
+export type UnreadCount = Infer<typeof UnreadCountSchema>;
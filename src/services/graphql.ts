@@ -1,14 +1,18 @@
-import { ApolloClient, InMemoryCache, createHttpLink } from '@apollo/client';
+import { ApolloClient, ApolloLink, InMemoryCache, createHttpLink } from '@apollo/client';
 import { setContext } from '@apollo/client/link/context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { relayStylePagination } from '@apollo/client/utilities';
+import { sessionManager } from './SessionManager';
+import { EnvironmentService } from './EnvironmentService';
+import { MockBackend } from './mock/MockBackend';
 
 const httpLink = createHttpLink({
-    uri: 'http://192.168.1.11:9000/graphql',
+    // Resolved per operation so environment switches apply immediately
+    uri: () => EnvironmentService.getGraphqlUrl(),
 });
 
 const authLink = setContext(async (_, { headers }) => {
     // get the authentication token from local storage if it exists
-    const token = await AsyncStorage.getItem('@carworld_access_token');
+    const token = await sessionManager.getAccessToken();
     // return the headers to the context so httpLink can read them
     return {
         headers: {
@@ -18,13 +22,23 @@ const authLink = setContext(async (_, { headers }) => {
     }
 });
 
+const serverLink = authLink.concat(httpLink);
+
 export const client = new ApolloClient({
-    link: authLink.concat(httpLink),
+    // Checked per operation so toggling mock mode needs no new client; release builds have no mock
+    link: __DEV__
+        ? ApolloLink.split(
+            () => MockBackend.isEnabled(),
+            (require('./mock/mockLink') as typeof import('./mock/mockLink')).mockLink,
+            serverLink,
+        )
+        : serverLink,
     cache: new InMemoryCache({
         typePolicies: {
             Query: {
                 fields: {
-                    // Add any pagination policies here if needed
+                    // One list per search input; `after` pages are appended for infinite scroll
+                    searchCars: relayStylePagination(['input']),
                 }
             }
         }
@@ -35,3 +49,15 @@ export const client = new ApolloClient({
         },
     },
 });
+
+// Results from the previous backend must not be served for the new one
+EnvironmentService.addListener(() => {
+    client.clearStore().catch(() => undefined);
+});
+
+// Drop cached query results when the session ends so the next user starts clean
+sessionManager.addListener((event) => {
+    if (event.type === 'ended') {
+        client.clearStore().catch(() => undefined);
+    }
+});
@@ -0,0 +1,217 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ChunkTransport } from '../../utils/resumableUpload';
+import type { MockDatabase, MockUser } from './fixtures';
+
+// =============== TYPES ===============
+
+export interface MockBackendSettings {
+  enabled: boolean;
+  seed: number;
+  latencyMs: number;
+}
+
+type MockBackendListener = (settings: MockBackendSettings) => void;
+
+// =============== CONSTANTS ===============
+
+const STORAGE_KEY = '@carworld_mock_backend';
+
+/**
+ * The mock backend only exists in development builds. Call sites check
+ * `__DEV__` itself before requiring the mock transports, so release bundles
+ * constant-fold those branches away and leave out the routes and fixtures.
+ */
+export const MOCK_BACKEND_AVAILABLE = __DEV__;
+
+export const DEFAULT_SEED = 42;
+
+/** Password accepted for every demo account */
+export const MOCK_PASSWORD = 'password';
+
+const DEFAULT_SETTINGS: MockBackendSettings = {
+  enabled: false,
+  seed: DEFAULT_SEED,
+  latencyMs: 300,
+};
+
+/**
+ * Upload URLs handed out by the mock media endpoints. The upload queue
+ * recognises this prefix and simulates the chunk requests instead of hitting
+ * the network.
+ */
+export const MOCK_UPLOAD_PREFIX = 'mock://uploads/';
+
+/**
+ * Mock Backend - in-process stand-in for the CarWorld server
+ *
+ * Features:
+ * - One switch for all three transports: the ApiClient axios adapter,
+ *   the WebSocketService STOMP client and the Apollo link
+ * - Seedable fixtures held in memory; reseeding restores the demo data set
+ * - Simulated latency so loading states stay visible during demos
+ * - Persisted across launches; read once at startup via `init()`
+ * - Development builds only; fixtures are generated on first use
+ */
+class MockBackendClass {
+  private settings: MockBackendSettings = DEFAULT_SETTINGS;
+  private database: MockDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private listeners = new Set<MockBackendListener>();
+  // Upload path -> local file uri, so "uploaded" media renders on device
+  private uploads = new Map<string, string>();
+  // Upload path -> bytes received so far
+  private uploadOffsets = new Map<string, number>();
+
+  /**
+   * Load the persisted switch. Call before the first request is made; later
+   * calls wait for the same load.
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.restore();
+    }
+    return this.initPromise;
+  }
+
+  private async restore(): Promise<void> {
+    if (!MOCK_BACKEND_AVAILABLE) return;
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+        this.database = null;
+      }
+    } catch (error) {
+      console.warn('[MockBackend] Failed to load settings:', error);
+    }
+
+    if (this.settings.enabled) {
+      console.log(`[MockBackend] Enabled (seed ${this.settings.seed})`);
+    }
+  }
+
+  isEnabled(): boolean {
+    return MOCK_BACKEND_AVAILABLE && this.settings.enabled;
+  }
+
+  getSettings(): MockBackendSettings {
+    return this.settings;
+  }
+
+  /**
+   * Switch transports. Callers should end the session first - tokens from one
+   * backend are meaningless to the other.
+   */
+  async setEnabled(enabled: boolean): Promise<void> {
+    await this.update({ enabled });
+  }
+
+  async setLatency(latencyMs: number): Promise<void> {
+    await this.update({ latencyMs });
+  }
+
+  /**
+   * Throw away every change made during the session and regenerate fixtures
+   */
+  async reset(seed: number = this.settings.seed): Promise<void> {
+    this.database = null;
+    this.uploads.clear();
+    this.uploadOffsets.clear();
+    await this.update({ seed });
+  }
+
+  get db(): MockDatabase {
+    if (!this.database) {
+      const { createFixtures } = require('./fixtures') as typeof import('./fixtures');
+      this.database = createFixtures(this.settings.seed);
+    }
+    return this.database;
+  }
+
+  nextId(): number {
+    this.db.nextId += 1;
+    return this.db.nextId;
+  }
+
+  /**
+   * Mock tokens just encode the user id: `mock.<kind>.<userId>.<issuedAt>`
+   */
+  issueToken(userId: number, kind: 'access' | 'refresh'): string {
+    return `mock.${kind}.${userId}.${Date.now()}`;
+  }
+
+  /**
+   * Resolve the signed-in user from an Authorization header or raw token
+   */
+  findUserByToken(token?: string | null): MockUser | null {
+    const [prefix, , userId] = (token || '').replace(/^Bearer\s+/i, '').split('.');
+    if (prefix !== 'mock') return null;
+    return this.db.users.find(user => user.userId === Number(userId)) || null;
+  }
+
+  /**
+   * Simulated network round trip, jittered by up to 50%
+   */
+  delay(): Promise<void> {
+    const { latencyMs } = this.settings;
+    if (latencyMs <= 0) return Promise.resolve();
+    const jittered = latencyMs * (0.5 + Math.random());
+    return new Promise(resolve => setTimeout(() => resolve(), jittered));
+  }
+
+  /**
+   * Stand-in for the resumable upload endpoint: track the received offset per
+   * upload path, then remember the local file once it's complete so
+   * `/api/media/complete` can attach it to the vehicle.
+   */
+  createUploadTransport(uploadUrl: string, fileUri: string, size: number): ChunkTransport {
+    const path = uploadUrl.slice(MOCK_UPLOAD_PREFIX.length);
+    return {
+      getOffset: async () => {
+        await this.delay();
+        return this.uploadOffsets.get(path) ?? 0;
+      },
+      sendChunk: async (offset, length, onProgress) => {
+        await this.delay();
+        onProgress(length);
+        const received = Math.min(size, offset + length);
+        this.uploadOffsets.set(path, received);
+        if (received >= size) {
+          this.uploads.set(path, fileUri);
+        }
+        return received;
+      },
+    };
+  }
+
+  resolveUpload(path: string): string {
+    return this.uploads.get(path) ?? path;
+  }
+
+  addListener(listener: MockBackendListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async update(updates: Partial<MockBackendSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...updates };
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('[MockBackend] Failed to persist settings:', error);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.settings);
+      } catch (error) {
+        console.error('[MockBackend] Listener error:', error);
+      }
+    });
+  }
+}
+
+export const MockBackend = new MockBackendClass();
+export default MockBackend;
@@ -0,0 +1,285 @@
+import type {
+  IFrame,
+  IMessage,
+  IPublishParams,
+  StompHeaders,
+  StompSubscription,
+  messageCallbackType,
+} from '@stomp/stompjs';
+import type { ChatMessageDto, ChatRoomDto } from '../contracts';
+import type { MockUser } from './fixtures';
+import { MockBackend } from './MockBackend';
+
+/**
+ * Mock STOMP Broker - in-process replacement for the Spring message broker
+ *
+ * `MockStompClient` mirrors the subset of the stompjs `Client` API that
+ * WebSocketService uses, so the service code path is identical in mock mode.
+ * Published `/app/...` frames are applied to the mock database and fanned
+ * out to `/topic/...` and `/user/queue/...` subscribers. The other side of a
+ * chat "types" and replies, so real-time UI can be exercised alone.
+ */
+
+// =============== CONSTANTS ===============
+
+const AUTO_REPLY_TYPING_MS = 1200;
+const AUTO_REPLY_DELAY_MS = 2500;
+
+const AUTO_REPLIES = [
+  'Thanks! Let me check and get back to you.',
+  'Sure, that works for me.',
+  'Can you share a few more photos?',
+  'What is the best price you can do?',
+  'Great, see you then!',
+];
+
+// =============== BROKER ===============
+
+const chatUser = (user: MockUser) => ({
+  id: user.userId,
+  username: user.username,
+  displayName: user.name,
+  email: user.email,
+});
+
+const toMessage = (destination: string, payload: unknown): IMessage => ({
+  command: 'MESSAGE',
+  headers: { destination, 'content-type': 'application/json' },
+  isBinaryBody: false,
+  body: JSON.stringify(payload),
+  binaryBody: new Uint8Array(),
+  ack: () => undefined,
+  nack: () => undefined,
+});
+
+class MockStompBrokerClass {
+  private subscribers = new Map<string, Set<messageCallbackType>>();
+  private replyCount = 0;
+
+  subscribe(destination: string, callback: messageCallbackType): () => void {
+    if (!this.subscribers.has(destination)) {
+      this.subscribers.set(destination, new Set());
+    }
+    this.subscribers.get(destination)!.add(callback);
+    return () => {
+      this.subscribers.get(destination)?.delete(callback);
+    };
+  }
+
+  /**
+   * Deliver a payload to every subscriber of a destination (asynchronously, like a socket)
+   */
+  broadcast(destination: string, payload: unknown): void {
+    const callbacks = this.subscribers.get(destination);
+    if (!callbacks?.size) return;
+
+    setTimeout(() => {
+      callbacks.forEach(callback => {
+        try {
+          callback(toMessage(destination, payload));
+        } catch (error) {
+          console.error('[MockStomp] Subscriber error:', error);
+        }
+      });
+    }, 0);
+  }
+
+  /**
+   * Store a chat message and push it to the room. Used by both the STOMP
+   * `/app/chat/{id}/send` frame and the REST send endpoint.
+   */
+  postChatMessage(
+    room: ChatRoomDto,
+    sender: MockUser,
+    content: string,
+    messageType: ChatMessageDto['messageType'] = 'TEXT',
+  ): ChatMessageDto {
+    const now = new Date().toISOString();
+    const message: ChatMessageDto = {
+      id: MockBackend.nextId(),
+      chatRoomId: room.id,
+      sender: chatUser(sender),
+      content,
+      messageType,
+      isEdited: false,
+      isDeleted: false,
+      createdAt: now,
+      updatedAt: now,
+      deliveryStatus: 'SENT',
+    };
+
+    MockBackend.db.chatMessages.push(message);
+    room.lastMessage = message;
+    room.lastActivityAt = now;
+    room.updatedAt = now;
+
+    this.broadcast(`/topic/chat/${room.id}`, message);
+    return message;
+  }
+
+  /**
+   * Have the other participant type and answer, so a lone tester sees traffic
+   */
+  scheduleAutoReply(room: ChatRoomDto, sender: MockUser): void {
+    const responder = this.findCounterpart(room, sender);
+    if (!responder) return;
+
+    const typing = (isTyping: boolean) =>
+      this.broadcast(`/topic/chat/${room.id}/typing`, {
+        userId: responder.userId,
+        username: responder.username,
+        isTyping,
+      });
+
+    setTimeout(() => typing(true), AUTO_REPLY_TYPING_MS);
+    setTimeout(() => {
+      typing(false);
+      const reply = AUTO_REPLIES[this.replyCount % AUTO_REPLIES.length];
+      this.replyCount += 1;
+      this.postChatMessage(room, responder, reply);
+    }, AUTO_REPLY_DELAY_MS);
+  }
+
+  /**
+   * Apply a client SEND frame to the mock database
+   */
+  handlePublish(user: MockUser | null, destination: string, body?: string): void {
+    if (!user) return;
+
+    const payload = body ? this.parseBody(body) : {};
+    const db = MockBackend.db;
+    let match: RegExpMatchArray | null;
+
+    if ((match = destination.match(/^\/app\/chat\/(\d+)\/send$/))) {
+      const room = db.chatRooms.find(r => r.id === Number(match![1]));
+      if (!room) return;
+      this.postChatMessage(room, user, String(payload.content ?? ''), payload.messageType ?? 'TEXT');
+      this.scheduleAutoReply(room, user);
+      return;
+    }
+
+    if ((match = destination.match(/^\/app\/chat\/(\d+)\/read$/))) {
+      const chatId = Number(match[1]);
+      db.chatMessages
+        .filter(m => m.chatRoomId === chatId && m.sender?.id !== user.userId)
+        .forEach(m => {
+          m.deliveryStatus = 'READ';
+        });
+      const room = db.chatRooms.find(r => r.id === chatId);
+      if (room) room.unreadCount = 0;
+      this.broadcast('/user/queue/messages', { type: 'UNREAD_COUNT_UPDATE', chatId, unreadCount: 0 });
+      return;
+    }
+
+    if ((match = destination.match(/^\/app\/message\/(\d+)\/(read|delivered|edit|delete)$/))) {
+      const message = db.chatMessages.find(m => m.id === Number(match![1]));
+      if (!message) return;
+
+      switch (match[2]) {
+        case 'read':
+          message.deliveryStatus = 'READ';
+          this.broadcast('/user/queue/messages', { type: 'READ_RECEIPT', messageId: message.id, chatId: message.chatRoomId });
+          break;
+        case 'delivered':
+          if (message.deliveryStatus === 'SENT') message.deliveryStatus = 'DELIVERED';
+          this.broadcast('/user/queue/messages', { type: 'DELIVERY_RECEIPT', messageId: message.id, chatId: message.chatRoomId });
+          break;
+        case 'edit':
+          message.content = String(payload.content ?? message.content);
+          message.isEdited = true;
+          message.editedAt = new Date().toISOString();
+          this.broadcast('/user/queue/messages', { type: 'MESSAGE_EDITED', ...message });
+          break;
+        case 'delete':
+          message.isDeleted = true;
+          this.broadcast('/user/queue/messages', { type: 'MESSAGE_DELETED', messageId: message.id, chatId: message.chatRoomId });
+          break;
+      }
+    }
+
+    // Typing frames and pings need no broker-side state
+  }
+
+  private findCounterpart(room: ChatRoomDto, sender: MockUser): MockUser | null {
+    const db = MockBackend.db;
+    const otherSenderId = db.chatMessages
+      .filter(m => m.chatRoomId === room.id && m.sender && m.sender.id !== sender.userId)
+      .map(m => m.sender!.id)[0] ?? (room.createdBy.id !== sender.userId ? room.createdBy.id : undefined);
+    return db.users.find(u => u.userId === otherSenderId) || null;
+  }
+
+  private parseBody(body: string): Record<string, any> {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return {};
+    }
+  }
+}
+
+export const MockStompBroker = new MockStompBrokerClass();
+
+// =============== CLIENT ===============
+
+interface MockStompClientConfig {
+  connectHeaders?: StompHeaders;
+  onConnect?: (frame: IFrame) => void;
+  onDisconnect?: (frame: IFrame) => void;
+  onStompError?: (frame: IFrame) => void;
+}
+
+const frame = (command: string, headers: StompHeaders = {}, body = ''): IFrame => ({
+  command,
+  headers,
+  isBinaryBody: false,
+  body,
+  binaryBody: new Uint8Array(),
+});
+
+/**
+ * Drop-in for the stompjs `Client` subset WebSocketService relies on
+ */
+export class MockStompClient {
+  public connectHeaders: StompHeaders;
+  private config: MockStompClientConfig;
+  private user: MockUser | null = null;
+  private connected = false;
+  private subscriptionCount = 0;
+
+  constructor(config: MockStompClientConfig) {
+    this.config = config;
+    this.connectHeaders = config.connectHeaders || {};
+  }
+
+  activate(): void {
+    setTimeout(() => {
+      this.user = MockBackend.findUserByToken(this.connectHeaders.Authorization);
+      if (!this.user) {
+        this.config.onStompError?.(frame('ERROR', { message: 'Unauthorized' }, 'Invalid or missing token'));
+        return;
+      }
+      this.connected = true;
+      this.config.onConnect?.(frame('CONNECTED', { version: '1.2', server: 'carworld-mock' }));
+    }, 100);
+  }
+
+  async deactivate(): Promise<void> {
+    if (!this.connected) return;
+    this.connected = false;
+    this.config.onDisconnect?.(frame('DISCONNECT'));
+  }
+
+  subscribe(destination: string, callback: messageCallbackType): StompSubscription {
+    this.subscriptionCount += 1;
+    const id = `mock-sub-${this.subscriptionCount}`;
+    const remove = MockStompBroker.subscribe(destination, callback);
+    return { id, unsubscribe: remove };
+  }
+
+  publish(params: IPublishParams): void {
+    if (!this.connected) {
+      throw new Error('There is no underlying STOMP connection');
+    }
+    MockStompBroker.handlePublish(this.user, params.destination, params.body);
+  }
+}
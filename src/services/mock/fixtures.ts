@@ -0,0 +1,454 @@
+import type {
+  ActiveSession,
+  AppNotification,
+  ChatMessageDto,
+  ChatRoomDto,
+  DealerGroup,
+  DirectMessage,
+  GroupInvitation,
+  SavedSearch,
+  Vehicle,
+} from '../contracts';
+import { DEFAULT_SEED, MOCK_PASSWORD } from './MockBackend';
+
+/**
+ * Mock Backend Fixtures
+ *
+ * Seedable in-memory data set behind the mock backend. The same seed always
+ * produces the same inventory, so demos and bug reports are reproducible.
+ * Handlers mutate the database in place; `createFixtures` starts over.
+ */
+
+// =============== TYPES ===============
+
+export interface MockUser {
+  userId: number;
+  username: string;
+  email: string;
+  password: string;
+  name: string;
+  role: 'USER' | 'DEALER' | 'ADMIN';
+  dealership?: string;
+  location: string;
+  phoneNumber?: string;
+  emailVerified: boolean;
+  verifiedDealer: boolean;
+  isOnline: boolean;
+}
+
+/** Notifications without a recipient are shown to every user */
+export type MockNotification = AppNotification & { userId?: number };
+
+export type MockSavedSearch = SavedSearch & { userId: number };
+
+export interface MockWatchlistEntry {
+  userId: number;
+  carId: string;
+  savedAt: string;
+  savedPrice: number;
+}
+
+export interface MockDatabase {
+  seed: number;
+  users: MockUser[];
+  vehicles: Vehicle[];
+  groups: DealerGroup[];
+  invitations: GroupInvitation[];
+  directMessages: DirectMessage[];
+  notifications: MockNotification[];
+  savedSearches: MockSavedSearch[];
+  watchlist: MockWatchlistEntry[];
+  chatRooms: ChatRoomDto[];
+  chatMessages: ChatMessageDto[];
+  sessions: ActiveSession[];
+  nextId: number;
+}
+
+// =============== CONSTANTS ===============
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const CATALOG: Array<{ make: string; model: string; variants: string[]; basePrice: number }> = [
+  { make: 'Maruti Suzuki', model: 'Swift', variants: ['LXi', 'VXi', 'ZXi+'], basePrice: 650000 },
+  { make: 'Hyundai', model: 'Creta', variants: ['E', 'S', 'SX(O)'], basePrice: 1350000 },
+  { make: 'Honda', model: 'City', variants: ['V', 'VX CVT', 'ZX'], basePrice: 1250000 },
+  { make: 'Tata', model: 'Nexon', variants: ['Smart', 'Pure', 'Fearless+'], basePrice: 1000000 },
+  { make: 'Mahindra', model: 'XUV700', variants: ['MX', 'AX5', 'AX7 L'], basePrice: 2000000 },
+  { make: 'Toyota', model: 'Fortuner', variants: ['4x2 AT', '4x4 MT', 'Legender'], basePrice: 3800000 },
+  { make: 'Kia', model: 'Seltos', variants: ['HTE', 'HTX', 'GTX+'], basePrice: 1400000 },
+  { make: 'BMW', model: 'X5', variants: ['xDrive30d', 'xDrive40i M Sport'], basePrice: 9500000 },
+  { make: 'Mercedes-Benz', model: 'C-Class', variants: ['C 200', 'C 220d', 'C 300d'], basePrice: 6000000 },
+  { make: 'Volkswagen', model: 'Virtus', variants: ['Comfortline', 'Highline', 'GT Plus'], basePrice: 1300000 },
+];
+
+const CITIES = ['Mumbai', 'Delhi', 'Bangalore', 'Pune', 'Hyderabad', 'Chennai'];
+// City centres; cars are spread a few km around them
+const CITY_COORDINATES: Record<string, { latitude: number; longitude: number }> = {
+  Mumbai: { latitude: 19.076, longitude: 72.8777 },
+  Delhi: { latitude: 28.6139, longitude: 77.209 },
+  Bangalore: { latitude: 12.9716, longitude: 77.5946 },
+  Pune: { latitude: 18.5204, longitude: 73.8567 },
+  Hyderabad: { latitude: 17.385, longitude: 78.4867 },
+  Chennai: { latitude: 13.0827, longitude: 80.2707 },
+};
+const FUEL_TYPES = ['Petrol', 'Diesel', 'CNG', 'Electric'];
+const TRANSMISSIONS = ['Manual', 'Automatic'];
+const COLORS = ['White', 'Silver', 'Black', 'Red', 'Blue', 'Grey'];
+const CONDITIONS = ['Excellent', 'Good', 'Like New', 'Fair'];
+const STATUSES = ['AVAILABLE', 'AVAILABLE', 'AVAILABLE', 'RESERVED', 'SOLD'];
+
+const IMAGES = [
+  'https://images.unsplash.com/photo-1583121274602-3e2820c69888?w=800',
+  'https://images.unsplash.com/photo-1552519507-da3b142c6e3d?w=800',
+  'https://images.unsplash.com/photo-1494976388531-d1058494cdd8?w=800',
+  'https://images.unsplash.com/photo-1502877338535-766e1452684a?w=800',
+  'https://images.unsplash.com/photo-1549399542-7e3f8b79c341?w=800',
+  'https://images.unsplash.com/photo-1541899481282-d53bffe3c35d?w=800',
+];
+
+// =============== HELPERS ===============
+
+/**
+ * Small deterministic PRNG (mulberry32) - Math.random can't be seeded
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T,>(items: T[]): T => items[Math.floor(next() * items.length)],
+  };
+};
+
+/**
+ * Where a dealer's showroom is (what DealerVerification captures). Cars a
+ * dealer lists in their own city are parked there.
+ */
+const dealerShowroom = (dealer: MockUser) => {
+  const centre = CITY_COORDINATES[dealer.location] ?? CITY_COORDINATES.Mumbai;
+  return {
+    latitude: centre.latitude + ((dealer.userId % 5) - 2) * 0.02,
+    longitude: centre.longitude + ((dealer.userId % 3) - 1) * 0.02,
+  };
+};
+
+const isoAgo = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+const chatUser = (user: MockUser) => ({
+  id: user.userId,
+  username: user.username,
+  displayName: user.name,
+  email: user.email,
+});
+
+// =============== FIXTURES ===============
+
+const createUsers = (): MockUser[] => [
+  {
+    userId: 1, username: 'demo.dealer', email: 'dealer@carworld.dev', password: MOCK_PASSWORD,
+    name: 'Arjun Kapoor', role: 'DEALER', dealership: 'Kapoor Auto Hub', location: 'Mumbai',
+    phoneNumber: '+919876543210', emailVerified: true, verifiedDealer: true, isOnline: true,
+  },
+  {
+    userId: 2, username: 'demo.buyer', email: 'buyer@carworld.dev', password: MOCK_PASSWORD,
+    name: 'Rahul Mehta', role: 'USER', location: 'Pune',
+    phoneNumber: '+919812345678', emailVerified: true, verifiedDealer: false, isOnline: true,
+  },
+  {
+    userId: 3, username: 'demo.admin', email: 'admin@carworld.dev', password: MOCK_PASSWORD,
+    name: 'Priya Nair', role: 'ADMIN', location: 'Bangalore',
+    emailVerified: true, verifiedDealer: false, isOnline: false,
+  },
+  {
+    userId: 4, username: 'demo.unverified', email: 'unverified@carworld.dev', password: MOCK_PASSWORD,
+    name: 'Neha Sharma', role: 'USER', location: 'Delhi',
+    emailVerified: false, verifiedDealer: false, isOnline: false,
+  },
+  {
+    userId: 11, username: 'john.smith', email: 'john@premiummotors.dev', password: MOCK_PASSWORD,
+    name: 'John Smith', role: 'DEALER', dealership: 'Premium Motors', location: 'Mumbai',
+    emailVerified: true, verifiedDealer: true, isOnline: true,
+  },
+  {
+    userId: 12, username: 'sarah.johnson', email: 'sarah@elitecars.dev', password: MOCK_PASSWORD,
+    name: 'Sarah Johnson', role: 'DEALER', dealership: 'Elite Cars', location: 'Delhi',
+    emailVerified: true, verifiedDealer: true, isOnline: true,
+  },
+  {
+    userId: 13, username: 'mike.wilson', email: 'mike@luxuryauto.dev', password: MOCK_PASSWORD,
+    name: 'Mike Wilson', role: 'DEALER', dealership: 'Luxury Auto Group', location: 'Bangalore',
+    emailVerified: true, verifiedDealer: true, isOnline: false,
+  },
+  {
+    userId: 14, username: 'lisa.garcia', email: 'lisa@speedmotors.dev', password: MOCK_PASSWORD,
+    name: 'Lisa Garcia', role: 'DEALER', dealership: 'Speed Motors', location: 'Pune',
+    emailVerified: true, verifiedDealer: true, isOnline: true,
+  },
+  {
+    userId: 15, username: 'tom.anderson', email: 'tom@performanceplus.dev', password: MOCK_PASSWORD,
+    name: 'Tom Anderson', role: 'DEALER', dealership: 'Performance Plus', location: 'Hyderabad',
+    emailVerified: true, verifiedDealer: true, isOnline: false,
+  },
+  {
+    userId: 16, username: 'chris.lee', email: 'chris@turbocars.dev', password: MOCK_PASSWORD,
+    name: 'Chris Lee', role: 'DEALER', dealership: 'Turbo Cars', location: 'Chennai',
+    emailVerified: true, verifiedDealer: true, isOnline: false,
+  },
+];
+
+const createVehicles = (random: ReturnType<typeof createRandom>, dealers: MockUser[]): Vehicle[] =>
+  Array.from({ length: 40 }, (_, index) => {
+    const entry = random.pick(CATALOG);
+    const dealer = dealers[index % dealers.length];
+    const year = random.int(2016, 2024);
+    const age = 2025 - year;
+    const mileage = age * random.int(6000, 14000);
+    const price = Math.round((entry.basePrice * Math.pow(0.9, age) * (0.9 + random.next() * 0.2)) / 1000) * 1000;
+    const variant = random.pick(entry.variants);
+    const city = random.pick(CITIES);
+    const fuelType = entry.make === 'Tata' && random.next() > 0.6 ? 'Electric' : random.pick(FUEL_TYPES.slice(0, 3));
+    const transmission = random.pick(TRANSMISSIONS);
+    const color = random.pick(COLORS);
+    const createdAt = isoAgo(random.int(1, 60) * DAY);
+    const firstImage = random.int(0, IMAGES.length - 1);
+    const images = [0, 1, 2].map(offset => IMAGES[(firstImage + offset) % IMAGES.length]);
+
+    return {
+      id: String(index + 1),
+      title: `${year} ${entry.make} ${entry.model} ${variant}`,
+      make: entry.make,
+      model: entry.model,
+      variant,
+      year,
+      price,
+      mileage,
+      location: city,
+      ...(city === dealer.location ? dealerShowroom(dealer) : {
+        // Fixed offsets (up to ~12 km) so the PRNG sequence stays unchanged
+        latitude: CITY_COORDINATES[city].latitude + (((index * 7) % 21) - 10) * 0.011,
+        longitude: CITY_COORDINATES[city].longitude + (((index * 13) % 21) - 10) * 0.011,
+      }),
+      condition: random.pick(CONDITIONS),
+      images,
+      imageUrl: images[0],
+      fuelType,
+      transmission,
+      color,
+      specifications: {
+        fuelType,
+        transmission,
+        color,
+        kmDriven: mileage,
+        numberOfOwners: random.int(1, 3),
+        location: city,
+        insurance: random.next() > 0.3,
+      },
+      dealerId: String(dealer.userId),
+      dealerName: dealer.dealership || dealer.name,
+      isCoListed: false,
+      coListedIn: [],
+      views: random.int(20, 1500),
+      inquiries: random.int(0, 40),
+      shares: random.int(0, 25),
+      status: random.pick(STATUSES),
+      featured: random.next() > 0.85,
+      // Derived from the index so the seeded sequence above stays unchanged
+      accidentHistory: index % 6 === 2,
+      repaintedParts: index % 4 === 1,
+      floodDamage: index % 13 === 5,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  });
+
+const createGroups = (users: MockUser[]): DealerGroup[] => {
+  const member = (userId: number, role: 'admin' | 'member') => {
+    const user = users.find(u => u.userId === userId)!;
+    return { id: String(userId), name: user.name, dealership: user.dealership || '', role };
+  };
+
+  return [
+    {
+      id: '1',
+      name: 'Luxury Car Dealers Network',
+      description: 'Network for premium luxury vehicle dealers. Share inventory, collaborate on sales, and expand your reach in the luxury car market.',
+      isPrivate: false,
+      adminId: '1',
+      members: [member(1, 'admin'), member(11, 'member'), member(12, 'member'), member(13, 'member')],
+      createdAt: isoAgo(90 * DAY),
+    },
+    {
+      id: '2',
+      name: 'Regional Dealers Alliance',
+      description: 'Regional dealer partnerships',
+      isPrivate: true,
+      adminId: '12',
+      members: [member(12, 'admin'), member(1, 'member'), member(14, 'member')],
+      createdAt: isoAgo(45 * DAY),
+    },
+  ];
+};
+
+const createDirectMessages = (): DirectMessage[] => {
+  const message = (
+    id: number, senderId: number, receiverId: number, text: string, ago: number,
+    status: DirectMessage['status'], type = 'text',
+  ): DirectMessage => ({
+    id: String(id),
+    senderId: String(senderId),
+    receiverId: String(receiverId),
+    message: text,
+    timestamp: isoAgo(ago),
+    status,
+    type,
+  });
+
+  return [
+    message(1, 1, 12, 'Hi Sarah, do you still have buyers looking for a BMW X5?', 40 * MINUTE, 'read'),
+    message(2, 12, 1, 'I have a customer interested in your BMW X5. Can we discuss pricing?', 15 * MINUTE, 'delivered'),
+    message(3, 12, 1, 'They can do a test drive this weekend.', 14 * MINUTE, 'delivered'),
+    message(4, 1, 13, 'Thanks for the vehicle details. Let me review and get back to you.', 2 * HOUR, 'read'),
+    message(5, 14, 1, 'Shared vehicle: 2023 Porsche 911 - ₹1,25,00,000', 6 * HOUR, 'delivered', 'vehicle'),
+    message(6, 1, 15, 'Perfect! When can we schedule the vehicle inspection?', DAY, 'read'),
+    message(7, 16, 1, 'Quote updated: ₹89,50,000 (Final offer)', 2 * DAY, 'delivered', 'quote'),
+  ];
+};
+
+const createNotifications = (): MockNotification[] => [
+  {
+    id: '1', type: 'INQUIRY', title: 'New inquiry',
+    message: 'Rahul Mehta asked about your Honda City', timestamp: isoAgo(20 * MINUTE), isRead: false,
+  },
+  {
+    id: '2', type: 'GROUP_INVITE', title: 'Group invitation',
+    message: 'Lisa Garcia invited you to Pune Pre-Owned Partners', timestamp: isoAgo(3 * HOUR), isRead: false,
+    actionable: true,
+  },
+  {
+    id: '3', type: 'LISTING', title: 'Listing approved',
+    message: 'Your Hyundai Creta listing is now live', timestamp: isoAgo(DAY), isRead: true,
+  },
+];
+
+const createChat = (users: MockUser[], vehicles: Vehicle[]) => {
+  const dealer = users.find(u => u.userId === 1)!;
+  const buyer = users.find(u => u.userId === 2)!;
+  const car = vehicles.find(v => v.dealerId === '1') || vehicles[0];
+
+  const chatMessages: ChatMessageDto[] = [
+    {
+      id: 1, chatRoomId: 1, sender: chatUser(buyer), messageType: 'TEXT',
+      content: `Hello! I saw your listing for the ${car.make} ${car.model}. Is it still available?`,
+      isEdited: false, isDeleted: false, createdAt: isoAgo(HOUR), updatedAt: isoAgo(HOUR), deliveryStatus: 'READ',
+    },
+    {
+      id: 2, chatRoomId: 1, sender: chatUser(dealer), messageType: 'TEXT',
+      content: "Yes, it's still available! Would you like to schedule a test drive?",
+      isEdited: false, isDeleted: false, createdAt: isoAgo(50 * MINUTE), updatedAt: isoAgo(50 * MINUTE), deliveryStatus: 'READ',
+    },
+    {
+      id: 3, chatRoomId: 1, sender: chatUser(buyer), messageType: 'TEXT',
+      content: 'That would be great! When would be a good time?',
+      isEdited: false, isDeleted: false, createdAt: isoAgo(30 * MINUTE), updatedAt: isoAgo(30 * MINUTE), deliveryStatus: 'DELIVERED',
+    },
+  ];
+
+  const chatRooms: ChatRoomDto[] = [
+    {
+      id: 1,
+      name: `${car.make} ${car.model} inquiry`,
+      type: 'CAR_INQUIRY',
+      createdBy: chatUser(buyer),
+      isActive: true,
+      carId: Number(car.id),
+      createdAt: isoAgo(HOUR),
+      updatedAt: isoAgo(30 * MINUTE),
+      lastActivityAt: isoAgo(30 * MINUTE),
+      participantCount: 2,
+      unreadCount: 1,
+      lastMessage: chatMessages[2],
+      status: 'NEW',
+      leadScore: 80,
+      buyerName: buyer.name,
+      buyerPhone: buyer.phoneNumber,
+      carInfo: { id: Number(car.id), title: car.title || `${car.make} ${car.model}`, price: car.price, imageUrl: car.imageUrl },
+    },
+  ];
+
+  return { chatRooms, chatMessages };
+};
+
+const createSessions = (): ActiveSession[] => [
+  {
+    id: 'mock-session-current', deviceBrand: 'Mock', deviceModel: 'This device', os: 'Mock OS',
+    city: 'Mumbai', country: 'India', lastActiveAt: isoAgo(0), current: true,
+  },
+  {
+    id: 'mock-session-tablet', deviceBrand: 'Samsung', deviceModel: 'Galaxy Tab S9', os: 'Android', osVersion: '14',
+    city: 'Pune', country: 'India', lastActiveAt: isoAgo(2 * DAY), current: false,
+  },
+];
+
+/**
+ * Build a fresh database. Inventory is generated from the seed; people,
+ * groups and conversations are fixed so walkthroughs read the same every time.
+ */
+export const createFixtures = (seed: number = DEFAULT_SEED): MockDatabase => {
+  const random = createRandom(seed);
+  const users = createUsers();
+  const dealers = users.filter(u => u.role === 'DEALER');
+  const vehicles = createVehicles(random, dealers);
+  const groups = createGroups(users);
+
+  // Co-list a few partner cars into the first group
+  vehicles
+    .filter(v => v.dealerId !== '1')
+    .slice(0, 4)
+    .forEach(v => {
+      v.isCoListed = true;
+      v.coListedIn = [groups[0].id];
+    });
+
+  const { chatRooms, chatMessages } = createChat(users, vehicles);
+
+  return {
+    seed,
+    users,
+    vehicles,
+    groups,
+    invitations: [
+      {
+        id: '1', groupId: '3', groupName: 'Pune Pre-Owned Partners',
+        invitedBy: '14', invitedByName: 'Lisa Garcia', invitedDealer: '1', status: 'pending',
+        createdAt: isoAgo(3 * HOUR), expiresAt: new Date(Date.now() + 7 * DAY).toISOString(),
+      },
+    ],
+    directMessages: createDirectMessages(),
+    notifications: createNotifications(),
+    savedSearches: [
+      {
+        id: '1', userId: 2, name: 'Hyundai · under ₹15,00,000', notify: true,
+        filters: {
+          searchText: '', make: ['Hyundai'], model: [], yearMin: '', yearMax: '', priceMin: '',
+          priceMax: '15,00,000', mileageMax: '', location: [], condition: [], fuelType: [],
+          transmission: [], sortBy: 'price-low',
+        },
+        createdAt: isoAgo(2 * DAY), resultCount: 0,
+      },
+    ],
+    watchlist: [],
+    chatRooms,
+    chatMessages,
+    sessions: createSessions(),
+    nextId: 1000,
+  };
+};
@@ -0,0 +1,115 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { MockBackend } from './MockBackend';
+import { handleMockRequest, MockHttpError, MockResponse } from './mockRoutes';
+
+/**
+ * Mock Axios Adapter - answers ApiClient requests from the mock route table
+ *
+ * Installed per request by the ApiClient request interceptor while mock mode
+ * is on, so interceptors (auth header, 401 refresh, error mapping) and
+ * retries run exactly as they do against the real server.
+ */
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  409: 'Conflict',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+};
+
+const parseUrl = (config: InternalAxiosRequestConfig) => {
+  const raw = config.url || '';
+  // Strip scheme + host whether the url is absolute or relative to baseURL
+  const withoutOrigin = raw.replace(/^[a-z]+:\/\/[^/]+/i, '');
+  const [path, search = ''] = withoutOrigin.split('?');
+
+  const query: Record<string, string> = {};
+  search.split('&').filter(Boolean).forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  });
+  Object.entries(config.params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      query[key] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+  });
+
+  return { path: path.replace(/\/+$/, '') || '/', query };
+};
+
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const errorResponse = (error: MockHttpError, path: string): MockResponse => ({
+  status: error.status,
+  data: {
+    timestamp: new Date().toISOString(),
+    message: error.message,
+    details: error.message,
+    path,
+    errorCode: error.errorCode,
+  },
+});
+
+export const mockAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  const method = (config.method || 'get').toUpperCase();
+  const { path, query } = parseUrl(config);
+  const authorization = config.headers?.Authorization as string | undefined;
+
+  await MockBackend.delay();
+
+  let result: MockResponse;
+  try {
+    result = handleMockRequest(method, path, query, parseBody(config.data), authorization);
+  } catch (error) {
+    if (!(error instanceof MockHttpError)) {
+      console.error(`[MockBackend] ${method} ${path} failed:`, error);
+    }
+    result = errorResponse(
+      error instanceof MockHttpError
+        ? error
+        : new MockHttpError(500, 'MOCK_HANDLER_ERROR', (error as Error)?.message || 'Mock handler failed'),
+      path,
+    );
+  }
+
+  const response: AxiosResponse = {
+    data: result.data ?? '',
+    status: result.status,
+    statusText: STATUS_TEXT[result.status] ?? '',
+    headers: new AxiosHeaders({ 'content-type': 'application/json', ...result.headers }),
+    config,
+    request: { mock: true, responseURL: path },
+  };
+
+  const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+  if (validateStatus(response.status)) {
+    return response;
+  }
+
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response,
+  );
+};
+
+export default mockAdapter;
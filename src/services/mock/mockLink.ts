@@ -0,0 +1,165 @@
+import { ApolloLink, Observable } from '@apollo/client';
+import type { Vehicle } from '../contracts';
+import { MockBackend } from './MockBackend';
+import { InventoryFilters, searchFacets, searchInventory } from './mockRoutes';
+
+/**
+ * Mock Apollo Link - resolves GraphQL operations against the mock database
+ *
+ * Only the operations the app actually sends are implemented; anything else
+ * errors loudly so missing coverage is noticed.
+ */
+
+const toSearchCar = (vehicle: Vehicle) => ({
+  __typename: 'CarSearchResult',
+  id: vehicle.id,
+  brand: vehicle.make,
+  model: vehicle.model,
+  variant: vehicle.variant ?? null,
+  year: vehicle.year,
+  price: vehicle.price,
+  mileage: vehicle.mileage,
+  city: vehicle.location,
+  condition: vehicle.condition,
+  thumbnailUrl: vehicle.imageUrl || vehicle.images[0] || null,
+  sellerType: 'DEALER',
+  ownerId: vehicle.dealerId,
+  ownerName: vehicle.dealerName,
+  verifiedDealer: true,
+  views: vehicle.views,
+  fuelType: vehicle.fuelType || vehicle.specifications.fuelType || null,
+  transmission: vehicle.transmission || vehicle.specifications.transmission || null,
+  status: vehicle.status,
+  featured: vehicle.featured,
+  createdAt: vehicle.createdAt,
+});
+
+// Same cap as the backend's map endpoint
+const MAX_MAP_PINS = 500;
+
+// Opaque to the client; the mock simply encodes the offset
+const toCursor = (offset: number) => `offset:${offset}`;
+const fromCursor = (cursor?: string | null) => (cursor ? Number(cursor.split(':')[1]) + 1 : 0);
+
+// GraphQL CarSearchInput -> mock inventory filters
+const toInventoryFilters = (input: Record<string, any>): InventoryFilters => ({
+  query: input.keyword,
+  brands: input.brands,
+  models: input.models,
+  cities: input.cities,
+  conditions: input.conditions,
+  fuelTypes: input.fuelTypes,
+  transmissions: input.transmissions,
+  colors: input.colors,
+  minYear: input.minYear,
+  maxYear: input.maxYear,
+  minPrice: input.minPrice,
+  maxPrice: input.maxPrice,
+  maxMileage: input.maxMileage,
+  featured: input.featured,
+  near: input.near,
+  sort: input.sort,
+});
+
+const withTypename = <T extends object>(typename: string, items: T[]) =>
+  items.map(item => ({ __typename: typename, ...item }));
+
+const resolvers: Record<string, (variables: Record<string, any>) => Record<string, unknown>> = {
+  SearchCars: ({ input = {}, first = 20, after }) => {
+    const results = searchInventory(toInventoryFilters(input)).filter(vehicle => vehicle.status.toUpperCase() !== 'DELETED');
+
+    const start = fromCursor(after);
+    const edges = results.slice(start, start + first).map((vehicle, index) => ({
+      __typename: 'CarSearchEdge',
+      cursor: toCursor(start + index),
+      distanceKm: vehicle.distanceKm ?? null,
+      node: toSearchCar(vehicle),
+    }));
+
+    return {
+      searchCars: {
+        __typename: 'CarSearchConnection',
+        edges,
+        pageInfo: {
+          __typename: 'PageInfo',
+          endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+          hasNextPage: start + edges.length < results.length,
+        },
+        totalCount: results.length,
+      },
+    };
+  },
+
+  SearchCarPins: ({ input = {} }) => ({
+    searchCarPins: searchInventory(toInventoryFilters(input))
+      .filter(vehicle => vehicle.status.toUpperCase() !== 'DELETED')
+      .filter(vehicle => vehicle.latitude !== undefined && vehicle.longitude !== undefined)
+      .slice(0, MAX_MAP_PINS)
+      .map(vehicle => ({
+        __typename: 'CarPin',
+        id: vehicle.id,
+        latitude: vehicle.latitude,
+        longitude: vehicle.longitude,
+        city: vehicle.location || null,
+        ownerId: vehicle.dealerId || null,
+        ownerName: vehicle.dealerName || null,
+        verifiedDealer: true,
+        title: vehicle.title ?? `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+        price: vehicle.price,
+        thumbnailUrl: vehicle.images[0] ?? null,
+      })),
+  }),
+
+  SearchFacets: ({ input = {} }) => {
+    const facets = searchFacets(toInventoryFilters(input));
+    return {
+      searchFacets: {
+        __typename: 'SearchFacets',
+        totalCount: facets.totalCount,
+        brands: withTypename('FacetBucket', facets.brands),
+        models: withTypename('FacetBucket', facets.models),
+        cities: withTypename('FacetBucket', facets.cities),
+        conditions: withTypename('FacetBucket', facets.conditions),
+        fuelTypes: withTypename('FacetBucket', facets.fuelTypes),
+        transmissions: withTypename('FacetBucket', facets.transmissions),
+        years: withTypename('RangeBucket', facets.years),
+        prices: withTypename('RangeBucket', facets.prices),
+      },
+    };
+  },
+};
+
+interface ResultObserver {
+  next: (result: { data: Record<string, unknown> }) => void;
+  error: (error: unknown) => void;
+  complete: () => void;
+}
+
+export const mockLink = new ApolloLink(operation =>
+  new Observable((observer: ResultObserver) => {
+    let cancelled = false;
+
+    MockBackend.delay().then(() => {
+      if (cancelled) return;
+
+      const resolver = resolvers[operation.operationName ?? ''];
+      if (!resolver) {
+        observer.error(new Error(`Mock backend has no resolver for ${operation.operationName}`));
+        return;
+      }
+
+      try {
+        observer.next({ data: resolver(operation.variables) });
+        observer.complete();
+      } catch (error) {
+        observer.error(error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }),
+);
+
+export default mockLink;
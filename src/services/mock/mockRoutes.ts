@@ -0,0 +1,1246 @@
+import type {
+  AuthTokens,
+  ChatRoomDto,
+  DealerGroup,
+  DirectMessage,
+  SearchFilters,
+  UserData,
+  Vehicle,
+} from '../contracts';
+import type { MockSavedSearch, MockUser, MockWatchlistEntry } from './fixtures';
+import { MockBackend, MOCK_UPLOAD_PREFIX } from './MockBackend';
+import { MockStompBroker } from './MockStompBroker';
+import { Coordinates, distanceKm } from '../../utils/geo';
+
+/**
+ * Mock REST Routes - request handlers behind the mock axios adapter
+ *
+ * Response shapes mirror the real controllers, including their
+ * inconsistencies: auth and car endpoints wrap payloads in `ApiResponse`,
+ * group, messaging and chat endpoints return bare JSON.
+ */
+
+// =============== TYPES ===============
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  user: MockUser | null;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+type MockHandler = (req: MockRequest) => MockResponse;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  isPublic: boolean;
+  handler: MockHandler;
+}
+
+export class MockHttpError extends Error {
+  public status: number;
+  public errorCode: string;
+
+  constructor(status: number, errorCode: string, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.errorCode = errorCode;
+  }
+}
+
+export interface InventoryFilters {
+  query?: string;
+  brands?: string[];
+  models?: string[];
+  cities?: string[];
+  fuelTypes?: string[];
+  transmissions?: string[];
+  colors?: string[];
+  minYear?: number;
+  maxYear?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  maxMileage?: number;
+  conditions?: string[];
+  status?: string;
+  featured?: boolean;
+  near?: Coordinates & { radiusKm?: number };
+  sort?: string;
+}
+
+// =============== RESPONSE HELPERS ===============
+
+const json = (data: unknown, status = 200): MockResponse => ({ status, data });
+
+/** Spring `ApiResponse<T>` envelope */
+const envelope = (data: unknown, message = 'OK'): MockResponse =>
+  json({ success: true, message, timestamp: new Date().toISOString(), data });
+
+const noContent = (): MockResponse => ({ status: 204 });
+
+const notFound = (what: string): never => {
+  throw new MockHttpError(404, 'NOT_FOUND', `${what} not found`);
+};
+
+const requireUser = (req: MockRequest): MockUser => {
+  if (!req.user) {
+    throw new MockHttpError(401, 'INVALID_TOKEN', 'Authentication required');
+  }
+  return req.user;
+};
+
+export const toPage = <T,>(items: T[], page = 0, size = 20) => {
+  const start = page * size;
+  const content = items.slice(start, start + size);
+  const totalPages = Math.ceil(items.length / size);
+  return {
+    content,
+    totalElements: items.length,
+    totalPages,
+    number: page,
+    size,
+    first: page === 0,
+    last: page >= totalPages - 1,
+    empty: content.length === 0,
+  };
+};
+
+const pageParams = (query: Record<string, string>) => ({
+  page: Number(query.page ?? 0),
+  size: Number(query.size ?? 20),
+});
+
+const list = (value?: string) => (value ? value.split(',').map(v => v.trim()).filter(Boolean) : undefined);
+
+const num = (value?: string) => (value !== undefined && value !== '' ? Number(value) : undefined);
+
+// =============== INVENTORY ===============
+
+const sortVehicles = (vehicles: Vehicle[], sort = 'createdAt,desc'): Vehicle[] => {
+  const [field, direction = 'asc'] = sort.split(',');
+  const factor = direction.toLowerCase() === 'desc' ? -1 : 1;
+  return [...vehicles].sort((a, b) => {
+    const left = (a as Record<string, any>)[field];
+    const right = (b as Record<string, any>)[field];
+    if (left === right) return 0;
+    return (left > right ? 1 : -1) * factor;
+  });
+};
+
+const includesIgnoreCase = (values: string[] | undefined, value?: string) =>
+  !values?.length || (!!value && values.some(v => v.toLowerCase() === value.toLowerCase()));
+
+const matchesInventoryFilters = (vehicle: Vehicle, filters: InventoryFilters): boolean => {
+  const query = filters.query?.trim().toLowerCase();
+  if (query) {
+    const haystack = `${vehicle.title ?? ''} ${vehicle.make} ${vehicle.model} ${vehicle.variant ?? ''} ${vehicle.location}`.toLowerCase();
+    if (!query.split(/\s+/).every(term => haystack.includes(term))) return false;
+  }
+  if (!includesIgnoreCase(filters.brands, vehicle.make)) return false;
+  if (!includesIgnoreCase(filters.models, vehicle.model)) return false;
+  if (!includesIgnoreCase(filters.cities, vehicle.location)) return false;
+  if (!includesIgnoreCase(filters.fuelTypes, vehicle.fuelType)) return false;
+  if (!includesIgnoreCase(filters.transmissions, vehicle.transmission)) return false;
+  if (!includesIgnoreCase(filters.colors, vehicle.color)) return false;
+  if (!includesIgnoreCase(filters.conditions, vehicle.condition)) return false;
+  if (filters.minYear !== undefined && vehicle.year < filters.minYear) return false;
+  if (filters.maxYear !== undefined && vehicle.year > filters.maxYear) return false;
+  if (filters.minPrice !== undefined && vehicle.price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && vehicle.price > filters.maxPrice) return false;
+  if (filters.maxMileage !== undefined && vehicle.mileage > filters.maxMileage) return false;
+  if (filters.status && vehicle.status.toUpperCase() !== filters.status.toUpperCase()) return false;
+  if (filters.featured !== undefined && vehicle.featured !== filters.featured) return false;
+  if (filters.near?.radiusKm !== undefined) {
+    if (vehicle.latitude === undefined || vehicle.longitude === undefined) return false;
+    const { latitude, longitude } = vehicle;
+    if (distanceKm(filters.near, { latitude, longitude }) > filters.near.radiusKm) return false;
+  }
+  return true;
+};
+
+// Distance from the search origin, as the backend annotates geo searches
+const withDistance = (vehicle: Vehicle, near?: Coordinates): Vehicle => {
+  if (!near || vehicle.latitude === undefined || vehicle.longitude === undefined) return vehicle;
+  const { latitude, longitude } = vehicle;
+  return { ...vehicle, distanceKm: Math.round(distanceKm(near, { latitude, longitude }) * 10) / 10 };
+};
+
+/**
+ * Filter + sort the mock inventory. Shared by REST search and the GraphQL link.
+ */
+export const searchInventory = (filters: InventoryFilters): Vehicle[] =>
+  sortVehicles(
+    MockBackend.db.vehicles
+      .filter(vehicle => matchesInventoryFilters(vehicle, filters))
+      .map(vehicle => withDistance(vehicle, filters.near)),
+    filters.sort,
+  );
+
+// =============== FACETS ===============
+
+interface MockRangeBucket {
+  label: string;
+  min: number | null;
+  max: number | null;
+}
+
+const lakh = (value: number) => `₹${value / 100000}L`;
+
+const PRICE_BUCKETS: MockRangeBucket[] = [
+  { label: `Under ${lakh(500000)}`, min: null, max: 499999 },
+  { label: `${lakh(500000)} – ${lakh(1000000)}`, min: 500000, max: 999999 },
+  { label: `${lakh(1000000)} – ${lakh(2000000)}`, min: 1000000, max: 1999999 },
+  { label: `${lakh(2000000)} – ${lakh(5000000)}`, min: 2000000, max: 4999999 },
+  { label: `${lakh(5000000)}+`, min: 5000000, max: null },
+];
+
+const yearBuckets = (): MockRangeBucket[] => {
+  const year = new Date().getFullYear();
+  return [
+    { label: `${year - 2} & newer`, min: year - 2, max: null },
+    { label: `${year - 5} – ${year - 3}`, min: year - 5, max: year - 3 },
+    { label: `${year - 8} – ${year - 6}`, min: year - 8, max: year - 6 },
+    { label: `Before ${year - 8}`, min: null, max: year - 9 },
+  ];
+};
+
+const inRange = (value: number, bucket: MockRangeBucket) =>
+  (bucket.min === null || value >= bucket.min) && (bucket.max === null || value <= bucket.max);
+
+const countValues = (vehicles: Vehicle[], pick: (vehicle: Vehicle) => string | undefined) => {
+  const counts = new Map<string, number>();
+  vehicles.forEach(vehicle => {
+    const value = pick(vehicle);
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+const countRanges = (vehicles: Vehicle[], buckets: MockRangeBucket[], pick: (vehicle: Vehicle) => number) =>
+  buckets.map(bucket => ({ ...bucket, count: vehicles.filter(v => inRange(pick(v), bucket)).length }));
+
+/**
+ * Facet counts for a search, the way the backend aggregates them: each facet
+ * ignores its own filter (so sibling options keep their counts) but honours
+ * every other filter.
+ */
+export const searchFacets = (filters: InventoryFilters) => {
+  const listed = MockBackend.db.vehicles.filter(v => v.status.toUpperCase() !== 'DELETED');
+  const without = (...keys: (keyof InventoryFilters)[]) => {
+    const rest = { ...filters };
+    keys.forEach(key => delete rest[key]);
+    return listed.filter(vehicle => matchesInventoryFilters(vehicle, rest));
+  };
+
+  return {
+    totalCount: listed.filter(vehicle => matchesInventoryFilters(vehicle, filters)).length,
+    brands: countValues(without('brands'), v => v.make),
+    models: countValues(without('models'), v => v.model),
+    cities: countValues(without('cities'), v => v.location),
+    conditions: countValues(without('conditions'), v => v.condition),
+    fuelTypes: countValues(without('fuelTypes'), v => v.fuelType),
+    transmissions: countValues(without('transmissions'), v => v.transmission),
+    years: countRanges(without('minYear', 'maxYear'), yearBuckets(), v => v.year),
+    prices: countRanges(without('minPrice', 'maxPrice'), PRICE_BUCKETS, v => v.price),
+  };
+};
+
+const publicInventory = () => MockBackend.db.vehicles.filter(v => v.status.toUpperCase() !== 'DELETED');
+
+const findVehicle = (id: string): Vehicle =>
+  MockBackend.db.vehicles.find(v => v.id === id) ?? notFound('Vehicle');
+
+const updateVehicle = (vehicle: Vehicle, updates: Partial<Vehicle>): Vehicle => {
+  const before = { price: vehicle.price, status: vehicle.status, mediaStatus: vehicle.mediaStatus };
+  Object.assign(vehicle, updates, { updatedAt: new Date().toISOString() });
+  notifyWatchers(vehicle, before);
+  return vehicle;
+};
+
+// =============== WATCHLIST ===============
+
+type WatchedFields = Pick<Vehicle, 'price' | 'status' | 'mediaStatus'>;
+
+const toWatchlistEntry = ({ carId, savedAt, savedPrice }: MockWatchlistEntry) => ({
+  carId,
+  savedAt,
+  savedPrice,
+  car: MockBackend.db.vehicles.find(v => v.id === carId && v.status.toUpperCase() !== 'DELETED') ?? null,
+});
+
+/**
+ * What the backend does after a listing changes: tell everyone who saved the
+ * car about a price drop, it being reserved/sold, or its media becoming ready.
+ */
+const notifyWatchers = (vehicle: Vehicle, before: WatchedFields) => {
+  const title = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+  const status = vehicle.status.toUpperCase();
+  let message: string | null = null;
+  let change: 'price_drop' | 'status' | 'media_ready' | null = null;
+
+  if (vehicle.price < before.price) {
+    change = 'price_drop';
+    message = `${title} dropped from ₹${before.price.toLocaleString('en-IN')} to ₹${vehicle.price.toLocaleString('en-IN')}`;
+  } else if (status !== before.status.toUpperCase() && (status === 'RESERVED' || status === 'SOLD')) {
+    change = 'status';
+    message = `${title} is now ${status === 'SOLD' ? 'sold' : 'reserved'}`;
+  } else if (vehicle.mediaStatus === 'READY' && before.mediaStatus !== 'READY') {
+    change = 'media_ready';
+    message = `New photos and video are ready for ${title}`;
+  }
+  if (!change || !message) return;
+
+  const now = new Date().toISOString();
+  MockBackend.db.watchlist
+    .filter(entry => entry.carId === vehicle.id)
+    .forEach(entry => {
+      MockBackend.db.notifications.unshift({
+        id: String(MockBackend.nextId()),
+        userId: entry.userId,
+        type: 'saved_car',
+        title: change === 'price_drop' ? 'Saved Car Price Drop' : 'Saved Car Update',
+        message: message as string,
+        timestamp: now,
+        isRead: false,
+        actionable: true,
+        data: {
+          vehicleId: vehicle.id,
+          change,
+          ...(change === 'price_drop' ? { oldPrice: before.price, newPrice: vehicle.price } : {}),
+          ...(change === 'status' ? { status: vehicle.status } : {}),
+        },
+      });
+    });
+};
+
+// =============== SAVED SEARCHES ===============
+
+const amount = (value: string) => num(value.replace(/,/g, ''));
+
+const savedSearchInventoryFilters = (filters: SearchFilters): InventoryFilters => ({
+  query: filters.searchText || undefined,
+  brands: filters.make,
+  models: filters.model,
+  cities: filters.location,
+  fuelTypes: filters.fuelType,
+  transmissions: filters.transmission,
+  conditions: filters.condition,
+  minYear: num(filters.yearMin),
+  maxYear: num(filters.yearMax),
+  minPrice: amount(filters.priceMin),
+  maxPrice: amount(filters.priceMax),
+  maxMileage: amount(filters.mileageMax),
+  near: filters.origin && filters.radiusKm !== undefined ? { ...filters.origin, radiusKm: filters.radiusKm } : undefined,
+});
+
+const withResultCount = (saved: MockSavedSearch) => ({
+  ...saved,
+  resultCount: searchInventory(savedSearchInventoryFilters(saved.filters)).length,
+});
+
+const findSavedSearch = (user: MockUser, id: string): MockSavedSearch =>
+  MockBackend.db.savedSearches.find(saved => saved.id === id && saved.userId === user.userId) ??
+  notFound('Saved search');
+
+/**
+ * What the backend does after a listing is created or repriced: alert every
+ * other user whose saved search (with notify on) matches the car.
+ */
+const notifySavedSearches = (vehicle: Vehicle, previousPrice?: number) => {
+  const isPriceDrop = previousPrice !== undefined;
+  const now = new Date().toISOString();
+
+  MockBackend.db.savedSearches
+    .filter(saved => saved.notify && String(saved.userId) !== vehicle.dealerId)
+    .filter(saved => matchesInventoryFilters(vehicle, savedSearchInventoryFilters(saved.filters)))
+    .forEach(saved => {
+      saved.lastNotifiedAt = now;
+      MockBackend.db.notifications.unshift({
+        id: String(MockBackend.nextId()),
+        userId: saved.userId,
+        type: isPriceDrop ? 'price_alert' : 'new_listing',
+        title: isPriceDrop ? 'Price Drop Alert' : 'New Listing Alert',
+        message: isPriceDrop
+          ? `${vehicle.year} ${vehicle.make} ${vehicle.model} dropped to ₹${vehicle.price.toLocaleString('en-IN')} (${saved.name})`
+          : `A ${vehicle.year} ${vehicle.make} ${vehicle.model} matching "${saved.name}" was just listed`,
+        timestamp: now,
+        isRead: false,
+        actionable: true,
+        data: {
+          vehicleId: vehicle.id,
+          savedSearchId: saved.id,
+          filters: saved.filters,
+          ...(isPriceDrop ? { oldPrice: previousPrice, newPrice: vehicle.price } : {}),
+        },
+      });
+    });
+};
+
+// =============== AUTH ===============
+
+const toUserData = (user: MockUser): UserData => ({
+  id: user.userId,
+  userId: user.userId,
+  username: user.username,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  location: user.location,
+  phoneNumber: user.phoneNumber,
+  emailVerified: user.emailVerified,
+  verifiedDealer: user.verifiedDealer,
+});
+
+const issueTokens = (user: MockUser): AuthTokens => {
+  const accessTtl = 60 * 60;
+  const refreshTtl = 30 * 24 * 60 * 60;
+  return {
+    accessToken: MockBackend.issueToken(user.userId, 'access'),
+    refreshToken: MockBackend.issueToken(user.userId, 'refresh'),
+    tokenType: 'Bearer',
+    userId: user.userId,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    location: user.location,
+    emailVerified: user.emailVerified,
+    verifiedDealer: user.verifiedDealer,
+    expiresAt: new Date(Date.now() + accessTtl * 1000).toISOString(),
+    refreshExpiresAt: new Date(Date.now() + refreshTtl * 1000).toISOString(),
+    expiresIn: accessTtl,
+    refreshExpiresIn: refreshTtl,
+  };
+};
+
+const findUserByLogin = (login: string): MockUser | undefined => {
+  const value = (login || '').trim().toLowerCase();
+  return MockBackend.db.users.find(u => u.email === value || u.username === value);
+};
+
+// =============== MESSAGING ===============
+
+const conversationsFor = (user: MockUser) => {
+  const self = String(user.userId);
+  const byPartner = new Map<string, DirectMessage[]>();
+
+  MockBackend.db.directMessages
+    .filter(m => m.senderId === self || m.receiverId === self)
+    .forEach(m => {
+      const partnerId = m.senderId === self ? m.receiverId : m.senderId;
+      byPartner.set(partnerId, [...(byPartner.get(partnerId) ?? []), m]);
+    });
+
+  return [...byPartner.entries()]
+    .map(([partnerId, messages]) => {
+      const partner = MockBackend.db.users.find(u => String(u.userId) === partnerId);
+      const last = messages[messages.length - 1];
+      return {
+        id: partnerId,
+        participantId: partnerId,
+        participantName: partner?.name ?? 'Unknown dealer',
+        participantDealership: partner?.dealership,
+        participantOnline: partner?.isOnline ?? false,
+        lastMessage: last.message,
+        lastMessageAt: last.timestamp,
+        lastMessageType: last.type,
+        lastMessageSenderId: last.senderId,
+        unreadCount: messages.filter(m => m.receiverId === self && m.status !== 'read').length,
+      };
+    })
+    .sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt));
+};
+
+const chatRoomsFor = (user: MockUser): ChatRoomDto[] =>
+  MockBackend.db.chatRooms
+    .filter(room =>
+      room.createdBy.id === user.userId ||
+      user.role === 'DEALER' && MockBackend.db.vehicles.some(v => Number(v.id) === room.carId && v.dealerId === String(user.userId)),
+    )
+    .sort((a, b) => (b.lastActivityAt ?? '').localeCompare(a.lastActivityAt ?? ''));
+
+const findRoom = (id: string): ChatRoomDto =>
+  MockBackend.db.chatRooms.find(r => r.id === Number(id)) ?? notFound('Chat');
+
+const findGroup = (id: string): DealerGroup =>
+  MockBackend.db.groups.find(g => g.id === id) ?? notFound('Group');
+
+// =============== ROUTES ===============
+
+const routes: MockRoute[] = [];
+
+/**
+ * Register a handler. Path segments starting with `:` become params.
+ * Order matters - literal paths must come before `:id` siblings.
+ */
+const route = (method: string, path: string, handler: MockHandler, options: { isPublic?: boolean } = {}) => {
+  const keys: string[] = [];
+  const source = path.replace(/:([a-zA-Z]+)/g, (_, key) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  routes.push({
+    method,
+    pattern: new RegExp(`^${source}$`),
+    keys,
+    isPublic: options.isPublic === true,
+    handler,
+  });
+};
+
+// --- Auth ---
+
+route('POST', '/api/auth/login', ({ body }) => {
+  const user = findUserByLogin(body?.usernameOrEmail);
+  if (!user || body?.password !== user.password) {
+    throw new MockHttpError(401, 'INVALID_CREDENTIALS', 'Invalid username or password');
+  }
+  return envelope(issueTokens(user), 'Login successful');
+}, { isPublic: true });
+
+route('POST', '/api/auth/register', ({ body }) => {
+  if (findUserByLogin(body?.email) || findUserByLogin(body?.username)) {
+    throw new MockHttpError(409, 'USER_ALREADY_EXISTS', 'An account with this email already exists');
+  }
+  const user: MockUser = {
+    userId: MockBackend.nextId(),
+    username: String(body.username).toLowerCase(),
+    email: String(body.email).toLowerCase(),
+    password: body.password || '',
+    name: body.username,
+    role: body.role === 'DEALER' ? 'DEALER' : 'USER',
+    location: '',
+    emailVerified: false,
+    verifiedDealer: false,
+    isOnline: true,
+  };
+  MockBackend.db.users.push(user);
+  // Tokens are only issued once the email is verified
+  const { accessToken, refreshToken, ...rest } = issueTokens(user);
+  return envelope({ ...rest, accessToken: '', refreshToken: '' }, 'Verification code sent');
+}, { isPublic: true });
+
+route('POST', '/api/auth/otp/send', () => envelope(null, 'Verification code sent'), { isPublic: true });
+
+// Any six digit code is accepted
+const confirmOtp = ({ body }: MockRequest) => {
+  const user = findUserByLogin(body?.email) ?? notFound('User');
+  if (!/^\d{6}$/.test(String(body?.otp ?? ''))) {
+    throw new MockHttpError(400, 'INVALID_OTP', 'Invalid verification code');
+  }
+  user.emailVerified = true;
+  return envelope(issueTokens(user), 'Verified');
+};
+route('POST', '/api/auth/email/verify/confirm', confirmOtp, { isPublic: true });
+route('POST', '/api/auth/login/otp/confirm', confirmOtp, { isPublic: true });
+
+route('POST', '/api/auth/password/reset', ({ body }) => {
+  const user = findUserByLogin(body?.username) ?? notFound('User');
+  user.password = body.newPassword;
+  return envelope(null, 'Password updated');
+}, { isPublic: true });
+
+route('POST', '/api/auth/refresh-token', ({ body }) => {
+  const user = MockBackend.findUserByToken(body?.refreshToken);
+  if (!user) {
+    throw new MockHttpError(401, 'INVALID_REFRESH_TOKEN', 'Refresh token is invalid or expired');
+  }
+  return envelope(issueTokens(user));
+}, { isPublic: true });
+
+route('GET', '/api/auth/health', () => json({ status: 'UP', mode: 'mock' }), { isPublic: true });
+
+route('POST', '/api/auth/validate-token', req => envelope({ valid: true, userDetails: toUserData(requireUser(req)) }));
+
+route('POST', '/api/auth/logout', () => envelope(null, 'Logged out'));
+
+route('GET', '/api/auth/sessions', () => envelope(MockBackend.db.sessions));
+
+route('DELETE', '/api/auth/sessions/others', () => {
+  MockBackend.db.sessions = MockBackend.db.sessions.filter(s => s.current);
+  return noContent();
+});
+
+route('DELETE', '/api/auth/sessions/:id', ({ params }) => {
+  MockBackend.db.sessions = MockBackend.db.sessions.filter(s => s.id !== params.id);
+  return noContent();
+});
+
+route('GET', '/api/user/profile', req => json(toUserData(requireUser(req))));
+
+route('GET', '/user/profile', req => envelope({ ...toUserData(requireUser(req)), profileImageUrl: null }));
+
+// --- Dealer verification ---
+
+route('GET', '/api/dealer/verification/status', req => {
+  const user = requireUser(req);
+  const dealer = {
+    id: user.userId,
+    status: user.verifiedDealer ? 'APPROVED' : 'PENDING',
+    statusDisplayName: user.verifiedDealer ? 'Approved' : 'Pending review',
+    submittedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+    businessName: user.dealership ?? '',
+    businessAddress: user.location,
+  };
+  return envelope(dealer);
+});
+
+route('GET', '/api/admin/verification-requests/pending-count', () =>
+  envelope({ pendingCount: MockBackend.db.users.filter(u => u.role === 'DEALER' && !u.verifiedDealer).length }),
+);
+
+route('GET', '/api/admin/verification-requests', () => envelope(toPage([])));
+
+// --- Cars ---
+
+route('GET', '/api/cars/public', ({ query }) => {
+  const { page, size } = pageParams(query);
+  return envelope(toPage(sortVehicles(publicInventory(), query.sort), page, size));
+}, { isPublic: true });
+
+route('GET', '/api/cars', ({ query }) => {
+  const { page, size } = pageParams(query);
+  return envelope(toPage(sortVehicles(publicInventory(), query.sort), page, size));
+});
+
+route('GET', '/api/search/cars', ({ query }) => {
+  const { page, size } = pageParams(query);
+  const results = searchInventory({
+    query: query.q,
+    brands: list(query.brands),
+    models: list(query.models),
+    cities: list(query.cities),
+    fuelTypes: list(query.fuelTypes),
+    transmissions: list(query.transmissions),
+    minYear: num(query.minYear),
+    maxYear: num(query.maxYear),
+    minPrice: num(query.minPrice),
+    maxPrice: num(query.maxPrice),
+    sort: query.sort,
+  });
+  return envelope(toPage(results, page, size));
+});
+
+route('GET', '/api/cars/master/suggestions', ({ query }) => {
+  const make = (query.make ?? '').toLowerCase();
+  const text = (query.query ?? '').toLowerCase();
+  const models = MockBackend.db.vehicles
+    .filter(v => v.make.toLowerCase() === make && v.model.toLowerCase().includes(text))
+    .map(v => v.model);
+  return json([...new Set(models)]);
+});
+
+route('GET', '/api/cars/dealer/my-cars', req => {
+  const user = requireUser(req);
+  const { page, size } = pageParams(req.query);
+  const mine = MockBackend.db.vehicles.filter(v =>
+    v.dealerId === String(user.userId) && (!req.query.status || v.status.toUpperCase() === req.query.status.toUpperCase()),
+  );
+  return envelope(toPage(sortVehicles(mine), page, size));
+});
+
+route('GET', '/api/cars/dealer/dashboard', req => {
+  const user = requireUser(req);
+  const mine = MockBackend.db.vehicles.filter(v => v.dealerId === String(user.userId));
+  const totalViews = mine.reduce((sum, v) => sum + v.views, 0);
+  return envelope({
+    totalViews,
+    totalUniqueVisitors: Math.round(totalViews * 0.7),
+    totalCarsAdded: mine.length,
+    activeCars: mine.filter(v => v.status.toUpperCase() === 'AVAILABLE').length,
+    contactRequestsReceived: mine.reduce((sum, v) => sum + v.inquiries, 0),
+  });
+});
+
+route('GET', '/api/cars/admin/analytics', () => {
+  const vehicles = MockBackend.db.vehicles;
+  const byStatus = (status: string) => vehicles.filter(v => v.status.toUpperCase() === status).length;
+  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  return envelope({
+    totalCars: vehicles.length,
+    activeCars: byStatus('AVAILABLE'),
+    soldCars: byStatus('SOLD'),
+    featuredCars: vehicles.filter(v => v.featured).length,
+    inactiveCars: byStatus('INACTIVE'),
+    newCarsLast7Days: vehicles.filter(v => v.createdAt > weekAgo).length,
+    lastUpdated: new Date().toISOString(),
+  });
+});
+
+route('GET', '/api/cars/co-listed', () => json(MockBackend.db.vehicles.filter(v => v.isCoListed)));
+
+route('GET', '/api/cars/seller/:dealerId', ({ params, query }) => {
+  const { page, size } = pageParams(query);
+  const theirs = MockBackend.db.vehicles.filter(v =>
+    v.dealerId === params.dealerId && (!query.status || v.status.toUpperCase() === query.status.toUpperCase()),
+  );
+  return envelope(toPage(sortVehicles(theirs), page, size));
+});
+
+route('POST', '/api/cars', req => {
+  const user = requireUser(req);
+  const now = new Date().toISOString();
+  const { body } = req;
+  const vehicle: Vehicle = {
+    ...body,
+    id: String(MockBackend.nextId()),
+    make: body.make,
+    model: body.model,
+    year: Number(body.year),
+    price: Number(body.price),
+    mileage: Number(body.mileage ?? 0),
+    location: body.location || user.location,
+    condition: body.condition || 'Good',
+    images: body.images ?? [],
+    specifications: {
+      fuelType: body.fuelType,
+      transmission: body.transmission,
+      color: body.color,
+      numberOfOwners: body.numberOfOwners,
+      kmDriven: Number(body.mileage ?? 0),
+      description: body.description,
+    },
+    dealerId: String(user.userId),
+    dealerName: user.dealership || user.name,
+    isCoListed: false,
+    coListedIn: [],
+    views: 0,
+    inquiries: 0,
+    shares: 0,
+    status: body.status || 'AVAILABLE',
+    featured: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  MockBackend.db.vehicles.unshift(vehicle);
+  notifySavedSearches(vehicle);
+  return envelope(vehicle, 'Car created');
+});
+
+route('GET', '/api/cars/:id', ({ params }) => envelope(findVehicle(params.id)), { isPublic: true });
+
+route('PATCH', '/api/cars/:id', ({ params, body }) => {
+  const vehicle = findVehicle(params.id);
+  const previousPrice = vehicle.price;
+  updateVehicle(vehicle, body.price !== undefined ? { ...body, price: Number(body.price) } : body);
+  if (vehicle.price < previousPrice) {
+    notifySavedSearches(vehicle, previousPrice);
+  }
+  return envelope(vehicle);
+});
+
+route('DELETE', '/api/cars/:id', ({ params, query }) => {
+  const vehicle = findVehicle(params.id);
+  if (query.hard === 'true') {
+    MockBackend.db.vehicles = MockBackend.db.vehicles.filter(v => v !== vehicle);
+  } else {
+    updateVehicle(vehicle, { status: 'DELETED' });
+  }
+  return noContent();
+});
+
+route('POST', '/api/cars/:id/status', ({ params, body }) =>
+  envelope(updateVehicle(findVehicle(params.id), { status: body?.status })),
+);
+
+route('POST', '/api/cars/:id/feature', ({ params, query }) =>
+  envelope(updateVehicle(findVehicle(params.id), { featured: query.featured !== 'false' })),
+);
+
+route('POST', '/api/cars/:id/media-status', ({ params, body }) =>
+  envelope(updateVehicle(findVehicle(params.id), { mediaStatus: body?.status })),
+);
+
+route('POST', '/api/cars/:id/co-list', ({ params, body }) => {
+  const vehicle = findVehicle(params.id);
+  const coListedIn = [...new Set([...vehicle.coListedIn, ...(body?.groupIds ?? [])])];
+  return json(updateVehicle(vehicle, { coListedIn, isCoListed: coListedIn.length > 0 }));
+});
+
+route('DELETE', '/api/cars/:id/co-list', ({ params, body }) => {
+  const vehicle = findVehicle(params.id);
+  const removed: string[] = body?.groupIds ?? [];
+  const coListedIn = vehicle.coListedIn.filter(id => !removed.includes(id));
+  return json(updateVehicle(vehicle, { coListedIn, isCoListed: coListedIn.length > 0 }));
+});
+
+route('GET', '/api/cars/:id/similar', ({ params, query }) => {
+  const vehicle = findVehicle(params.id);
+  const limit = Number(query.limit ?? 5);
+  const similar = MockBackend.db.vehicles
+    .filter(v => v.id !== vehicle.id && (v.make === vehicle.make || Math.abs(v.price - vehicle.price) < vehicle.price * 0.2))
+    .slice(0, limit);
+  return json(similar);
+});
+
+route('GET', '/api/cars/:id/analytics', ({ params }) => {
+  const vehicle = findVehicle(params.id);
+  return envelope({
+    vehicleId: vehicle.id,
+    views: vehicle.views,
+    inquiries: vehicle.inquiries,
+    shares: vehicle.shares,
+    coListings: vehicle.coListedIn.length,
+    avgTimeOnMarket: Math.max(1, Math.round((Date.now() - new Date(vehicle.createdAt).getTime()) / (24 * 60 * 60 * 1000))),
+    lastActivity: vehicle.updatedAt,
+    topLocations: ['Mumbai', 'Pune', 'Bangalore'],
+    dealerInterest: vehicle.inquiries * 2,
+  });
+});
+
+route('POST', '/api/cars/:id/view', ({ params }) => {
+  findVehicle(params.id).views += 1;
+  return noContent();
+}, { isPublic: true });
+
+route('POST', '/api/cars/:id/share', ({ params }) => {
+  findVehicle(params.id).shares += 1;
+  return noContent();
+});
+
+route('POST', '/api/cars/:id/stats', () => noContent());
+
+// --- Media ---
+
+route('POST', '/api/media/init-upload', ({ body }) => {
+  const sessionId = `mock-upload-${MockBackend.nextId()}`;
+  const fileNames: string[] = body?.fileNames ?? [];
+  const filePaths = fileNames.map(name => `cars/${body?.carId}/${sessionId}/${name}`);
+  return envelope({
+    sessionId,
+    uploadUrls: filePaths.map(path => `${MOCK_UPLOAD_PREFIX}${path}`),
+    filePaths,
+    uploadProtocol: 'tus',
+  });
+});
+
+route('POST', '/api/media/complete', ({ body }) => {
+  const vehicle = findVehicle(String(body?.carId));
+  const uploaded: string[] = body?.uploadedFilePaths ?? [];
+  const files = uploaded.map(path => MockBackend.resolveUpload(path));
+  const images = files.filter(uri => !/\.(mp4|mov)$/i.test(uri));
+  const video = files.find(uri => /\.(mp4|mov)$/i.test(uri));
+  updateVehicle(vehicle, {
+    images: [...vehicle.images, ...images],
+    imageUrl: vehicle.imageUrl || images[0],
+    videoUrl: video ?? vehicle.videoUrl,
+    mediaStatus: body?.success ? 'READY' : 'FAILED',
+    status: vehicle.status === 'Processing' ? 'AVAILABLE' : vehicle.status,
+  });
+  return envelope(null, 'Media processed');
+});
+
+// --- Dealer groups ---
+
+route('GET', '/api/groups', () => json(MockBackend.db.groups));
+
+route('POST', '/api/groups', req => {
+  const user = requireUser(req);
+  const group: DealerGroup = {
+    id: String(MockBackend.nextId()),
+    name: req.body?.name,
+    description: req.body?.description ?? '',
+    isPrivate: req.body?.isPrivate === true,
+    adminId: String(user.userId),
+    members: [{ id: String(user.userId), name: user.name, dealership: user.dealership ?? '', role: 'admin' }],
+    createdAt: new Date().toISOString(),
+  };
+  MockBackend.db.groups.push(group);
+  return json(group, 201);
+});
+
+route('GET', '/api/groups/:id', ({ params }) => json(findGroup(params.id)));
+
+route('PATCH', '/api/groups/:id', ({ params, body }) => json(Object.assign(findGroup(params.id), body)));
+
+route('DELETE', '/api/groups/:id', ({ params }) => {
+  MockBackend.db.groups = MockBackend.db.groups.filter(g => g.id !== params.id);
+  return noContent();
+});
+
+route('POST', '/api/groups/:id/invite', req => {
+  const user = requireUser(req);
+  const group = findGroup(req.params.id);
+  const invitation = {
+    id: String(MockBackend.nextId()),
+    groupId: group.id,
+    groupName: group.name,
+    invitedBy: String(user.userId),
+    invitedByName: user.name,
+    invitedDealer: String(req.body?.dealerId),
+    status: 'pending' as const,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+  };
+  MockBackend.db.invitations.push(invitation);
+  return json(invitation, 201);
+});
+
+route('DELETE', '/api/groups/:id/members/:memberId', ({ params }) => {
+  const group = findGroup(params.id);
+  group.members = group.members.filter(m => m.id !== params.memberId);
+  return noContent();
+});
+
+route('POST', '/api/groups/:id/leave', req => {
+  const user = requireUser(req);
+  const group = findGroup(req.params.id);
+  group.members = group.members.filter(m => m.id !== String(user.userId));
+  return noContent();
+});
+
+route('GET', '/api/invitations/my', req => {
+  const user = requireUser(req);
+  return json(MockBackend.db.invitations.filter(i => i.invitedDealer === String(user.userId) && i.status === 'pending'));
+});
+
+route('POST', '/api/invitations/:id/accept', req => {
+  const user = requireUser(req);
+  const invitation = MockBackend.db.invitations.find(i => i.id === req.params.id) ?? notFound('Invitation');
+  invitation.status = 'accepted';
+
+  let group = MockBackend.db.groups.find(g => g.id === invitation.groupId);
+  if (!group) {
+    group = {
+      id: invitation.groupId,
+      name: invitation.groupName,
+      description: '',
+      isPrivate: true,
+      adminId: invitation.invitedBy,
+      members: [{ id: invitation.invitedBy, name: invitation.invitedByName, dealership: '', role: 'admin' }],
+      createdAt: invitation.createdAt,
+    };
+    MockBackend.db.groups.push(group);
+  }
+  group.members.push({ id: String(user.userId), name: user.name, dealership: user.dealership ?? '', role: 'member' });
+  return json(group);
+});
+
+route('POST', '/api/invitations/:id/reject', ({ params }) => {
+  const invitation = MockBackend.db.invitations.find(i => i.id === params.id) ?? notFound('Invitation');
+  invitation.status = 'rejected';
+  return noContent();
+});
+
+// --- Dealer-to-dealer messages & notifications ---
+
+route('GET', '/api/messages/conversations', req => json(conversationsFor(requireUser(req))));
+
+route('POST', '/api/messages/send', req => {
+  const user = requireUser(req);
+  const message: DirectMessage = {
+    id: String(MockBackend.nextId()),
+    senderId: String(user.userId),
+    receiverId: String(req.body?.receiverId),
+    message: req.body?.message ?? '',
+    timestamp: new Date().toISOString(),
+    status: 'delivered',
+    type: req.body?.type ?? 'text',
+    attachments: req.body?.attachments,
+  };
+  MockBackend.db.directMessages.push(message);
+  return json(message, 201);
+});
+
+route('POST', '/api/messages/:id/read', ({ params }) => {
+  const message = MockBackend.db.directMessages.find(m => m.id === params.id);
+  if (message) message.status = 'read';
+  return noContent();
+});
+
+route('GET', '/api/messages/:dealerId', req => {
+  const self = String(requireUser(req).userId);
+  const partner = req.params.dealerId;
+  const { page, size } = pageParams({ size: '50', ...req.query });
+  const thread = MockBackend.db.directMessages.filter(m =>
+    (m.senderId === self && m.receiverId === partner) || (m.senderId === partner && m.receiverId === self),
+  );
+  // Opening a thread reads it
+  thread.filter(m => m.receiverId === self).forEach(m => {
+    m.status = 'read';
+  });
+  return json(thread.slice(page * size, (page + 1) * size));
+});
+
+route('GET', '/api/notifications', req => {
+  const user = requireUser(req);
+  const { page, size } = pageParams(req.query);
+  const visible = MockBackend.db.notifications.filter(n => n.userId === undefined || n.userId === user.userId);
+  return json(visible.slice(page * size, (page + 1) * size));
+});
+
+route('POST', '/api/notifications/settings', ({ body }) => json(body ?? {}));
+
+route('POST', '/api/notifications/:id/read', ({ params }) => {
+  const notification = MockBackend.db.notifications.find(n => n.id === params.id);
+  if (notification) notification.isRead = true;
+  return noContent();
+});
+
+// --- Saved searches ---
+
+route('GET', '/api/saved-searches', req => {
+  const user = requireUser(req);
+  return envelope(MockBackend.db.savedSearches.filter(saved => saved.userId === user.userId).map(withResultCount));
+});
+
+route('POST', '/api/saved-searches', req => {
+  const user = requireUser(req);
+  const { name, filters, notify } = req.body ?? {};
+  if (!name || !filters) {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'A saved search needs a name and filters');
+  }
+  const saved: MockSavedSearch = {
+    id: String(MockBackend.nextId()),
+    userId: user.userId,
+    name,
+    filters,
+    notify: notify === true,
+    createdAt: new Date().toISOString(),
+    resultCount: 0,
+  };
+  MockBackend.db.savedSearches.unshift(saved);
+  return envelope(withResultCount(saved), 'Search saved');
+});
+
+route('PATCH', '/api/saved-searches/:id', req => {
+  const saved = findSavedSearch(requireUser(req), req.params.id);
+  const { name, filters, notify } = req.body ?? {};
+  if (name !== undefined) saved.name = name;
+  if (filters !== undefined) saved.filters = filters;
+  if (notify !== undefined) saved.notify = notify === true;
+  return envelope(withResultCount(saved));
+});
+
+route('DELETE', '/api/saved-searches/:id', req => {
+  const saved = findSavedSearch(requireUser(req), req.params.id);
+  MockBackend.db.savedSearches = MockBackend.db.savedSearches.filter(s => s !== saved);
+  return noContent();
+});
+
+// --- Watchlist ---
+
+route('GET', '/api/watchlist', req => {
+  const user = requireUser(req);
+  return envelope(MockBackend.db.watchlist.filter(entry => entry.userId === user.userId).map(toWatchlistEntry));
+});
+
+route('PUT', '/api/watchlist/:carId', req => {
+  const user = requireUser(req);
+  const vehicle = findVehicle(req.params.carId);
+  let entry = MockBackend.db.watchlist.find(e => e.userId === user.userId && e.carId === vehicle.id);
+  if (!entry) {
+    entry = { userId: user.userId, carId: vehicle.id, savedAt: new Date().toISOString(), savedPrice: vehicle.price };
+    MockBackend.db.watchlist.unshift(entry);
+  }
+  return envelope(toWatchlistEntry(entry), 'Car saved');
+});
+
+route('DELETE', '/api/watchlist/:carId', req => {
+  const user = requireUser(req);
+  MockBackend.db.watchlist = MockBackend.db.watchlist.filter(
+    entry => !(entry.userId === user.userId && entry.carId === req.params.carId),
+  );
+  return noContent();
+});
+
+// --- Chat ---
+
+route('GET', '/api/chat/rooms', req => {
+  const { page, size } = pageParams(req.query);
+  return json(toPage(chatRoomsFor(requireUser(req)), page, size));
+});
+
+route('GET', '/api/chat/rooms/unread-count', req => {
+  const rooms = chatRoomsFor(requireUser(req));
+  return json(Object.fromEntries(rooms.map(r => [String(r.id), r.unreadCount ?? 0])));
+});
+
+route('GET', '/api/chat/unread-count', req => {
+  const rooms = chatRoomsFor(requireUser(req));
+  return json({
+    totalUnread: rooms.reduce((sum, r) => sum + (r.unreadCount ?? 0), 0),
+    unreadByChat: Object.fromEntries(rooms.map(r => [String(r.id), r.unreadCount ?? 0])),
+  });
+});
+
+route('GET', '/api/chat/search', req => {
+  const text = (req.query.query ?? '').toLowerCase();
+  return json(chatRoomsFor(requireUser(req)).filter(r => r.name.toLowerCase().includes(text)));
+});
+
+route('GET', '/api/chat/popular', req => json(chatRoomsFor(requireUser(req)).slice(0, 5)));
+
+route('GET', '/api/chat/dealer-groups', ({ query }) => {
+  const { page, size } = pageParams(query);
+  return json(toPage(MockBackend.db.chatRooms.filter(r => r.type === 'DEALER_ONLY'), page, size));
+});
+
+route('GET', '/api/chat/dealer/inquiries', req => {
+  const { page, size } = pageParams(req.query);
+  const status = req.query.status ?? 'ALL';
+  const text = (req.query.query ?? '').toLowerCase();
+  const inquiries = chatRoomsFor(requireUser(req)).filter(r =>
+    r.type === 'CAR_INQUIRY' &&
+    (status === 'ALL' || r.status === status) &&
+    (!text || `${r.name} ${r.buyerName ?? ''}`.toLowerCase().includes(text)),
+  );
+  return json(toPage(inquiries, page, size));
+});
+
+route('POST', '/api/chat/car-inquiry', req => {
+  const user = requireUser(req);
+  const vehicle = findVehicle(String(req.body?.carId));
+  const now = new Date().toISOString();
+
+  let room = MockBackend.db.chatRooms.find(r =>
+    r.type === 'CAR_INQUIRY' && r.carId === Number(vehicle.id) && r.createdBy.id === user.userId,
+  );
+  if (!room) {
+    room = {
+      id: MockBackend.nextId(),
+      name: `${vehicle.make} ${vehicle.model} inquiry`,
+      type: 'CAR_INQUIRY',
+      createdBy: { id: user.userId, username: user.username, displayName: user.name, email: user.email },
+      isActive: true,
+      carId: Number(vehicle.id),
+      createdAt: now,
+      updatedAt: now,
+      participantCount: 2,
+      unreadCount: 0,
+      status: 'NEW',
+      leadScore: 50,
+      buyerName: user.name,
+      buyerPhone: user.phoneNumber,
+      carInfo: { id: Number(vehicle.id), title: vehicle.title ?? `${vehicle.make} ${vehicle.model}`, price: vehicle.price, imageUrl: vehicle.imageUrl },
+    };
+    MockBackend.db.chatRooms.push(room);
+    vehicle.inquiries += 1;
+  }
+  if (req.body?.message) {
+    MockStompBroker.postChatMessage(room, user, req.body.message);
+  }
+  return json(room, 201);
+});
+
+route('GET', '/api/chat/car/:carId', ({ params }) =>
+  json(MockBackend.db.chatRooms.filter(r => r.carId === Number(params.carId))),
+);
+
+route('GET', '/api/chat/rooms/:id', ({ params }) => json(findRoom(params.id)));
+
+route('GET', '/api/chat/rooms/:id/participants', ({ params }) => {
+  const room = findRoom(params.id);
+  const senders = new Map<number, NonNullable<ChatRoomDto['lastMessage']>['sender']>();
+  senders.set(room.createdBy.id, room.createdBy);
+  MockBackend.db.chatMessages
+    .filter(m => m.chatRoomId === room.id && m.sender)
+    .forEach(m => senders.set(m.sender!.id, m.sender));
+  return json([...senders.values()].map((user, index) => ({
+    id: index + 1,
+    user,
+    role: user!.id === room.createdBy.id ? 'ADMIN' : 'MEMBER',
+    joinedAt: room.createdAt,
+    isActive: true,
+  })));
+});
+
+route('GET', '/api/chat/rooms/:id/messages', ({ params, query }) => {
+  const { page, size } = pageParams({ size: '50', ...query });
+  // Newest first, like the backend
+  const messages = MockBackend.db.chatMessages
+    .filter(m => m.chatRoomId === Number(params.id) && !m.isDeleted)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return json(toPage(messages, page, size));
+});
+
+route('POST', '/api/chat/rooms/:id/messages', req => {
+  const user = requireUser(req);
+  const room = findRoom(req.params.id);
+  const message = MockStompBroker.postChatMessage(room, user, req.body?.content ?? '', req.body?.messageType ?? 'TEXT');
+  MockStompBroker.scheduleAutoReply(room, user);
+  return json(message, 201);
+});
+
+route('POST', '/api/chat/rooms/:id/messages/read', ({ params }) => {
+  const room = findRoom(params.id);
+  room.unreadCount = 0;
+  return noContent();
+});
+
+route('PATCH', '/api/chat/rooms/:id/inquiry/status', ({ params, query }) => {
+  const room = findRoom(params.id);
+  room.status = query.status;
+  room.updatedAt = new Date().toISOString();
+  return json(room);
+});
+
+route('PUT', '/api/chat/messages/:id', ({ params, body }) => {
+  const message = MockBackend.db.chatMessages.find(m => m.id === Number(params.id)) ?? notFound('Message');
+  message.content = body?.content ?? message.content;
+  message.isEdited = true;
+  message.editedAt = new Date().toISOString();
+  return json(message);
+});
+
+route('DELETE', '/api/chat/messages/:id', ({ params }) => {
+  const message = MockBackend.db.chatMessages.find(m => m.id === Number(params.id));
+  if (message) message.isDeleted = true;
+  return noContent();
+});
+
+route('POST', '/api/chat/messages/:id/delivered', () => noContent());
+
+route('POST', '/api/chat/user-status', () => noContent());
+
+// --- Analytics (accepted and dropped) ---
+
+route('POST', '/api/analytics/events', () => noContent(), { isPublic: true });
+route('POST', '/api/analytics/session/start', () => noContent(), { isPublic: true });
+route('POST', '/api/analytics/session/end', () => noContent(), { isPublic: true });
+
+// =============== DISPATCH ===============
+
+/**
+ * Run the handler registered for a request. Unknown endpoints answer 501 so
+ * gaps in the mock are obvious instead of silently returning empty data.
+ */
+export const handleMockRequest = (
+  method: string,
+  path: string,
+  query: Record<string, string>,
+  body: unknown,
+  authorization?: string,
+): MockResponse => {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = path.match(candidate.pattern);
+    if (!match) continue;
+
+    const user = MockBackend.findUserByToken(authorization);
+    if (!candidate.isPublic && !user) {
+      throw new MockHttpError(401, 'INVALID_TOKEN', 'Authentication required');
+    }
+
+    const params: Record<string, string> = {};
+    candidate.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1]);
+    });
+
+    return candidate.handler({ method, path, params, query, body, user });
+  }
+
+  console.warn(`[MockBackend] No handler for ${method} ${path}`);
+  throw new MockHttpError(501, 'MOCK_NOT_IMPLEMENTED', `Mock backend has no handler for ${method} ${path}`);
+};
@@ -1,29 +1,82 @@
 import { gql } from '@apollo/client';
 
+export const CAR_SEARCH_FIELDS = gql`
+  fragment CarSearchFields on CarSearchResult {
+    id
+    brand
+    model
+    variant
+    year
+    price
+    mileage
+    city
+    condition
+    thumbnailUrl
+    sellerType
+    ownerId
+    ownerName
+    verifiedDealer
+    views
+    fuelType
+    transmission
+    status
+    featured
+    createdAt
+  }
+`;
+
+// Relay-style connection; pages are merged by the `searchCars` type policy in graphql.ts
 export const SEARCH_CARS_QUERY = gql`
-  query SearchCars($input: CarSearchInput!) {
-    searchCars(input: $input) {
-      content {
-        id
-        brand
-        model
-        year
-        price
-        mileage
-        city
-        condition
-        thumbnailUrl
-        sellerType
-        ownerName
-        verifiedDealer
-        views
-        fuelType
-        transmission
+  query SearchCars($input: CarSearchInput!, $first: Int, $after: String) {
+    searchCars(input: $input, first: $first, after: $after) {
+      edges {
+        cursor
+        distanceKm
+        node {
+          ...CarSearchFields
+        }
       }
-      totalPages
-      totalElements
-      pageNumber
-      pageSize
+      pageInfo {
+        endCursor
+        hasNextPage
+      }
+      totalCount
+    }
+  }
+  ${CAR_SEARCH_FIELDS}
+`;
+
+// Counts per filter value for the filter UI; see SearchFacets in vehicleSearch.ts
+export const SEARCH_FACETS_QUERY = gql`
+  query SearchFacets($input: CarSearchInput!) {
+    searchFacets(input: $input) {
+      totalCount
+      brands { value count }
+      models { value count }
+      cities { value count }
+      conditions { value count }
+      fuelTypes { value count }
+      transmissions { value count }
+      years { label min max count }
+      prices { label min max count }
+    }
+  }
+`;
+
+// Every match as a map pin; the backend caps the list, so no pagination
+export const SEARCH_CAR_PINS_QUERY = gql`
+  query SearchCarPins($input: CarSearchInput!) {
+    searchCarPins(input: $input) {
+      id
+      latitude
+      longitude
+      city
+      ownerId
+      ownerName
+      verifiedDealer
+      title
+      price
+      thumbnailUrl
     }
   }
 `;
@@ -0,0 +1,255 @@
+import type { Vehicle } from './contracts';
+import type { VehicleSearchFilters } from './CarApi';
+import { roundCoordinates } from '../utils/geo';
+
+// =============== TYPES ===============
+
+/**
+ * A search hit as the GraphQL API returns it. Field names differ from REST
+ * (`brand`/`city`/`thumbnailUrl` vs `make`/`location`/`images`) - screens only
+ * ever see the `Vehicle` produced by `toVehicle`.
+ */
+export interface CarSearchNode {
+  id: string;
+  brand: string;
+  model: string;
+  variant?: string | null;
+  year: number;
+  price: number;
+  mileage?: number | null;
+  city?: string | null;
+  condition?: string | null;
+  thumbnailUrl?: string | null;
+  sellerType?: string | null;
+  ownerId?: string | null;
+  ownerName?: string | null;
+  verifiedDealer?: boolean | null;
+  views?: number | null;
+  fuelType?: string | null;
+  transmission?: string | null;
+  status?: string | null;
+  featured?: boolean | null;
+  createdAt?: string | null;
+}
+
+export interface CarSearchEdge {
+  cursor: string;
+  // Relative to `input.near`; on the edge because it differs per search
+  distanceKm?: number | null;
+  node: CarSearchNode;
+}
+
+export interface CarSearchConnection {
+  edges: CarSearchEdge[];
+  pageInfo: { endCursor: string | null; hasNextPage: boolean };
+  totalCount: number;
+}
+
+export interface SearchCarsData {
+  searchCars: CarSearchConnection;
+}
+
+export interface CarSearchInput {
+  keyword?: string;
+  brands?: string[];
+  models?: string[];
+  cities?: string[];
+  conditions?: string[];
+  fuelTypes?: string[];
+  transmissions?: string[];
+  colors?: string[];
+  minYear?: number;
+  maxYear?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  maxMileage?: number;
+  featured?: boolean;
+  near?: GeoRadiusInput;
+  sort?: string;
+}
+
+/** Search origin; without `radiusKm` it only orders/annotates by distance */
+export interface GeoRadiusInput {
+  latitude: number;
+  longitude: number;
+  radiusKm?: number;
+}
+
+export interface SearchCarsVariables {
+  input: CarSearchInput;
+  first?: number;
+  after?: string | null;
+}
+
+/**
+ * Lightweight search hit for the map: every match (not paged), positioned at
+ * the dealer's showroom or the seller's location
+ */
+export interface CarPin {
+  id: string;
+  latitude: number;
+  longitude: number;
+  city?: string | null;
+  ownerId?: string | null;
+  ownerName?: string | null;
+  verifiedDealer?: boolean | null;
+  title: string;
+  price: number;
+  thumbnailUrl?: string | null;
+}
+
+export interface SearchCarPinsData {
+  searchCarPins: CarPin[];
+}
+
+/** A facet value and how many cars would match if it were selected */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/** A numeric range facet (year, price); `null` bounds are open-ended */
+export interface RangeBucket {
+  label: string;
+  min: number | null;
+  max: number | null;
+  count: number;
+}
+
+/**
+ * Aggregations for a search. Each facet is counted with every filter except
+ * its own applied, so picking a brand doesn't zero out the other brands.
+ */
+export interface SearchFacets {
+  totalCount: number;
+  brands: FacetBucket[];
+  models: FacetBucket[];
+  cities: FacetBucket[];
+  conditions: FacetBucket[];
+  fuelTypes: FacetBucket[];
+  transmissions: FacetBucket[];
+  years: RangeBucket[];
+  prices: RangeBucket[];
+}
+
+export interface SearchFacetsData {
+  searchFacets: SearchFacets;
+}
+
+export interface SearchFacetsVariables {
+  input: CarSearchInput;
+}
+
+export interface SearchCarPinsVariables {
+  input: CarSearchInput;
+}
+
+// =============== CONSTANTS ===============
+
+export const SEARCH_PAGE_SIZE = 20;
+
+// =============== ADAPTERS ===============
+
+const splitList = (value?: string): string[] | undefined => {
+  const values = value?.split(',').map(v => v.trim()).filter(Boolean);
+  return values?.length ? values : undefined;
+};
+
+/**
+ * Shared search filters (comma-separated multi-selects, as used by REST and
+ * navigation params) -> GraphQL `CarSearchInput`. Unset fields are omitted so
+ * equivalent searches share one cache entry.
+ */
+export const toCarSearchInput = (filters: VehicleSearchFilters): CarSearchInput => {
+  const input: CarSearchInput = {
+    keyword: filters.query?.trim() || undefined,
+    brands: splitList(filters.make),
+    models: splitList(filters.model),
+    cities: splitList(filters.location),
+    conditions: splitList(filters.condition),
+    fuelTypes: splitList(filters.fuelType),
+    transmissions: splitList(filters.transmission),
+    colors: splitList(filters.color),
+    minYear: filters.minYear,
+    maxYear: filters.maxYear,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+    maxMileage: filters.maxMileage,
+    featured: filters.featured || undefined,
+    near: filters.latitude !== undefined && filters.longitude !== undefined
+      ? {
+        ...roundCoordinates({ latitude: filters.latitude, longitude: filters.longitude }),
+        ...(filters.radiusKm !== undefined && { radiusKm: filters.radiusKm }),
+      }
+      : undefined,
+    sort: filters.sort,
+  };
+
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined),
+  ) as CarSearchInput;
+};
+
+/**
+ * GraphQL search hit -> shared `Vehicle`. Fields search results don't carry
+ * (inquiries, co-listing, full gallery) get the same defaults as VehicleSchema.
+ */
+export const toVehicle = (node: CarSearchNode, distanceKm?: number | null): Vehicle => {
+  const images = node.thumbnailUrl ? [node.thumbnailUrl] : [];
+  const fuelType = node.fuelType ?? undefined;
+  const transmission = node.transmission ?? undefined;
+
+  return {
+    id: String(node.id),
+    make: node.brand,
+    model: node.model,
+    variant: node.variant ?? undefined,
+    year: node.year,
+    price: node.price,
+    mileage: node.mileage ?? 0,
+    location: node.city ?? '',
+    city: node.city ?? undefined,
+    condition: node.condition ?? '',
+    images,
+    imageUrl: images[0],
+    fuelType,
+    transmission,
+    specifications: { fuelType, transmission, kmDriven: node.mileage ?? undefined },
+    dealerId: node.ownerId ? String(node.ownerId) : '',
+    dealerName: node.ownerName || (node.verifiedDealer ? 'Verified Dealer' : 'Private Seller'),
+    isCoListed: false,
+    coListedIn: [],
+    views: node.views ?? 0,
+    inquiries: 0,
+    shares: 0,
+    status: node.status ?? 'Available',
+    featured: node.featured ?? false,
+    createdAt: node.createdAt ?? '',
+    updatedAt: '',
+    distanceKm: distanceKm ?? undefined,
+  };
+};
+
+// =============== FACETS ===============
+
+/**
+ * Options to offer for a facet: values that still match something, plus any
+ * already-selected value (so it can be deselected even when its count is 0).
+ * Returns undefined when there are no facets yet, so callers can fall back to
+ * their static lists.
+ */
+export const facetOptions = (
+  buckets: FacetBucket[] | undefined,
+  selected: string[] = [],
+): FacetBucket[] | undefined => {
+  if (!buckets) return undefined;
+  const visible = buckets.filter(bucket => bucket.count > 0 || selected.includes(bucket.value));
+  const missing = selected
+    .filter(value => !buckets.some(bucket => bucket.value === value))
+    .map(value => ({ value, count: 0 }));
+  return [...visible, ...missing];
+};
+
+/** Whether a range bucket is exactly the current min/max selection */
+export const isRangeSelected = (bucket: RangeBucket, min?: number, max?: number) =>
+  (bucket.min ?? undefined) === min && (bucket.max ?? undefined) === max;
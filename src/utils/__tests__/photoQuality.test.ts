@@ -0,0 +1,72 @@
+import {
+  assessPhotoQuality,
+  findNearDuplicates,
+  hammingDistance,
+  LuminanceSample,
+  perceptualHash,
+} from '../photoQuality';
+
+const SIZE = 64;
+const GOOD_PHOTO = { width: 1600, height: 1200 };
+
+const sample = (pixel: (x: number, y: number) => number): LuminanceSample => {
+  const pixels: number[] = [];
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      pixels.push(pixel(x, y));
+    }
+  }
+  return { width: SIZE, height: SIZE, pixels };
+};
+
+const flat = (value: number) => sample(() => value);
+// Fine detail in mid-tones: well exposed and sharp
+const checkerboard = sample((x, y) => ((x + y) % 2 === 0 ? 70 : 190));
+const brightening = sample(x => 40 + x * 3);
+const darkening = sample(x => 230 - x * 3);
+
+describe('assessPhotoQuality', () => {
+  it('passes a sharp, well exposed photo', () => {
+    expect(assessPhotoQuality(GOOD_PHOTO, checkerboard)).toEqual([]);
+  });
+
+  it('flags a photo without edges as blurry', () => {
+    expect(assessPhotoQuality(GOOD_PHOTO, flat(128))).toEqual(['blurry']);
+  });
+
+  it('flags dark and overexposed photos, without judging their focus', () => {
+    expect(assessPhotoQuality(GOOD_PHOTO, flat(10))).toEqual(['dark']);
+    expect(assessPhotoQuality(GOOD_PHOTO, flat(250))).toEqual(['overexposed']);
+  });
+
+  it('flags small photos in either orientation', () => {
+    expect(assessPhotoQuality({ width: 640, height: 480 }, checkerboard)).toEqual(['low_resolution']);
+    expect(assessPhotoQuality({ width: 500, height: 1000 }, checkerboard)).toEqual(['low_resolution']);
+  });
+
+  it('only checks the resolution without a sample', () => {
+    expect(assessPhotoQuality({ width: 640, height: 480 }, null)).toEqual(['low_resolution']);
+    expect(assessPhotoQuality({}, null)).toEqual([]);
+  });
+});
+
+describe('perceptualHash', () => {
+  it('is 16 hex characters and the same for the same picture', () => {
+    const hash = perceptualHash(brightening);
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(perceptualHash(sample(x => 40 + x * 3 + (x % 3)))).toBe(hash);
+  });
+
+  it('sets every bit apart for opposite pictures', () => {
+    expect(hammingDistance(perceptualHash(brightening), perceptualHash(darkening))).toBe(64);
+  });
+});
+
+describe('findNearDuplicates', () => {
+  it('flags repeats of an earlier photo, not the first of each', () => {
+    const a = perceptualHash(brightening);
+    const b = perceptualHash(darkening);
+
+    expect([...findNearDuplicates([a, b, a, null, b, a])]).toEqual([2, 4, 5]);
+  });
+});
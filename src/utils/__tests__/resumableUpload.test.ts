@@ -0,0 +1,164 @@
+import {
+    ChunkTransport,
+    createTusTransport,
+    uploadInChunks,
+    UploadSessionExpiredError,
+} from '../resumableUpload';
+import { MAX_RETRIES, UPLOAD_CHUNK_SIZE } from '../uploadValidation';
+
+jest.mock('react-native-fs', () => ({
+    read: jest.fn(async () => ''),
+}));
+
+jest.mock('../uploadValidation', () => ({
+    ...jest.requireActual('../uploadValidation'),
+    getRetryDelay: () => 0,
+}));
+
+/**
+ * In-memory tus server: confirms whatever it's sent, unless told otherwise
+ */
+const createServerTransport = (
+    respond: (offset: number, length: number) => number = (offset, length) => offset + length
+) => {
+    let confirmed = 0;
+    const transport = {
+        getOffset: jest.fn(async () => confirmed),
+        sendChunk: jest.fn(async (offset: number, length: number, onProgress: (sent: number) => void) => {
+            onProgress(length);
+            confirmed = respond(offset, length);
+            return confirmed;
+        }),
+    };
+    return {
+        transport,
+        setConfirmed: (bytes: number) => {
+            confirmed = bytes;
+        },
+    };
+};
+
+describe('uploadInChunks', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('sends the file in chunks and reports each confirmed offset', async () => {
+        const { transport } = createServerTransport();
+        const size = UPLOAD_CHUNK_SIZE * 2 + 100;
+        const confirmed: number[] = [];
+
+        await uploadInChunks(transport, { size, onChunkConfirmed: bytes => confirmed.push(bytes) });
+
+        expect(transport.sendChunk).toHaveBeenCalledTimes(3);
+        expect(confirmed).toEqual([UPLOAD_CHUNK_SIZE, UPLOAD_CHUNK_SIZE * 2, size]);
+    });
+
+    it('resumes from the offset the server reports, not the saved one', async () => {
+        const { transport, setConfirmed } = createServerTransport();
+        setConfirmed(UPLOAD_CHUNK_SIZE);
+
+        await uploadInChunks(transport, { size: UPLOAD_CHUNK_SIZE * 2, startOffset: 10 });
+
+        expect(transport.getOffset).toHaveBeenCalled();
+        expect(transport.sendChunk).toHaveBeenCalledTimes(1);
+        expect(transport.sendChunk.mock.calls[0][0]).toBe(UPLOAD_CHUNK_SIZE);
+    });
+
+    it('gives up when the server never moves the offset forward', async () => {
+        const { transport } = createServerTransport(offset => offset);
+
+        await expect(uploadInChunks(transport, { size: 1000 })).rejects.toThrow(/did not advance/);
+        expect(transport.sendChunk).toHaveBeenCalledTimes(MAX_RETRIES + 1);
+    });
+
+    it('retries a chunk from the offset that landed', async () => {
+        let failures = 1;
+        const { transport, setConfirmed } = createServerTransport();
+        const send = transport.sendChunk.getMockImplementation()!;
+        transport.sendChunk.mockImplementation(async (offset, length, onProgress) => {
+            if (failures-- > 0) {
+                setConfirmed(offset + 10);
+                throw new Error('Network error during upload');
+            }
+            return send(offset, length, onProgress);
+        });
+
+        await uploadInChunks(transport, { size: 1000 });
+
+        expect(transport.sendChunk.mock.calls.map(call => call[0])).toEqual([0, 10]);
+    });
+
+    it('does not retry an expired upload session', async () => {
+        const transport: ChunkTransport = {
+            getOffset: async () => 0,
+            sendChunk: jest.fn(async () => {
+                throw new UploadSessionExpiredError();
+            }),
+        };
+
+        await expect(uploadInChunks(transport, { size: 1000 })).rejects.toBeInstanceOf(UploadSessionExpiredError);
+        expect(transport.sendChunk).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends the whole file at once when the transport takes a single chunk', async () => {
+        const { transport } = createServerTransport();
+        const size = UPLOAD_CHUNK_SIZE * 3;
+
+        await uploadInChunks({ ...transport, chunkSize: size }, { size });
+
+        expect(transport.sendChunk).toHaveBeenCalledTimes(1);
+        expect(transport.sendChunk.mock.calls[0][1]).toBe(size);
+    });
+});
+
+describe('createTusTransport', () => {
+    const OriginalXHR = globalThis.XMLHttpRequest;
+
+    /**
+     * Answers every request with the given status and Upload-Offset header
+     */
+    const mockXhr = (status: number, uploadOffset: string | null) => {
+        class FakeXMLHttpRequest {
+            status = status;
+            upload = {};
+            onload: (() => void) | null = null;
+            open() {}
+            setRequestHeader() {}
+            getResponseHeader(name: string) {
+                return name === 'Upload-Offset' ? uploadOffset : null;
+            }
+            send() {
+                this.onload?.();
+            }
+        }
+        globalThis.XMLHttpRequest = FakeXMLHttpRequest as any;
+    };
+
+    afterEach(() => {
+        globalThis.XMLHttpRequest = OriginalXHR;
+    });
+
+    it('reads the offset from the Upload-Offset header', async () => {
+        mockXhr(200, '4096');
+        await expect(createTusTransport('https://upload.test/1', 'file:///a.jpg').getOffset()).resolves.toBe(4096);
+    });
+
+    it('rejects a response without an Upload-Offset header', async () => {
+        mockXhr(204, null);
+        await expect(createTusTransport('https://upload.test/1', 'file:///a.jpg').getOffset()).rejects.toThrow(
+            /Upload-Offset/
+        );
+    });
+
+    it('treats an unknown upload URL as an expired session', async () => {
+        mockXhr(404, null);
+        await expect(createTusTransport('https://upload.test/1', 'file:///a.jpg').getOffset()).rejects.toBeInstanceOf(
+            UploadSessionExpiredError
+        );
+    });
+});
@@ -0,0 +1,37 @@
+import { fromSearchLinkParams, toSearchLinkParams } from '../searchFilters';
+
+describe('search link params', () => {
+  it('round-trips the shareable filters', () => {
+    const filters = {
+      query: 'sunroof',
+      make: 'Hyundai',
+      model: 'Creta',
+      location: 'Pune',
+      fuelType: 'Diesel',
+      transmission: 'Automatic',
+      minYear: 2018,
+      maxPrice: 1200000,
+      maxMileage: 60000,
+      sort: 'price,asc',
+      featured: true,
+    };
+
+    expect(fromSearchLinkParams(toSearchLinkParams(filters))).toEqual(filters);
+  });
+
+  it("leaves out the sharer's position, radius and distance sort", () => {
+    const params = toSearchLinkParams({
+      make: 'Maruti',
+      latitude: 18.52,
+      longitude: 73.85,
+      radiusKm: 25,
+      sort: 'distanceKm,asc',
+    });
+
+    expect(params).toEqual({ brand: 'Maruti' });
+  });
+
+  it('drops malformed values instead of failing the link', () => {
+    expect(fromSearchLinkParams({ brand: '  ', minPrice: 'cheap', maxYear: ['2020'], featured: 'yes' })).toEqual({});
+  });
+});
@@ -0,0 +1,71 @@
+import { parseSearchQuery, removeChipFromQuery } from '../searchQueryParser';
+
+const MODELS = {
+  Maruti: ['Swift'],
+  Hyundai: ['Creta', 'i20'],
+  Ford: ['Endeavour'],
+};
+
+const parse = (text: string) => parseSearchQuery(text, MODELS);
+
+describe('parseSearchQuery', () => {
+  it('reads colour, model, fuel, budget and year', () => {
+    const { filters, keyword } = parse('white creta diesel under 10 lakh 2019');
+
+    expect(filters).toEqual({
+      color: 'White',
+      make: 'Hyundai',
+      model: 'Creta',
+      fuelType: 'Diesel',
+      maxPrice: 1000000,
+      minYear: 2019,
+      maxYear: 2019,
+    });
+    expect(keyword).toBe('');
+  });
+
+  it('reads price ranges', () => {
+    expect(parse('5-8L').filters).toMatchObject({ minPrice: 500000, maxPrice: 800000 });
+    expect(parse('between 10 lakh and 1.2 cr').filters).toMatchObject({ minPrice: 1000000, maxPrice: 12000000 });
+  });
+
+  it('reads transmission words', () => {
+    expect(parse('swift automatic').filters.transmission).toBe('Automatic');
+    expect(parse('creta amt').filters.transmission).toBe('Automatic');
+    expect(parse('i20 auto transmission').filters.transmission).toBe('Automatic');
+    expect(parse('swift manual').filters.transmission).toBe('Manual');
+  });
+
+  it('does not read "at" or "auto" on their own as automatic', () => {
+    expect(parse('swift at pune').filters.transmission).toBeUndefined();
+    expect(parse('car at 5 lakh').filters).toEqual({ maxPrice: 500000 });
+    expect(parse('i20 auto expo').filters.transmission).toBeUndefined();
+  });
+
+  it('does not read distances as prices', () => {
+    expect(parse('under 50k km').filters.maxPrice).toBeUndefined();
+    expect(parse('swift 30k kms').filters.maxPrice).toBeUndefined();
+    expect(parse('swift under 50k').filters.maxPrice).toBe(50000);
+  });
+
+  it('does not read engine sizes as prices', () => {
+    expect(parse('ford endeavour 3.2 l').filters.maxPrice).toBeUndefined();
+    expect(parse('endeavour 2.0 litre').filters.maxPrice).toBeUndefined();
+    expect(parse('endeavour 3.2l').filters.maxPrice).toBeUndefined();
+    expect(parse('endeavour under 3.2 l').filters.maxPrice).toBe(320000);
+    expect(parse('endeavour ₹3.2 l').filters.maxPrice).toBe(320000);
+    expect(parse('endeavour 30l').filters.maxPrice).toBe(3000000);
+  });
+
+  it('keeps unrecognised words as the keyword', () => {
+    const { keyword, filters } = parse('swift at pune');
+    expect(keyword).toBe('pune');
+    expect(filters.query).toBe('pune');
+  });
+
+  it('removes the words behind a chip', () => {
+    const text = 'white creta under 10 lakh';
+    const chip = parse(text).chips.find(c => c.kind === 'price')!;
+    expect(removeChipFromQuery(text, chip)).toBe('white creta');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Brands, colours and popular models shared by the listing form and search.
+ * Brand `name` is what listings store as `make`.
+ */
+
+export const CAR_BRANDS = [
+  { id: 'maruti', name: 'Maruti Suzuki' },
+  { id: 'hyundai', name: 'Hyundai' },
+  { id: 'tata', name: 'Tata' },
+  { id: 'mahindra', name: 'Mahindra' },
+  { id: 'honda', name: 'Honda' },
+  { id: 'toyota', name: 'Toyota' },
+  { id: 'kia', name: 'Kia' },
+  { id: 'mg', name: 'MG' },
+  { id: 'skoda', name: 'Skoda' },
+  { id: 'volkswagen', name: 'Volkswagen' },
+  { id: 'nissan', name: 'Nissan' },
+  { id: 'jeep', name: 'Jeep' },
+  { id: 'jaguar', name: 'Jaguar' },
+  { id: 'volvo', name: 'Volvo' },
+  { id: 'mitsubishi', name: 'Mitsubishi' },
+  { id: 'chevrolet', name: 'Chevrolet' },
+  { id: 'landrover', name: 'Land Rover' },
+  { id: 'renault', name: 'Renault' },
+  { id: 'bmw', name: 'BMW' },
+  { id: 'audi', name: 'Audi' },
+  { id: 'citroen', name: 'Citroën' },
+  { id: 'datsun', name: 'Datsun' },
+  { id: 'fiat', name: 'Fiat' },
+  { id: 'force', name: 'Force' },
+  { id: 'ford', name: 'Ford' },
+  { id: 'lexus', name: 'Lexus' },
+  { id: 'mercedes', name: 'Mercedes' },
+  { id: 'mini', name: 'Mini' },
+  { id: 'ferrari', name: 'Ferrari' },
+  { id: 'tataev', name: 'Tata EV' },
+];
+
+// Other ways people type a brand, keyed by brand id
+export const BRAND_ALIASES: Record<string, string[]> = {
+  maruti: ['maruti', 'suzuki'],
+  volkswagen: ['vw'],
+  landrover: ['landrover', 'range rover'],
+  mercedes: ['mercedes benz', 'mercedes-benz', 'benz', 'merc'],
+  citroen: ['citroen'],
+  chevrolet: ['chevy'],
+};
+
+export const CAR_COLORS = [
+  { id: 'white', name: 'White', hex: '#FFFFFF' },
+  { id: 'black', name: 'Black', hex: '#1A1A1A' },
+  { id: 'silver', name: 'Silver', hex: '#C0C0C0' },
+  { id: 'grey', name: 'Grey', hex: '#808080' },
+  { id: 'red', name: 'Red', hex: '#DC2626' },
+  { id: 'blue', name: 'Blue', hex: '#2563EB' },
+  { id: 'brown', name: 'Brown', hex: '#92400E' },
+  { id: 'green', name: 'Green', hex: '#059669' },
+];
+
+/**
+ * Best sellers per brand name, so a model typed on its own ("creta") is
+ * recognised before the brand's full list has been fetched
+ */
+export const POPULAR_MODELS: Record<string, string[]> = {
+  'Maruti Suzuki': ['Swift', 'Baleno', 'Dzire', 'Brezza', 'Ertiga', 'Wagon R', 'Alto', 'Grand Vitara'],
+  Hyundai: ['Creta', 'Venue', 'i20', 'Verna', 'Grand i10', 'Alcazar', 'Tucson'],
+  Tata: ['Nexon', 'Punch', 'Harrier', 'Safari', 'Altroz', 'Tiago'],
+  Mahindra: ['XUV700', 'XUV300', 'Scorpio', 'Thar', 'Bolero'],
+  Honda: ['City', 'Amaze', 'Elevate', 'Jazz'],
+  Toyota: ['Fortuner', 'Innova Crysta', 'Innova', 'Glanza', 'Hyryder'],
+  Kia: ['Seltos', 'Sonet', 'Carens', 'Carnival'],
+  MG: ['Hector', 'Astor', 'ZS EV', 'Gloster'],
+  Skoda: ['Slavia', 'Kushaq', 'Octavia', 'Superb'],
+  Volkswagen: ['Virtus', 'Taigun', 'Polo', 'Vento'],
+  BMW: ['X1', 'X3', 'X5', '3 Series', '5 Series'],
+  Audi: ['A4', 'A6', 'Q3', 'Q5', 'Q7'],
+  Mercedes: ['C-Class', 'E-Class', 'GLA', 'GLC', 'GLE'],
+};
+
+// Cities offered by search autocomplete
+export const CAR_CITIES = [
+  'Mumbai', 'Delhi', 'Bangalore', 'Hyderabad', 'Chennai', 'Pune', 'Kolkata', 'Ahmedabad',
+  'Jaipur', 'Chandigarh', 'Lucknow', 'Kochi', 'Indore', 'Surat', 'Nagpur', 'Gurgaon', 'Noida',
+];
+
+// Suggested before anything is typed; each reads well to the search parser
+export const POPULAR_SEARCHES = [
+  'SUVs under ₹20L',
+  'Honda City',
+  'Low mileage cars',
+  'Automatic transmission',
+  'Diesel cars',
+  'Toyota Fortuner',
+  'Hyundai Creta',
+  'Cars in Mumbai',
+];
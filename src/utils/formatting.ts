@@ -36,3 +36,20 @@ export const cleanNumberInput = (value: string): string => {
     if (!value) return '';
     return value.replace(/,/g, '');
 };
+
+/**
+ * Formats a past timestamp as a short relative age ("just now", "5m ago", "2h ago", "3d ago")
+ * @param timestamp Epoch milliseconds
+ * @returns Human readable age
+ */
+export const formatTimeAgo = (timestamp: number): string => {
+    const MINUTE_MS = 60 * 1000;
+    const HOUR_MS = 60 * MINUTE_MS;
+    const DAY_MS = 24 * HOUR_MS;
+    const elapsed = Math.max(0, Date.now() - timestamp);
+
+    if (elapsed < MINUTE_MS) return 'just now';
+    if (elapsed < HOUR_MS) return `${Math.floor(elapsed / MINUTE_MS)}m ago`;
+    if (elapsed < DAY_MS) return `${Math.floor(elapsed / HOUR_MS)}h ago`;
+    return `${Math.floor(elapsed / DAY_MS)}d ago`;
+};
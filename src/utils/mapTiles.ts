@@ -0,0 +1,128 @@
+import type { Coordinates } from './geo';
+
+/**
+ * Web Mercator ("slippy map") math shared by the tile map and clustering.
+ * World pixel coordinates are at the given zoom: the world is
+ * TILE_SIZE * 2^zoom pixels wide.
+ */
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 17;
+
+// Mercator is undefined at the poles
+const MAX_LATITUDE = 85.05112878;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const worldSize = (zoom: number) => TILE_SIZE * Math.pow(2, zoom);
+
+export const project = ({ latitude, longitude }: Coordinates, zoom: number): Point => {
+  const lat = Math.max(Math.min(latitude, MAX_LATITUDE), -MAX_LATITUDE);
+  const sin = Math.sin((lat * Math.PI) / 180);
+  const size = worldSize(zoom);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unproject = ({ x, y }: Point, zoom: number): Coordinates => {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n))),
+    longitude: (x / size) * 360 - 180,
+  };
+};
+
+/**
+ * Fill a `{z}/{x}/{y}` URL template (OSM style). x wraps around the antimeridian.
+ */
+export const tileUrl = (template: string, zoom: number, x: number, y: number): string => {
+  const count = Math.pow(2, zoom);
+  const wrappedX = ((x % count) + count) % count;
+  return template
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(wrappedX))
+    .replace('{y}', String(y));
+};
+
+/**
+ * Centre and the highest zoom at which every coordinate fits in the viewport
+ */
+export const fitBounds = (
+  coordinates: Coordinates[],
+  width: number,
+  height: number,
+  padding = 48,
+): { center: Coordinates; zoom: number } | null => {
+  if (coordinates.length === 0 || width <= 0 || height <= 0) return null;
+
+  const latitudes = coordinates.map(c => c.latitude);
+  const longitudes = coordinates.map(c => c.longitude);
+  const northWest = { latitude: Math.max(...latitudes), longitude: Math.min(...longitudes) };
+  const southEast = { latitude: Math.min(...latitudes), longitude: Math.max(...longitudes) };
+
+  let zoom = MAX_ZOOM;
+  while (zoom > MIN_ZOOM) {
+    const topLeft = project(northWest, zoom);
+    const bottomRight = project(southEast, zoom);
+    if (bottomRight.x - topLeft.x <= width - padding * 2 && bottomRight.y - topLeft.y <= height - padding * 2) break;
+    zoom--;
+  }
+
+  const topLeft = project(northWest, zoom);
+  const bottomRight = project(southEast, zoom);
+  return {
+    center: unproject({ x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 }, zoom),
+    zoom,
+  };
+};
+
+// =============== CLUSTERING ===============
+
+export interface MapPoint extends Coordinates {
+  id: string;
+  // Points sharing a key (e.g. one dealer's showroom) form a single pin
+  groupKey: string;
+}
+
+export interface MapCluster {
+  key: string;
+  center: Coordinates;
+  points: MapPoint[];
+  // Set when every point belongs to the same group
+  groupKey?: string;
+}
+
+/**
+ * Grid clustering in screen space: points within the same `cellSize` pixel
+ * cell at this zoom are merged. Cheap and stable enough for a few hundred pins.
+ */
+export const clusterPoints = (points: MapPoint[], zoom: number, cellSize = 64): MapCluster[] => {
+  const cells = new Map<string, MapPoint[]>();
+  points.forEach(point => {
+    const { x, y } = project(point, zoom);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  });
+
+  return Array.from(cells, ([key, cellPoints]) => {
+    const groups = new Set(cellPoints.map(point => point.groupKey));
+    return {
+      key,
+      center: {
+        latitude: cellPoints.reduce((sum, p) => sum + p.latitude, 0) / cellPoints.length,
+        longitude: cellPoints.reduce((sum, p) => sum + p.longitude, 0) / cellPoints.length,
+      },
+      points: cellPoints,
+      groupKey: groups.size === 1 ? cellPoints[0].groupKey : undefined,
+    };
+  });
+};
@@ -0,0 +1,32 @@
+import EnvironmentService from '../services/EnvironmentService';
+
+/**
+ * Image URLs sized for where they are shown. Only hosts the current
+ * environment lists as resizable (see EnvironmentService) get smaller
+ * variants; other URLs are returned unchanged.
+ */
+
+export type ImageVariant = 'thumbnail' | 'gallery';
+
+// Widths requested in data saver mode; listings are served at 800px
+const DATA_SAVER_WIDTHS: Record<ImageVariant, number> = {
+  thumbnail: 400,
+  gallery: 640,
+};
+
+const withWidth = (url: string, param: string, width: number): string => {
+  const existing = new RegExp(`([?&]${param}=)\\d+`);
+  if (existing.test(url)) {
+    return url.replace(existing, `$1${width}`);
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${param}=${width}`;
+};
+
+/**
+ * URL to load an image from, smaller while data saver is on
+ */
+export const getImageUrl = (url: string, variant: ImageVariant, dataSaver: boolean): string => {
+  if (!dataSaver) return url;
+  const host = EnvironmentService.getImageResizeHosts().find(h => url.startsWith(`${h.origin}/`));
+  return host ? withWidth(url, host.widthParam, DATA_SAVER_WIDTHS[variant]) : url;
+};
@@ -0,0 +1,211 @@
+/**
+ * Photo quality checks for listing photos, run on a small grayscale sample
+ * of each photo (see PhotoQualityService):
+ *
+ *   blur          variance of the Laplacian; soft photos have few edges
+ *   exposure      mean brightness and the share of crushed/clipped pixels
+ *   duplicates    64-bit difference hash ("dHash"), compared by Hamming distance
+ *   resolution    the original photo's size, before upload compression
+ */
+
+// ==================== TYPES ====================
+
+export type PhotoQualityIssue = 'blurry' | 'dark' | 'overexposed' | 'low_resolution' | 'duplicate';
+
+/**
+ * Grayscale pixels (0-255), row by row
+ */
+export interface LuminanceSample {
+  width: number;
+  height: number;
+  pixels: ArrayLike<number>;
+}
+
+export interface PhotoDimensions {
+  width?: number;
+  height?: number;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Longest side of the sample the checks are tuned for */
+export const QUALITY_SAMPLE_SIZE = 256;
+
+// Long side x short side; smaller photos look soft on tablets and in the gallery
+export const MIN_PHOTO_LONG_SIDE = 800;
+export const MIN_PHOTO_SHORT_SIDE = 600;
+
+// Laplacian variance of a 256px sample below which a photo reads as out of focus
+const BLUR_THRESHOLD = 80;
+
+const DARK_MEAN = 60;
+const BRIGHT_MEAN = 205;
+const DARK_PIXEL = 25;
+const CLIPPED_PIXEL = 245;
+// Share of crushed/clipped pixels that counts as badly exposed
+const EXPOSURE_FRACTION = 0.4;
+
+// Out of 64 bits; re-shoots of the same angle land well under this
+const DUPLICATE_DISTANCE = 6;
+
+export const PHOTO_QUALITY_MESSAGES: Record<PhotoQualityIssue, string> = {
+  blurry: 'Looks blurry',
+  dark: 'Too dark',
+  overexposed: 'Too bright',
+  low_resolution: 'Low resolution',
+  duplicate: 'Looks like a duplicate',
+};
+
+// ==================== MEASUREMENTS ====================
+
+/**
+ * Variance of the 4-neighbour Laplacian; higher is sharper
+ */
+export const measureSharpness = ({ width, height, pixels }: LuminanceSample): number => {
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+/**
+ * Mean brightness, plus the share of near-black and near-white pixels
+ */
+export const measureExposure = ({ pixels }: LuminanceSample) => {
+  let total = 0;
+  let dark = 0;
+  let clipped = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    const value = pixels[i];
+    total += value;
+    if (value <= DARK_PIXEL) dark++;
+    if (value >= CLIPPED_PIXEL) clipped++;
+  }
+
+  const count = pixels.length || 1;
+  return {
+    mean: total / count,
+    darkFraction: dark / count,
+    clippedFraction: clipped / count,
+  };
+};
+
+/**
+ * Difference hash: the sample shrunk to 9x8, one bit per horizontal
+ * neighbour pair (is the left one brighter). 16 hex characters.
+ */
+export const perceptualHash = ({ width, height, pixels }: LuminanceSample): string => {
+  const cols = 9;
+  const rows = 8;
+  const cells: number[] = [];
+
+  // Box-average each cell of the grid
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.floor((row * height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / rows));
+    for (let col = 0; col < cols; col++) {
+      const x0 = Math.floor((col * width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * width) / cols));
+      let total = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          total += pixels[y * width + x];
+        }
+      }
+      cells.push(total / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+
+  let hash = '';
+  for (let row = 0; row < rows; row++) {
+    // Two hex digits per row of 8 bits
+    let bits = 0;
+    for (let col = 0; col < cols - 1; col++) {
+      bits = (bits << 1) | (cells[row * cols + col] > cells[row * cols + col + 1] ? 1 : 0);
+    }
+    hash += bits.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// ==================== CHECKS ====================
+
+/**
+ * Issues found in a single photo. Without a sample (the native module is
+ * unavailable or couldn't read the file) only the resolution is checked.
+ */
+export const assessPhotoQuality = (
+  dimensions: PhotoDimensions,
+  sample: LuminanceSample | null
+): PhotoQualityIssue[] => {
+  const issues: PhotoQualityIssue[] = [];
+
+  if (dimensions.width && dimensions.height) {
+    const longSide = Math.max(dimensions.width, dimensions.height);
+    const shortSide = Math.min(dimensions.width, dimensions.height);
+    if (longSide < MIN_PHOTO_LONG_SIDE || shortSide < MIN_PHOTO_SHORT_SIDE) {
+      issues.push('low_resolution');
+    }
+  }
+
+  if (!sample || sample.pixels.length === 0) return issues;
+
+  const exposure = measureExposure(sample);
+  if (exposure.mean < DARK_MEAN || exposure.darkFraction > EXPOSURE_FRACTION) {
+    issues.push('dark');
+  } else if (exposure.mean > BRIGHT_MEAN || exposure.clippedFraction > EXPOSURE_FRACTION) {
+    issues.push('overexposed');
+  }
+
+  // Crushed or blown-out photos have few edges anyway; only judge focus when exposed well
+  const wellExposed = !issues.includes('dark') && !issues.includes('overexposed');
+  if (wellExposed && measureSharpness(sample) < BLUR_THRESHOLD) {
+    issues.push('blurry');
+  }
+
+  return issues;
+};
+
+/**
+ * Positions of photos that nearly match an earlier photo in the list.
+ * The first of each group is kept, so only the repeats are flagged.
+ */
+export const findNearDuplicates = (hashes: Array<string | null | undefined>): Set<number> => {
+  const duplicates = new Set<number>();
+  hashes.forEach((hash, i) => {
+    if (!hash) return;
+    for (let j = 0; j < i; j++) {
+      const earlier = hashes[j];
+      if (earlier && !duplicates.has(j) && hammingDistance(hash, earlier) <= DUPLICATE_DISTANCE) {
+        duplicates.add(i);
+        return;
+      }
+    }
+  });
+  return duplicates;
+};
@@ -0,0 +1,322 @@
+/**
+ * Resumable Upload Utilities
+ *
+ * Sends a file in chunks using the tus protocol (HEAD for the confirmed
+ * offset, PATCH to append), so a dropped connection or an app restart costs at
+ * most one chunk instead of the whole file. Upload URLs that only accept a
+ * single signed PUT are sent whole, as one chunk.
+ */
+
+import { Platform } from 'react-native';
+import RNFS from 'react-native-fs';
+import {
+    getRetryDelay,
+    MAX_RETRIES,
+    UPLOAD_CHUNK_SIZE,
+    UPLOAD_TIMEOUT_MS,
+} from './uploadValidation';
+
+// ==================== TYPES ====================
+
+/**
+ * Moves one file's bytes to the server, a chunk at a time
+ */
+export interface ChunkTransport {
+    /** Largest chunk the transport accepts; defaults to UPLOAD_CHUNK_SIZE */
+    chunkSize?: number;
+    /** Bytes the server has confirmed so far */
+    getOffset: () => Promise<number>;
+    /** Append `length` bytes at `offset`; resolves with the server's new offset */
+    sendChunk: (offset: number, length: number, onProgress: (sentBytes: number) => void) => Promise<number>;
+}
+
+export interface ChunkedUploadOptions {
+    size: number;
+    /** Last offset the server confirmed, from a previous attempt */
+    startOffset?: number;
+    signal?: AbortSignal;
+    /** Bytes sent so far, including the chunk in flight */
+    onProgress?: (uploadedBytes: number) => void;
+    /** Called after every confirmed chunk, to persist the offset */
+    onChunkConfirmed?: (confirmedBytes: number) => void;
+}
+
+/**
+ * The server no longer knows the upload URL (expired or never created).
+ * Retrying the same URL won't help; a new upload session is needed.
+ */
+export class UploadSessionExpiredError extends Error {
+    constructor(message = 'Upload session expired') {
+        super(message);
+        this.name = 'UploadSessionExpiredError';
+    }
+}
+
+// ==================== TUS TRANSPORT ====================
+
+const TUS_VERSION = '1.0.0';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Map(Array.from(BASE64_ALPHABET, (char, index) => [char, index] as const));
+
+/**
+ * Decodes base64 (as returned by RNFS.read) into raw bytes
+ */
+const base64ToBytes = (base64: string): Uint8Array => {
+    const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+    const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+
+    let byteIndex = 0;
+    for (let i = 0; i < clean.length; i += 4) {
+        const a = BASE64_LOOKUP.get(clean[i]) ?? 0;
+        const b = BASE64_LOOKUP.get(clean[i + 1]) ?? 0;
+        const c = BASE64_LOOKUP.get(clean[i + 2]) ?? 0;
+        const d = BASE64_LOOKUP.get(clean[i + 3]) ?? 0;
+
+        bytes[byteIndex++] = (a << 2) | (b >> 4);
+        if (i + 2 < clean.length) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+        if (i + 3 < clean.length) bytes[byteIndex++] = ((c & 3) << 6) | d;
+    }
+    return bytes;
+};
+
+/**
+ * Reads `length` bytes of a local file starting at `offset`
+ */
+const readChunk = async (fileUri: string, offset: number, length: number): Promise<ArrayBuffer> => {
+    const path = fileUri.replace(/^file:\/\//, '');
+    const base64 = await RNFS.read(path, length, offset, 'base64');
+    return base64ToBytes(base64).buffer as ArrayBuffer;
+};
+
+interface TusRequestOptions {
+    method: 'HEAD' | 'PATCH';
+    url: string;
+    headers: Record<string, string>;
+    body?: ArrayBuffer;
+    signal?: AbortSignal;
+    onProgress?: (sentBytes: number) => void;
+}
+
+/**
+ * Single tus request; resolves with the server's Upload-Offset
+ */
+const tusRequest = ({ method, url, headers, body, signal, onProgress }: TusRequestOptions): Promise<number> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Upload cancelled'));
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open(method, url);
+        xhr.timeout = UPLOAD_TIMEOUT_MS;
+        xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+        Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener('abort', onAbort);
+        const settle = () => signal?.removeEventListener('abort', onAbort);
+
+        if (onProgress) {
+            xhr.upload.onprogress = (event) => onProgress(event.loaded);
+        }
+
+        xhr.onload = () => {
+            settle();
+            if (xhr.status === 404 || xhr.status === 410) {
+                reject(new UploadSessionExpiredError());
+                return;
+            }
+            // A missing header is not offset 0; treating it as such would resend forever
+            const header = xhr.getResponseHeader('Upload-Offset');
+            const offset = header === null || header.trim() === '' ? NaN : Number(header);
+            if (xhr.status >= 200 && xhr.status < 300 && Number.isFinite(offset)) {
+                resolve(offset);
+            } else if (xhr.status >= 200 && xhr.status < 300) {
+                reject(new Error('Upload response is missing a valid Upload-Offset'));
+            } else {
+                reject(new Error(`Upload failed with status ${xhr.status}`));
+            }
+        };
+        xhr.onerror = () => {
+            settle();
+            reject(new Error('Network error during upload'));
+        };
+        xhr.ontimeout = () => {
+            settle();
+            reject(new Error('Upload timed out'));
+        };
+        xhr.onabort = () => {
+            settle();
+            reject(new Error('Upload cancelled'));
+        };
+
+        xhr.send(body ?? null);
+    });
+};
+
+/**
+ * tus transport for a local file
+ * @param url - Upload URL from the upload session
+ * @param fileUri - Local file to send
+ * @param authToken - Bearer token, for upload URLs on our own backend
+ */
+export const createTusTransport = (
+    url: string,
+    fileUri: string,
+    options: { authToken?: string | null; signal?: AbortSignal } = {}
+): ChunkTransport => {
+    const authHeaders: Record<string, string> = options.authToken
+        ? { Authorization: `Bearer ${options.authToken}` }
+        : {};
+
+    return {
+        getOffset: () => tusRequest({
+            method: 'HEAD',
+            url,
+            headers: authHeaders,
+            signal: options.signal,
+        }),
+        sendChunk: async (offset, length, onProgress) => tusRequest({
+            method: 'PATCH',
+            url,
+            headers: {
+                ...authHeaders,
+                'Upload-Offset': String(offset),
+                'Content-Type': 'application/offset+octet-stream',
+            },
+            body: await readChunk(fileUri, offset, length),
+            signal: options.signal,
+            onProgress,
+        }),
+    };
+};
+
+// ==================== SIGNED PUT TRANSPORT ====================
+
+/**
+ * Transport for upload URLs that take the whole file in one PUT (pre-signed
+ * S3/GCS URLs). Nothing can be resumed: the offset is always 0 until the PUT
+ * succeeds.
+ * @param url - Upload URL from the upload session
+ * @param file - Local file to send
+ * @param authToken - Bearer token, for upload URLs on our own backend
+ */
+export const createSignedPutTransport = (
+    url: string,
+    file: { uri: string; type: string; name: string; size: number },
+    options: { authToken?: string | null; signal?: AbortSignal } = {}
+): ChunkTransport => ({
+    chunkSize: file.size,
+    getOffset: async () => 0,
+    sendChunk: (_offset, _length, onProgress) => new Promise((resolve, reject) => {
+        const { authToken, signal } = options;
+        if (signal?.aborted) {
+            reject(new Error('Upload cancelled'));
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open('PUT', url);
+        xhr.timeout = UPLOAD_TIMEOUT_MS;
+        xhr.setRequestHeader('Content-Type', file.type);
+        if (authToken) {
+            xhr.setRequestHeader('Authorization', `Bearer ${authToken}`);
+        }
+
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener('abort', onAbort);
+        const settle = () => signal?.removeEventListener('abort', onAbort);
+
+        xhr.upload.onprogress = (event) => onProgress(event.loaded);
+        xhr.onload = () => {
+            settle();
+            if (xhr.status >= 200 && xhr.status < 300) {
+                resolve(file.size);
+            } else {
+                reject(new Error(`Upload failed with status ${xhr.status}`));
+            }
+        };
+        xhr.onerror = () => {
+            settle();
+            reject(new Error('Network error during upload'));
+        };
+        xhr.ontimeout = () => {
+            settle();
+            reject(new Error('Upload timed out'));
+        };
+        xhr.onabort = () => {
+            settle();
+            reject(new Error('Upload cancelled'));
+        };
+
+        const uri = Platform.OS === 'ios' ? file.uri.replace('file://', '') : file.uri;
+        xhr.send({ uri, type: file.type, name: file.name } as any);
+    }),
+});
+
+// ==================== CHUNKED UPLOAD ====================
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Uploads a file chunk by chunk, from `startOffset` to `size`.
+ * Each chunk is retried up to MAX_RETRIES times with exponential backoff,
+ * re-reading the server's offset first since a failed request may have
+ * partly landed. A chunk the server acknowledges without moving the offset
+ * forward counts as a failed attempt.
+ * @throws UploadSessionExpiredError when the upload URL is no longer valid
+ */
+export const uploadInChunks = async (
+    transport: ChunkTransport,
+    { size, startOffset = 0, signal, onProgress, onChunkConfirmed }: ChunkedUploadOptions
+): Promise<void> => {
+    // The server is the source of truth when resuming
+    let offset = startOffset > 0 ? await transport.getOffset() : 0;
+    let attempt = 0;
+    const chunkSize = transport.chunkSize ?? UPLOAD_CHUNK_SIZE;
+    onProgress?.(offset);
+
+    while (offset < size) {
+        if (signal?.aborted) {
+            throw new Error('Upload cancelled');
+        }
+
+        const chunkStart = offset;
+        const length = Math.min(chunkSize, size - chunkStart);
+
+        try {
+            const confirmed = await transport.sendChunk(chunkStart, length, (sent) => {
+                onProgress?.(chunkStart + Math.min(sent, length));
+            });
+            if (confirmed <= chunkStart) {
+                throw new Error(`Server did not advance the upload offset past ${chunkStart}`);
+            }
+            offset = confirmed;
+            attempt = 0;
+            onChunkConfirmed?.(offset);
+        } catch (error) {
+            if (error instanceof UploadSessionExpiredError || signal?.aborted || attempt >= MAX_RETRIES) {
+                throw error;
+            }
+
+            const delay = getRetryDelay(attempt);
+            attempt++;
+            console.warn(`Chunk at ${chunkStart} failed, retrying in ${delay}ms (attempt ${attempt}/${MAX_RETRIES})`, error);
+            await wait(delay);
+
+            offset = await transport.getOffset().catch((offsetError) => {
+                if (offsetError instanceof UploadSessionExpiredError) throw offsetError;
+                return chunkStart;
+            });
+            onProgress?.(offset);
+        }
+    }
+};
+
+export default {
+    createTusTransport,
+    createSignedPutTransport,
+    uploadInChunks,
+};
@@ -0,0 +1,220 @@
+/**
+ * Minimal runtime schema library for API contracts.
+ *
+ * Each schema validates an unknown value and returns a typed result;
+ * `Infer<typeof schema>` gives the TypeScript type, so DTO types and their
+ * runtime checks come from a single definition.
+ *
+ * Conventions (tuned for a Spring/Jackson backend):
+ * - Objects pass unknown keys through untouched, so new backend fields never
+ *   break older app builds
+ * - `optional()` accepts both undefined and null (Jackson serializes absent
+ *   values as null) and normalizes them to undefined
+ * - `default(value)` fills in undefined/null with a fallback
+ * - `lenientArray(item)` drops (and logs) entries that don't match, for lists
+ *   where one bad record shouldn't hide the rest
+ */
+
+// =============== ERRORS ===============
+
+export class SchemaError extends Error {
+  public path: string;
+  public expected: string;
+  public received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describe(value);
+    super(`${path || 'response'}: expected ${expected}, received ${received}`);
+    this.name = 'SchemaError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// =============== CORE ===============
+
+type Check<T> = (value: unknown, path: string) => T;
+
+export class Schema<T> {
+  constructor(public readonly expected: string, private readonly check: Check<T>) {}
+
+  /**
+   * Validate a value. Throws SchemaError describing the first mismatch.
+   */
+  parse(value: unknown, path = ''): T {
+    return this.check(value, path);
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>(`${this.expected} | undefined`, (value, path) =>
+      value === undefined || value === null ? undefined : this.check(value, path),
+    );
+  }
+
+  nullable(): Schema<T | null> {
+    return new Schema<T | null>(`${this.expected} | null`, (value, path) =>
+      value === undefined || value === null ? null : this.check(value, path),
+    );
+  }
+
+  default(fallback: T): Schema<T> {
+    return new Schema<T>(this.expected, (value, path) =>
+      value === undefined || value === null ? fallback : this.check(value, path),
+    );
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOutput<S extends Shape> = Flatten<
+  { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+// =============== BUILDERS ===============
+
+const string = () =>
+  new Schema<string>('string', (value, path) => {
+    if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+    return value;
+  });
+
+/**
+ * Finite number. Numeric strings are accepted because Java BigDecimal
+ * values are sometimes serialized as strings.
+ */
+const number = () =>
+  new Schema<number>('number', (value, path) => {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      throw new SchemaError(path, 'number', value);
+    }
+    return parsed;
+  });
+
+const boolean = () =>
+  new Schema<boolean>('boolean', (value, path) => {
+    if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+    return value;
+  });
+
+/**
+ * Entity id - backend sends numbers, the app uses strings
+ */
+const id = () =>
+  new Schema<string>('id', (value, path) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    if (typeof value === 'string' && value !== '') return value;
+    throw new SchemaError(path, 'id (string | number)', value);
+  });
+
+const oneOf = <const V extends readonly string[]>(values: V) =>
+  new Schema<V[number]>(values.map(v => `'${v}'`).join(' | '), (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      throw new SchemaError(path, `one of ${values.join(', ')}`, value);
+    }
+    return value as V[number];
+  });
+
+const unknown = () => new Schema<unknown>('unknown', value => value);
+
+const array = <T>(item: Schema<T>) =>
+  new Schema<T[]>(`${item.expected}[]`, (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+    return value.map((entry, index) => item.parse(entry, joinPath(path, index)));
+  });
+
+/**
+ * Array whose invalid entries are skipped with a warning instead of failing
+ * the whole value
+ */
+const lenientArray = <T>(item: Schema<T>) =>
+  new Schema<T[]>(`${item.expected}[]`, (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+    const result: T[] = [];
+    value.forEach((entry, index) => {
+      try {
+        result.push(item.parse(entry, joinPath(path, index)));
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        console.warn(`[Schema] Skipping invalid entry: ${error.message}`);
+      }
+    });
+    return result;
+  });
+
+const record = <T>(item: Schema<T>) =>
+  new Schema<Record<string, T>>(`Record<string, ${item.expected}>`, (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    const result: Record<string, T> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      result[key] = item.parse(entry, joinPath(path, key));
+    });
+    return result;
+  });
+
+const object = <S extends Shape>(shape: S) =>
+  new Schema<ObjectOutput<S>>('object', (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    Object.keys(shape).forEach(key => {
+      const parsed = shape[key].parse(source[key], joinPath(path, key));
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    });
+    return result as ObjectOutput<S>;
+  });
+
+const union = <A, B>(first: Schema<A>, second: Schema<B>) =>
+  new Schema<A | B>(`${first.expected} | ${second.expected}`, (value, path) => {
+    try {
+      return first.parse(value, path);
+    } catch {
+      try {
+        return second.parse(value, path);
+      } catch {
+        throw new SchemaError(path, `${first.expected} | ${second.expected}`, value);
+      }
+    }
+  });
+
+export const s = {
+  string,
+  number,
+  boolean,
+  id,
+  oneOf,
+  unknown,
+  array,
+  lenientArray,
+  record,
+  object,
+  union,
+};
@@ -0,0 +1,210 @@
+import type { SearchFilters } from '../services/contracts';
+import type { VehicleSearchFilters } from '../services/CarApi';
+import { isRangeSelected, RangeBucket } from '../services/vehicleSearch';
+import { cleanNumberInput, formatIndianNumber } from './formatting';
+import type { Coordinates } from './geo';
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  searchText: '',
+  make: [],
+  model: [],
+  yearMin: '',
+  yearMax: '',
+  priceMin: '',
+  priceMax: '',
+  mileageMax: '',
+  location: [],
+  condition: [],
+  fuelType: [],
+  transmission: [],
+  sortBy: 'price-low',
+};
+
+// Search screen sort keys -> backend `field,direction`
+const SORT_PARAMS: Record<SearchFilters['sortBy'], string | undefined> = {
+  'price-low': 'price,asc',
+  'price-high': 'price,desc',
+  'year-new': 'year,desc',
+  'year-old': 'year,asc',
+  'mileage-low': 'mileage,asc',
+  'mileage-high': 'mileage,desc',
+  distance: 'distanceKm,asc',
+  relevance: undefined,
+};
+
+const toNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(cleanNumberInput(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const joinList = (values: string[]): string | undefined => (values.length > 0 ? values.join(',') : undefined);
+
+/**
+ * True when no criterion narrows the search (sort order alone doesn't count)
+ */
+export const isEmptySearch = (filters: SearchFilters): boolean =>
+  !filters.searchText.trim() &&
+  [filters.make, filters.model, filters.location, filters.condition, filters.fuelType, filters.transmission]
+    .every(values => values.length === 0) &&
+  [filters.yearMin, filters.yearMax, filters.priceMin, filters.priceMax, filters.mileageMax]
+    .every(value => !value) &&
+  filters.radiusKm === undefined;
+
+/**
+ * Short human-readable summary, used as the default saved search name
+ */
+export const describeSearchFilters = (filters: SearchFilters): string => {
+  const parts: string[] = [];
+
+  if (filters.searchText.trim()) parts.push(`"${filters.searchText.trim()}"`);
+  if (filters.make.length) parts.push(filters.make.join(', '));
+  if (filters.model.length) parts.push(filters.model.join(', '));
+  if (filters.fuelType.length) parts.push(filters.fuelType.join(', '));
+  if (filters.transmission.length) parts.push(filters.transmission.join(', '));
+  if (filters.priceMin && filters.priceMax) parts.push(`₹${filters.priceMin}–₹${filters.priceMax}`);
+  else if (filters.priceMin) parts.push(`from ₹${filters.priceMin}`);
+  else if (filters.priceMax) parts.push(`under ₹${filters.priceMax}`);
+  if (filters.yearMin) parts.push(`${filters.yearMin}+`);
+  if (filters.location.length) parts.push(`in ${filters.location.join(', ')}`);
+  if (filters.radiusKm !== undefined) parts.push(`within ${filters.radiusKm} km`);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All vehicles';
+};
+
+/**
+ * Convert search screen filters to the shared search parameters used by
+ * SearchResults and useVehicleSearch. Multi-select values are comma-separated.
+ * `origin` (the current device position) takes precedence over the one a
+ * saved search was stored with.
+ */
+export const toVehicleSearchFilters = (filters: SearchFilters, origin?: Coordinates | null): VehicleSearchFilters => {
+  const searchOrigin = origin ?? filters.origin;
+  const usesOrigin = !!searchOrigin && (filters.radiusKm !== undefined || filters.sortBy === 'distance');
+
+  return {
+    query: filters.searchText.trim() || undefined,
+    make: joinList(filters.make),
+    model: joinList(filters.model),
+    location: joinList(filters.location),
+    condition: joinList(filters.condition),
+    fuelType: joinList(filters.fuelType),
+    transmission: joinList(filters.transmission),
+    minYear: filters.yearMin ? toNumber(filters.yearMin) : undefined,
+    maxYear: filters.yearMax ? toNumber(filters.yearMax) : undefined,
+    minPrice: filters.priceMin ? toNumber(filters.priceMin) : undefined,
+    maxPrice: filters.priceMax ? toNumber(filters.priceMax) : undefined,
+    maxMileage: filters.mileageMax ? toNumber(filters.mileageMax) : undefined,
+    latitude: usesOrigin ? searchOrigin.latitude : undefined,
+    longitude: usesOrigin ? searchOrigin.longitude : undefined,
+    radiusKm: usesOrigin ? filters.radiusKm : undefined,
+    // Distance order is meaningless without a position
+    sort: filters.sortBy === 'distance' && !usesOrigin ? undefined : SORT_PARAMS[filters.sortBy],
+  };
+};
+
+/**
+ * Toggle one value in a comma-separated multi-select (SearchResults filters);
+ * returns undefined once nothing is left selected
+ */
+export const toggleListValue = (list: string | undefined, value: string): string | undefined => {
+  const values = list ? list.split(',').map(item => item.trim()).filter(Boolean) : [];
+  const next = values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+  return joinList(next);
+};
+
+// Range facets and the min/max text fields they drive
+const RANGE_FIELDS = {
+  year: ['yearMin', 'yearMax'],
+  price: ['priceMin', 'priceMax'],
+} as const;
+
+type RangeFacet = keyof typeof RANGE_FIELDS;
+
+const toRangeText = (range: RangeFacet, value: number | null) => {
+  if (value === null) return '';
+  return range === 'price' ? formatIndianNumber(value) : String(value);
+};
+
+export const isRangeBucketSelected = (filters: SearchFilters, range: RangeFacet, bucket: RangeBucket): boolean => {
+  const [minKey, maxKey] = RANGE_FIELDS[range];
+  return isRangeSelected(bucket, toNumber(filters[minKey]), toNumber(filters[maxKey]));
+};
+
+/**
+ * Select a year/price bucket by filling in its min/max fields, or clear them
+ * when the bucket is already selected
+ */
+export const toggleRangeBucket = (filters: SearchFilters, range: RangeFacet, bucket: RangeBucket): SearchFilters => {
+  const [minKey, maxKey] = RANGE_FIELDS[range];
+  const selected = isRangeBucketSelected(filters, range, bucket);
+  return {
+    ...filters,
+    [minKey]: selected ? '' : toRangeText(range, bucket.min),
+    [maxKey]: selected ? '' : toRangeText(range, bucket.max),
+  };
+};
+
+// =============== LINKS ===============
+
+// Shared search filters -> query-string names in search links (/search?brand=...)
+const LINK_TEXT_PARAMS = {
+  query: 'q',
+  make: 'brand',
+  model: 'model',
+  location: 'city',
+  condition: 'condition',
+  fuelType: 'fuel',
+  transmission: 'transmission',
+  color: 'color',
+  sort: 'sort',
+} as const;
+
+const LINK_NUMBER_PARAMS = {
+  minYear: 'minYear',
+  maxYear: 'maxYear',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  maxMileage: 'maxKm',
+} as const;
+
+/**
+ * Query parameters for a shareable search link. The search origin (and so
+ * the radius and distance sort) is left out: it's the sharer's position, and
+ * the recipient's results should be near them, not the sharer.
+ */
+export const toSearchLinkParams = (filters: VehicleSearchFilters): Record<string, string> => {
+  const params: Record<string, string> = {};
+  (Object.keys(LINK_TEXT_PARAMS) as Array<keyof typeof LINK_TEXT_PARAMS>).forEach(key => {
+    const value = filters[key]?.trim();
+    if (value && !(key === 'sort' && value === SORT_PARAMS.distance)) params[LINK_TEXT_PARAMS[key]] = value;
+  });
+  (Object.keys(LINK_NUMBER_PARAMS) as Array<keyof typeof LINK_NUMBER_PARAMS>).forEach(key => {
+    const value = filters[key];
+    if (value !== undefined) params[LINK_NUMBER_PARAMS[key]] = String(value);
+  });
+  if (filters.featured) params.featured = 'true';
+  return params;
+};
+
+/**
+ * Search filters from a search link's query parameters; unknown or malformed
+ * values are dropped rather than failing the link
+ */
+export const fromSearchLinkParams = (params: Record<string, unknown>): VehicleSearchFilters => {
+  const filters: VehicleSearchFilters = {};
+  const text = (name: string) => {
+    const value = params[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  (Object.keys(LINK_TEXT_PARAMS) as Array<keyof typeof LINK_TEXT_PARAMS>).forEach(key => {
+    const value = text(LINK_TEXT_PARAMS[key]);
+    if (value) filters[key] = value;
+  });
+  (Object.keys(LINK_NUMBER_PARAMS) as Array<keyof typeof LINK_NUMBER_PARAMS>).forEach(key => {
+    const value = Number(text(LINK_NUMBER_PARAMS[key]));
+    if (Number.isFinite(value)) filters[key] = value;
+  });
+  if (text('featured') === 'true') filters.featured = true;
+  return filters;
+};
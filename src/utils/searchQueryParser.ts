@@ -0,0 +1,357 @@
+import type { VehicleSearchFilters } from '../services/CarApi';
+import { BRAND_ALIASES, CAR_BRANDS, CAR_COLORS } from './carCatalog';
+import { formatIndianNumber } from './formatting';
+
+/**
+ * Natural-language search box parsing: "white creta diesel under 10 lakh 2019"
+ * -> { color: White, model: Creta (Hyundai), fuelType: Diesel,
+ *      maxPrice: 1000000, minYear/maxYear: 2019 }.
+ *
+ * Every recognised phrase becomes a chip that remembers where it was typed,
+ * so removing the chip removes those words. Whatever isn't recognised stays
+ * as the full-text keyword.
+ */
+
+// =============== TYPES ===============
+
+export type QueryChipKind = 'brand' | 'model' | 'color' | 'fuelType' | 'transmission' | 'year' | 'price';
+
+export interface QueryChip {
+  key: string;
+  kind: QueryChipKind;
+  label: string;
+  // Span in the typed text
+  start: number;
+  end: number;
+  filters: Partial<VehicleSearchFilters>;
+}
+
+export interface ParsedSearchQuery {
+  // Words left over for full-text search
+  keyword: string;
+  chips: QueryChip[];
+  // Structured filters from the chips, plus `query` for the keyword
+  filters: VehicleSearchFilters;
+}
+
+/** Brand name -> model names */
+export type ModelsByBrand = Record<string, string[]>;
+
+type ChipDraft = Omit<QueryChip, 'key' | 'start' | 'end'>;
+
+interface Rule {
+  pattern: RegExp;
+  handle: (match: RegExpExecArray) => ChipDraft | null;
+}
+
+// =============== VOCABULARY ===============
+
+const FUEL_WORDS: Record<string, string> = {
+  petrol: 'Petrol',
+  gasoline: 'Petrol',
+  diesel: 'Diesel',
+  cng: 'CNG',
+  electric: 'Electric',
+  ev: 'Electric',
+  hybrid: 'Hybrid',
+};
+
+// Plain "auto" and "at" are left out: "swift at pune", "i20 auto expo"
+const TRANSMISSION_WORDS: Record<string, string> = {
+  manual: 'Manual',
+  mt: 'Manual',
+  automatic: 'Automatic',
+  'auto transmission': 'Automatic',
+  'auto gear': 'Automatic',
+  amt: 'Automatic',
+  cvt: 'Automatic',
+  dct: 'Automatic',
+};
+
+const COLOR_WORDS: Record<string, string> = {
+  ...Object.fromEntries(CAR_COLORS.map(color => [color.id, color.name])),
+  gray: 'Grey',
+};
+
+// Filler that shouldn't end up in the keyword
+const STOP_WORDS = new Set(['car', 'cars', 'a', 'an', 'the', 'in', 'at', 'with', 'for', 'and', 'under', 'below', 'above', 'rs', 'inr']);
+
+const UNIT_VALUES: Array<[RegExp, number]> = [
+  [/^(l|lakhs?|lacs?)$/i, 100000],
+  [/^(cr|crores?)$/i, 10000000],
+  [/^(k|thousand)$/i, 1000],
+];
+
+const MIN_YEAR = 1990;
+
+// =============== HELPERS ===============
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "C-Class" also matches "c class" and "cclass"
+const phrasePattern = (phrase: string) =>
+  phrase.toLowerCase().split(/[\s-]+/).map(escapeRegExp).join('[\\s-]?');
+
+const normalizePhrase = (value: string) => value.toLowerCase().replace(/[\s-]+/g, ' ').trim();
+
+const alternation = (phrases: string[]) =>
+  [...phrases].sort((a, b) => b.length - a.length).map(phrasePattern).join('|');
+
+const unitValue = (unit?: string) => UNIT_VALUES.find(([pattern]) => unit && pattern.test(unit))?.[1];
+
+const toAmount = (value: string, unit?: string) => {
+  const multiplier = unitValue(unit);
+  return multiplier ? Math.round(parseFloat(value) * multiplier) : undefined;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Short Indian price label: ₹85,000 / ₹10 L / ₹1.2 Cr
+ */
+export const formatPriceShort = (amount: number): string => {
+  if (amount >= 10000000) return `₹${round2(amount / 10000000)} Cr`;
+  if (amount >= 100000) return `₹${round2(amount / 100000)} L`;
+  return `₹${formatIndianNumber(amount)}`;
+};
+
+const isYear = (value: number) => value >= MIN_YEAR && value <= new Date().getFullYear() + 1;
+
+const LIST_KEYS = ['make', 'model', 'color', 'fuelType', 'transmission'] as const;
+const NUMBER_KEYS = ['minYear', 'maxYear', 'minPrice', 'maxPrice'] as const;
+
+const joinUnique = (left: string | undefined, right: string) => {
+  const values = [...(left ? left.split(',') : []), ...right.split(',')].map(v => v.trim()).filter(Boolean);
+  return [...new Set(values)].join(',');
+};
+
+/**
+ * Add structured filters on top of existing ones: multi-selects are combined,
+ * numeric bounds from `extra` win.
+ */
+export const mergeSearchFilters = (
+  base: VehicleSearchFilters,
+  extra: Partial<VehicleSearchFilters>,
+): VehicleSearchFilters => {
+  const merged: VehicleSearchFilters = { ...base };
+  LIST_KEYS.forEach(key => {
+    const value = extra[key];
+    if (value) merged[key] = joinUnique(merged[key], value);
+  });
+  NUMBER_KEYS.forEach(key => {
+    const value = extra[key];
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged;
+};
+
+// =============== RULES ===============
+
+const NUM = '(\\d+(?:\\.\\d+)?)';
+const UNIT = '(lakhs?|lacs?|l|crores?|cr|k|thousand)';
+const CURRENCY = '(?:(?:rs\\.?|inr)\\s*|₹\\s*)?';
+// "50k km", "3.2 litre": a distance or engine size, not a price
+const NOT_DISTANCE_OR_VOLUME = '(?!\\s*(?:kms?|kilomet(?:er|re)s?|litres?|liters?|ltrs?)\\b)';
+const YEAR = '((?:19|20)\\d{2})';
+
+const priceRules: Rule[] = [
+  // "5-8L", "5 to 8 lakh", "between 10 lakh and 1.2 cr"
+  {
+    pattern: new RegExp(`\\b(?:between\\s+)?${CURRENCY}${NUM}\\s*${UNIT}?\\s*(?:-|–|to|and)\\s*${CURRENCY}${NUM}\\s*${UNIT}\\b${NOT_DISTANCE_OR_VOLUME}`),
+    handle: match => {
+      const max = toAmount(match[3], match[4]);
+      const min = toAmount(match[1], match[2] ?? match[4]);
+      if (min === undefined || max === undefined || min > max) return null;
+      return {
+        kind: 'price',
+        label: `${formatPriceShort(min)} – ${formatPriceShort(max)}`,
+        filters: { minPrice: min, maxPrice: max },
+      };
+    },
+  },
+  // "under 10 lakh", "above 5L"
+  {
+    pattern: new RegExp(`\\b(under|below|upto|up to|less than|within|max|maximum|above|over|more than|min|minimum|from|starting)\\s+${CURRENCY}${NUM}\\s*${UNIT}\\b${NOT_DISTANCE_OR_VOLUME}`),
+    handle: match => {
+      const amount = toAmount(match[2], match[3]);
+      if (amount === undefined) return null;
+      const isMax = /^(under|below|upto|up to|less than|within|max|maximum)$/i.test(match[1].replace(/\s+/g, ' '));
+      return isMax
+        ? { kind: 'price', label: `Under ${formatPriceShort(amount)}`, filters: { maxPrice: amount } }
+        : { kind: 'price', label: `Above ${formatPriceShort(amount)}`, filters: { minPrice: amount } };
+    },
+  },
+  // A bare amount is a budget: "10 lakh", "₹1.2 cr"
+  {
+    pattern: new RegExp(`${CURRENCY}\\b${NUM}\\s*${UNIT}\\b${NOT_DISTANCE_OR_VOLUME}`),
+    handle: match => {
+      // The tail of a longer number ("3.2 l" also matches as "2 l")
+      if (/[\d.]$/.test(match.input.slice(0, match.index))) return null;
+      // "endeavour 3.2 l" is the engine; a decimal "L" budget needs a currency sign
+      const isPrice = /^(rs|inr|₹)/i.test(match[0]) || !match[1].includes('.') || !/^l$/i.test(match[2]);
+      const amount = isPrice ? toAmount(match[1], match[2]) : undefined;
+      if (amount === undefined) return null;
+      return { kind: 'price', label: `Under ${formatPriceShort(amount)}`, filters: { maxPrice: amount } };
+    },
+  },
+];
+
+const yearRules: Rule[] = [
+  // "2018-2020", "2018 to 2020"
+  {
+    pattern: new RegExp(`\\b${YEAR}\\s*(?:-|–|to)\\s*${YEAR}\\b`),
+    handle: match => {
+      const from = Number(match[1]);
+      const to = Number(match[2]);
+      if (!isYear(from) || !isYear(to) || from > to) return null;
+      return { kind: 'year', label: `${from}–${to}`, filters: { minYear: from, maxYear: to } };
+    },
+  },
+  // "after 2018", "since 2018", "before 2015"
+  {
+    pattern: new RegExp(`\\b(after|since|from|newer than|before|older than|till|until|upto|up to)\\s+${YEAR}\\b`),
+    handle: match => {
+      const year = Number(match[2]);
+      if (!isYear(year)) return null;
+      switch (match[1].toLowerCase().replace(/\s+/g, ' ')) {
+        case 'after':
+        case 'newer than':
+          return { kind: 'year', label: `${year + 1}+`, filters: { minYear: year + 1 } };
+        case 'since':
+        case 'from':
+          return { kind: 'year', label: `${year}+`, filters: { minYear: year } };
+        case 'before':
+        case 'older than':
+          return { kind: 'year', label: `Before ${year}`, filters: { maxYear: year - 1 } };
+        default:
+          return { kind: 'year', label: `Up to ${year}`, filters: { maxYear: year } };
+      }
+    },
+  },
+  // "2018+", "2018 onwards"
+  {
+    pattern: new RegExp(`\\b${YEAR}\\s*(?:\\+|onwards|or newer|and above)`),
+    handle: match => {
+      const year = Number(match[1]);
+      return isYear(year) ? { kind: 'year', label: `${year}+`, filters: { minYear: year } } : null;
+    },
+  },
+  // A bare year is that model year
+  {
+    pattern: new RegExp(`\\b${YEAR}\\b`),
+    handle: match => {
+      const year = Number(match[1]);
+      return isYear(year) ? { kind: 'year', label: String(year), filters: { minYear: year, maxYear: year } } : null;
+    },
+  },
+];
+
+const wordRule = (kind: QueryChipKind, words: Record<string, string>, key: 'color' | 'fuelType' | 'transmission'): Rule => ({
+  pattern: new RegExp(`\\b(${alternation(Object.keys(words))})\\b`),
+  handle: match => {
+    const value = words[normalizePhrase(match[1])];
+    return value ? { kind, label: value, filters: { [key]: value } } : null;
+  },
+});
+
+const BRAND_BY_ALIAS = new Map<string, string>();
+CAR_BRANDS.forEach(brand => {
+  [brand.name, brand.id, ...(BRAND_ALIASES[brand.id] ?? [])].forEach(alias => {
+    BRAND_BY_ALIAS.set(normalizePhrase(alias), brand.name);
+  });
+});
+
+const brandRule: Rule = {
+  pattern: new RegExp(`\\b(${alternation([...BRAND_BY_ALIAS.keys()])})\\b`),
+  handle: match => {
+    const brand = BRAND_BY_ALIAS.get(normalizePhrase(match[1]));
+    return brand ? { kind: 'brand', label: brand, filters: { make: brand } } : null;
+  },
+};
+
+const modelRule = (modelsByBrand: ModelsByBrand): Rule | null => {
+  const brandByModel = new Map<string, { brand: string; model: string }>();
+  Object.entries(modelsByBrand).forEach(([brand, models]) => {
+    models.forEach(model => brandByModel.set(normalizePhrase(model), { brand, model }));
+  });
+  if (brandByModel.size === 0) return null;
+
+  return {
+    pattern: new RegExp(`\\b(${alternation([...brandByModel.keys()])})\\b`),
+    handle: match => {
+      const entry = brandByModel.get(normalizePhrase(match[1]));
+      return entry
+        ? { kind: 'model', label: `${entry.brand} ${entry.model}`, filters: { make: entry.brand, model: entry.model } }
+        : null;
+    },
+  };
+};
+
+// =============== PARSER ===============
+
+/**
+ * Parse a typed search. Rules run in priority order (prices before years so
+ * "5-8L" isn't read as years, models before brands and fuel so "ZS EV" stays
+ * a model); a phrase is only claimed once.
+ */
+export const parseSearchQuery = (text: string, modelsByBrand: ModelsByBrand = {}): ParsedSearchQuery => {
+  const rules = [
+    ...priceRules,
+    ...yearRules,
+    modelRule(modelsByBrand),
+    brandRule,
+    wordRule('color', COLOR_WORDS, 'color'),
+    wordRule('fuelType', FUEL_WORDS, 'fuelType'),
+    wordRule('transmission', TRANSMISSION_WORDS, 'transmission'),
+  ].filter((rule): rule is Rule => !!rule);
+
+  const taken = new Array<boolean>(text.length).fill(false);
+  const chips: QueryChip[] = [];
+
+  rules.forEach(rule => {
+    const pattern = new RegExp(rule.pattern.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (end === start) {
+        pattern.lastIndex++;
+        continue;
+      }
+      if (taken.slice(start, end).some(Boolean)) continue;
+
+      const draft = rule.handle(match);
+      if (!draft) continue;
+      taken.fill(true, start, end);
+      chips.push({ ...draft, key: `${draft.kind}:${start}`, start, end });
+    }
+  });
+
+  chips.sort((a, b) => a.start - b.start);
+
+  const keyword = Array.from(text, (char, index) => (taken[index] ? ' ' : char))
+    .join('')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word.toLowerCase()))
+    .join(' ');
+
+  const filters = chips.reduce<VehicleSearchFilters>(
+    (result, chip) => mergeSearchFilters(result, chip.filters),
+    keyword ? { query: keyword } : {},
+  );
+
+  return { keyword, chips, filters };
+};
+
+/**
+ * The typed text without the words behind `chip`
+ */
+export const removeChipFromQuery = (text: string, chip: QueryChip): string =>
+  `${text.slice(0, chip.start)} ${text.slice(chip.end)}`.replace(/\s+/g, ' ').trim();
+
+/**
+ * Brands mentioned in the text (explicitly or via a known model), used to
+ * fetch those brands' full model lists
+ */
+export const mentionedBrands = (parsed: ParsedSearchQuery): string[] =>
+  [...new Set(parsed.chips.flatMap(chip => (chip.filters.make ? chip.filters.make.split(',') : [])))];
@@ -0,0 +1,201 @@
+import { BRAND_ALIASES, CAR_BRANDS, CAR_CITIES, POPULAR_SEARCHES } from './carCatalog';
+import type { ModelsByBrand } from './searchQueryParser';
+
+/**
+ * Search bar autocomplete: recent searches, popular searches, brands, models
+ * and cities ranked against what's typed, tolerating typos ("hundai",
+ * "swfit").
+ */
+
+// =============== TYPES ===============
+
+export type SuggestionKind = 'recent' | 'popular' | 'brand' | 'model' | 'city';
+
+export interface SearchSuggestion {
+  key: string;
+  kind: SuggestionKind;
+  label: string;
+  // Picking a recent/popular suggestion searches its text; brands, models and
+  // cities are applied as filters instead
+  searchText?: string;
+  filter?: { make?: string; model?: string; location?: string };
+}
+
+export interface SuggestionSources {
+  recentSearches: string[];
+  modelsByBrand: ModelsByBrand;
+  popularSearches?: string[];
+  cities?: string[];
+}
+
+// =============== MATCHING ===============
+
+export const MAX_SUGGESTIONS = 8;
+
+// Earlier kinds win ties
+const KIND_ORDER: SuggestionKind[] = ['recent', 'brand', 'model', 'city', 'popular'];
+
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[\s-]+/g, ' ').trim();
+
+// Typos allowed grow with what's typed; none for very short input
+const typoAllowance = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+/**
+ * Edit distance counting adjacent swaps as one edit ("swfit" -> "swift").
+ * Gives up once it's clearly above `max`.
+ */
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+};
+
+/**
+ * How well `candidate` matches what's typed: 0 for a prefix, 1 for a word
+ * prefix, 2 for a substring, 3+ for a typo-tolerant prefix. Undefined when it
+ * doesn't match.
+ */
+export const matchScore = (query: string, candidate: string): number | undefined => {
+  const typed = normalize(query);
+  const target = normalize(candidate);
+  if (!typed || !target) return undefined;
+
+  if (target.startsWith(typed)) return 0;
+  const words = target.split(' ');
+  if (words.some(word => word.startsWith(typed))) return 1;
+  if (target.includes(typed)) return 2;
+
+  const allowed = typoAllowance(typed.length);
+  if (allowed === 0) return undefined;
+
+  // Compare against prefixes of about the typed length, so "hundai" matches
+  // "hyundai creta" while the rest is still being typed
+  let best = allowed + 1;
+  [target, ...words].forEach(text => {
+    for (let length = typed.length - allowed; length <= typed.length + allowed; length++) {
+      if (length < 1 || length > text.length) continue;
+      best = Math.min(best, editDistance(typed, text.slice(0, length), allowed));
+    }
+  });
+  return best <= allowed ? 3 + best : undefined;
+};
+
+// The best score among a candidate's spellings
+const bestScore = (query: string, spellings: string[]) =>
+  spellings.reduce<number | undefined>((best, spelling) => {
+    const score = matchScore(query, spelling);
+    return score !== undefined && (best === undefined || score < best) ? score : best;
+  }, undefined);
+
+const brandSpellings = (brand: (typeof CAR_BRANDS)[number]) => [brand.name, ...(BRAND_ALIASES[brand.id] ?? [])];
+
+/**
+ * Brand names matching any typed word, for fetching their model lists while
+ * the rest is typed
+ */
+export const matchingBrands = (text: string, limit = 3): string[] => {
+  const words = normalize(text).split(' ').filter(word => word.length >= 2);
+  if (words.length === 0) return [];
+  return CAR_BRANDS
+    .map(brand => ({ brand: brand.name, score: Math.min(...words.map(word => bestScore(word, brandSpellings(brand)) ?? Infinity)) }))
+    .filter(entry => entry.score !== Infinity)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(entry => entry.brand);
+};
+
+// =============== SUGGESTIONS ===============
+
+interface Ranked {
+  suggestion: SearchSuggestion;
+  score: number;
+}
+
+/**
+ * Suggestions for the search bar. With nothing typed: recent searches, then
+ * popular ones. Otherwise every source is ranked together by match quality.
+ */
+export const buildSearchSuggestions = (
+  text: string,
+  { recentSearches, modelsByBrand, popularSearches = POPULAR_SEARCHES, cities = CAR_CITIES }: SuggestionSources,
+  limit = MAX_SUGGESTIONS,
+): SearchSuggestion[] => {
+  const query = text.trim();
+
+  if (!query) {
+    return [
+      ...recentSearches.map(term => ({ key: `recent:${term}`, kind: 'recent' as const, label: term, searchText: term })),
+      ...popularSearches.map(term => ({ key: `popular:${term}`, kind: 'popular' as const, label: term, searchText: term })),
+    ].slice(0, limit);
+  }
+
+  const ranked: Ranked[] = [];
+  const add = (score: number | undefined, suggestion: SearchSuggestion) => {
+    if (score !== undefined) ranked.push({ suggestion, score });
+  };
+
+  recentSearches.forEach(term => {
+    add(bestScore(query, [term]), { key: `recent:${term}`, kind: 'recent', label: term, searchText: term });
+  });
+  CAR_BRANDS.forEach(brand => {
+    add(bestScore(query, brandSpellings(brand)), {
+      key: `brand:${brand.name}`,
+      kind: 'brand',
+      label: brand.name,
+      filter: { make: brand.name },
+    });
+  });
+  Object.entries(modelsByBrand).forEach(([brand, models]) => {
+    models.forEach(model => {
+      add(bestScore(query, [model, `${brand} ${model}`]), {
+        key: `model:${brand}:${model}`,
+        kind: 'model',
+        label: `${brand} ${model}`,
+        filter: { make: brand, model },
+      });
+    });
+  });
+  cities.forEach(city => {
+    add(bestScore(query, [city]), { key: `city:${city}`, kind: 'city', label: city, filter: { location: city } });
+  });
+  popularSearches.forEach(term => {
+    add(bestScore(query, [term]), { key: `popular:${term}`, kind: 'popular', label: term, searchText: term });
+  });
+
+  ranked.sort((a, b) =>
+    a.score - b.score ||
+    KIND_ORDER.indexOf(a.suggestion.kind) - KIND_ORDER.indexOf(b.suggestion.kind) ||
+    a.suggestion.label.length - b.suggestion.label.length,
+  );
+
+  // A recent search and a popular one can read the same
+  const seen = new Set<string>();
+  return ranked
+    .map(entry => entry.suggestion)
+    .filter(suggestion => {
+      const label = normalize(suggestion.label);
+      if (seen.has(label)) return false;
+      seen.add(label);
+      return true;
+    })
+    .slice(0, limit);
+};
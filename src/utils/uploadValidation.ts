@@ -51,9 +51,12 @@ export const MAX_VIDEO_DURATION = 270;
 /** Maximum number of images per car */
 export const MAX_IMAGES_PER_CAR = 9;
 
-/** Upload timeout per file (60 seconds) */
+/** Upload timeout per request - one chunk of a resumable upload (60 seconds) */
 export const UPLOAD_TIMEOUT_MS = 60000;
 
+/** Size of each resumable upload chunk (2MB) - small enough to finish within UPLOAD_TIMEOUT_MS on a slow connection */
+export const UPLOAD_CHUNK_SIZE = 2 * 1024 * 1024;
+
 /** Compression timeout for video (3 minutes) */
 export const COMPRESSION_TIMEOUT_MS = 180000;
 
@@ -0,0 +1,137 @@
+import type { Vehicle } from '../services/contracts';
+
+export const MAX_COMPARE_VEHICLES = 4;
+
+export type ComparisonSection = 'overview' | 'condition' | 'specifications';
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  section: ComparisonSection;
+  values: string[];
+  // Column indexes holding the best value (empty when there's no ranking or all tie)
+  best: number[];
+  // True when the vehicles don't all share the same value
+  differs: boolean;
+}
+
+type Direction = 'lower' | 'higher';
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 });
+
+const formatKm = (km: number) => `${km.toLocaleString('en-IN')} km`;
+
+const ordinal = (n: number) => (n === 1 ? '1st' : n === 2 ? '2nd' : n === 3 ? '3rd' : `${n}th`);
+
+const labelFromKey = (key: string) =>
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const display = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const ownerCount = (vehicle: Vehicle): number | undefined =>
+  vehicle.numberOfOwners ?? vehicle.specifications.numberOfOwners;
+
+/**
+ * Indexes of the best numeric values. Missing values never win, and a row
+ * where every vehicle ties highlights nothing.
+ */
+const bestIndexes = (numbers: (number | undefined)[], direction: Direction): number[] => {
+  const known = numbers.filter((n): n is number => typeof n === 'number' && Number.isFinite(n));
+  if (known.length < 2) return [];
+  const target = direction === 'lower' ? Math.min(...known) : Math.max(...known);
+  const winners = numbers.flatMap((n, index) => (n === target ? [index] : []));
+  return winners.length === numbers.length ? [] : winners;
+};
+
+const makeRow = (
+  key: string,
+  label: string,
+  section: ComparisonSection,
+  values: string[],
+  best: number[] = [],
+): ComparisonRow => ({
+  key,
+  label,
+  section,
+  values,
+  best,
+  differs: new Set(values).size > 1,
+});
+
+const numericRow = (
+  key: string,
+  label: string,
+  vehicles: Vehicle[],
+  pick: (vehicle: Vehicle) => number | undefined,
+  format: (value: number) => string,
+  direction: Direction,
+): ComparisonRow => {
+  const numbers = vehicles.map(pick);
+  return makeRow(
+    key,
+    label,
+    'overview',
+    numbers.map(n => (n === undefined ? '—' : format(n))),
+    bestIndexes(numbers, direction),
+  );
+};
+
+// "No" is the best answer to a disclosure question; unanswered is never best
+const disclosureRow = (
+  key: 'accidentHistory' | 'repaintedParts' | 'floodDamage',
+  label: string,
+  vehicles: Vehicle[],
+): ComparisonRow => {
+  const answers = vehicles.map(vehicle => vehicle[key]);
+  const scores = answers.map(answer => (answer === false ? 0 : answer === true ? 1 : undefined));
+  return makeRow(
+    key,
+    label,
+    'condition',
+    answers.map(answer => (answer === null || answer === undefined ? 'Not disclosed' : display(answer))),
+    bestIndexes(scores, 'lower'),
+  );
+};
+
+// Already covered by the overview rows
+const DUPLICATED_SPECS = new Set(['fuelType', 'transmission', 'kmDriven', 'numberOfOwners', 'location', 'description']);
+
+/**
+ * Build the side-by-side table for up to MAX_COMPARE_VEHICLES vehicles.
+ * Values are pre-formatted; `best` marks the winning columns per row.
+ */
+export const buildComparison = (vehicles: Vehicle[]): ComparisonRow[] => {
+  const rows: ComparisonRow[] = [
+    numericRow('price', 'Price', vehicles, v => v.price, formatPrice, 'lower'),
+    numericRow('year', 'Year', vehicles, v => v.year, String, 'higher'),
+    numericRow('mileage', 'Mileage', vehicles, v => v.mileage, formatKm, 'lower'),
+    makeRow('fuelType', 'Fuel', 'overview',
+      vehicles.map(v => display(v.fuelType ?? v.specifications.fuelType))),
+    makeRow('transmission', 'Transmission', 'overview',
+      vehicles.map(v => display(v.transmission ?? v.specifications.transmission))),
+    numericRow('owners', 'Owner', vehicles, ownerCount, n => `${ordinal(n)} owner`, 'lower'),
+    makeRow('condition', 'Condition', 'condition', vehicles.map(v => display(v.condition))),
+    disclosureRow('accidentHistory', 'Accident history', vehicles),
+    disclosureRow('floodDamage', 'Flood damage', vehicles),
+    disclosureRow('repaintedParts', 'Repainted parts', vehicles),
+  ];
+
+  const specKeys = Array.from(new Set(vehicles.flatMap(v => Object.keys(v.specifications))))
+    .filter(key => !DUPLICATED_SPECS.has(key));
+
+  specKeys.forEach(key => {
+    rows.push(makeRow(
+      `spec.${key}`,
+      labelFromKey(key),
+      'specifications',
+      vehicles.map(v => display((v.specifications as Record<string, unknown>)[key])),
+    ));
+  });
+
+  return rows;
+};